@@ -18,11 +18,14 @@ const Pricing = lazy(() => import("./pages/Pricing"));
 const Academy = lazy(() => import("./pages/Academy"));
 const PrivacyPolicy = lazy(() => import("./pages/PrivacyPolicy"));
 const TermsOfService = lazy(() => import("./pages/TermsOfService"));
+const SharedChart = lazy(() => import("./pages/SharedChart"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 // Dashboard sub-routes
 const Overview = lazy(() => import("./pages/dashboard/Overview"));
 const Watchlist = lazy(() => import("./pages/dashboard/Watchlist"));
+const Portfolio = lazy(() => import("./pages/dashboard/Portfolio"));
+const Screener = lazy(() => import("./pages/dashboard/Screener"));
 const News = lazy(() => import("./pages/dashboard/News"));
 const Analysis = lazy(() => import("./pages/dashboard/Analysis"));
 const CalculatorPage = lazy(() => import("./pages/dashboard/CalculatorPage"));
@@ -102,10 +105,13 @@ const App = () => (
                 <Route path="/academy" element={<Academy />} />
                 <Route path="/privacy" element={<PrivacyPolicy />} />
                 <Route path="/terms" element={<TermsOfService />} />
+                <Route path="/s/:id" element={<SharedChart />} />
                 <Route path="/dashboard" element={<Dashboard />}>
                   <Route index element={<Overview />} />
                   <Route path="coach" element={<Coach />} />
                   <Route path="watchlist" element={<Watchlist />} />
+                  <Route path="portfolio" element={<Portfolio />} />
+                  <Route path="screener" element={<Screener />} />
                   <Route path="news" element={<News />} />
                   <Route path="analysis" element={<Analysis />} />
                   <Route path="macro" element={<MacroOverview />} />
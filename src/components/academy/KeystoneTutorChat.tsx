@@ -7,6 +7,9 @@ import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import ReactMarkdown from "react-markdown";
 import { supabase } from "@/integrations/supabase/client";
+import { useQueryClient } from "@tanstack/react-query";
+import { AI_USAGE_KEY, useAiUsage } from "@/hooks/useAiUsage";
+import { AiUsageMeter } from "@/components/premium/AiUsageMeter";
 import {
   MessageCircle,
   X,
@@ -39,6 +42,8 @@ export function KeystoneTutorChat() {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const { isExhausted: aiQuotaReached } = useAiUsage();
 
   // Scroll to bottom when messages change
   useEffect(() => {
@@ -73,7 +78,9 @@ export function KeystoneTutorChat() {
         });
 
         if (resp.status === 429) {
-          toast.error("Rate limit exceeded. Please wait a moment and try again.");
+          // Either the per-minute rate limit or the plan's daily AI quota
+          const data = await resp.json().catch(() => ({}));
+          toast.error(data.quota ? data.error : "Rate limit exceeded. Please wait a moment and try again.");
           setIsLoading(false);
           return;
         }
@@ -160,18 +167,19 @@ export function KeystoneTutorChat() {
         toast.error("An error occurred. Please try again.");
       } finally {
         setIsLoading(false);
+        queryClient.invalidateQueries({ queryKey: AI_USAGE_KEY });
       }
     },
-    [messages]
+    [messages, queryClient]
   );
 
   const handleSend = () => {
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || aiQuotaReached) return;
     streamChat(input.trim());
   };
 
   const handleQuickAsk = (question: string) => {
-    if (isLoading) return;
+    if (isLoading || aiQuotaReached) return;
     streamChat(question);
   };
 
@@ -307,10 +315,11 @@ export function KeystoneTutorChat() {
             disabled={isLoading}
             className="flex-1"
           />
-          <Button type="submit" size="icon" disabled={isLoading || !input.trim()}>
+          <Button type="submit" size="icon" disabled={isLoading || !input.trim() || aiQuotaReached}>
             {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
           </Button>
         </form>
+        <AiUsageMeter variant="compact" className="mt-2" />
       </div>
     </div>
   );
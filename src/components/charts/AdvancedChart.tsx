@@ -1,15 +1,21 @@
 import { useState, useMemo, useCallback, useRef, useEffect } from "react";
-import { Loader2, TrendingUp, TrendingDown, Search, AlertCircle, RefreshCw, Crosshair, AlertTriangle } from "lucide-react";
+import { Loader2, TrendingUp, TrendingDown, Search, AlertCircle, RefreshCw, Crosshair, AlertTriangle, ChartBar } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { StockSearch } from "@/components/dashboard/StockSearch";
 import { ChartToolbar } from "./ChartToolbar";
-import { IndicatorLegend } from "./IndicatorLegend";
+import { IndicatorLegend, type ComparisonLegendEntry, type DivergenceLegendEntry } from "./IndicatorLegend";
 import { DrawingToolbar, type DrawingMode } from "./DrawingToolbar";
 import { ChartDrawingLayer } from "./ChartDrawingLayer";
-import { PriceChart } from "./PriceChart";
+import { PriceChart, type AnchoredVwapLine, type ComparisonLine } from "./PriceChart";
 import { VolumeChart } from "./VolumeChart";
-import { RSIChart, MACDChart } from "./OscillatorChart";
+import { VolumeProfileOverlay } from "./VolumeProfileOverlay";
+import { OscillatorChart, RelativeStrengthChart } from "./OscillatorChart";
+import { ChartTemplatesMenu } from "./ChartTemplatesMenu";
+import { FormulaDialog } from "./FormulaDialog";
+import { CandlestickPatternsMenu } from "./CandlestickPatternsMenu";
+import { ComparisonMenu, type ChartComparison } from "./ComparisonMenu";
+import { ChartShareButton } from "@/components/dashboard/ChartShareButton";
 import { 
   useChartData, 
   useEnrichedChartData, 
@@ -18,6 +24,28 @@ import {
   defaultIndicators 
 } from "@/hooks/useChartData";
 import { useChartDrawings } from "@/hooks/useChartDrawings";
+import { useSuggestedDrawings } from "@/hooks/useSuggestedDrawings";
+import { useChartTemplates, type ChartTemplate } from "@/hooks/useChartTemplates";
+import { useComparisonCandles } from "@/hooks/useComparisonCandles";
+import { useVisibleLogicalRange } from "@/hooks/useVisibleLogicalRange";
+import { MAX_INDICATORS, createIndicator, getIndicatorLabel, getIndicatorWarmup } from "@/config/indicators";
+import { detectCandlestickPatterns } from "@shared/candlestickPatterns";
+import { detectDivergences, type Divergence } from "@shared/divergence";
+import { seriesKey } from "@/utils/indicatorSeries";
+import { calculateAnchoredVWAP } from "@/utils/technicalIndicators";
+import { timeToLogical } from "@/utils/chartDrawings";
+import {
+  COMPARISON_COLORS,
+  MAX_COMPARISONS,
+  alignCloses,
+  calculateRelativeStrength,
+  percentChangeFrom,
+  ratioSeries,
+  type ComparisonMode,
+} from "@/utils/comparison";
+import { toSharedVerdict, type SharedChartSnapshot, type SharedChartView } from "@/utils/sharedCharts";
+import type { VerdictResult } from "@shared/verdictEngine";
+import type { ChartDrawing, IndicatorFormula, IndicatorKind, SuggestedDrawing } from "@/types/market";
 import { useQuotes } from "@/hooks/useMarketData";
 import { motion, AnimatePresence } from "framer-motion";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -26,26 +54,89 @@ import type { IChartApi, ISeriesApi } from "lightweight-charts";
 interface AdvancedChartProps {
   symbol?: string;
   onSymbolChange?: (symbol: string) => void;
+  /** Included in shared links */
+  verdict?: VerdictResult | null;
+  /** Renders a shared link read-only: its indicators and drawings, no editing */
+  shared?: SharedChartView;
 }
 
-export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChartProps) {
-  const [timeframe, setTimeframe] = useState<TimeframeType>("1D");
-  const [indicators, setIndicators] = useState<ChartIndicator[]>(defaultIndicators);
+export function AdvancedChart({ symbol = "AAPL", onSymbolChange, verdict, shared }: AdvancedChartProps) {
+  const readOnly = !!shared;
+  const [timeframe, setTimeframe] = useState<TimeframeType>(shared?.timeframe ?? "1D");
+  const [indicators, setIndicators] = useState<ChartIndicator[]>(shared?.snapshot.indicators ?? defaultIndicators);
   const [showSearch, setShowSearch] = useState(false);
   const [showCrosshair, setShowCrosshair] = useState(true);
   const [drawingMode, setDrawingMode] = useState<DrawingMode>(null);
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const [chartApi, setChartApi] = useState<IChartApi | null>(null);
   const [candleSeries, setCandleSeries] = useState<ISeriesApi<"Candlestick"> | null>(null);
+  const [formulaDialogOpen, setFormulaDialogOpen] = useState(false);
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [showPatterns, setShowPatterns] = useState(true);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [showVolumeProfile, setShowVolumeProfile] = useState(false);
+  const [comparisons, setComparisons] = useState<ChartComparison[]>([]);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>("percent");
+  const [rsBenchmark, setRsBenchmark] = useState<string | null>(null);
+  const defaultTemplateApplied = useRef(false);
 
   const { candles, loading, error, refetch, timeframeConfig } = useChartData(symbol, timeframe);
   const { quotes } = useQuotes([symbol]);
   const { 
-    drawings, 
+    drawings: ownDrawings, 
     addDrawing, 
+    updateDrawing,
+    setDrawingTimeframes,
     deleteDrawing, 
-    clearAllDrawings 
+    clearAllDrawings,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   } = useChartDrawings(symbol, timeframe);
+  const { suggestions, dismissSuggestion } = useSuggestedDrawings(candles, symbol, timeframe, showSuggestions);
+  const { candles: comparisonCandles, failed: failedComparisons } = useComparisonCandles(
+    comparisons.map((c) => c.symbol),
+    timeframe
+  );
+  const {
+    templates,
+    defaultTemplate,
+    isFetched: templatesFetched,
+    saveTemplate,
+    isSaving: isSavingTemplate,
+    deleteTemplate,
+    setDefaultTemplate,
+  } = useChartTemplates();
+  const activeTemplate = templates.find(t => t.id === activeTemplateId) ?? null;
+
+  // A shared chart shows the drawings saved with it instead of the viewer's own
+  const drawings = useMemo(() => {
+    if (!shared) return ownDrawings;
+    return shared.snapshot.drawings
+      .map((d, i): ChartDrawing => ({
+        id: `shared-${i}`,
+        user_id: "",
+        symbol: shared.symbol,
+        timeframe: shared.timeframe,
+        timeframes: d.timeframes,
+        type: d.type,
+        data: d.data,
+        created_at: shared.createdAt,
+        updated_at: shared.createdAt,
+      }))
+      .filter((d) => !d.timeframes || d.timeframes.includes(timeframe));
+  }, [shared, ownDrawings, timeframe]);
+
+  // Start from the user's default template once it has loaded
+  useEffect(() => {
+    if (readOnly || !templatesFetched || defaultTemplateApplied.current) return;
+    defaultTemplateApplied.current = true;
+    if (defaultTemplate) {
+      setIndicators(defaultTemplate.indicators);
+      setActiveTemplateId(defaultTemplate.id);
+    }
+  }, [readOnly, templatesFetched, defaultTemplate]);
   
   const quote = quotes[0];
   const currentPrice = quote?.price || candles[candles.length - 1]?.close || 0;
@@ -54,20 +145,129 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
   const isPositive = priceChange >= 0;
 
   const enrichedData = useEnrichedChartData(candles, indicators);
+  const patterns = useMemo(() => detectCandlestickPatterns(candles), [candles]);
+
+  // Divergences per enabled RSI/MACD instance (MACD line), keyed by indicator id
+  const divergences = useMemo(() => {
+    const byIndicator: Record<string, Divergence[]> = {};
+    for (const indicator of indicators) {
+      if (!indicator.enabled || (indicator.kind !== "rsi" && indicator.kind !== "macd")) continue;
+      const output = indicator.kind === "rsi" ? "value" : "macd";
+      const values = enrichedData.map((c) => c.series[seriesKey(indicator.id, output)] ?? null);
+      byIndicator[indicator.id] = detectDivergences(enrichedData, { source: indicator.kind, values });
+    }
+    return byIndicator;
+  }, [indicators, enrichedData]);
+
+  const priceDivergences = useMemo(() => Object.values(divergences).flat(), [divergences]);
+
+  // Most recent few, newest first, for the legend
+  const divergenceLegend = useMemo(() => (
+    indicators
+      .flatMap((indicator) => (divergences[indicator.id] ?? []).map((d) => ({ indicator, d })))
+      .sort((a, b) => b.d.endIndex - a.d.endIndex)
+      .slice(0, 3)
+      .map(({ indicator, d }): DivergenceLegendEntry => ({
+        key: `${indicator.id}-${d.startIndex}-${d.endIndex}`,
+        label: `${getIndicatorLabel(indicator)} ${d.kind === "hidden" ? "hidden " : ""}div`,
+        date: new Date(enrichedData[d.endIndex].timestamp * 1000).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+        bias: d.bias,
+      }))
+  ), [indicators, divergences, enrichedData]);
+
+  // Anchored VWAP drawings store the time of their anchor bar, placed on the bars of any timeframe
+  const anchoredVwaps = useMemo(() => (
+    drawings
+      .filter((d) => d.type === "anchored_vwap" && d.data.time)
+      .map((d): AnchoredVwapLine => {
+        // Bar the anchor time falls in; an anchor before the loaded bars draws nothing
+        const logical = d.data.time ? timeToLogical(enrichedData, d.data.time) : null;
+        const anchor = logical === null || logical < 0 ? -1 : Math.floor(logical);
+        return {
+          id: d.id,
+          color: d.data.color || "#f59e0b",
+          lineWidth: d.data.lineWidth || 2,
+          values: calculateAnchoredVWAP(enrichedData, anchor),
+        };
+      })
+  ), [drawings, enrichedData]);
+
+  // Comparison closes on this chart's bars, plus the A/B ratio in ratio mode
+  const comparisonCloses = useMemo(() => (
+    comparisons
+      .filter((c) => comparisonCandles[c.symbol]?.length)
+      .map((c) => ({ ...c, closes: alignCloses(enrichedData, comparisonCandles[c.symbol]) }))
+  ), [comparisons, comparisonCandles, enrichedData]);
+
+  const comparisonLines = useMemo(() => {
+    const closes = enrichedData.map((c) => c.close);
+    return comparisonCloses.map((c): ComparisonLine => ({
+      symbol: c.symbol,
+      color: c.color,
+      values: comparisonMode === "ratio" ? ratioSeries(closes, c.closes) : c.closes,
+    }));
+  }, [comparisonCloses, comparisonMode, enrichedData]);
+
+  // Legend values: % change since the first visible bar, or the latest ratio
+  const visibleRange = useVisibleLogicalRange(chartApi);
+  const comparisonLegend = useMemo(() => {
+    const from = visibleRange ? Math.max(0, Math.floor(visibleRange.from)) : 0;
+    const to = visibleRange ? Math.min(enrichedData.length - 1, Math.ceil(visibleRange.to)) : enrichedData.length - 1;
+    return comparisonLines.map((line): ComparisonLegendEntry => {
+      const value = comparisonMode === "ratio"
+        ? line.values[to]
+        : percentChangeFrom(line.values, from)[to];
+      return {
+        symbol: line.symbol,
+        label: comparisonMode === "ratio" ? `${symbol}/${line.symbol}` : line.symbol,
+        color: line.color,
+        value: value === null || value === undefined
+          ? "--"
+          : comparisonMode === "ratio" ? value.toFixed(3) : `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`,
+      };
+    });
+  }, [comparisonLines, comparisonMode, visibleRange, enrichedData.length, symbol]);
+
+  const rsPeriod = timeframe === "1W" || timeframe === "1M" ? 52 : 50;
+  const relativeStrength = useMemo(() => {
+    const benchmark = comparisonCloses.find((c) => c.symbol === rsBenchmark);
+    if (!benchmark) return null;
+    return calculateRelativeStrength(enrichedData.map((c) => c.close), benchmark.closes, rsPeriod);
+  }, [comparisonCloses, rsBenchmark, enrichedData, rsPeriod]);
 
   // Keyboard shortcuts for drawing tools
   useEffect(() => {
+    if (readOnly) return;
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't trigger shortcuts when typing in inputs
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
       
       const key = e.key.toUpperCase();
+      if (e.ctrlKey || e.metaKey) {
+        if (key === 'Z') {
+          e.preventDefault();
+          if (e.shiftKey) redo();
+          else undo();
+        } else if (key === 'Y') {
+          e.preventDefault();
+          redo();
+        }
+        return;
+      }
+
       const shortcuts: Record<string, DrawingMode> = {
         'V': 'select',
         'T': 'trendline',
+        'R': 'ray',
+        'C': 'channel',
         'H': 'horizontal',
+        'L': 'vertical',
+        'B': 'rectangle',
         'F': 'fibonacci',
+        'E': 'fib_extension',
+        'M': 'measure',
         'A': 'annotation',
+        'W': 'anchored_vwap',
       };
       
       if (key === 'ESCAPE') {
@@ -82,7 +282,7 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, []);
+  }, [readOnly, undo, redo]);
 
   // Handle chart ready callback
   const handleChartReady = useCallback((chart: IChartApi, series: ISeriesApi<"Candlestick">) => {
@@ -94,17 +294,9 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
       setCandleSeries(null);
     }
   }, []);
-  const minDataRequired = useMemo(() => {
-    let min = 1;
-    if (indicators.find(i => i.id === "sma20")?.enabled) min = Math.max(min, 20);
-    if (indicators.find(i => i.id === "sma50")?.enabled) min = Math.max(min, 50);
-    if (indicators.find(i => i.id === "rsi")?.enabled) min = Math.max(min, 14);
-    if (indicators.find(i => i.id === "macd")?.enabled) min = Math.max(min, 26);
-    if (indicators.find(i => i.id === "bb")?.enabled) min = Math.max(min, 20);
-    if (indicators.find(i => i.id === "ema12")?.enabled) min = Math.max(min, 12);
-    if (indicators.find(i => i.id === "ema26")?.enabled) min = Math.max(min, 26);
-    return min;
-  }, [indicators]);
+  const minDataRequired = useMemo(() => (
+    indicators.filter(i => i.enabled).reduce((min, i) => Math.max(min, getIndicatorWarmup(i)), 1)
+  ), [indicators]);
 
   const hasInsufficientData = candles.length > 0 && candles.length < minDataRequired;
 
@@ -112,21 +304,79 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
     setIndicators(prev => prev.map(ind => ind.id === id ? { ...ind, enabled: !ind.enabled } : ind));
   }, []);
 
+  const addIndicator = useCallback((kind: IndicatorKind) => {
+    setIndicators(prev => [...prev, createIndicator(kind)]);
+  }, []);
+
+  const addFormulaIndicator = useCallback((formula: IndicatorFormula) => {
+    setIndicators(prev => [...prev, createIndicator("formula", { formula })]);
+  }, []);
+
+  const updateIndicator = useCallback((indicator: ChartIndicator) => {
+    setIndicators(prev => prev.map(ind => ind.id === indicator.id ? indicator : ind));
+  }, []);
+
+  const removeIndicator = useCallback((id: string) => {
+    setIndicators(prev => prev.filter(ind => ind.id !== id));
+  }, []);
+
+  const loadTemplate = useCallback((template: ChartTemplate) => {
+    setIndicators(template.indicators);
+    setActiveTemplateId(template.id);
+  }, []);
+
+  const handleSaveTemplate = useCallback(async (id: string | undefined, name: string) => {
+    const savedId = await saveTemplate({ id, name, indicators });
+    setActiveTemplateId(savedId);
+    return savedId;
+  }, [saveTemplate, indicators]);
+
+  const handleDeleteTemplate = useCallback((id: string) => {
+    deleteTemplate(id);
+    setActiveTemplateId(null);
+  }, [deleteTemplate]);
+
+  const acceptSuggestion = useCallback(async (suggestion: SuggestedDrawing) => {
+    const saved = await addDrawing(suggestion.type, suggestion.data);
+    if (saved) dismissSuggestion(suggestion.id);
+  }, [addDrawing, dismissSuggestion]);
+
+  const addComparison = useCallback((comparisonSymbol: string) => {
+    setComparisons(prev => {
+      if (prev.length >= MAX_COMPARISONS || comparisonSymbol === symbol || prev.some(c => c.symbol === comparisonSymbol)) {
+        return prev;
+      }
+      const color = COMPARISON_COLORS.find(color => !prev.some(c => c.color === color)) ?? COMPARISON_COLORS[0];
+      return [...prev, { symbol: comparisonSymbol, color }];
+    });
+  }, [symbol]);
+
+  const removeComparison = useCallback((comparisonSymbol: string) => {
+    setComparisons(prev => prev.filter(c => c.symbol !== comparisonSymbol));
+    setRsBenchmark(prev => (prev === comparisonSymbol ? null : prev));
+  }, []);
+
+  // What "Share as Link" stores: the chart as it is on screen
+  const getShareSnapshot = useCallback((): SharedChartSnapshot => ({
+    indicators,
+    drawings: drawings.map(({ type, data, timeframes }) => ({ type, data, timeframes })),
+    verdict: verdict ? toSharedVerdict(verdict) : null,
+    price: currentPrice,
+    changePercent: priceChangePercent,
+  }), [indicators, drawings, verdict, currentPrice, priceChangePercent]);
+
   const handleSymbolSelect = useCallback((newSymbol: string) => {
     onSymbolChange?.(newSymbol);
     setShowSearch(false);
   }, [onSymbolChange]);
 
-  const showRSI = indicators.find(i => i.id === "rsi")?.enabled;
-  const showMACD = indicators.find(i => i.id === "macd")?.enabled;
   const activeOverlays = indicators.filter(i => i.type === "overlay" && i.enabled);
+  const activeOscillators = indicators.filter(i => i.type === "oscillator" && i.enabled);
 
   const priceChartHeight = useMemo(() => {
-    let height = 320;
-    if (showRSI) height -= 45;
-    if (showMACD) height -= 55;
-    return Math.max(height, 180);
-  }, [showRSI, showMACD]);
+    const height = activeOscillators.reduce((h, i) => h - (i.kind === "macd" ? 55 : 45), 320);
+    return Math.max(height - (relativeStrength ? 45 : 0), 180);
+  }, [activeOscillators, relativeStrength]);
 
   const errorMessage = useMemo(() => {
     if (error === "no_data") {
@@ -179,12 +429,15 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
                 <motion.button
                   key="symbol"
                   onClick={() => setShowSearch(true)}
-                  className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-accent/60 hover:bg-accent transition-all group"
+                  disabled={readOnly}
+                  className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-accent/60 hover:bg-accent transition-all group disabled:pointer-events-none"
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
                 >
                   <span className="font-mono text-sm font-bold text-foreground">{symbol}</span>
-                  <Search className="w-3 h-3 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+                  {!readOnly && (
+                    <Search className="w-3 h-3 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+                  )}
                 </motion.button>
               )}
             </AnimatePresence>
@@ -208,6 +461,16 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
 
           {/* Right: Controls */}
           <div className="flex items-center gap-1.5">
+            {!readOnly && (
+              <ChartShareButton
+                chartRef={chartContainerRef}
+                symbol={symbol}
+                price={currentPrice}
+                changePercent={priceChangePercent}
+                link={{ timeframe, getSnapshot: getShareSnapshot }}
+              />
+            )}
+
             <Tooltip>
               <TooltipTrigger asChild>
                 <button
@@ -225,6 +488,23 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
               </TooltipContent>
             </Tooltip>
 
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => setShowVolumeProfile(!showVolumeProfile)}
+                  className={cn(
+                    "p-1.5 rounded-md transition-colors",
+                    showVolumeProfile ? "bg-primary/15 text-primary" : "hover:bg-accent text-muted-foreground"
+                  )}
+                >
+                  <ChartBar className="w-3.5 h-3.5" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom" className="text-xs">
+                {showVolumeProfile ? "Hide" : "Show"} Volume Profile
+              </TooltipContent>
+            </Tooltip>
+
             <Tooltip>
               <TooltipTrigger asChild>
                 <button
@@ -263,29 +543,85 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
           </div>
 
           {/* Drawing Tools */}
-          <DrawingToolbar
-            activeMode={drawingMode}
-            onModeChange={setDrawingMode}
-            onClearAll={clearAllDrawings}
-            drawingCount={drawings.length}
-            disabled={loading}
-          />
+          {!readOnly && (
+            <DrawingToolbar
+              activeMode={drawingMode}
+              onModeChange={setDrawingMode}
+              onClearAll={clearAllDrawings}
+              drawingCount={drawings.length}
+              disabled={loading}
+              showSuggestions={showSuggestions}
+              onToggleSuggestions={() => setShowSuggestions(!showSuggestions)}
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+            />
+          )}
 
           {/* Active Indicators Legend + Toolbar */}
           <div className="flex items-center gap-2">
-            {activeOverlays.length > 0 && (
-              <IndicatorLegend indicators={activeOverlays} onToggle={toggleIndicator} />
+            {(activeOverlays.length > 0 || divergenceLegend.length > 0 || comparisonLegend.length > 0) && (
+              <IndicatorLegend
+                indicators={activeOverlays}
+                onToggle={toggleIndicator}
+                divergences={divergenceLegend}
+                comparisons={comparisonLegend}
+                onRemoveComparison={removeComparison}
+              />
             )}
-            <ChartToolbar
-              timeframe={timeframe}
-              onTimeframeChange={setTimeframe}
-              indicators={indicators}
-              onToggleIndicator={toggleIndicator}
-              loading={loading}
-              onRefresh={refetch}
-              showCrosshair={showCrosshair}
-              onToggleCrosshair={() => setShowCrosshair(!showCrosshair)}
+            {!readOnly && (
+              <>
+                <ChartToolbar
+                  timeframe={timeframe}
+                  onTimeframeChange={setTimeframe}
+                  indicators={indicators}
+                  onToggleIndicator={toggleIndicator}
+                  onAddIndicator={addIndicator}
+                  onUpdateIndicator={updateIndicator}
+                  onRemoveIndicator={removeIndicator}
+                  onOpenFormulas={() => setFormulaDialogOpen(true)}
+                  loading={loading}
+                  onRefresh={refetch}
+                  showCrosshair={showCrosshair}
+                  onToggleCrosshair={() => setShowCrosshair(!showCrosshair)}
+                />
+                <ChartTemplatesMenu
+                  templates={templates}
+                  activeTemplate={activeTemplate}
+                  onLoad={loadTemplate}
+                  onSave={handleSaveTemplate}
+                  onDelete={handleDeleteTemplate}
+                  onSetDefault={setDefaultTemplate}
+                  isSaving={isSavingTemplate}
+                />
+                <ComparisonMenu
+                  symbol={symbol}
+                  comparisons={comparisons}
+                  onAdd={addComparison}
+                  onRemove={removeComparison}
+                  mode={comparisonMode}
+                  onModeChange={setComparisonMode}
+                  benchmark={rsBenchmark}
+                  onBenchmarkChange={setRsBenchmark}
+                  failed={failedComparisons}
+                />
+              </>
+            )}
+            <CandlestickPatternsMenu
+              patterns={patterns}
+              showOnChart={showPatterns}
+              onShowOnChartChange={setShowPatterns}
+              intraday={timeframe === "1H" || timeframe === "4H"}
             />
+            {!readOnly && (
+              <FormulaDialog
+                open={formulaDialogOpen}
+                onOpenChange={setFormulaDialogOpen}
+                onAddToChart={addFormulaIndicator}
+                canAdd={indicators.length < MAX_INDICATORS}
+              />
+            )}
           </div>
         </div>
 
@@ -327,22 +663,53 @@ export function AdvancedChart({ symbol = "AAPL", onSymbolChange }: AdvancedChart
                   indicators={indicators}
                   showCrosshair={showCrosshair}
                   height={priceChartHeight}
+                  patterns={showPatterns ? patterns : undefined}
+                  divergences={priceDivergences}
+                  anchoredVwaps={anchoredVwaps}
+                  comparisons={comparisonLines}
+                  comparisonMode={comparisonMode}
                   onChartReady={handleChartReady}
                 />
+                {showVolumeProfile && (
+                  <VolumeProfileOverlay chart={chartApi} candleSeries={candleSeries} data={enrichedData} />
+                )}
                 {/* Drawing layer overlay */}
                 <ChartDrawingLayer
                   chart={chartApi}
                   candleSeries={candleSeries}
+                  bars={enrichedData}
                   drawings={drawings}
                   activeMode={drawingMode}
                   onAddDrawing={addDrawing}
+                  onUpdateDrawing={updateDrawing}
+                  onSetDrawingTimeframes={setDrawingTimeframes}
+                  readOnly={readOnly}
                   onDeleteDrawing={deleteDrawing}
                   containerRef={chartContainerRef}
+                  suggestions={suggestions}
+                  onAcceptSuggestion={acceptSuggestion}
+                  onDismissSuggestion={dismissSuggestion}
                 />
               </div>
               <VolumeChart data={enrichedData} height={40} />
-              {showRSI && <RSIChart data={enrichedData} height={65} />}
-              {showMACD && <MACDChart data={enrichedData} height={80} />}
+              {relativeStrength && rsBenchmark && (
+                <RelativeStrengthChart
+                  data={enrichedData}
+                  values={relativeStrength}
+                  benchmark={rsBenchmark}
+                  color={comparisons.find(c => c.symbol === rsBenchmark)?.color ?? COMPARISON_COLORS[0]}
+                  period={rsPeriod}
+                />
+              )}
+              {activeOscillators.map(indicator => (
+                <OscillatorChart
+                  key={indicator.id}
+                  data={enrichedData}
+                  indicator={indicator}
+                  height={indicator.kind === "macd" ? 80 : 65}
+                  divergences={divergences[indicator.id]}
+                />
+              ))}
             </div>
           ) : (
             !loading && (
@@ -0,0 +1,89 @@
+import { CandlestickChart } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { EducationPopover, EducationTooltip } from "@/components/education/EducationTooltip";
+import { cn } from "@/lib/utils";
+import { CANDLESTICK_PATTERNS, type PatternDetection } from "@shared/candlestickPatterns";
+
+interface CandlestickPatternsMenuProps {
+  patterns: PatternDetection[];
+  showOnChart: boolean;
+  onShowOnChartChange: (show: boolean) => void;
+  intraday: boolean;
+}
+
+const MAX_LISTED = 25;
+
+const BIAS_STYLES = {
+  bullish: "bg-gain/15 text-gain",
+  bearish: "bg-loss/15 text-loss",
+  neutral: "bg-muted text-muted-foreground",
+};
+
+export function CandlestickPatternsMenu({
+  patterns,
+  showOnChart,
+  onShowOnChartChange,
+  intraday,
+}: CandlestickPatternsMenuProps) {
+  const recent = patterns.slice(-MAX_LISTED).reverse();
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp * 1000).toLocaleString(undefined, intraday
+      ? { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }
+      : { month: "short", day: "numeric", year: "2-digit" });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-medium transition-all",
+            showOnChart
+              ? "bg-primary/15 text-primary hover:bg-primary/20"
+              : "bg-accent/60 hover:bg-accent text-muted-foreground"
+          )}
+        >
+          <CandlestickChart className="w-3 h-3" />
+          <span className="hidden sm:inline">Patterns</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border/50">
+          <EducationPopover topic="candlestick_patterns" triggerClassName="text-xs font-medium text-foreground">
+            <CandlestickChart className="w-3.5 h-3.5" />
+            Candlestick patterns
+          </EducationPopover>
+          <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+            Show on chart
+            <Switch checked={showOnChart} onCheckedChange={onShowOnChartChange} className="scale-75" />
+          </label>
+        </div>
+        {recent.length === 0 ? (
+          <p className="px-3 py-4 text-[11px] text-muted-foreground text-center">
+            No patterns detected in the loaded bars
+          </p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto scrollbar-terminal py-1">
+            {recent.map((detection) => (
+              <div
+                key={`${detection.timestamp}-${detection.pattern}`}
+                className="flex items-center gap-2 px-3 py-1.5 hover:bg-accent/40"
+              >
+                <EducationTooltip topic={detection.pattern} side="left" className="flex-1 min-w-0 text-xs">
+                  <span className="truncate">{CANDLESTICK_PATTERNS[detection.pattern].name}</span>
+                </EducationTooltip>
+                <span className="text-[10px] font-mono text-muted-foreground tabular-nums">
+                  {formatTime(detection.timestamp)}
+                </span>
+                <span className={cn("text-[9px] uppercase tracking-wide px-1.5 py-0.5 rounded", BIAS_STYLES[detection.bias])}>
+                  {detection.bias}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
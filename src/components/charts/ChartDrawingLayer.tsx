@@ -1,459 +1,686 @@
-import { memo, useCallback, useEffect, useRef, useState } from "react";
-import type { IChartApi, ISeriesApi, Time } from "lightweight-charts";
-import type { ChartDrawing, DrawingData } from "@/types/market";
+import { memo, useCallback, useEffect, useRef, useState, type ReactNode } from "react";
+import type { IChartApi, ISeriesApi, Logical } from "lightweight-charts";
+import type { Candle, ChartDrawing, DrawingData, DrawingType, SuggestedDrawing } from "@/types/market";
 import type { DrawingMode } from "./DrawingToolbar";
-
-// Fibonacci retracement levels
-const FIBONACCI_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+import { DrawingStylePanel } from "./DrawingStylePanel";
+import { useVisibleLogicalRange } from "@/hooks/useVisibleLogicalRange";
+import {
+  DEFAULT_DRAWING_COLOR,
+  LINE_DASH,
+  TWO_POINT_DRAWINGS,
+  createDrawingData,
+  daysBetween,
+  fibExtensionPrice,
+  getDrawingAnchors,
+  logicalToTime,
+  moveDrawingAnchor,
+  timeToLogical,
+  type ChartPoint,
+} from "@/utils/chartDrawings";
+
+const ANCHORED_VWAP_COLOR = "#f59e0b";
+const HIT_WIDTH = 10; // invisible stroke around lines that still counts as a hit
+const DRAG_THRESHOLD = 3; // px a press has to travel before it moves the drawing
+const HANDLE_RADIUS = 5;
 
 interface ChartDrawingLayerProps {
   chart: IChartApi | null;
   /** The candlestick series - passed from parent to avoid private API access */
   candleSeries: ISeriesApi<"Candlestick"> | null;
+  /** Bars on the chart, oldest first - drawing times are placed relative to them */
+  bars: Candle[];
   drawings: ChartDrawing[];
   activeMode: DrawingMode;
   onAddDrawing: (type: ChartDrawing["type"], data: DrawingData) => Promise<ChartDrawing | null>;
+  onUpdateDrawing: (id: string, data: DrawingData) => Promise<boolean>;
+  onSetDrawingTimeframes: (id: string, timeframes: string[] | null) => Promise<boolean>;
   onDeleteDrawing: (id: string) => Promise<boolean>;
   containerRef: React.RefObject<HTMLDivElement | null>;
+  /** Auto-detected levels drawn faded until accepted (saved as a drawing) or dismissed */
+  suggestions?: SuggestedDrawing[];
+  onAcceptSuggestion?: (suggestion: SuggestedDrawing) => void;
+  onDismissSuggestion?: (id: string) => void;
+  /** Drawings can't be selected or moved (shared charts) */
+  readOnly?: boolean;
 }
 
-interface PriceLineRef {
+type Pixel = { x: number; y: number };
+
+// A press on a drawing: dragging a handle moves that anchor, dragging the body moves it all
+interface DragState {
   id: string;
-  remove: () => void;
+  type: DrawingType;
+  anchor: string | null;
+  origin: Pixel;
+  data: DrawingData; // data when the press started
 }
 
+// Drawing being placed: two-point tools set `start` on press; a Fib extension
+// keeps `end` after release and waits for a third click
+interface Placement {
+  start: Required<ChartPoint>;
+  end?: Required<ChartPoint>;
+}
+
+const CURSORS: Partial<Record<DrawingType, string>> = {
+  horizontal: "row-resize",
+  vertical: "col-resize",
+  annotation: "text",
+  anchored_vwap: "cell",
+};
+
 function ChartDrawingLayerComponent({
   chart,
   candleSeries,
+  bars,
   drawings,
   activeMode,
   onAddDrawing,
+  onUpdateDrawing,
+  onSetDrawingTimeframes,
   onDeleteDrawing,
   containerRef,
+  suggestions = [],
+  onAcceptSuggestion,
+  onDismissSuggestion,
+  readOnly = false,
 }: ChartDrawingLayerProps) {
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [startPoint, setStartPoint] = useState<{ price: number; time: Time } | null>(null);
-  const priceLinesRef = useRef<Map<string, PriceLineRef>>(new Map());
   const svgRef = useRef<SVGSVGElement | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [placement, setPlacement] = useState<Placement | null>(null);
+  const [cursor, setCursor] = useState<Required<ChartPoint> | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draft, setDraft] = useState<{ id: string; data: DrawingData } | null>(null);
 
-  // Clear all price lines
-  const clearPriceLines = useCallback(() => {
-    priceLinesRef.current.forEach((line) => {
-      try {
-        line.remove();
-      } catch (e) {
-        // Line may already be removed
-      }
-    });
-    priceLinesRef.current.clear();
+  // Re-render on scroll and zoom so the shapes follow the bars
+  useVisibleLogicalRange(chart);
+
+  const creating = !!activeMode && activeMode !== "select";
+  const selected = drawings.find((d) => d.id === selectedId) ?? null;
+
+  const localPixel = useCallback((e: { clientX: number; clientY: number }): Pixel | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
   }, []);
 
-  // Render horizontal lines using chart's native price lines
+  // Pixel -> chart point, snapped to the nearest bar; a side that cannot be mapped is left undefined
+  const toChartPoint = useCallback((pixel: Pixel): ChartPoint => {
+    if (!chart || !candleSeries) return {};
+    const logical = chart.timeScale().coordinateToLogical(pixel.x);
+    const time = logical === null ? null : logicalToTime(bars, logical);
+    const price = candleSeries.coordinateToPrice(pixel.y);
+    return { time: time ?? undefined, price: price ?? undefined };
+  }, [chart, candleSeries, bars]);
+
+  // Drawing time -> x, also between bars (a daily point on a weekly chart) and past the last bar
+  const timeToX = useCallback((time: string): number | null => {
+    if (!chart) return null;
+    const logical = timeToLogical(bars, time);
+    return logical === null ? null : chart.timeScale().logicalToCoordinate(logical as Logical);
+  }, [chart, bars]);
+
+  const toPixel = useCallback((point: ChartPoint): Partial<Pixel> => {
+    if (!candleSeries) return {};
+    const x = point.time !== undefined ? timeToX(point.time) : null;
+    const y = point.price !== undefined ? candleSeries.priceToCoordinate(point.price) : null;
+    return { x: x ?? undefined, y: y ?? undefined };
+  }, [candleSeries, timeToX]);
+
+  // Leaving a tool drops any half-placed drawing
+  useEffect(() => {
+    setPlacement(null);
+    setCursor(null);
+    if (creating) setSelectedId(null);
+  }, [activeMode, creating]);
+
+  // Clicking the chart itself clears the selection
   useEffect(() => {
     if (!chart) return;
+    const handleClick = () => setSelectedId(null);
+    chart.subscribeClick(handleClick);
+    return () => chart.unsubscribeClick(handleClick);
+  }, [chart]);
+
+  // Delete / Escape for the selection and the drawing being placed
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === "Escape") {
+        setPlacement(null);
+        setSelectedId(null);
+      } else if ((e.key === "Delete" || e.key === "Backspace") && selectedId) {
+        e.preventDefault();
+        onDeleteDrawing(selectedId);
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selectedId, onDeleteDrawing]);
 
-    // Clear existing lines first
-    clearPriceLines();
-
-    // Find the main candlestick series
-    const series = chart.timeScale()?.options ? chart : null;
-    if (!series) return;
-
-    drawings
-      .filter((d) => d.type === "horizontal" && d.data.price)
-      .forEach((drawing) => {
-        try {
-          // Get all series from the chart - we'll add to the first one (candlestick)
-          // Note: lightweight-charts doesn't expose series directly, so we use a workaround
-          const priceLineOptions = {
-            price: drawing.data.price!,
-            color: drawing.data.color || "hsl(var(--primary))",
-            lineWidth: drawing.data.lineWidth || 1,
-            lineStyle: 2, // Dashed
-            axisLabelVisible: true,
-            title: "",
-          };
-
-          // Store reference for cleanup
-          priceLinesRef.current.set(drawing.id, {
-            id: drawing.id,
-            remove: () => {}, // Will be set when we can access the series
-          });
-        } catch (e) {
-          console.warn("Could not add price line:", e);
+  // Dragging: follow the pointer with a local draft, save once on release
+  useEffect(() => {
+    if (!drag) return;
+    let latest: DrawingData | null = null;
+
+    const handleMove = (e: PointerEvent) => {
+      const pixel = localPixel(e);
+      if (!pixel) return;
+      const dx = pixel.x - drag.origin.x;
+      const dy = pixel.y - drag.origin.y;
+      if (!latest && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+      let data = drag.data;
+      if (drag.anchor) {
+        data = moveDrawingAnchor(drag.type, data, drag.anchor, toChartPoint(pixel));
+      } else {
+        // The channel width is relative to the trendline, so it moves along with it
+        for (const anchor of getDrawingAnchors(drag.type, drag.data)) {
+          if (anchor.key === "offset") continue;
+          const { x, y } = toPixel(anchor);
+          const moved = toChartPoint({ x: (x ?? 0) + dx, y: (y ?? 0) + dy });
+          data = moveDrawingAnchor(drag.type, data, anchor.key, {
+            time: anchor.time !== undefined ? moved.time : undefined,
+            price: anchor.price !== undefined ? moved.price : undefined,
+          }, false);
         }
-      });
+      }
+      latest = data;
+      setDraft({ id: drag.id, data });
+    };
+
+    const handleUp = async () => {
+      setDrag(null);
+      if (latest) await onUpdateDrawing(drag.id, latest);
+      setDraft(null);
+    };
 
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
     return () => {
-      clearPriceLines();
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
     };
-  }, [chart, drawings, clearPriceLines]);
-
-  // Handle mouse events for drawing
-  const handleMouseDown = useCallback(
-    (e: React.MouseEvent) => {
-      if (!chart || !candleSeries || !activeMode || activeMode === "select") return;
-      if (!containerRef.current) return;
-
-      const rect = containerRef.current.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-
-      // Convert to chart coordinates using public API
-      const timeCoord = chart.timeScale().coordinateToTime(x);
-      const priceCoord = candleSeries.coordinateToPrice(y);
-
-      if (activeMode === "horizontal") {
-        // Single click creates horizontal line
-        onAddDrawing("horizontal", {
-          price: priceCoord,
-          color: "hsl(var(--primary))",
-          lineWidth: 1,
-        });
-        return;
+  }, [drag, localPixel, toChartPoint, toPixel, onUpdateDrawing]);
+
+  const startDrag = useCallback((e: React.PointerEvent, drawing: ChartDrawing, anchor: string | null) => {
+    const origin = localPixel(e);
+    if (!origin) return;
+    e.stopPropagation();
+    e.preventDefault();
+    setSelectedId(drawing.id);
+    setDrag({ id: drawing.id, type: drawing.type, anchor, origin, data: drawing.data });
+  }, [localPixel]);
+
+  // Placing new drawings (mouse and touch)
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (!creating) return;
+    const pixel = localPixel(e);
+    if (!pixel) return;
+    const { time, price } = toChartPoint(pixel);
+    if (time === undefined || price === undefined) return;
+    const point = { time, price };
+
+    if (TWO_POINT_DRAWINGS.includes(activeMode)) {
+      if (placement?.end) {
+        onAddDrawing(activeMode, createDrawingData(activeMode, placement.start, placement.end, point));
+        setPlacement(null);
+      } else {
+        // Keep receiving the release even if it lands outside the chart
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setPlacement({ start: point });
       }
-
-      if (activeMode === "annotation") {
-        const text = prompt("Enter annotation text:");
-        if (text) {
-          onAddDrawing("annotation", {
-            text,
-            price: priceCoord,
-            time: timeCoord as string,
-            color: "hsl(var(--foreground))",
-          });
+      return;
+    }
+
+    if (activeMode === "annotation") {
+      const text = prompt("Enter annotation text:");
+      if (text) onAddDrawing("annotation", { text, price, time, color: "hsl(var(--foreground))" });
+      return;
+    }
+
+    onAddDrawing(activeMode, activeMode === "anchored_vwap"
+      ? { time, price, color: ANCHORED_VWAP_COLOR, lineWidth: 2 }
+      : activeMode === "vertical"
+        ? { time, color: DEFAULT_DRAWING_COLOR, lineWidth: 1, lineStyle: "dashed" }
+        : { price, color: DEFAULT_DRAWING_COLOR, lineWidth: 1, lineStyle: "dashed" });
+  }, [creating, activeMode, localPixel, toChartPoint, placement, onAddDrawing]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (!placement) return;
+    const pixel = localPixel(e);
+    if (!pixel) return;
+    const { time, price } = toChartPoint(pixel);
+    if (time !== undefined && price !== undefined) setCursor({ time, price });
+  }, [placement, localPixel, toChartPoint]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent) => {
+    if (!placement || placement.end || !activeMode || activeMode === "select") return;
+    const pixel = localPixel(e);
+    const startPixel = toPixel(placement.start);
+    if (!pixel) return;
+
+    // A click without a drag is not a drawing
+    if (startPixel.x !== undefined && startPixel.y !== undefined &&
+        Math.hypot(pixel.x - startPixel.x, pixel.y - startPixel.y) < DRAG_THRESHOLD) {
+      setPlacement(null);
+      return;
+    }
+
+    const { time, price } = toChartPoint(pixel);
+    if (time === undefined || price === undefined) {
+      setPlacement(null);
+      return;
+    }
+    if (activeMode === "fib_extension") {
+      setPlacement({ start: placement.start, end: { time, price } });
+      return;
+    }
+    onAddDrawing(activeMode, createDrawingData(activeMode, placement.start, { time, price }));
+    setPlacement(null);
+    setCursor(null);
+  }, [placement, activeMode, localPixel, toPixel, toChartPoint, onAddDrawing]);
+
+  // One drawing as SVG. `interactive` adds the hit areas that select and move it.
+  const renderDrawing = (drawing: ChartDrawing, interactive: boolean): ReactNode => {
+    if (!chart || !candleSeries) return null;
+    const { type, data } = drawing;
+    const color = data.color || DEFAULT_DRAWING_COLOR;
+    const strokeWidth = (data.lineWidth || 1) + (drawing.id === selectedId ? 0.5 : 0);
+    const dash = LINE_DASH[data.lineStyle ?? "solid"];
+    const width = chart.timeScale().width();
+    const height = containerRef.current?.clientHeight || 600;
+
+    const stroke = { stroke: color, strokeWidth, strokeDasharray: dash, pointerEvents: "none" as const };
+    const hit = (events: "stroke" | "all") => interactive
+      ? {
+          pointerEvents: events,
+          style: { cursor: "move", touchAction: "none" as const },
+          onPointerDown: (e: React.PointerEvent) => startDrag(e, drawing, null),
         }
-        return;
-      }
+      : { pointerEvents: "none" as const };
+    const hitLine = (x1: number, y1: number, x2: number, y2: number) => (
+      <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={HIT_WIDTH} {...hit("stroke")} />
+    );
 
-      // For trendline and fibonacci, need two points
-      if (activeMode === "trendline" || activeMode === "fibonacci") {
-        setIsDrawing(true);
-        setStartPoint({ price: priceCoord, time: timeCoord as Time });
+    const p1 = toPixel({ time: data.startTime, price: data.startPrice });
+    const p2 = toPixel({ time: data.endTime, price: data.endPrice });
+    const hasPoints = p1.x !== undefined && p1.y !== undefined && p2.x !== undefined && p2.y !== undefined;
+    const [x1, y1, x2, y2] = [p1.x ?? 0, p1.y ?? 0, p2.x ?? 0, p2.y ?? 0];
+
+    switch (type) {
+      case "trendline":
+        if (!hasPoints) return null;
+        return (
+          <>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} {...stroke} />
+            {hitLine(x1, y1, x2, y2)}
+          </>
+        );
+
+      case "ray": {
+        if (!hasPoints) return null;
+        // Extend past the second point to the edge of the plot
+        const t = x2 === x1 ? 0 : ((x2 > x1 ? width : 0) - x1) / (x2 - x1);
+        const [ex, ey] = x2 === x1 ? [x2, y2 > y1 ? height : 0] : [x1 + t * (x2 - x1), y1 + t * (y2 - y1)];
+        return (
+          <>
+            <line x1={x1} y1={y1} x2={ex} y2={ey} {...stroke} />
+            {hitLine(x1, y1, ex, ey)}
+          </>
+        );
       }
-    },
-    [chart, candleSeries, activeMode, containerRef, onAddDrawing]
-  );
 
-  const handleMouseUp = useCallback(
-    async (e: React.MouseEvent) => {
-      if (!chart || !candleSeries || !isDrawing || !startPoint || !containerRef.current) return;
-
-      const rect = containerRef.current.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-
-      const endTime = chart.timeScale().coordinateToTime(x);
-      const endPrice = candleSeries.coordinateToPrice(y);
-
-      if (activeMode === "trendline") {
-        await onAddDrawing("trendline", {
-          startPrice: startPoint.price,
-          startTime: startPoint.time as string,
-          endPrice,
-          endTime: endTime as string,
-          color: "hsl(var(--primary))",
-          lineWidth: 2,
-        });
-      } else if (activeMode === "fibonacci") {
-        await onAddDrawing("fibonacci", {
-          highPrice: Math.max(startPoint.price, endPrice),
-          lowPrice: Math.min(startPoint.price, endPrice),
-          highTime: startPoint.price > endPrice ? (startPoint.time as string) : (endTime as string),
-          lowTime: startPoint.price <= endPrice ? (startPoint.time as string) : (endTime as string),
-          levels: FIBONACCI_LEVELS,
-          color: "hsl(var(--primary))",
-        });
+      case "channel": {
+        if (!hasPoints) return null;
+        const offset = data.channelOffset ?? 0;
+        const oy1 = candleSeries.priceToCoordinate((data.startPrice ?? 0) + offset);
+        const oy2 = candleSeries.priceToCoordinate((data.endPrice ?? 0) + offset);
+        if (oy1 === null || oy2 === null) return null;
+        return (
+          <>
+            <polygon points={`${x1},${y1} ${x2},${y2} ${x2},${oy2} ${x1},${oy1}`} fill={color} fillOpacity={0.08} {...hit("all")} />
+            <line x1={x1} y1={y1} x2={x2} y2={y2} {...stroke} />
+            <line x1={x1} y1={oy1} x2={x2} y2={oy2} {...stroke} />
+            <line x1={x1} y1={(y1 + oy1) / 2} x2={x2} y2={(y2 + oy2) / 2} {...stroke} strokeWidth={1} strokeDasharray="4,4" opacity={0.5} />
+            {hitLine(x1, y1, x2, y2)}
+          </>
+        );
       }
 
-      setIsDrawing(false);
-      setStartPoint(null);
-    },
-    [chart, candleSeries, isDrawing, startPoint, activeMode, containerRef, onAddDrawing]
-  );
+      case "rectangle":
+        if (!hasPoints) return null;
+        return (
+          <rect
+            x={Math.min(x1, x2)}
+            y={Math.min(y1, y2)}
+            width={Math.abs(x2 - x1)}
+            height={Math.abs(y2 - y1)}
+            fill={color}
+            fillOpacity={0.12}
+            stroke={color}
+            strokeWidth={strokeWidth}
+            strokeDasharray={dash}
+            {...hit("all")}
+          />
+        );
+
+      case "measure": {
+        if (!hasPoints || data.startPrice === undefined || data.endPrice === undefined) return null;
+        const change = data.endPrice - data.startPrice;
+        const percent = data.startPrice !== 0 ? (change / data.startPrice) * 100 : 0;
+        const logical1 = chart.timeScale().coordinateToLogical(x1);
+        const logical2 = chart.timeScale().coordinateToLogical(x2);
+        const bars = logical1 !== null && logical2 !== null ? Math.round(logical2 - logical1) : 0;
+        const days = data.startTime && data.endTime ? daysBetween(data.startTime, data.endTime) : 0;
+        const tone = data.color || (change >= 0 ? "hsl(var(--gain))" : "hsl(var(--loss))");
+        const sign = change >= 0 ? "+" : "";
+        const labelX = (x1 + x2) / 2;
+        const labelY = Math.min(y1, y2) - 8;
+        return (
+          <>
+            <rect
+              x={Math.min(x1, x2)}
+              y={Math.min(y1, y2)}
+              width={Math.abs(x2 - x1)}
+              height={Math.abs(y2 - y1)}
+              fill={tone}
+              fillOpacity={0.12}
+              {...hit("all")}
+            />
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={tone} strokeWidth={1} strokeDasharray="4,3" pointerEvents="none" />
+            <text x={labelX} y={labelY - 11} fontSize={10} textAnchor="middle" fill={tone} pointerEvents="none">
+              {sign}{change.toFixed(2)} ({sign}{percent.toFixed(2)}%)
+            </text>
+            <text x={labelX} y={labelY} fontSize={9} textAnchor="middle" fill="hsl(var(--muted-foreground))" pointerEvents="none">
+              {bars} bars · {days}d
+            </text>
+          </>
+        );
+      }
 
-  // Handle touch events for mobile
-  const handleTouchStart = useCallback(
-    (e: React.TouchEvent) => {
-      if (!chart || !candleSeries || !activeMode || activeMode === "select") return;
-      if (!containerRef.current) return;
-      if (e.touches.length !== 1) return;
-
-      const touch = e.touches[0];
-      const rect = containerRef.current.getBoundingClientRect();
-      const x = touch.clientX - rect.left;
-      const y = touch.clientY - rect.top;
-
-      const timeCoord = chart.timeScale().coordinateToTime(x);
-      const priceCoord = candleSeries.coordinateToPrice(y);
-
-      if (activeMode === "horizontal") {
-        onAddDrawing("horizontal", {
-          price: priceCoord,
-          color: "hsl(var(--primary))",
-          lineWidth: 1,
-        });
-        return;
+      case "fibonacci": {
+        const { highPrice, lowPrice, highTime, lowTime, levels } = data;
+        if (highPrice === undefined || lowPrice === undefined || !highTime || !lowTime || !levels) return null;
+        const hx = timeToX(highTime);
+        const lx = timeToX(lowTime);
+        if (hx === null || lx === null) return null;
+
+        const priceRange = highPrice - lowPrice;
+        const xMin = Math.min(hx, lx);
+        const levelWidth = Math.max(Math.abs(hx - lx), 100);
+        const top = candleSeries.priceToCoordinate(highPrice) ?? 0;
+        const bottom = candleSeries.priceToCoordinate(lowPrice) ?? 0;
+        return (
+          <>
+            {levels.map((level) => {
+              const price = highPrice - priceRange * level;
+              const y = candleSeries.priceToCoordinate(price);
+              if (y === null) return null;
+              return (
+                <g key={level} pointerEvents="none">
+                  <line
+                    x1={xMin}
+                    y1={y}
+                    x2={xMin + levelWidth}
+                    y2={y}
+                    stroke={color}
+                    strokeWidth={1}
+                    strokeDasharray={level === 0 || level === 1 ? undefined : "4,4"}
+                    opacity={0.7}
+                  />
+                  <text x={xMin + levelWidth + 5} y={y + 3} fontSize={10} fill="hsl(var(--muted-foreground))">
+                    {(level * 100).toFixed(1)}% (${price.toFixed(2)})
+                  </text>
+                </g>
+              );
+            })}
+            <rect x={xMin} y={top} width={levelWidth} height={Math.abs(bottom - top)} fill="transparent" {...hit("all")} />
+          </>
+        );
       }
 
-      if (activeMode === "trendline" || activeMode === "fibonacci") {
-        setIsDrawing(true);
-        setStartPoint({ price: priceCoord, time: timeCoord as Time });
+      case "fib_extension": {
+        const third = toPixel({ time: data.thirdTime, price: data.thirdPrice });
+        if (!hasPoints || third.x === undefined || third.y === undefined || !data.levels) return null;
+        const levelWidth = Math.max(Math.abs(x2 - x1), 100);
+        return (
+          <>
+            <polyline
+              points={`${x1},${y1} ${x2},${y2} ${third.x},${third.y}`}
+              fill="none"
+              stroke={color}
+              strokeWidth={1}
+              strokeDasharray="4,4"
+              opacity={0.6}
+              pointerEvents="none"
+            />
+            {data.levels.map((level) => {
+              const price = fibExtensionPrice(data, level);
+              const y = price === null ? null : candleSeries.priceToCoordinate(price);
+              if (price === null || y === null) return null;
+              return (
+                <g key={level} pointerEvents="none">
+                  <line x1={third.x} y1={y} x2={third.x + levelWidth} y2={y} stroke={color} strokeWidth={1} opacity={0.7} />
+                  <text x={third.x + levelWidth + 5} y={y + 3} fontSize={10} fill="hsl(var(--muted-foreground))">
+                    {(level * 100).toFixed(1)}% (${price.toFixed(2)})
+                  </text>
+                </g>
+              );
+            })}
+            {hitLine(x1, y1, x2, y2)}
+            {hitLine(x2, y2, third.x, third.y)}
+          </>
+        );
       }
-    },
-    [chart, candleSeries, activeMode, containerRef, onAddDrawing]
-  );
 
-  const handleTouchEnd = useCallback(
-    async (e: React.TouchEvent) => {
-      if (!chart || !candleSeries || !isDrawing || !startPoint || !containerRef.current) return;
-      if (e.changedTouches.length !== 1) return;
-
-      const touch = e.changedTouches[0];
-      const rect = containerRef.current.getBoundingClientRect();
-      const x = touch.clientX - rect.left;
-      const y = touch.clientY - rect.top;
-
-      const endTime = chart.timeScale().coordinateToTime(x);
-      const endPrice = candleSeries.coordinateToPrice(y);
-
-      if (activeMode === "trendline") {
-        await onAddDrawing("trendline", {
-          startPrice: startPoint.price,
-          startTime: startPoint.time as string,
-          endPrice,
-          endTime: endTime as string,
-          color: "hsl(var(--primary))",
-          lineWidth: 2,
-        });
-      } else if (activeMode === "fibonacci") {
-        await onAddDrawing("fibonacci", {
-          highPrice: Math.max(startPoint.price, endPrice),
-          lowPrice: Math.min(startPoint.price, endPrice),
-          highTime: startPoint.price > endPrice ? (startPoint.time as string) : (endTime as string),
-          lowTime: startPoint.price <= endPrice ? (startPoint.time as string) : (endTime as string),
-          levels: FIBONACCI_LEVELS,
-          color: "hsl(var(--primary))",
-        });
+      case "horizontal": {
+        if (data.price === undefined) return null;
+        const y = candleSeries.priceToCoordinate(data.price);
+        if (y === null) return null;
+        return (
+          <>
+            <line x1={0} y1={y} x2={width} y2={y} {...stroke} strokeDasharray={LINE_DASH[data.lineStyle ?? "dashed"]} />
+            <text x={5} y={y - 5} fontSize={10} fill={color} pointerEvents="none">
+              ${data.price.toFixed(2)}
+            </text>
+            {hitLine(0, y, width, y)}
+          </>
+        );
       }
 
-      setIsDrawing(false);
-      setStartPoint(null);
-    },
-    [chart, candleSeries, isDrawing, startPoint, activeMode, containerRef, onAddDrawing]
-  );
+      case "vertical": {
+        if (!data.time) return null;
+        const x = timeToX(data.time);
+        if (x === null) return null;
+        return (
+          <>
+            <line x1={x} y1={0} x2={x} y2={height} {...stroke} strokeDasharray={LINE_DASH[data.lineStyle ?? "dashed"]} />
+            <text x={x + 4} y={12} fontSize={10} fill={color} pointerEvents="none">
+              {data.time}
+            </text>
+            {hitLine(x, 0, x, height)}
+          </>
+        );
+      }
 
-  // Render SVG overlay for trendlines and fibonacci
-  const renderDrawings = useCallback(() => {
-    if (!chart || !candleSeries || !containerRef.current) return null;
+      case "anchored_vwap": {
+        // Only the handle - the line itself is a series on the price chart
+        const point = toPixel({ time: data.time, price: data.price });
+        if (point.x === undefined || point.y === undefined) return null;
+        const handleColor = data.color || ANCHORED_VWAP_COLOR;
+        return (
+          <g {...hit("all")}>
+            <title>Anchored VWAP</title>
+            <line x1={point.x} y1={point.y} x2={point.x} y2={point.y + 14} stroke={handleColor} strokeWidth={1} />
+            <circle cx={point.x} cy={point.y} r={4} fill={handleColor} />
+            <text x={point.x + 6} y={point.y + 3} fontSize={9} fill={handleColor}>
+              AVWAP
+            </text>
+          </g>
+        );
+      }
 
-    const trendlines = drawings.filter((d) => d.type === "trendline");
-    const fibonaccis = drawings.filter((d) => d.type === "fibonacci");
-    const annotations = drawings.filter((d) => d.type === "annotation");
-    const horizontals = drawings.filter((d) => d.type === "horizontal");
+      case "annotation": {
+        const point = toPixel({ time: data.time, price: data.price });
+        if (!data.text || point.x === undefined || point.y === undefined) return null;
+        return (
+          <g {...hit("all")}>
+            <rect
+              x={point.x - 2}
+              y={point.y - 12}
+              width={data.text.length * 7 + 8}
+              height={16}
+              rx={3}
+              fill="hsl(var(--card))"
+              stroke={drawing.id === selectedId ? color : "hsl(var(--border))"}
+            />
+            <text x={point.x + 2} y={point.y} fontSize={11} fill={data.color || "hsl(var(--foreground))"}>
+              {data.text}
+            </text>
+          </g>
+        );
+      }
 
-    return (
-      <>
-        {/* Trendlines */}
-        {trendlines.map((drawing) => {
-          const { startTime, startPrice, endTime, endPrice, color } = drawing.data;
-          if (!startTime || !startPrice || !endTime || !endPrice) return null;
-
-          const x1 = chart.timeScale().timeToCoordinate(startTime as Time);
-          const x2 = chart.timeScale().timeToCoordinate(endTime as Time);
-          const y1 = candleSeries.priceToCoordinate(startPrice);
-          const y2 = candleSeries.priceToCoordinate(endPrice);
-
-          if (x1 === null || x2 === null || y1 === null || y2 === null) return null;
-
-          return (
-            <g key={drawing.id}>
-              <line
-                x1={x1}
-                y1={y1}
-                x2={x2}
-                y2={y2}
-                stroke={color || "hsl(var(--primary))"}
-                strokeWidth={drawing.data.lineWidth || 2}
-                className="cursor-pointer hover:stroke-destructive"
-                onClick={() => onDeleteDrawing(drawing.id)}
-              />
-              <circle
-                cx={x1}
-                cy={y1}
-                r={4}
-                fill={color || "hsl(var(--primary))"}
-                className="cursor-move"
-              />
-              <circle
-                cx={x2}
-                cy={y2}
-                r={4}
-                fill={color || "hsl(var(--primary))"}
-                className="cursor-move"
-              />
-            </g>
-          );
-        })}
-
-        {/* Fibonacci levels */}
-        {fibonaccis.map((drawing) => {
-          const { highPrice, lowPrice, highTime, lowTime, levels, color } = drawing.data;
-          if (!highPrice || !lowPrice || !highTime || !lowTime || !levels) return null;
-
-          const x1 = chart.timeScale().timeToCoordinate(highTime as Time);
-          const x2 = chart.timeScale().timeToCoordinate(lowTime as Time);
-          const priceRange = highPrice - lowPrice;
-
-          if (x1 === null || x2 === null) return null;
-
-          const xMin = Math.min(x1, x2);
-          const xMax = Math.max(x1, x2);
-          const width = Math.max(xMax - xMin, 100);
-
-          return (
-            <g key={drawing.id}>
-              {levels.map((level) => {
-                const price = highPrice - priceRange * level;
-                const y = candleSeries.priceToCoordinate(price);
-                if (y === null) return null;
-
-                return (
-                  <g key={level}>
-                    <line
-                      x1={xMin}
-                      y1={y}
-                      x2={xMin + width}
-                      y2={y}
-                      stroke={color || "hsl(var(--primary))"}
-                      strokeWidth={1}
-                      strokeDasharray={level === 0 || level === 1 ? "none" : "4,4"}
-                      opacity={0.7}
-                    />
-                    <text
-                      x={xMin + width + 5}
-                      y={y + 3}
-                      fontSize={10}
-                      fill="hsl(var(--muted-foreground))"
-                    >
-                      {(level * 100).toFixed(1)}% (${price.toFixed(2)})
-                    </text>
-                  </g>
-                );
-              })}
-              {/* Click to delete */}
-              <rect
-                x={xMin}
-                y={candleSeries.priceToCoordinate(highPrice) || 0}
-                width={width}
-                height={Math.abs(
-                  (candleSeries.priceToCoordinate(lowPrice) || 0) -
-                    (candleSeries.priceToCoordinate(highPrice) || 0)
-                )}
-                fill="transparent"
-                className="cursor-pointer"
-                onClick={() => onDeleteDrawing(drawing.id)}
-              />
-            </g>
-          );
-        })}
-
-        {/* Horizontal lines */}
-        {horizontals.map((drawing) => {
-          const { price, color } = drawing.data;
-          if (!price) return null;
-
-          const y = candleSeries.priceToCoordinate(price);
-          if (y === null) return null;
-
-          const width = containerRef.current?.clientWidth || 800;
-
-          return (
-            <g key={drawing.id}>
-              <line
-                x1={0}
-                y1={y}
-                x2={width}
-                y2={y}
-                stroke={color || "hsl(var(--primary))"}
-                strokeWidth={drawing.data.lineWidth || 1}
-                strokeDasharray="8,4"
-                className="cursor-pointer hover:stroke-destructive"
-                onClick={() => onDeleteDrawing(drawing.id)}
-              />
-              <text
-                x={5}
-                y={y - 5}
-                fontSize={10}
-                fill={color || "hsl(var(--primary))"}
-              >
-                ${price.toFixed(2)}
-              </text>
-            </g>
-          );
-        })}
-
-        {/* Annotations */}
-        {annotations.map((drawing) => {
-          const { text, time, price, color } = drawing.data;
-          if (!text || !time || !price) return null;
-
-          const x = chart.timeScale().timeToCoordinate(time as Time);
-          const y = candleSeries.priceToCoordinate(price);
-
-          if (x === null || y === null) return null;
-
-          return (
-            <g
-              key={drawing.id}
-              className="cursor-pointer"
-              onClick={() => onDeleteDrawing(drawing.id)}
+      default:
+        return null;
+    }
+  };
+
+  // Handles of the selected drawing; horizontal/vertical lines get theirs near the plot edge
+  const renderHandles = (drawing: ChartDrawing) => {
+    const color = drawing.data.color || DEFAULT_DRAWING_COLOR;
+    return getDrawingAnchors(drawing.type, drawing.data).map((anchor) => {
+      const { x, y } = toPixel(anchor);
+      const cx = anchor.time === undefined ? 40 : x;
+      const cy = anchor.price === undefined ? 20 : y;
+      if (cx === undefined || cy === undefined) return null;
+      return (
+        <circle
+          key={anchor.key}
+          cx={cx}
+          cy={cy}
+          r={HANDLE_RADIUS}
+          fill="hsl(var(--card))"
+          stroke={color}
+          strokeWidth={1.5}
+          pointerEvents="all"
+          style={{ cursor: "grab", touchAction: "none" }}
+          onPointerDown={(e) => startDrag(e, drawing, anchor.key)}
+        />
+      );
+    });
+  };
+
+  const renderSuggestions = () => {
+    if (!chart || !candleSeries) return null;
+    return suggestions.map((suggestion) => {
+      const { data } = suggestion;
+      const color = data.color || DEFAULT_DRAWING_COLOR;
+      let line: { x1: number; y1: number; x2: number; y2: number } | null = null;
+
+      if (suggestion.type === "horizontal" && data.price) {
+        const y = candleSeries.priceToCoordinate(data.price);
+        if (y !== null) line = { x1: 0, y1: y, x2: chart.timeScale().width(), y2: y };
+      } else if (suggestion.type === "trendline" && data.startTime && data.endTime && data.startPrice && data.endPrice) {
+        const x1 = timeToX(data.startTime);
+        const x2 = timeToX(data.endTime);
+        const y1 = candleSeries.priceToCoordinate(data.startPrice);
+        const y2 = candleSeries.priceToCoordinate(data.endPrice);
+        if (x1 !== null && x2 !== null && y1 !== null && y2 !== null) line = { x1, y1, x2, y2 };
+      }
+      if (!line) return null;
+
+      // Buttons and label sit left of the line's right end, inside the plot
+      const labelX = Math.max(4, line.x2 - 220);
+      const labelY = line.y2 - 6;
+
+      return (
+        <g key={suggestion.id}>
+          <line
+            {...line}
+            stroke={color}
+            strokeWidth={data.lineWidth || 1}
+            strokeDasharray="2,4"
+            opacity={0.6}
+          />
+          <g style={{ pointerEvents: "auto" }} className="cursor-pointer">
+            <text
+              x={labelX}
+              y={labelY}
+              fontSize={11}
+              fill="hsl(var(--gain))"
+              onClick={() => onAcceptSuggestion?.(suggestion)}
             >
-              <rect
-                x={x - 2}
-                y={y - 12}
-                width={text.length * 7 + 8}
-                height={16}
-                rx={3}
-                fill="hsl(var(--card))"
-                stroke="hsl(var(--border))"
-              />
-              <text
-                x={x + 2}
-                y={y}
-                fontSize={11}
-                fill={color || "hsl(var(--foreground))"}
-              >
-                {text}
-              </text>
-            </g>
-          );
-        })}
-      </>
+              <title>Keep as drawing</title>✓
+            </text>
+            <text
+              x={labelX + 12}
+              y={labelY}
+              fontSize={11}
+              fill="hsl(var(--muted-foreground))"
+              onClick={() => onDismissSuggestion?.(suggestion.id)}
+            >
+              <title>Dismiss</title>×
+            </text>
+          </g>
+          <text x={labelX + 24} y={labelY} fontSize={9} fill={color} opacity={0.85}>
+            {suggestion.label} ({suggestion.strength})
+          </text>
+        </g>
+      );
+    });
+  };
+
+  // Live outline of the drawing being placed
+  const renderPlacement = () => {
+    if (!placement || !cursor || !activeMode || activeMode === "select") return null;
+    const data = placement.end
+      ? createDrawingData(activeMode, placement.start, placement.end, cursor)
+      : createDrawingData(activeMode, placement.start, cursor);
+    return (
+      <g opacity={0.7}>
+        {renderDrawing({ id: "placement", type: activeMode, data } as ChartDrawing, false)}
+      </g>
     );
-  }, [chart, candleSeries, drawings, containerRef, onDeleteDrawing]);
+  };
+
+  const shown = drawings.map((d) => (draft?.id === d.id ? { ...d, data: draft.data } : d));
+  const shownSelected = shown.find((d) => d.id === selectedId);
 
   return (
-    <svg
-      ref={svgRef}
-      className="absolute inset-0 pointer-events-none z-10"
-      style={{
-        pointerEvents: activeMode && activeMode !== "select" ? "auto" : "none",
-        cursor: activeMode === "trendline" || activeMode === "fibonacci" 
-          ? "crosshair" 
-          : activeMode === "horizontal" 
-          ? "row-resize"
-          : activeMode === "annotation"
-          ? "text"
-          : "default",
-      }}
-      onMouseDown={handleMouseDown}
-      onMouseUp={handleMouseUp}
-      onTouchStart={handleTouchStart}
-      onTouchEnd={handleTouchEnd}
-    >
-      {renderDrawings()}
-    </svg>
+    <>
+      <svg
+        ref={svgRef}
+        className="absolute inset-0 z-10"
+        style={{
+          pointerEvents: creating ? "auto" : "none",
+          touchAction: creating ? "none" : undefined,
+          cursor: !creating ? "default" : CURSORS[activeMode as DrawingType] ?? "crosshair",
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {shown.map((drawing) => (
+          <g key={drawing.id}>{renderDrawing(drawing, !creating && !readOnly)}</g>
+        ))}
+        {shownSelected && !creating && renderHandles(shownSelected)}
+        {renderPlacement()}
+        {renderSuggestions()}
+      </svg>
+      {selected && !creating && !drag && (
+        <DrawingStylePanel
+          drawing={selected}
+          onChange={(data) => onUpdateDrawing(selected.id, data)}
+          onTimeframesChange={(timeframes) => onSetDrawingTimeframes(selected.id, timeframes)}
+          onDelete={() => {
+            onDeleteDrawing(selected.id);
+            setSelectedId(null);
+          }}
+        />
+      )}
+    </>
   );
 }
 
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Check, LayoutTemplate, Loader2, Plus, Save, Star, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { ChartTemplate } from "@/hooks/useChartTemplates";
+
+interface ChartTemplatesMenuProps {
+  templates: ChartTemplate[];
+  activeTemplate: ChartTemplate | null;
+  onLoad: (template: ChartTemplate) => void;
+  onSave: (id: string | undefined, name: string) => Promise<string>;
+  onDelete: (id: string) => void;
+  onSetDefault: (id: string | null) => void;
+  isSaving: boolean;
+}
+
+export function ChartTemplatesMenu({
+  templates,
+  activeTemplate,
+  onLoad,
+  onSave,
+  onDelete,
+  onSetDefault,
+  isSaving,
+}: ChartTemplatesMenuProps) {
+  const [nameDialogOpen, setNameDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const openNameDialog = () => {
+    setName("");
+    setNameDialogOpen(true);
+  };
+
+  const handleSaveAs = async () => {
+    if (!name.trim()) return;
+    try {
+      await onSave(undefined, name);
+      setNameDialogOpen(false);
+    } catch {
+      // Error toast is raised by the hook
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className={cn(
+              "flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-medium transition-all",
+              activeTemplate
+                ? "bg-primary/15 text-primary hover:bg-primary/20"
+                : "bg-accent/60 hover:bg-accent text-muted-foreground"
+            )}
+          >
+            <LayoutTemplate className="w-3 h-3" />
+            <span className="hidden sm:inline max-w-[90px] truncate">{activeTemplate?.name ?? "Templates"}</span>
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuLabel className="text-[10px] uppercase tracking-wide text-muted-foreground">
+            Chart templates
+          </DropdownMenuLabel>
+          {templates.length === 0 && (
+            <p className="px-2 py-1.5 text-[11px] text-muted-foreground">Save your indicator setup to reuse it on any chart</p>
+          )}
+          {templates.map((template) => (
+            <DropdownMenuItem key={template.id} onClick={() => onLoad(template)} className="text-xs gap-2">
+              <Check className={cn("w-3.5 h-3.5", activeTemplate?.id === template.id ? "opacity-100" : "opacity-0")} />
+              <span className="flex-1 truncate">{template.name}</span>
+              {template.isDefault && <Star className="w-3 h-3 text-warning fill-warning" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {activeTemplate && (
+            <DropdownMenuItem
+              onClick={() => onSave(activeTemplate.id, activeTemplate.name).catch(() => undefined)}
+              className="text-xs gap-2"
+            >
+              <Save className="w-3.5 h-3.5" />
+              Save changes
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={openNameDialog} className="text-xs gap-2">
+            <Plus className="w-3.5 h-3.5" />
+            Save as new template
+          </DropdownMenuItem>
+          {activeTemplate && (
+            <>
+              <DropdownMenuItem
+                onClick={() => onSetDefault(activeTemplate.isDefault ? null : activeTemplate.id)}
+                className="text-xs gap-2"
+              >
+                <Star className="w-3.5 h-3.5" />
+                {activeTemplate.isDefault ? "Unset default" : "Use as default"}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setConfirmDelete(true)}
+                className="text-xs gap-2 text-loss focus:text-loss"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                Delete template
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialogOpen} onOpenChange={setNameDialogOpen}>
+        <DialogContent className="sm:max-w-sm bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>Save Chart Template</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveAs()}
+              placeholder="e.g. Swing trading"
+              maxLength={50}
+              autoFocus
+              className="h-9 bg-muted/30 border-border/50 text-sm"
+            />
+            <Button
+              onClick={handleSaveAs}
+              disabled={!name.trim() || isSaving}
+              className="w-full h-9 text-sm bg-primary hover:bg-primary/90"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Save
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {activeTemplate?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The saved indicator layout is removed. Indicators on the current chart are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => activeTemplate && onDelete(activeTemplate.id)}
+              className="bg-loss hover:bg-loss/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,17 +1,37 @@
 import { useState } from "react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Switch } from "@/components/ui/switch";
-import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { Settings2, ChevronDown } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Settings2, ChevronDown, SlidersHorizontal, SquareFunction, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { TimeframeType, ChartIndicator } from "@/hooks/useChartData";
+import {
+  INDICATOR_DEFINITIONS,
+  INDICATOR_KINDS,
+  MAX_INDICATORS,
+  getIndicatorLabel,
+} from "@/config/indicators";
+import type { IndicatorKind } from "@/types/market";
+import { IndicatorEditor } from "./IndicatorEditor";
 
 interface ChartToolbarProps {
   timeframe: TimeframeType;
   onTimeframeChange: (tf: TimeframeType) => void;
   indicators: ChartIndicator[];
   onToggleIndicator: (id: string) => void;
+  onAddIndicator: (kind: IndicatorKind) => void;
+  onUpdateIndicator: (indicator: ChartIndicator) => void;
+  onRemoveIndicator: (id: string) => void;
+  onOpenFormulas: () => void;
   loading: boolean;
   onRefresh: () => void;
   showCrosshair: boolean;
@@ -22,21 +42,79 @@ interface ChartToolbarProps {
 export function ChartToolbar({
   indicators,
   onToggleIndicator,
+  onAddIndicator,
+  onUpdateIndicator,
+  onRemoveIndicator,
+  onOpenFormulas,
 }: ChartToolbarProps) {
   const [indicatorMenuOpen, setIndicatorMenuOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   const overlayIndicators = indicators.filter(i => i.type === "overlay");
   const oscillatorIndicators = indicators.filter(i => i.type === "oscillator");
   const activeCount = indicators.filter(i => i.enabled).length;
+  const editing = indicators.find(i => i.id === editingId) ?? null;
+  const canAdd = indicators.length < MAX_INDICATORS;
+
+  const renderRow = (indicator: ChartIndicator) => (
+    <div
+      key={indicator.id}
+      className={cn(
+        "group w-full flex items-center justify-between px-2 py-1.5 rounded-md transition-colors",
+        indicator.enabled ? "bg-accent/60" : "hover:bg-accent/40"
+      )}
+    >
+      <button
+        onClick={() => onToggleIndicator(indicator.id)}
+        className="flex items-center gap-2 min-w-0 flex-1 text-left"
+      >
+        <span
+          className={cn(
+            "w-2 h-2 rounded-full shrink-0 transition-all",
+            indicator.enabled ? "scale-100" : "scale-75 opacity-50"
+          )}
+          style={{ backgroundColor: indicator.color }}
+        />
+        <span className="text-[11px] font-medium truncate">
+          {getIndicatorLabel(indicator)}
+        </span>
+      </button>
+      <div className="flex items-center gap-0.5 shrink-0">
+        <button
+          onClick={() => setEditingId(indicator.id)}
+          className="p-1 rounded text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <SlidersHorizontal className="w-3 h-3" />
+        </button>
+        <button
+          onClick={() => onRemoveIndicator(indicator.id)}
+          className="p-1 rounded text-muted-foreground hover:text-loss opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <X className="w-3 h-3" />
+        </button>
+        <Switch
+          checked={indicator.enabled}
+          onCheckedChange={() => onToggleIndicator(indicator.id)}
+          className="scale-75"
+        />
+      </div>
+    </div>
+  );
 
   return (
-    <Popover open={indicatorMenuOpen} onOpenChange={setIndicatorMenuOpen}>
+    <Popover
+      open={indicatorMenuOpen}
+      onOpenChange={(open) => {
+        setIndicatorMenuOpen(open);
+        if (!open) setEditingId(null);
+      }}
+    >
       <PopoverTrigger asChild>
         <button
           className={cn(
             "flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-medium transition-all",
-            activeCount > 0 
-              ? "bg-primary/15 text-primary hover:bg-primary/20" 
+            activeCount > 0
+              ? "bg-primary/15 text-primary hover:bg-primary/20"
               : "bg-accent/60 hover:bg-accent text-muted-foreground"
           )}
         >
@@ -53,83 +131,71 @@ export function ChartToolbar({
           )} />
         </button>
       </PopoverTrigger>
-      <PopoverContent 
-        align="end" 
-        className="w-56 p-0 bg-card/95 backdrop-blur-sm border-border shadow-xl"
+      <PopoverContent
+        align="end"
+        className="w-64 p-0 bg-card/95 backdrop-blur-sm border-border shadow-xl"
         sideOffset={8}
       >
-        <div className="px-3 py-2.5 border-b border-border/50">
-          <h4 className="text-[11px] font-semibold">Technical Indicators</h4>
-          <p className="text-[9px] text-muted-foreground mt-0.5">Toggle overlays & oscillators</p>
-        </div>
-        
-        <div className="p-1.5 max-h-[280px] overflow-y-auto scrollbar-terminal">
-          <div className="text-[9px] font-semibold text-muted-foreground uppercase tracking-wider px-2 py-1.5">
-            Overlays
-          </div>
-          {overlayIndicators.map((indicator) => (
-            <button
-              key={indicator.id}
-              onClick={() => onToggleIndicator(indicator.id)}
-              className={cn(
-                "w-full flex items-center justify-between px-2 py-1.5 rounded-md transition-colors",
-                indicator.enabled ? "bg-accent/60" : "hover:bg-accent/40"
-              )}
-            >
-              <div className="flex items-center gap-2">
-                <span 
-                  className={cn(
-                    "w-2 h-2 rounded-full shrink-0 transition-all",
-                    indicator.enabled ? "scale-100" : "scale-75 opacity-50"
-                  )}
-                  style={{ backgroundColor: indicator.color }}
-                />
-                <span className="text-[11px] font-medium">
-                  {indicator.shortName}
-                </span>
+        {editing ? (
+          <IndicatorEditor
+            indicator={editing}
+            onChange={onUpdateIndicator}
+            onBack={() => setEditingId(null)}
+          />
+        ) : (
+          <>
+            <div className="px-3 py-2.5 border-b border-border/50">
+              <h4 className="text-[11px] font-semibold">Technical Indicators</h4>
+              <p className="text-[9px] text-muted-foreground mt-0.5">Toggle, tune or add overlays & oscillators</p>
+            </div>
+
+            <div className="p-1.5 max-h-[280px] overflow-y-auto scrollbar-terminal">
+              <div className="text-[9px] font-semibold text-muted-foreground uppercase tracking-wider px-2 py-1.5">
+                Overlays
               </div>
-              <Switch
-                checked={indicator.enabled}
-                onCheckedChange={() => onToggleIndicator(indicator.id)}
-                className="scale-75"
-              />
-            </button>
-          ))}
-          
-          <Separator className="my-1.5" />
-          
-          <div className="text-[9px] font-semibold text-muted-foreground uppercase tracking-wider px-2 py-1.5">
-            Oscillators
-          </div>
-          {oscillatorIndicators.map((indicator) => (
-            <button
-              key={indicator.id}
-              onClick={() => onToggleIndicator(indicator.id)}
-              className={cn(
-                "w-full flex items-center justify-between px-2 py-1.5 rounded-md transition-colors",
-                indicator.enabled ? "bg-accent/60" : "hover:bg-accent/40"
-              )}
-            >
-              <div className="flex items-center gap-2">
-                <span 
-                  className={cn(
-                    "w-2 h-2 rounded-full shrink-0 transition-all",
-                    indicator.enabled ? "scale-100" : "scale-75 opacity-50"
-                  )}
-                  style={{ backgroundColor: indicator.color }}
-                />
-                <span className="text-[11px] font-medium">
-                  {indicator.shortName}
-                </span>
+              {overlayIndicators.map(renderRow)}
+
+              <Separator className="my-1.5" />
+
+              <div className="text-[9px] font-semibold text-muted-foreground uppercase tracking-wider px-2 py-1.5">
+                Oscillators
               </div>
-              <Switch
-                checked={indicator.enabled}
-                onCheckedChange={() => onToggleIndicator(indicator.id)}
-                className="scale-75"
-              />
-            </button>
-          ))}
-        </div>
+              {oscillatorIndicators.map(renderRow)}
+            </div>
+
+            <div className="p-2 border-t border-border/50 flex items-center gap-1.5">
+              <Select value="" onValueChange={(kind) => onAddIndicator(kind as IndicatorKind)} disabled={!canAdd}>
+                <SelectTrigger className="h-7 flex-1 text-[11px] bg-muted/30 border-border/50">
+                  <SelectValue placeholder={canAdd ? "Add indicator" : `Limit of ${MAX_INDICATORS} reached`} />
+                </SelectTrigger>
+                <SelectContent className="max-h-72">
+                  {(["overlay", "oscillator"] as const).map((type) => (
+                    <SelectGroup key={type}>
+                      <SelectLabel className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                        {type === "overlay" ? "Overlays" : "Oscillators"}
+                      </SelectLabel>
+                      {INDICATOR_KINDS.filter((kind) => kind !== "formula" && INDICATOR_DEFINITIONS[kind].type === type).map((kind) => (
+                        <SelectItem key={kind} value={kind} className="text-xs">
+                          {INDICATOR_DEFINITIONS[kind].name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+              <button
+                onClick={() => {
+                  setIndicatorMenuOpen(false);
+                  onOpenFormulas();
+                }}
+                title="Custom formulas"
+                className="h-7 w-7 shrink-0 flex items-center justify-center rounded-md bg-muted/30 border border-border/50 text-muted-foreground hover:text-foreground"
+              >
+                <SquareFunction className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </>
+        )}
       </PopoverContent>
     </Popover>
   );
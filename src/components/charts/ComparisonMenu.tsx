@@ -0,0 +1,124 @@
+import { GitCompareArrows, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { StockSearch } from "@/components/dashboard/StockSearch";
+import { cn } from "@/lib/utils";
+import { MAX_COMPARISONS, type ComparisonMode } from "@/utils/comparison";
+
+export interface ChartComparison {
+  symbol: string;
+  color: string;
+}
+
+interface ComparisonMenuProps {
+  symbol: string;
+  comparisons: ChartComparison[];
+  onAdd: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+  /** Symbol the relative-strength pane measures against; null hides the pane */
+  benchmark: string | null;
+  onBenchmarkChange: (symbol: string | null) => void;
+  /** Symbols whose candles could not be loaded */
+  failed: string[];
+}
+
+export function ComparisonMenu({
+  symbol,
+  comparisons,
+  onAdd,
+  onRemove,
+  mode,
+  onModeChange,
+  benchmark,
+  onBenchmarkChange,
+  failed,
+}: ComparisonMenuProps) {
+  const canAdd = comparisons.length < MAX_COMPARISONS;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-medium transition-all",
+            comparisons.length > 0
+              ? "bg-primary/15 text-primary hover:bg-primary/20"
+              : "bg-accent/60 hover:bg-accent text-muted-foreground"
+          )}
+        >
+          <GitCompareArrows className="w-3 h-3" />
+          <span className="hidden sm:inline">Compare</span>
+          {comparisons.length > 0 && <span className="tabular-nums">{comparisons.length}</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border/50">
+          <span className="text-xs font-medium">Compare with {symbol}</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && onModeChange(value as ComparisonMode)}
+          >
+            <ToggleGroupItem value="percent" className="h-6 px-2 text-[10px]">%</ToggleGroupItem>
+            <ToggleGroupItem value="ratio" className="h-6 px-2 text-[10px]">A/B</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="p-2 border-b border-border/50">
+          {canAdd ? (
+            <StockSearch
+              onSelect={(selected) => onAdd(selected)}
+              placeholder="Add symbol, e.g. SPY"
+              showInline
+            />
+          ) : (
+            <p className="text-[10px] text-muted-foreground text-center py-1">
+              Up to {MAX_COMPARISONS} comparison symbols
+            </p>
+          )}
+        </div>
+
+        {comparisons.length === 0 ? (
+          <p className="px-3 py-4 text-[11px] text-muted-foreground text-center">
+            Overlay an index or sector ETF to see relative performance
+          </p>
+        ) : (
+          <div className="py-1">
+            {comparisons.map((comparison) => (
+              <div key={comparison.symbol} className="flex items-center gap-2 px-3 py-1.5 hover:bg-accent/40">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: comparison.color }} />
+                <span className="flex-1 text-xs font-mono">
+                  {mode === "ratio" ? `${symbol}/${comparison.symbol}` : comparison.symbol}
+                  {failed.includes(comparison.symbol) && (
+                    <span className="ml-1.5 text-[10px] text-loss font-sans">no data</span>
+                  )}
+                </span>
+                <button
+                  onClick={() => onBenchmarkChange(benchmark === comparison.symbol ? null : comparison.symbol)}
+                  title="Relative strength pane vs this symbol"
+                  className={cn(
+                    "px-1.5 py-0.5 rounded text-[9px] font-medium transition-colors",
+                    benchmark === comparison.symbol
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-accent/60 text-muted-foreground hover:bg-accent"
+                  )}
+                >
+                  RS
+                </button>
+                <button
+                  onClick={() => onRemove(comparison.symbol)}
+                  className="p-0.5 rounded text-muted-foreground hover:text-destructive"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
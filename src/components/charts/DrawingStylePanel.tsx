@@ -0,0 +1,144 @@
+import { Layers, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import { timeframeConfig } from "@/config/timeframes";
+import type { ChartDrawing, DrawingData, DrawingLineStyle, TimeframeType } from "@/types/market";
+import { DRAWING_COLORS, LINE_DASH } from "@/utils/chartDrawings";
+
+interface DrawingStylePanelProps {
+  drawing: ChartDrawing;
+  onChange: (data: DrawingData) => void;
+  /** null shows the drawing on every timeframe */
+  onTimeframesChange: (timeframes: string[] | null) => void;
+  onDelete: () => void;
+}
+
+const LINE_WIDTHS = [1, 2, 3, 4];
+const LINE_STYLES: DrawingLineStyle[] = ["solid", "dashed", "dotted"];
+const TIMEFRAMES = Object.keys(timeframeConfig) as TimeframeType[];
+
+/**
+ * Floating style controls for the selected drawing: color, line width and
+ * style, the text of an annotation, the timeframes it shows on, and delete.
+ */
+export function DrawingStylePanel({ drawing, onChange, onTimeframesChange, onDelete }: DrawingStylePanelProps) {
+  const { type, data } = drawing;
+  const hasLine = type !== "annotation" && type !== "anchored_vwap";
+  const defaultStyle: DrawingLineStyle = type === "horizontal" || type === "vertical" ? "dashed" : "solid";
+
+  const visibleOn = drawing.timeframes ?? TIMEFRAMES;
+
+  // Every timeframe selected goes back to "all", so timeframes added later show the drawing too
+  const changeTimeframes = (values: string[]) => {
+    if (values.length === 0) return;
+    onTimeframesChange(values.length === TIMEFRAMES.length ? null : TIMEFRAMES.filter((tf) => values.includes(tf)));
+  };
+
+  const editText = () => {
+    const text = prompt("Edit annotation text:", data.text);
+    if (text) onChange({ ...data, text });
+  };
+
+  return (
+    <div
+      className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 px-1.5 py-1 rounded-lg border border-border/50 bg-card/95 shadow-md"
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      {DRAWING_COLORS.map((color) => (
+        <button
+          key={color}
+          title={color}
+          onClick={() => onChange({ ...data, color })}
+          className={cn(
+            "w-4 h-4 rounded-full border transition-transform hover:scale-110",
+            data.color === color ? "border-foreground" : "border-transparent"
+          )}
+          style={{ backgroundColor: color }}
+        />
+      ))}
+
+      {hasLine && (
+        <>
+          <div className="w-px h-4 bg-border mx-1" />
+          {LINE_WIDTHS.map((width) => (
+            <button
+              key={width}
+              title={`${width}px`}
+              onClick={() => onChange({ ...data, lineWidth: width })}
+              className={cn(
+                "flex items-center justify-center w-6 h-6 rounded",
+                (data.lineWidth || 1) === width ? "bg-accent" : "hover:bg-accent/60"
+              )}
+            >
+              <span className="w-3.5 rounded-full bg-foreground" style={{ height: width }} />
+            </button>
+          ))}
+          <div className="w-px h-4 bg-border mx-1" />
+          {LINE_STYLES.map((style) => (
+            <button
+              key={style}
+              title={style}
+              onClick={() => onChange({ ...data, lineStyle: style })}
+              className={cn(
+                "flex items-center justify-center w-6 h-6 rounded",
+                (data.lineStyle ?? defaultStyle) === style ? "bg-accent" : "hover:bg-accent/60"
+              )}
+            >
+              <svg width={16} height={4}>
+                <line x1={0} y1={2} x2={16} y2={2} stroke="currentColor" strokeWidth={2} strokeDasharray={LINE_DASH[style]} />
+              </svg>
+            </button>
+          ))}
+        </>
+      )}
+
+      {type === "annotation" && (
+        <>
+          <div className="w-px h-4 bg-border mx-1" />
+          <Button variant="ghost" size="icon" className="h-6 w-6" title="Edit text" onClick={editText}>
+            <Pencil className="h-3 w-3" />
+          </Button>
+        </>
+      )}
+
+      <div className="w-px h-4 bg-border mx-1" />
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            title="Timeframes"
+            className={cn(
+              "flex items-center gap-1 h-6 px-1.5 rounded text-[10px] font-medium",
+              drawing.timeframes ? "bg-primary/15 text-primary" : "text-muted-foreground hover:bg-accent/60"
+            )}
+          >
+            <Layers className="h-3 w-3" />
+            {drawing.timeframes ? drawing.timeframes.join(" ") : "All"}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="center" className="w-auto p-2">
+          <p className="mb-1.5 text-[10px] text-muted-foreground">Show on timeframes</p>
+          <ToggleGroup type="multiple" size="sm" value={visibleOn} onValueChange={changeTimeframes}>
+            {TIMEFRAMES.map((tf) => (
+              <ToggleGroupItem key={tf} value={tf} className="h-6 px-2 text-[10px]">
+                {tf}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </PopoverContent>
+      </Popover>
+
+      <div className="w-px h-4 bg-border mx-1" />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+        title="Delete (Del)"
+        onClick={onDelete}
+      >
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
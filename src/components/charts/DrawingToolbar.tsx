@@ -5,7 +5,17 @@ import {
   GitBranch, 
   Type, 
   Trash2,
-  MousePointer
+  MousePointer,
+  Wand2,
+  Anchor,
+  ArrowUpRight,
+  Rows2,
+  RectangleHorizontal,
+  SeparatorVertical,
+  Ruler,
+  TrendingUpDown,
+  Undo2,
+  Redo2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { 
@@ -24,14 +34,28 @@ interface DrawingToolbarProps {
   onClearAll: () => void;
   drawingCount: number;
   disabled?: boolean;
+  /** Auto-detected support/resistance suggestions */
+  showSuggestions?: boolean;
+  onToggleSuggestions?: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 const tools = [
   { id: "select" as const, icon: MousePointer, label: "Select / Move", shortcut: "V" },
   { id: "trendline" as const, icon: TrendingUp, label: "Trend Line", shortcut: "T" },
+  { id: "ray" as const, icon: ArrowUpRight, label: "Ray", shortcut: "R" },
+  { id: "channel" as const, icon: Rows2, label: "Parallel Channel", shortcut: "C" },
   { id: "horizontal" as const, icon: Minus, label: "Horizontal Line", shortcut: "H" },
+  { id: "vertical" as const, icon: SeparatorVertical, label: "Vertical Line", shortcut: "L" },
+  { id: "rectangle" as const, icon: RectangleHorizontal, label: "Rectangle Zone", shortcut: "B" },
   { id: "fibonacci" as const, icon: GitBranch, label: "Fibonacci Retracement", shortcut: "F" },
+  { id: "fib_extension" as const, icon: TrendingUpDown, label: "Fibonacci Extension", shortcut: "E" },
+  { id: "measure" as const, icon: Ruler, label: "Measure", shortcut: "M" },
   { id: "annotation" as const, icon: Type, label: "Text Annotation", shortcut: "A" },
+  { id: "anchored_vwap" as const, icon: Anchor, label: "Anchored VWAP", shortcut: "W" },
 ];
 
 function DrawingToolbarComponent({
@@ -40,7 +64,18 @@ function DrawingToolbarComponent({
   onClearAll,
   drawingCount,
   disabled = false,
+  showSuggestions = false,
+  onToggleSuggestions,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
 }: DrawingToolbarProps) {
+  const history = [
+    { icon: Undo2, label: "Undo", shortcut: "Ctrl+Z", onClick: onUndo, enabled: canUndo },
+    { icon: Redo2, label: "Redo", shortcut: "Ctrl+Shift+Z", onClick: onRedo, enabled: canRedo },
+  ];
+
   return (
     <div className="flex items-center gap-0.5 p-1 bg-accent/40 rounded-lg">
       {tools.map((tool) => (
@@ -68,6 +103,51 @@ function DrawingToolbarComponent({
         </Tooltip>
       ))}
 
+      {onToggleSuggestions && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={disabled}
+              className={cn(
+                "h-7 w-7 rounded-md",
+                showSuggestions && "bg-primary/15 text-primary hover:bg-primary/20"
+              )}
+              onClick={onToggleSuggestions}
+            >
+              <Wand2 className="h-3.5 w-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom" className="text-xs">
+            {showSuggestions ? "Hide" : "Suggest"} Support/Resistance
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      <div className="w-px h-4 bg-border mx-1" />
+      {history.map((action) => (
+        <Tooltip key={action.label}>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={disabled || !action.enabled}
+              className="h-7 w-7 rounded-md"
+              onClick={action.onClick}
+            >
+              <action.icon className="h-3.5 w-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="bottom" className="text-xs">
+            <div className="flex items-center gap-2">
+              <span>{action.label}</span>
+              <kbd className="px-1 py-0.5 text-[10px] bg-muted rounded">{action.shortcut}</kbd>
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      ))}
+
       {drawingCount > 0 && (
         <>
           <div className="w-px h-4 bg-border mx-1" />
@@ -0,0 +1,243 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { useIndicatorFormulas, type SavedFormula } from "@/hooks/useIndicatorFormulas";
+import {
+  FORMULA_FUNCTIONS,
+  FORMULA_SERIES,
+  MAX_FORMULA_LENGTH,
+  getFormulaError,
+  type FormulaError,
+} from "@/utils/indicatorFormula";
+import type { IndicatorFormula } from "@/types/market";
+
+interface FormulaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddToChart: (formula: IndicatorFormula) => void;
+  canAdd: boolean;
+}
+
+const EMPTY_FORMULA: IndicatorFormula = { name: "", expression: "", plot: "oscillator" };
+
+// Error message with a caret under the offending character
+export function FormulaErrorHint({ expression, error }: { expression: string; error: FormulaError }) {
+  const start = Math.max(0, error.position - 30);
+  const snippet = expression.slice(start, error.position + 30);
+  return (
+    <div className="rounded-md bg-loss/10 border border-loss/20 px-2 py-1.5 space-y-1">
+      <p className="text-[11px] text-loss">{error.message}</p>
+      {expression.trim() && (
+        <pre className="text-[10px] font-mono text-muted-foreground leading-tight overflow-hidden">
+          {snippet}
+          {"\n"}
+          <span className="text-loss">{" ".repeat(error.position - start)}^</span>
+        </pre>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Write, save and plot custom indicator formulas. Saved formulas belong to
+ * the account, so they can be added to the chart of any symbol.
+ */
+export function FormulaDialog({ open, onOpenChange, onAddToChart, canAdd }: FormulaDialogProps) {
+  const { formulas, saveFormula, isSaving, deleteFormula } = useIndicatorFormulas();
+  const [draft, setDraft] = useState<IndicatorFormula>(EMPTY_FORMULA);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const error = useMemo(() => getFormulaError(draft.expression), [draft.expression]);
+  const isValid = !error && draft.name.trim().length > 0;
+
+  const resetDraft = () => {
+    setDraft(EMPTY_FORMULA);
+    setEditingId(null);
+  };
+
+  const editFormula = (formula: SavedFormula) => {
+    setDraft({ name: formula.name, expression: formula.expression, plot: formula.plot });
+    setEditingId(formula.id);
+  };
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    try {
+      const id = await saveFormula({ ...draft, id: editingId ?? undefined });
+      setEditingId(id);
+    } catch {
+      // Error toast is raised by the hook
+    }
+  };
+
+  const handleAdd = (formula: IndicatorFormula) => {
+    onAddToChart({ name: formula.name.trim(), expression: formula.expression.trim(), plot: formula.plot });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) resetDraft();
+      }}
+    >
+      <DialogContent className="sm:max-w-lg bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Custom Formulas</DialogTitle>
+          <DialogDescription className="text-xs">
+            Combine price series and built-in indicators, e.g. <code className="font-mono">(close - sma(close, 20)) / atr(14)</code>
+          </DialogDescription>
+        </DialogHeader>
+
+        {formulas.length > 0 && (
+          <div className="max-h-36 overflow-y-auto scrollbar-terminal space-y-1">
+            {formulas.map((formula) => (
+              <div
+                key={formula.id}
+                className={cn(
+                  "group flex items-center gap-2 px-2 py-1.5 rounded-md",
+                  editingId === formula.id ? "bg-primary/10" : "hover:bg-accent/40"
+                )}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-medium truncate">{formula.name}</p>
+                  <p className="text-[10px] font-mono text-muted-foreground truncate">{formula.expression}</p>
+                </div>
+                <span className="text-[9px] uppercase tracking-wide text-muted-foreground">{formula.plot}</span>
+                <button
+                  onClick={() => editFormula(formula)}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground"
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => {
+                    deleteFormula(formula.id);
+                    if (editingId === formula.id) resetDraft();
+                  }}
+                  className="p-1 rounded text-muted-foreground hover:text-loss"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!canAdd}
+                  onClick={() => handleAdd(formula)}
+                  className="h-6 px-2 text-[10px] gap-1"
+                >
+                  <Plus className="w-3 h-3" /> Add
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t border-border/50 pt-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label className="text-[10px] text-muted-foreground">Name</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. ATR-normalized distance"
+                maxLength={50}
+                className="h-8 bg-muted/30 border-border/50 text-xs"
+              />
+            </div>
+            <div className="flex items-center gap-0.5 p-0.5 rounded-md bg-accent/40">
+              {(["overlay", "oscillator"] as const).map((plot) => (
+                <button
+                  key={plot}
+                  onClick={() => setDraft({ ...draft, plot })}
+                  className={cn(
+                    "px-2 h-7 text-[10px] font-medium rounded capitalize transition-colors",
+                    draft.plot === plot ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {plot}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">Formula</Label>
+            <Textarea
+              value={draft.expression}
+              onChange={(e) => setDraft({ ...draft, expression: e.target.value })}
+              placeholder="rsi(close, 14) - sma(rsi(close, 14), 9)"
+              maxLength={MAX_FORMULA_LENGTH}
+              spellCheck={false}
+              rows={3}
+              className="bg-muted/30 border-border/50 text-xs font-mono resize-none"
+            />
+            {error && draft.expression.length > 0 && (
+              <FormulaErrorHint expression={draft.expression} error={error} />
+            )}
+          </div>
+
+          <Collapsible>
+            <CollapsibleTrigger className="group flex items-center gap-1 text-[10px] text-muted-foreground hover:text-foreground">
+              <ChevronDown className="w-3 h-3 transition-transform group-data-[state=open]:rotate-180" />
+              Reference
+            </CollapsibleTrigger>
+            <CollapsibleContent className="mt-2 max-h-40 overflow-y-auto scrollbar-terminal space-y-2 text-[10px]">
+              <p className="text-muted-foreground">
+                Series: <span className="font-mono text-foreground">{FORMULA_SERIES.join(", ")}</span>.
+                Operators: <span className="font-mono text-foreground">+ - * / &gt; &lt; &gt;= &lt;= == != and or not</span>.
+                Comparisons return 1 or 0. Lengths must be whole numbers.
+              </p>
+              <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                {FORMULA_FUNCTIONS.map((fn) => (
+                  <div key={fn.name} className="contents">
+                    <span className="font-mono text-foreground">{fn.signature}</span>
+                    <span className="text-muted-foreground">{fn.description}</span>
+                  </div>
+                ))}
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+
+          <div className="flex gap-2">
+            {editingId && (
+              <Button variant="ghost" onClick={resetDraft} className="h-9 text-sm">
+                New
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={handleSave}
+              disabled={!isValid || isSaving}
+              className="flex-1 h-9 text-sm"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {editingId ? "Save changes" : "Save formula"}
+            </Button>
+            <Button
+              onClick={() => handleAdd(draft)}
+              disabled={!isValid || !canAdd}
+              className="flex-1 h-9 text-sm bg-primary hover:bg-primary/90"
+            >
+              Add to chart
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
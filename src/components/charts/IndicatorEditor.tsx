@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { ArrowLeft } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { INDICATOR_DEFINITIONS, PRICE_SOURCES } from "@/config/indicators";
+import { MAX_FORMULA_LENGTH, getFormulaError } from "@/utils/indicatorFormula";
+import type { ChartIndicator, IndicatorFormula, PriceSource } from "@/types/market";
+import { FormulaErrorHint } from "./FormulaDialog";
+
+interface IndicatorEditorProps {
+  indicator: ChartIndicator;
+  onChange: (indicator: ChartIndicator) => void;
+  onBack: () => void;
+}
+
+const LINE_WIDTHS = [1, 2, 3, 4];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Settings for one indicator instance. Params are clamped to the bounds in
+ * its definition so the chart never recomputes with an invalid period.
+ */
+// Name, plot and expression of a formula instance; the expression applies on blur once it parses
+function FormulaFields({ formula, onChange }: { formula: IndicatorFormula; onChange: (formula: IndicatorFormula) => void }) {
+  const [expression, setExpression] = useState(formula.expression);
+  const error = getFormulaError(expression);
+
+  return (
+    <>
+      <div className="space-y-1">
+        <Label className="text-[10px] text-muted-foreground">Name</Label>
+        <Input
+          key={formula.name}
+          defaultValue={formula.name}
+          maxLength={50}
+          onBlur={(e) => e.target.value.trim() && onChange({ ...formula, name: e.target.value.trim() })}
+          className="h-7 bg-muted/30 border-border/50 text-xs"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-[10px] text-muted-foreground">Formula</Label>
+        <Textarea
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+          onBlur={() => !error && onChange({ ...formula, expression: expression.trim() })}
+          maxLength={MAX_FORMULA_LENGTH}
+          spellCheck={false}
+          rows={3}
+          className="bg-muted/30 border-border/50 text-[11px] font-mono resize-none"
+        />
+        {error && <FormulaErrorHint expression={expression} error={error} />}
+      </div>
+      <div className="space-y-1">
+        <Label className="text-[10px] text-muted-foreground">Plot</Label>
+        <div className="flex items-center gap-0.5 p-0.5 rounded-md bg-accent/40">
+          {(["overlay", "oscillator"] as const).map((plot) => (
+            <button
+              key={plot}
+              onClick={() => onChange({ ...formula, plot })}
+              className={cn(
+                "flex-1 h-6 text-[10px] font-medium rounded capitalize transition-colors",
+                formula.plot === plot ? "bg-primary/20 text-foreground" : "text-muted-foreground hover:bg-accent/60"
+              )}
+            >
+              {plot}
+            </button>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export function IndicatorEditor({ indicator, onChange, onBack }: IndicatorEditorProps) {
+  const definition = INDICATOR_DEFINITIONS[indicator.kind];
+
+  const setParam = (key: string, raw: string, min: number, max: number) => {
+    const parsed = parseFloat(raw);
+    if (!Number.isFinite(parsed)) return;
+    onChange({ ...indicator, params: { ...indicator.params, [key]: clamp(parsed, min, max) } });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 px-3 py-2.5 border-b border-border/50">
+        <button
+          onClick={onBack}
+          className="p-0.5 rounded hover:bg-accent text-muted-foreground"
+        >
+          <ArrowLeft className="w-3 h-3" />
+        </button>
+        <h4 className="text-[11px] font-semibold">{definition.name}</h4>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {indicator.formula && (
+          <FormulaFields
+            formula={indicator.formula}
+            onChange={(formula) => onChange({ ...indicator, formula, type: formula.plot })}
+          />
+        )}
+
+        {definition.paramFields.length > 0 && (
+          <div className="grid grid-cols-2 gap-2">
+            {definition.paramFields.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label className="text-[10px] text-muted-foreground">{field.label}</Label>
+                <Input
+                  // Remount when clamped so the field shows the applied value
+                  key={`${field.key}-${indicator.params[field.key]}`}
+                  type="number"
+                  defaultValue={indicator.params[field.key]}
+                  min={field.min}
+                  max={field.max}
+                  step={field.step ?? 1}
+                  onBlur={(e) => setParam(field.key, e.target.value, field.min, field.max)}
+                  onKeyDown={(e) => e.key === "Enter" && setParam(field.key, e.currentTarget.value, field.min, field.max)}
+                  className="h-7 bg-muted/30 border-border/50 text-xs font-mono"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {definition.supportsSource && (
+          <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">Source</Label>
+            <Select
+              value={indicator.source}
+              onValueChange={(source) => onChange({ ...indicator, source: source as PriceSource })}
+            >
+              <SelectTrigger className="h-7 text-xs bg-muted/30 border-border/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRICE_SOURCES.map((source) => (
+                  <SelectItem key={source.id} value={source.id} className="text-xs">{source.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">Color</Label>
+            <input
+              type="color"
+              value={indicator.color}
+              onChange={(e) => onChange({ ...indicator, color: e.target.value })}
+              className="block h-7 w-10 rounded border border-border/50 bg-transparent cursor-pointer"
+            />
+          </div>
+          <div className="space-y-1 flex-1">
+            <Label className="text-[10px] text-muted-foreground">Width</Label>
+            <div className="flex items-center gap-0.5 p-0.5 rounded-md bg-accent/40">
+              {LINE_WIDTHS.map((width) => (
+                <button
+                  key={width}
+                  onClick={() => onChange({ ...indicator, lineWidth: width })}
+                  className={cn(
+                    "flex-1 h-6 flex items-center justify-center rounded transition-colors",
+                    indicator.lineWidth === width ? "bg-primary/20" : "hover:bg-accent/60"
+                  )}
+                >
+                  <span className="w-4 rounded-full" style={{ height: width, backgroundColor: indicator.color }} />
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
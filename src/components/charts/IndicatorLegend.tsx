@@ -1,18 +1,54 @@
 import { memo } from "react";
-import { X } from "lucide-react";
+import { TrendingDown, TrendingUp, X } from "lucide-react";
 import type { ChartIndicator } from "@/types/market";
 import { cn } from "@/lib/utils";
+import { getIndicatorLabel } from "@/config/indicators";
+
+export interface DivergenceLegendEntry {
+  key: string;
+  label: string; // e.g. "RSI 14 hidden div"
+  date: string; // bar of the later pivot
+  bias: "bullish" | "bearish";
+}
+
+export interface ComparisonLegendEntry {
+  symbol: string;
+  label: string; // the symbol, or "AAPL/SPY" in ratio mode
+  color: string;
+  value: string; // e.g. "+4.2%" or "1.84" in ratio mode
+}
 
 interface IndicatorLegendProps {
   indicators: ChartIndicator[];
   onToggle: (id: string) => void;
+  divergences?: DivergenceLegendEntry[];
+  comparisons?: ComparisonLegendEntry[];
+  onRemoveComparison?: (symbol: string) => void;
 }
 
-function IndicatorLegendComponent({ indicators, onToggle }: IndicatorLegendProps) {
-  if (indicators.length === 0) return null;
+function IndicatorLegendComponent({
+  indicators,
+  onToggle,
+  divergences = [],
+  comparisons = [],
+  onRemoveComparison,
+}: IndicatorLegendProps) {
+  if (indicators.length === 0 && divergences.length === 0 && comparisons.length === 0) return null;
 
   return (
     <div className="flex items-center gap-1">
+      {comparisons.map((comparison) => (
+        <button
+          key={comparison.symbol}
+          onClick={() => onRemoveComparison?.(comparison.symbol)}
+          className="group flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-mono font-medium bg-accent/50 hover:bg-accent transition-all"
+        >
+          <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: comparison.color }} />
+          <span className="text-foreground/80">{comparison.label}</span>
+          <span className="tabular-nums" style={{ color: comparison.color }}>{comparison.value}</span>
+          <X className="w-2.5 h-2.5 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+        </button>
+      ))}
       {indicators.map((indicator) => (
         <button
           key={indicator.id}
@@ -26,10 +62,26 @@ function IndicatorLegendComponent({ indicators, onToggle }: IndicatorLegendProps
             className="w-2 h-2 rounded-full shrink-0"
             style={{ backgroundColor: indicator.color }}
           />
-          <span className="text-foreground/80">{indicator.shortName}</span>
+          <span className="text-foreground/80">{getIndicatorLabel(indicator)}</span>
           <X className="w-2.5 h-2.5 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
         </button>
       ))}
+      {divergences.map((divergence) => {
+        const Icon = divergence.bias === "bullish" ? TrendingUp : TrendingDown;
+        return (
+          <span
+            key={divergence.key}
+            className={cn(
+              "flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-mono font-medium whitespace-nowrap",
+              divergence.bias === "bullish" ? "bg-gain/10 text-gain" : "bg-loss/10 text-loss"
+            )}
+          >
+            <Icon className="w-2.5 h-2.5" />
+            {divergence.label}
+            <span className="text-muted-foreground">· {divergence.date}</span>
+          </span>
+        );
+      })}
     </div>
   );
 }
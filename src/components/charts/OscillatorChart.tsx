@@ -1,4 +1,4 @@
-import { memo, useMemo } from "react";
+import { memo, useMemo, type ComponentType } from "react";
 import {
   ComposedChart,
   Line,
@@ -12,24 +12,63 @@ import {
   Area,
 } from "recharts";
 import type { EnrichedCandle, ChartIndicator } from "@/types/market";
+import { INDICATOR_DEFINITIONS, PRICE_SOURCES } from "@/config/indicators";
+import { seriesKey } from "@/utils/indicatorSeries";
+import type { Divergence } from "@shared/divergence";
 import { cn } from "@/lib/utils";
 
 interface OscillatorChartProps {
   data: EnrichedCandle[];
   indicator: ChartIndicator;
   height?: number;
+  /** Divergences found on this instance's line, joined between the pivot bars */
+  divergences?: Divergence[];
 }
 
-function RSIChartComponent({ data, height = 80 }: { data: EnrichedCandle[]; height?: number }) {
+function readSeries(candle: EnrichedCandle | undefined, indicator: ChartIndicator, output: string): number | null {
+  return candle?.series[seriesKey(indicator.id, output)] ?? null;
+}
+
+// Segments from the earlier to the later pivot, dashed for hidden divergences.
+// Returned as elements (not a component) so recharts picks the ReferenceLines up.
+function renderDivergenceLines(data: EnrichedCandle[], divergences: Divergence[] = []) {
+  return divergences.map((d) => {
+    const start = data[d.startIndex];
+    const end = data[d.endIndex];
+    if (!start || !end) return null;
+    return (
+      <ReferenceLine
+        key={`${d.startIndex}-${d.endIndex}-${d.bias}`}
+        segment={[{ x: start.date, y: d.startValue }, { x: end.date, y: d.endValue }]}
+        stroke={d.bias === "bullish" ? "hsl(var(--gain))" : "hsl(var(--loss))"}
+        strokeWidth={1.5}
+        strokeDasharray={d.kind === "hidden" ? "4 3" : undefined}
+        ifOverflow="extendDomain"
+      />
+    );
+  });
+}
+
+// "(14)", "(12, 26, 9 · HL/2)"
+function paramsLabel(indicator: ChartIndicator): string {
+  const definition = INDICATOR_DEFINITIONS[indicator.kind];
+  const parts = definition.paramFields.map((field) => String(indicator.params[field.key]));
+  if (definition.supportsSource && indicator.source !== "close") {
+    parts.push(PRICE_SOURCES.find((s) => s.id === indicator.source)?.label ?? indicator.source);
+  }
+  return parts.length > 0 ? `(${parts.join(", ")})` : "";
+}
+
+function RSIChartComponent({ data, indicator, height = 80, divergences }: OscillatorChartProps) {
   const rsiData = useMemo(() => {
     return data.map(d => ({
       date: d.date,
-      rsi: d.rsi,
+      rsi: readSeries(d, indicator, "value"),
     }));
-  }, [data]);
+  }, [data, indicator]);
 
-  const currentRSI = data[data.length - 1]?.rsi;
-  const rsiStatus = currentRSI !== undefined 
+  const currentRSI = readSeries(data[data.length - 1], indicator, "value");
+  const rsiStatus = currentRSI !== null 
     ? currentRSI >= 70 ? "overbought" : currentRSI <= 30 ? "oversold" : "neutral"
     : "neutral";
 
@@ -38,7 +77,7 @@ function RSIChartComponent({ data, height = 80 }: { data: EnrichedCandle[]; heig
       <div className="flex items-center justify-between px-3 py-1.5 bg-accent/20">
         <div className="flex items-center gap-2">
           <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">RSI</span>
-          <span className="text-[9px] text-muted-foreground/60">(14)</span>
+          <span className="text-[9px] text-muted-foreground/60">{paramsLabel(indicator)}</span>
         </div>
         <div className="flex items-center gap-2">
           <span className={cn(
@@ -61,9 +100,9 @@ function RSIChartComponent({ data, height = 80 }: { data: EnrichedCandle[]; heig
       <ResponsiveContainer width="100%" height={height}>
         <ComposedChart data={rsiData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
           <defs>
-            <linearGradient id="rsiGradient" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="0%" stopColor="hsl(var(--primary))" stopOpacity={0.15} />
-              <stop offset="100%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+            <linearGradient id={`rsiGradient-${indicator.id}`} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="0%" stopColor={indicator.color} stopOpacity={0.15} />
+              <stop offset="100%" stopColor={indicator.color} stopOpacity={0} />
             </linearGradient>
           </defs>
           <CartesianGrid strokeDasharray="2 2" stroke="hsl(var(--chart-grid))" vertical={false} opacity={0.5} />
@@ -95,55 +134,61 @@ function RSIChartComponent({ data, height = 80 }: { data: EnrichedCandle[]; heig
             type="monotone"
             dataKey="rsi"
             stroke="transparent"
-            fill="url(#rsiGradient)"
+            fill={`url(#rsiGradient-${indicator.id})`}
             connectNulls
           />
           <Line
             type="monotone"
             dataKey="rsi"
-            stroke="hsl(var(--primary))"
-            strokeWidth={1.5}
+            stroke={indicator.color}
+            strokeWidth={indicator.lineWidth + 0.5}
             dot={false}
             connectNulls
           />
+          {renderDivergenceLines(data, divergences)}
         </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
 }
 
-function MACDChartComponent({ data, height = 100 }: { data: EnrichedCandle[]; height?: number }) {
+function MACDChartComponent({ data, indicator, height = 100, divergences }: OscillatorChartProps) {
   const macdData = useMemo(() => {
-    return data.map(d => ({
-      date: d.date,
-      macd: d.macd,
-      signal: d.macdSignal,
-      histogram: d.macdHistogram,
-      histogramPositive: d.macdHistogram && d.macdHistogram >= 0 ? d.macdHistogram : null,
-      histogramNegative: d.macdHistogram && d.macdHistogram < 0 ? d.macdHistogram : null,
-    }));
-  }, [data]);
+    return data.map(d => {
+      const histogram = readSeries(d, indicator, "histogram");
+      return {
+        date: d.date,
+        macd: readSeries(d, indicator, "macd"),
+        signal: readSeries(d, indicator, "signal"),
+        histogram,
+        histogramPositive: histogram && histogram >= 0 ? histogram : null,
+        histogramNegative: histogram && histogram < 0 ? histogram : null,
+      };
+    });
+  }, [data, indicator]);
 
-  const lastMacd = data[data.length - 1];
-  const isBullish = (lastMacd?.macd ?? 0) > (lastMacd?.macdSignal ?? 0);
+  const last = data[data.length - 1];
+  const lastMacd = readSeries(last, indicator, "macd");
+  const lastSignal = readSeries(last, indicator, "signal");
+  const isBullish = (lastMacd ?? 0) > (lastSignal ?? 0);
 
   return (
     <div className="border-t border-border/30">
       <div className="flex items-center justify-between px-3 py-1.5 bg-accent/20">
         <div className="flex items-center gap-2">
           <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">MACD</span>
-          <span className="text-[9px] text-muted-foreground/60">(12, 26, 9)</span>
+          <span className="text-[9px] text-muted-foreground/60">{paramsLabel(indicator)}</span>
         </div>
         <div className="flex items-center gap-3 text-[10px] font-mono">
           <div className="flex items-center gap-1">
-            <span className="w-1.5 h-1.5 rounded-full bg-info" />
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: indicator.color }} />
             <span className="text-muted-foreground">MACD</span>
-            <span className="text-info font-medium tabular-nums">{lastMacd?.macd?.toFixed(2) ?? "--"}</span>
+            <span className="font-medium tabular-nums" style={{ color: indicator.color }}>{lastMacd?.toFixed(2) ?? "--"}</span>
           </div>
           <div className="flex items-center gap-1">
             <span className="w-1.5 h-1.5 rounded-full bg-warning" />
             <span className="text-muted-foreground">Sig</span>
-            <span className="text-warning font-medium tabular-nums">{lastMacd?.macdSignal?.toFixed(2) ?? "--"}</span>
+            <span className="text-warning font-medium tabular-nums">{lastSignal?.toFixed(2) ?? "--"}</span>
           </div>
           <span className={cn(
             "text-[9px] font-medium px-1.5 py-0.5 rounded",
@@ -195,8 +240,8 @@ function MACDChartComponent({ data, height = 100 }: { data: EnrichedCandle[]; he
           <Line
             type="monotone"
             dataKey="macd"
-            stroke="hsl(var(--info))"
-            strokeWidth={1.5}
+            stroke={indicator.color}
+            strokeWidth={indicator.lineWidth + 0.5}
             dot={false}
             connectNulls
           />
@@ -210,6 +255,439 @@ function MACDChartComponent({ data, height = 100 }: { data: EnrichedCandle[]; he
             dot={false}
             connectNulls
           />
+          {renderDivergenceLines(data, divergences)}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function StochasticChartComponent({ data, indicator, height = 80 }: OscillatorChartProps) {
+  const stochData = useMemo(() => {
+    return data.map(d => ({
+      date: d.date,
+      k: readSeries(d, indicator, "k"),
+      d: readSeries(d, indicator, "d"),
+    }));
+  }, [data, indicator]);
+
+  const last = data[data.length - 1];
+  const currentK = readSeries(last, indicator, "k");
+  const stochStatus = currentK !== null
+    ? currentK >= 80 ? "overbought" : currentK <= 20 ? "oversold" : "neutral"
+    : "neutral";
+
+  return (
+    <div className="border-t border-border/30">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-accent/20">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">Stoch</span>
+          <span className="text-[9px] text-muted-foreground/60">{paramsLabel(indicator)}</span>
+        </div>
+        <div className="flex items-center gap-3 text-[10px] font-mono">
+          <div className="flex items-center gap-1">
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: indicator.color }} />
+            <span className="text-muted-foreground">%K</span>
+            <span className="font-medium tabular-nums" style={{ color: indicator.color }}>{currentK?.toFixed(1) ?? "--"}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-1.5 h-1.5 rounded-full bg-warning" />
+            <span className="text-muted-foreground">%D</span>
+            <span className="text-warning font-medium tabular-nums">{readSeries(last, indicator, "d")?.toFixed(1) ?? "--"}</span>
+          </div>
+          {stochStatus !== "neutral" && (
+            <span className={cn(
+              "text-[9px] font-medium px-1.5 py-0.5 rounded",
+              stochStatus === "overbought" ? "bg-loss/10 text-loss" : "bg-gain/10 text-gain"
+            )}>
+              {stochStatus === "overbought" ? "Overbought" : "Oversold"}
+            </span>
+          )}
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={stochData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="2 2" stroke="hsl(var(--chart-grid))" vertical={false} opacity={0.5} />
+          <XAxis dataKey="date" hide />
+          <YAxis 
+            domain={[0, 100]} 
+            ticks={[20, 80]}
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 8 }}
+            axisLine={false}
+            tickLine={false}
+            width={28}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+              fontSize: '10px',
+              padding: '6px 10px',
+            }}
+            formatter={(value: number, name: string) => [value?.toFixed(1), name === "k" ? "%K" : "%D"]}
+          />
+          
+          <ReferenceLine y={80} stroke="hsl(var(--loss))" strokeDasharray="4 2" strokeOpacity={0.4} strokeWidth={1} />
+          <ReferenceLine y={20} stroke="hsl(var(--gain))" strokeDasharray="4 2" strokeOpacity={0.4} strokeWidth={1} />
+          
+          <Line type="monotone" dataKey="k" stroke={indicator.color} strokeWidth={indicator.lineWidth + 0.5} dot={false} connectNulls />
+          <Line type="monotone" dataKey="d" stroke="hsl(var(--warning))" strokeWidth={1.5} dot={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function ADXChartComponent({ data, indicator, height = 80 }: OscillatorChartProps) {
+  const adxData = useMemo(() => {
+    return data.map(d => ({
+      date: d.date,
+      adx: readSeries(d, indicator, "adx"),
+      plusDI: readSeries(d, indicator, "plusDI"),
+      minusDI: readSeries(d, indicator, "minusDI"),
+    }));
+  }, [data, indicator]);
+
+  const last = data[data.length - 1];
+  const lastAdx = readSeries(last, indicator, "adx");
+  const lastPlusDI = readSeries(last, indicator, "plusDI");
+  const lastMinusDI = readSeries(last, indicator, "minusDI");
+  const isTrending = (lastAdx ?? 0) >= 25;
+  const isBullish = (lastPlusDI ?? 0) > (lastMinusDI ?? 0);
+
+  return (
+    <div className="border-t border-border/30">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-accent/20">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">ADX</span>
+          <span className="text-[9px] text-muted-foreground/60">{paramsLabel(indicator)}</span>
+        </div>
+        <div className="flex items-center gap-3 text-[10px] font-mono">
+          <div className="flex items-center gap-1">
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: indicator.color }} />
+            <span className="text-muted-foreground">ADX</span>
+            <span className="font-medium tabular-nums" style={{ color: indicator.color }}>{lastAdx?.toFixed(1) ?? "--"}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-1.5 h-1.5 rounded-full bg-gain" />
+            <span className="text-muted-foreground">+DI</span>
+            <span className="text-gain font-medium tabular-nums">{lastPlusDI?.toFixed(1) ?? "--"}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-1.5 h-1.5 rounded-full bg-loss" />
+            <span className="text-muted-foreground">-DI</span>
+            <span className="text-loss font-medium tabular-nums">{lastMinusDI?.toFixed(1) ?? "--"}</span>
+          </div>
+          <span className={cn(
+            "text-[9px] font-medium px-1.5 py-0.5 rounded",
+            !isTrending ? "bg-muted text-muted-foreground" : isBullish ? "bg-gain/10 text-gain" : "bg-loss/10 text-loss"
+          )}>
+            {!isTrending ? "Ranging" : isBullish ? "Uptrend" : "Downtrend"}
+          </span>
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={adxData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="2 2" stroke="hsl(var(--chart-grid))" vertical={false} opacity={0.5} />
+          <XAxis dataKey="date" hide />
+          <YAxis 
+            domain={[0, 'auto']}
+            ticks={[25]}
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 8 }}
+            axisLine={false}
+            tickLine={false}
+            width={28}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+              fontSize: '10px',
+              padding: '6px 10px',
+            }}
+            formatter={(value: number, name: string) => [
+              value?.toFixed(1),
+              name === "plusDI" ? "+DI" : name === "minusDI" ? "-DI" : "ADX",
+            ]}
+          />
+          
+          {/* Trend threshold */}
+          <ReferenceLine y={25} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 2" strokeOpacity={0.4} strokeWidth={1} />
+          
+          <Line type="monotone" dataKey="plusDI" stroke="hsl(var(--gain))" strokeWidth={1} dot={false} connectNulls />
+          <Line type="monotone" dataKey="minusDI" stroke="hsl(var(--loss))" strokeWidth={1} dot={false} connectNulls />
+          <Line type="monotone" dataKey="adx" stroke={indicator.color} strokeWidth={indicator.lineWidth + 0.5} dot={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function formatCompact(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "--";
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${(value / 1e3).toFixed(1)}K`;
+  return value.toFixed(0);
+}
+
+function OBVChartComponent({ data, indicator, height = 80 }: OscillatorChartProps) {
+  const obvData = useMemo(() => {
+    return data.map(d => ({
+      date: d.date,
+      obv: readSeries(d, indicator, "value"),
+    }));
+  }, [data, indicator]);
+
+  const currentOBV = readSeries(data[data.length - 1], indicator, "value");
+  // Direction over the last 20 bars
+  const prevOBV = readSeries(data[Math.max(0, data.length - 21)], indicator, "value");
+  const isRising = currentOBV !== null && prevOBV !== null
+    ? currentOBV >= prevOBV
+    : true;
+
+  return (
+    <div className="border-t border-border/30">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-accent/20">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">OBV</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-mono font-semibold tabular-nums text-foreground">
+            {formatCompact(currentOBV)}
+          </span>
+          <span className={cn(
+            "text-[9px] font-medium px-1.5 py-0.5 rounded",
+            isRising ? "bg-gain/10 text-gain" : "bg-loss/10 text-loss"
+          )}>
+            {isRising ? "Accumulation" : "Distribution"}
+          </span>
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={obvData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="2 2" stroke="hsl(var(--chart-grid))" vertical={false} opacity={0.5} />
+          <XAxis dataKey="date" hide />
+          <YAxis 
+            domain={['auto', 'auto']}
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 8 }}
+            axisLine={false}
+            tickLine={false}
+            width={28}
+            tickFormatter={formatCompact}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+              fontSize: '10px',
+              padding: '6px 10px',
+            }}
+            formatter={(value: number) => [formatCompact(value), 'OBV']}
+          />
+          <Line type="monotone" dataKey="obv" stroke={indicator.color} strokeWidth={indicator.lineWidth + 0.5} dot={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function ATRChartComponent({ data, indicator, height = 80 }: OscillatorChartProps) {
+  const atrData = useMemo(() => {
+    return data.map(d => ({
+      date: d.date,
+      atr: readSeries(d, indicator, "value"),
+    }));
+  }, [data, indicator]);
+
+  const last = data[data.length - 1];
+  const lastAtr = readSeries(last, indicator, "value");
+  const atrPercent = lastAtr && last?.close ? (lastAtr / last.close) * 100 : null;
+
+  return (
+    <div className="border-t border-border/30">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-accent/20">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">ATR</span>
+          <span className="text-[9px] text-muted-foreground/60">{paramsLabel(indicator)}</span>
+        </div>
+        <div className="flex items-center gap-2 text-[10px] font-mono">
+          <span className="text-xs font-semibold tabular-nums text-foreground">{lastAtr?.toFixed(2) ?? "--"}</span>
+          {atrPercent !== null && (
+            <span className="text-muted-foreground tabular-nums">{atrPercent.toFixed(1)}% of price</span>
+          )}
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={atrData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+          <defs>
+            <linearGradient id={`atrGradient-${indicator.id}`} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="0%" stopColor={indicator.color} stopOpacity={0.15} />
+              <stop offset="100%" stopColor={indicator.color} stopOpacity={0} />
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="2 2" stroke="hsl(var(--chart-grid))" vertical={false} opacity={0.5} />
+          <XAxis dataKey="date" hide />
+          <YAxis 
+            domain={['auto', 'auto']}
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 8 }}
+            axisLine={false}
+            tickLine={false}
+            width={28}
+            tickFormatter={(v) => v.toFixed(1)}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+              fontSize: '10px',
+              padding: '6px 10px',
+            }}
+            formatter={(value: number) => [value?.toFixed(2), 'ATR']}
+          />
+          <Area type="monotone" dataKey="atr" stroke="transparent" fill={`url(#atrGradient-${indicator.id})`} connectNulls />
+          <Line type="monotone" dataKey="atr" stroke={indicator.color} strokeWidth={indicator.lineWidth + 0.5} dot={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+// Custom formulas have no known range, so the axis fits the data
+function FormulaChartComponent({ data, indicator, height = 80 }: OscillatorChartProps) {
+  const formulaData = useMemo(() => {
+    return data.map(d => ({
+      date: d.date,
+      value: readSeries(d, indicator, "value"),
+    }));
+  }, [data, indicator]);
+
+  const values = formulaData.map(d => d.value).filter((v): v is number => v !== null);
+  const crossesZero = values.some(v => v < 0) && values.some(v => v > 0);
+  const lastValue = readSeries(data[data.length - 1], indicator, "value");
+  const format = (value: number | null | undefined) =>
+    value !== null && value !== undefined && Math.abs(value) < 1000 ? value.toFixed(2) : formatCompact(value);
+
+  return (
+    <div className="border-t border-border/30">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-accent/20 gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide truncate">
+            {indicator.formula?.name ?? "Formula"}
+          </span>
+          <span className="text-[9px] text-muted-foreground/60 font-mono truncate">{indicator.formula?.expression}</span>
+        </div>
+        <span className="text-xs font-mono font-semibold tabular-nums text-foreground shrink-0">{format(lastValue)}</span>
+      </div>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={formulaData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="2 2" stroke="hsl(var(--chart-grid))" vertical={false} opacity={0.5} />
+          <XAxis dataKey="date" hide />
+          <YAxis 
+            domain={['auto', 'auto']}
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 8 }}
+            axisLine={false}
+            tickLine={false}
+            width={28}
+            tickFormatter={format}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+              fontSize: '10px',
+              padding: '6px 10px',
+            }}
+            formatter={(value: number) => [format(value), indicator.formula?.name ?? 'Value']}
+          />
+          {crossesZero && <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.3} />}
+          <Line type="monotone" dataKey="value" stroke={indicator.color} strokeWidth={indicator.lineWidth + 0.5} dot={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+interface RelativeStrengthChartProps {
+  data: EnrichedCandle[];
+  /** Mansfield RS of the charted symbol vs `benchmark`, aligned to `data` */
+  values: (number | null)[];
+  benchmark: string;
+  color: string;
+  period: number;
+  height?: number;
+}
+
+// Not an indicator instance: it needs the benchmark's candles, so the chart feeds it directly
+function RelativeStrengthChartComponent({ data, values, benchmark, color, period, height = 65 }: RelativeStrengthChartProps) {
+  const rsData = useMemo(() => {
+    return data.map((d, i) => {
+      const rs = values[i] ?? null;
+      return {
+        date: d.date,
+        rs,
+        rsPositive: rs !== null && rs >= 0 ? rs : null,
+        rsNegative: rs !== null && rs < 0 ? rs : null,
+      };
+    });
+  }, [data, values]);
+
+  const currentRS = values[values.length - 1] ?? null;
+  const isOutperforming = (currentRS ?? 0) >= 0;
+
+  return (
+    <div className="border-t border-border/30">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-accent/20">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wide">RS vs {benchmark}</span>
+          <span className="text-[9px] text-muted-foreground/60">({period})</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-mono font-semibold tabular-nums text-foreground">
+            {currentRS !== null ? `${currentRS >= 0 ? "+" : ""}${currentRS.toFixed(1)}%` : "--"}
+          </span>
+          {currentRS !== null && (
+            <span className={cn(
+              "text-[9px] font-medium px-1.5 py-0.5 rounded",
+              isOutperforming ? "bg-gain/10 text-gain" : "bg-loss/10 text-loss"
+            )}>
+              {isOutperforming ? "Outperforming" : "Underperforming"}
+            </span>
+          )}
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={rsData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="2 2" stroke="hsl(var(--chart-grid))" vertical={false} opacity={0.5} />
+          <XAxis dataKey="date" hide />
+          <YAxis 
+            domain={['auto', 'auto']}
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 8 }}
+            axisLine={false}
+            tickLine={false}
+            width={28}
+            tickFormatter={(v) => v.toFixed(0)}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+              fontSize: '10px',
+              padding: '6px 10px',
+            }}
+            formatter={(value: number) => [`${value?.toFixed(1)}%`, `RS vs ${benchmark}`]}
+          />
+          <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.3} />
+          <Area type="monotone" dataKey="rsPositive" stroke="transparent" fill="hsl(var(--gain))" fillOpacity={0.15} tooltipType="none" />
+          <Area type="monotone" dataKey="rsNegative" stroke="transparent" fill="hsl(var(--loss))" fillOpacity={0.15} tooltipType="none" />
+          <Line type="monotone" dataKey="rs" stroke={color} strokeWidth={1.5} dot={false} connectNulls />
         </ComposedChart>
       </ResponsiveContainer>
     </div>
@@ -218,3 +696,25 @@ function MACDChartComponent({ data, height = 100 }: { data: EnrichedCandle[]; he
 
 export const RSIChart = memo(RSIChartComponent);
 export const MACDChart = memo(MACDChartComponent);
+export const StochasticChart = memo(StochasticChartComponent);
+export const ADXChart = memo(ADXChartComponent);
+export const OBVChart = memo(OBVChartComponent);
+export const ATRChart = memo(ATRChartComponent);
+export const FormulaChart = memo(FormulaChartComponent);
+export const RelativeStrengthChart = memo(RelativeStrengthChartComponent);
+
+const OSCILLATOR_CHARTS: Partial<Record<ChartIndicator["kind"], ComponentType<OscillatorChartProps>>> = {
+  rsi: RSIChart,
+  macd: MACDChart,
+  stoch: StochasticChart,
+  adx: ADXChart,
+  obv: OBVChart,
+  atr: ATRChart,
+  formula: FormulaChart,
+};
+
+// Pane for one oscillator instance, picked by its kind
+export function OscillatorChart(props: OscillatorChartProps) {
+  const Chart = OSCILLATOR_CHARTS[props.indicator.kind];
+  return Chart ? <Chart {...props} /> : null;
+}
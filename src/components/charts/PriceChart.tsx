@@ -4,14 +4,25 @@ import {
   ColorType,
   CrosshairMode,
   LineSeries,
+  LineStyle,
+  PriceScaleMode,
   createChart,
+  createSeriesMarkers,
   type CandlestickData,
   type IChartApi,
   type ISeriesApi,
+  type ISeriesMarkersPluginApi,
   type LineData,
+  type LineWidth,
+  type SeriesMarker,
   type Time,
 } from "lightweight-charts";
 import type { ChartIndicator, EnrichedCandle } from "@/types/market";
+import { INDICATOR_DEFINITIONS, type IndicatorOutput } from "@/config/indicators";
+import { seriesKey } from "@/utils/indicatorSeries";
+import { CANDLESTICK_PATTERNS, type PatternDetection } from "@shared/candlestickPatterns";
+import type { Divergence } from "@shared/divergence";
+import type { ComparisonMode } from "@/utils/comparison";
 
 interface PriceChartProps {
   data: EnrichedCandle[];
@@ -19,37 +30,67 @@ interface PriceChartProps {
   indicators: ChartIndicator[];
   showCrosshair: boolean;
   height?: number;
+  /** Candlestick pattern detections drawn as markers on their last bar */
+  patterns?: PatternDetection[];
+  /** RSI/MACD divergences, drawn between their price pivots (indices into `data`) */
+  divergences?: Divergence[];
+  /** Anchored VWAP drawings, values aligned to `data` */
+  anchoredVwaps?: AnchoredVwapLine[];
+  /** Other symbols: closes in percent mode, charted/other ratios in ratio mode */
+  comparisons?: ComparisonLine[];
+  comparisonMode?: ComparisonMode;
   /** Callback when chart and series are ready for drawing tools */
   onChartReady?: (chart: IChartApi, series: ISeriesApi<"Candlestick">) => void;
 }
 
+export interface AnchoredVwapLine {
+  id: string; // the drawing's id
+  color: string;
+  lineWidth: number;
+  values: (number | null)[];
+}
+
+export interface ComparisonLine {
+  symbol: string;
+  color: string;
+  values: (number | null)[]; // aligned to `data`
+}
+
+// SuperTrend switches to this color while trending down
+const SUPERTREND_DOWN_COLOR = "#f43f5e";
+const NEUTRAL_PATTERN_COLOR = "#a1a1aa";
+
+// One line series per plotted output of an enabled overlay instance
+interface OverlayLine {
+  key: string; // seriesKey(indicator.id, output.key)
+  indicator: ChartIndicator;
+  output: IndicatorOutput;
+}
+
 function PriceChartComponent({
   data,
   currentPrice: _currentPrice,
   indicators,
   showCrosshair,
   height = 350,
+  patterns,
+  divergences,
+  anchoredVwaps,
+  comparisons,
+  comparisonMode = "percent",
   onChartReady,
 }: PriceChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candleSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
-  const sma20SeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-  const sma50SeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-  const ema12SeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-  const ema26SeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-  const bbUpperSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-  const bbMiddleSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-  const bbLowerSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-  const vwapSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
-
-  // Check which indicators are enabled
-  const showSma20 = indicators.find((i) => i.id === "sma20")?.enabled ?? true;
-  const showSma50 = indicators.find((i) => i.id === "sma50")?.enabled ?? true;
-  const showEma12 = indicators.find((i) => i.id === "ema12")?.enabled ?? false;
-  const showEma26 = indicators.find((i) => i.id === "ema26")?.enabled ?? false;
-  const showBB = indicators.find((i) => i.id === "bb")?.enabled ?? false;
-  const showVwap = indicators.find((i) => i.id === "vwap")?.enabled ?? false;
+  const overlaySeriesRef = useRef<Map<string, ISeriesApi<"Line">>>(new Map());
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  const divergenceSeriesRef = useRef<ISeriesApi<"Line">[]>([]);
+  const anchoredVwapSeriesRef = useRef<ISeriesApi<"Line">[]>([]);
+  const comparisonSeriesRef = useRef<ISeriesApi<"Line">[]>([]);
+  // Read when the chart is created; the crosshair toggle effect handles later changes
+  const showCrosshairRef = useRef(showCrosshair);
+  showCrosshairRef.current = showCrosshair;
 
   // Transform data to ensure YYYY-MM-DD format for lightweight-charts
   const chartData = useMemo(() => {
@@ -71,43 +112,31 @@ function PriceChartComponent({
       .sort((a, b) => a.timestamp - b.timestamp);
   }, [data]);
 
-  const { candleData, sma20Data, sma50Data, ema12Data, ema26Data, bbUpperData, bbMiddleData, bbLowerData, vwapData } = useMemo(() => {
-    const candles: CandlestickData<Time>[] = [];
-    const sma20: LineData<Time>[] = [];
-    const sma50: LineData<Time>[] = [];
-    const ema12: LineData<Time>[] = [];
-    const ema26: LineData<Time>[] = [];
-    const bbUpper: LineData<Time>[] = [];
-    const bbMiddle: LineData<Time>[] = [];
-    const bbLower: LineData<Time>[] = [];
-    const vwap: LineData<Time>[] = [];
-
-    for (const c of chartData) {
-      const time = c.date as Time;
-      candles.push({ time, open: c.open, high: c.high, low: c.low, close: c.close });
-
-      if (c.sma20 !== null && c.sma20 !== undefined) sma20.push({ time, value: c.sma20 });
-      if (c.sma50 !== null && c.sma50 !== undefined) sma50.push({ time, value: c.sma50 });
-      if (c.ema12 !== null && c.ema12 !== undefined) ema12.push({ time, value: c.ema12 });
-      if (c.ema26 !== null && c.ema26 !== undefined) ema26.push({ time, value: c.ema26 });
-      if (c.bbUpper !== null && c.bbUpper !== undefined) bbUpper.push({ time, value: c.bbUpper });
-      if (c.bbMiddle !== null && c.bbMiddle !== undefined) bbMiddle.push({ time, value: c.bbMiddle });
-      if (c.bbLower !== null && c.bbLower !== undefined) bbLower.push({ time, value: c.bbLower });
-      if (c.vwap !== null && c.vwap !== undefined) vwap.push({ time, value: c.vwap });
-    }
+  const candleData = useMemo(
+    () =>
+      chartData.map((c): CandlestickData<Time> => ({
+        time: c.date as Time,
+        open: c.open,
+        high: c.high,
+        low: c.low,
+        close: c.close,
+      })),
+    [chartData]
+  );
 
-    return { 
-      candleData: candles, 
-      sma20Data: sma20, 
-      sma50Data: sma50, 
-      ema12Data: ema12, 
-      ema26Data: ema26,
-      bbUpperData: bbUpper,
-      bbMiddleData: bbMiddle,
-      bbLowerData: bbLower,
-      vwapData: vwap
-    };
-  }, [chartData]);
+  const overlayLines = useMemo(
+    () =>
+      indicators
+        .filter((i) => i.enabled && i.type === "overlay")
+        .flatMap((indicator) =>
+          INDICATOR_DEFINITIONS[indicator.kind].outputs.map((output): OverlayLine => ({
+            key: seriesKey(indicator.id, output.key),
+            indicator,
+            output,
+          }))
+        ),
+    [indicators]
+  );
 
   const readCssHsl = (varName: string, fallback: string) => {
     if (typeof window === "undefined") return `hsl(${fallback})`;
@@ -115,18 +144,9 @@ function PriceChartComponent({
     return `hsl(${raw || fallback})`;
   };
 
-  if (chartData.length === 0) {
-    return (
-      <div 
-        className="w-full flex items-center justify-center text-muted-foreground text-sm"
-        style={{ height }}
-      >
-        No data available
-      </div>
-    );
-  }
+  const hasData = chartData.length > 0;
 
-  // Init chart once per mount/height
+  // Init chart once per mount/height (the container only exists once there is data)
   useEffect(() => {
     if (!containerRef.current) return;
 
@@ -136,8 +156,6 @@ function PriceChartComponent({
     const border = readCssHsl("--border", "240 5% 12%");
     const up = readCssHsl("--chart-candle-up", "160 84% 39%");
     const down = readCssHsl("--chart-candle-down", "350 89% 60%");
-    const info = readCssHsl("--info", "217 91% 60%");
-    const warning = readCssHsl("--warning", "38 92% 50%");
 
     const chart = createChart(containerRef.current, {
       layout: {
@@ -151,7 +169,7 @@ function PriceChartComponent({
         horzLines: { color: grid, style: 1 },
       },
       crosshair: {
-        mode: showCrosshair ? CrosshairMode.Normal : CrosshairMode.Hidden,
+        mode: showCrosshairRef.current ? CrosshairMode.Normal : CrosshairMode.Hidden,
         vertLine: { color: border },
         horzLine: { color: border },
       },
@@ -175,78 +193,9 @@ function PriceChartComponent({
       wickDownColor: down,
     });
 
-    const sma20Series = chart.addSeries(LineSeries, {
-      color: info,
-      lineWidth: 1,
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
-
-    const sma50Series = chart.addSeries(LineSeries, {
-      color: warning,
-      lineWidth: 1,
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
-
-    // EMA 12 - Blue
-    const ema12Series = chart.addSeries(LineSeries, {
-      color: "hsl(217 91% 60%)",
-      lineWidth: 1,
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
-
-    // EMA 26 - Purple
-    const ema26Series = chart.addSeries(LineSeries, {
-      color: "hsl(280 70% 60%)",
-      lineWidth: 1,
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
-
-    // Bollinger Bands - Cyan with different opacities
-    const bbUpperSeries = chart.addSeries(LineSeries, {
-      color: "hsl(180 70% 50%)",
-      lineWidth: 1,
-      lineStyle: 2, // Dashed
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
-
-    const bbMiddleSeries = chart.addSeries(LineSeries, {
-      color: "hsl(180 70% 60%)",
-      lineWidth: 1,
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
-
-    const bbLowerSeries = chart.addSeries(LineSeries, {
-      color: "hsl(180 70% 50%)",
-      lineWidth: 1,
-      lineStyle: 2, // Dashed
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
-
-    // VWAP - Amber
-    const vwapSeries = chart.addSeries(LineSeries, {
-      color: "hsl(38 92% 50%)",
-      lineWidth: 2,
-      priceLineVisible: false,
-      lastValueVisible: false,
-    });
-
     chartRef.current = chart;
     candleSeriesRef.current = candleSeries;
-    sma20SeriesRef.current = sma20Series;
-    sma50SeriesRef.current = sma50Series;
-    ema12SeriesRef.current = ema12Series;
-    ema26SeriesRef.current = ema26Series;
-    bbUpperSeriesRef.current = bbUpperSeries;
-    bbMiddleSeriesRef.current = bbMiddleSeries;
-    bbLowerSeriesRef.current = bbLowerSeries;
-    vwapSeriesRef.current = vwapSeries;
+    markersRef.current = createSeriesMarkers(candleSeries);
 
     // Notify parent that chart is ready for drawing tools
     onChartReady?.(chart, candleSeries);
@@ -259,6 +208,7 @@ function PriceChartComponent({
     const ro = new ResizeObserver(handleResize);
     ro.observe(containerRef.current);
 
+    const overlaySeries = overlaySeriesRef.current;
     return () => {
       ro.disconnect();
       // Notify parent that chart is being destroyed
@@ -266,16 +216,13 @@ function PriceChartComponent({
       chart.remove();
       chartRef.current = null;
       candleSeriesRef.current = null;
-      sma20SeriesRef.current = null;
-      sma50SeriesRef.current = null;
-      ema12SeriesRef.current = null;
-      ema26SeriesRef.current = null;
-      bbUpperSeriesRef.current = null;
-      bbMiddleSeriesRef.current = null;
-      bbLowerSeriesRef.current = null;
-      vwapSeriesRef.current = null;
+      markersRef.current = null;
+      divergenceSeriesRef.current = [];
+      anchoredVwapSeriesRef.current = [];
+      comparisonSeriesRef.current = [];
+      overlaySeries.clear();
     };
-  }, [height, onChartReady]);
+  }, [height, onChartReady, hasData]);
 
   // Crosshair toggle
   useEffect(() => {
@@ -286,92 +233,190 @@ function PriceChartComponent({
     });
   }, [showCrosshair]);
 
-  // Candles
+  // Candles (re-applied when a height change recreates the chart)
   useEffect(() => {
     if (!candleSeriesRef.current || candleData.length === 0) return;
     candleSeriesRef.current.setData(candleData);
     chartRef.current?.timeScale().fitContent();
-  }, [candleData]);
+  }, [candleData, height, hasData]);
 
-  // SMA 20
+  // Pattern markers: bullish below the bar, bearish and neutral above it
   useEffect(() => {
-    if (!sma20SeriesRef.current) return;
-    if (showSma20 && sma20Data.length > 0) {
-      sma20SeriesRef.current.setData(sma20Data);
-      sma20SeriesRef.current.applyOptions({ visible: true });
-    } else {
-      sma20SeriesRef.current.setData([]);
-      sma20SeriesRef.current.applyOptions({ visible: false });
+    const markersApi = markersRef.current;
+    if (!markersApi) return;
+    const dates = new Map(chartData.map((c) => [c.timestamp, c.date]));
+    const gain = readCssHsl("--chart-candle-up", "160 84% 39%");
+    const loss = readCssHsl("--chart-candle-down", "350 89% 60%");
+
+    const markers: SeriesMarker<Time>[] = [];
+    for (const detection of patterns ?? []) {
+      const date = dates.get(detection.timestamp);
+      if (!date) continue;
+      const text = CANDLESTICK_PATTERNS[detection.pattern].shortName;
+      markers.push(detection.bias === "bullish"
+        ? { time: date as Time, position: "belowBar", shape: "arrowUp", color: gain, text }
+        : detection.bias === "bearish"
+          ? { time: date as Time, position: "aboveBar", shape: "arrowDown", color: loss, text }
+          : { time: date as Time, position: "aboveBar", shape: "circle", color: NEUTRAL_PATTERN_COLOR, text });
     }
-  }, [showSma20, sma20Data]);
+    markersApi.setMarkers(markers);
+  }, [patterns, chartData, height, hasData]);
 
-  // SMA 50
+  // Divergences: one two-point line per detection, dashed when hidden
   useEffect(() => {
-    if (!sma50SeriesRef.current) return;
-    if (showSma50 && sma50Data.length > 0) {
-      sma50SeriesRef.current.setData(sma50Data);
-      sma50SeriesRef.current.applyOptions({ visible: true });
-    } else {
-      sma50SeriesRef.current.setData([]);
-      sma50SeriesRef.current.applyOptions({ visible: false });
+    const chart = chartRef.current;
+    if (!chart) return;
+    for (const series of divergenceSeriesRef.current) chart.removeSeries(series);
+    divergenceSeriesRef.current = [];
+
+    const gain = readCssHsl("--chart-candle-up", "160 84% 39%");
+    const loss = readCssHsl("--chart-candle-down", "350 89% 60%");
+    const dates = new Map(chartData.map((c) => [c.timestamp, c.date]));
+
+    for (const divergence of divergences ?? []) {
+      const start = dates.get(data[divergence.startIndex]?.timestamp);
+      const end = dates.get(data[divergence.endIndex]?.timestamp);
+      if (!start || !end || start >= end) continue;
+
+      const series = chart.addSeries(LineSeries, {
+        color: divergence.bias === "bullish" ? gain : loss,
+        lineWidth: 2,
+        lineStyle: divergence.kind === "hidden" ? LineStyle.Dashed : LineStyle.Solid,
+        priceLineVisible: false,
+        lastValueVisible: false,
+        crosshairMarkerVisible: false,
+      });
+      series.setData([
+        { time: start as Time, value: divergence.startPrice },
+        { time: end as Time, value: divergence.endPrice },
+      ]);
+      divergenceSeriesRef.current.push(series);
     }
-  }, [showSma50, sma50Data]);
+  }, [divergences, data, chartData, height, hasData]);
 
-  // EMA 12
+  // Anchored VWAPs: one line per drawing, starting at its anchor bar
   useEffect(() => {
-    if (!ema12SeriesRef.current) return;
-    if (showEma12 && ema12Data.length > 0) {
-      ema12SeriesRef.current.setData(ema12Data);
-      ema12SeriesRef.current.applyOptions({ visible: true });
-    } else {
-      ema12SeriesRef.current.setData([]);
-      ema12SeriesRef.current.applyOptions({ visible: false });
+    const chart = chartRef.current;
+    if (!chart) return;
+    for (const series of anchoredVwapSeriesRef.current) chart.removeSeries(series);
+    anchoredVwapSeriesRef.current = [];
+
+    const dates = new Map(chartData.map((c) => [c.timestamp, c.date]));
+    for (const line of anchoredVwaps ?? []) {
+      const points: LineData<Time>[] = [];
+      line.values.forEach((value, i) => {
+        const date = dates.get(data[i]?.timestamp);
+        if (value !== null && date) points.push({ time: date as Time, value });
+      });
+      if (points.length === 0) continue;
+
+      const series = chart.addSeries(LineSeries, {
+        color: line.color,
+        lineWidth: line.lineWidth as LineWidth,
+        priceLineVisible: false,
+        lastValueVisible: true,
+        crosshairMarkerVisible: false,
+        title: "AVWAP",
+      });
+      series.setData(points);
+      anchoredVwapSeriesRef.current.push(series);
     }
-  }, [showEma12, ema12Data]);
+  }, [anchoredVwaps, data, chartData, height, hasData]);
 
-  // EMA 26
+  // Comparisons: percent mode turns the price scale into % change from the first
+  // visible bar for every series; ratios get their own scale on the left
   useEffect(() => {
-    if (!ema26SeriesRef.current) return;
-    if (showEma26 && ema26Data.length > 0) {
-      ema26SeriesRef.current.setData(ema26Data);
-      ema26SeriesRef.current.applyOptions({ visible: true });
-    } else {
-      ema26SeriesRef.current.setData([]);
-      ema26SeriesRef.current.applyOptions({ visible: false });
+    const chart = chartRef.current;
+    if (!chart) return;
+    for (const series of comparisonSeriesRef.current) chart.removeSeries(series);
+    comparisonSeriesRef.current = [];
+
+    const lines = comparisons ?? [];
+    const ratio = comparisonMode === "ratio";
+    chart.priceScale("right").applyOptions({
+      mode: lines.length > 0 && !ratio ? PriceScaleMode.Percentage : PriceScaleMode.Normal,
+    });
+    chart.priceScale("left").applyOptions({ visible: lines.length > 0 && ratio });
+
+    const dates = new Map(chartData.map((c) => [c.timestamp, c.date]));
+    for (const line of lines) {
+      const points: LineData<Time>[] = [];
+      line.values.forEach((value, i) => {
+        const date = dates.get(data[i]?.timestamp);
+        if (value !== null && date) points.push({ time: date as Time, value });
+      });
+
+      const series = chart.addSeries(LineSeries, {
+        color: line.color,
+        lineWidth: 2,
+        priceScaleId: ratio ? "left" : "right",
+        priceLineVisible: false,
+        lastValueVisible: true,
+        crosshairMarkerVisible: false,
+        title: line.symbol,
+      });
+      series.setData(points);
+      comparisonSeriesRef.current.push(series);
     }
-  }, [showEma26, ema26Data]);
+  }, [comparisons, comparisonMode, data, chartData, height, hasData]);
 
-  // Bollinger Bands
+  // Overlays: add/remove line series to match the enabled instances, then restyle and refill
   useEffect(() => {
-    if (!bbUpperSeriesRef.current || !bbMiddleSeriesRef.current || !bbLowerSeriesRef.current) return;
-    if (showBB && bbUpperData.length > 0) {
-      bbUpperSeriesRef.current.setData(bbUpperData);
-      bbMiddleSeriesRef.current.setData(bbMiddleData);
-      bbLowerSeriesRef.current.setData(bbLowerData);
-      bbUpperSeriesRef.current.applyOptions({ visible: true });
-      bbMiddleSeriesRef.current.applyOptions({ visible: true });
-      bbLowerSeriesRef.current.applyOptions({ visible: true });
-    } else {
-      bbUpperSeriesRef.current.setData([]);
-      bbMiddleSeriesRef.current.setData([]);
-      bbLowerSeriesRef.current.setData([]);
-      bbUpperSeriesRef.current.applyOptions({ visible: false });
-      bbMiddleSeriesRef.current.applyOptions({ visible: false });
-      bbLowerSeriesRef.current.applyOptions({ visible: false });
+    const chart = chartRef.current;
+    if (!chart) return;
+    const seriesMap = overlaySeriesRef.current;
+    const wanted = new Set(overlayLines.map((line) => line.key));
+
+    for (const [key, series] of seriesMap) {
+      if (!wanted.has(key)) {
+        chart.removeSeries(series);
+        seriesMap.delete(key);
+      }
     }
-  }, [showBB, bbUpperData, bbMiddleData, bbLowerData]);
 
-  // VWAP
-  useEffect(() => {
-    if (!vwapSeriesRef.current) return;
-    if (showVwap && vwapData.length > 0) {
-      vwapSeriesRef.current.setData(vwapData);
-      vwapSeriesRef.current.applyOptions({ visible: true });
-    } else {
-      vwapSeriesRef.current.setData([]);
-      vwapSeriesRef.current.applyOptions({ visible: false });
+    for (const { key, indicator, output } of overlayLines) {
+      let series = seriesMap.get(key);
+      if (!series) {
+        series = chart.addSeries(LineSeries, {
+          priceLineVisible: false,
+          lastValueVisible: false,
+          crosshairMarkerVisible: false,
+        });
+        seriesMap.set(key, series);
+      }
+
+      series.applyOptions({
+        color: output.color ?? indicator.color,
+        lineWidth: indicator.lineWidth as LineWidth,
+        lineStyle: output.dashed ? LineStyle.Dashed : LineStyle.Solid,
+        lineVisible: !output.markers,
+        pointMarkersVisible: !!output.markers,
+        pointMarkersRadius: output.markers ? indicator.lineWidth + 0.5 : undefined,
+      });
+
+      const directionKey = seriesKey(indicator.id, "direction");
+      const points: LineData<Time>[] = [];
+      for (const c of chartData) {
+        const value = c.series[key];
+        if (value === null || value === undefined) continue;
+        points.push(indicator.kind === "supertrend"
+          ? { time: c.date as Time, value, color: c.series[directionKey] === -1 ? SUPERTREND_DOWN_COLOR : indicator.color }
+          : { time: c.date as Time, value });
+      }
+      series.setData(points);
     }
-  }, [showVwap, vwapData]);
+  }, [overlayLines, chartData, height, hasData]);
+
+  if (!hasData) {
+    return (
+      <div
+        className="w-full flex items-center justify-center text-muted-foreground text-sm"
+        style={{ height }}
+      >
+        No data available
+      </div>
+    );
+  }
 
   return (
     <div
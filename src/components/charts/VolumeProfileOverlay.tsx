@@ -0,0 +1,90 @@
+import { memo, useEffect, useMemo, useState } from "react";
+import type { IChartApi, ISeriesApi } from "lightweight-charts";
+import type { EnrichedCandle } from "@/types/market";
+import { useVisibleLogicalRange } from "@/hooks/useVisibleLogicalRange";
+import { calculateVolumeProfile } from "@/utils/volumeProfile";
+
+interface VolumeProfileOverlayProps {
+  chart: IChartApi | null;
+  candleSeries: ISeriesApi<"Candlestick"> | null;
+  /** Same bars as the price chart, oldest first */
+  data: EnrichedCandle[];
+  rowCount?: number;
+}
+
+// Longest row as a share of the plot width
+const MAX_ROW_WIDTH = 0.25;
+const POC_COLOR = "#f59e0b";
+
+/**
+ * Volume profile of the bars currently in view, drawn as a histogram against
+ * the right edge of the price chart. Recomputed whenever the visible range or
+ * the chart size changes.
+ */
+function VolumeProfileOverlayComponent({ chart, candleSeries, data, rowCount = 24 }: VolumeProfileOverlayProps) {
+  const range = useVisibleLogicalRange(chart);
+  const [plotWidth, setPlotWidth] = useState(0);
+
+  useEffect(() => {
+    if (!chart) return;
+    const timeScale = chart.timeScale();
+    const handleSize = () => setPlotWidth(timeScale.width());
+
+    handleSize();
+    timeScale.subscribeSizeChange(handleSize);
+    return () => timeScale.unsubscribeSizeChange(handleSize);
+  }, [chart]);
+
+  const profile = useMemo(() => {
+    const from = range ? Math.max(0, Math.floor(range.from)) : 0;
+    const to = range ? Math.min(data.length - 1, Math.ceil(range.to)) : data.length - 1;
+    return calculateVolumeProfile(data.slice(from, to + 1), rowCount);
+  }, [data, range, rowCount]);
+
+  if (!chart || !candleSeries || !profile || plotWidth <= 0) return null;
+
+  const maxVolume = Math.max(...profile.rows.map((row) => row.volume));
+  const pocY = candleSeries.priceToCoordinate(profile.poc);
+
+  return (
+    <svg className="absolute inset-0 pointer-events-none z-[5]" width="100%" height="100%">
+      {profile.rows.map((row, i) => {
+        const top = candleSeries.priceToCoordinate(row.high);
+        const bottom = candleSeries.priceToCoordinate(row.low);
+        if (top === null || bottom === null || row.volume <= 0) return null;
+
+        const width = (row.volume / maxVolume) * plotWidth * MAX_ROW_WIDTH;
+        const upWidth = width * (row.upVolume / row.volume);
+        const height = Math.max(1, bottom - top - 1);
+        const opacity = row.inValueArea ? 0.45 : 0.2;
+        return (
+          <g key={i}>
+            <rect x={plotWidth - width} y={top} width={upWidth} height={height} fill="hsl(var(--gain))" opacity={opacity} />
+            <rect x={plotWidth - width + upWidth} y={top} width={width - upWidth} height={height} fill="hsl(var(--loss))" opacity={opacity} />
+          </g>
+        );
+      })}
+
+      {[profile.valueAreaHigh, profile.valueAreaLow].map((price, i) => {
+        const y = candleSeries.priceToCoordinate(price);
+        if (y === null) return null;
+        return (
+          <text key={i} x={plotWidth - 4} y={i === 0 ? y - 3 : y + 10} fontSize={9} textAnchor="end" fill="hsl(var(--muted-foreground))">
+            {i === 0 ? "VAH" : "VAL"} {price.toFixed(2)}
+          </text>
+        );
+      })}
+
+      {pocY !== null && (
+        <g>
+          <line x1={0} y1={pocY} x2={plotWidth} y2={pocY} stroke={POC_COLOR} strokeWidth={1} strokeDasharray="6,3" opacity={0.8} />
+          <text x={4} y={pocY - 3} fontSize={9} fill={POC_COLOR}>
+            POC {profile.poc.toFixed(2)}
+          </text>
+        </g>
+      )}
+    </svg>
+  );
+}
+
+export const VolumeProfileOverlay = memo(VolumeProfileOverlayComponent);
@@ -0,0 +1,118 @@
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { CoachCitation } from "@/hooks/useStockCoach";
+import { findUncitedFigures } from "@/utils/coachCitations";
+
+interface CitationChipProps {
+  id: string;
+  /** Undefined while the answer streams or when the ID was never looked up */
+  citation?: CoachCitation;
+}
+
+const KIND_LABELS: Record<CoachCitation["kind"], string> = {
+  quote: "Quote",
+  technicals: "Technicals",
+  fundamentals: "Fundamentals",
+  verdict: "Master Verdict",
+  economic: "Economic data",
+  news: "News",
+  comparison: "Comparison",
+};
+
+// "periodChangePercent" → "Period change percent"
+function humanize(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "number") return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (value && typeof value === "object") {
+    return Object.entries(value).map(([key, v]) => `${humanize(key)} ${formatValue(v)}`).join(" · ");
+  }
+  return String(value);
+}
+
+/**
+ * An inline [Q1]-style source marker in a coach answer. Opens the data point
+ * it refers to, or links to the article.
+ */
+export function CitationChip({ id, citation }: CitationChipProps) {
+  const chipClass = "inline-flex items-center mx-0.5 px-1 rounded text-[9px] font-mono font-medium align-super leading-tight";
+
+  if (!citation) {
+    return (
+      <span className={cn(chipClass, "bg-muted text-muted-foreground")} title="Source not available">
+        {id}
+      </span>
+    );
+  }
+
+  const entries = Object.entries(citation.data);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(chipClass, "bg-primary/15 text-primary hover:bg-primary/25 transition-colors")}
+          title={citation.label}
+        >
+          {id}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-3 space-y-2">
+        <div>
+          <p className="text-[10px] uppercase tracking-wide text-muted-foreground">
+            {KIND_LABELS[citation.kind]} · {id}
+          </p>
+          <p className="text-xs font-medium leading-snug">{citation.label}</p>
+          {citation.publishedAt && (
+            <p className="text-[10px] text-muted-foreground">{new Date(citation.publishedAt).toLocaleString()}</p>
+          )}
+        </div>
+        {entries.length > 0 && (
+          <dl className="space-y-0.5 max-h-48 overflow-y-auto">
+            {entries.map(([key, value]) => (
+              <div key={key} className="flex justify-between gap-3 text-[11px]">
+                <dt className="text-muted-foreground shrink-0">{citation.kind === "economic" ? key : humanize(key)}</dt>
+                <dd className="text-right tabular-nums break-words min-w-0">{formatValue(value)}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+        {citation.url && (
+          <a
+            href={citation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-[11px] text-primary hover:underline"
+          >
+            <ExternalLink className="w-3 h-3" />
+            {citation.kind === "news" ? "Read article" : "View source"}
+          </a>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Flags an answer that states figures without citing a lookup; they may be
+ * from the model's memory rather than live data.
+ */
+export function UncitedFiguresNotice({ content, className }: { content: string; className?: string }) {
+  const figures = findUncitedFigures(content);
+  if (figures.length === 0) return null;
+
+  return (
+    <p
+      className={cn("flex items-center gap-1 mt-1.5 text-[10px] text-amber-600 dark:text-amber-400", className)}
+      title={`Uncited: ${[...new Set(figures)].join(", ")}`}
+    >
+      <AlertTriangle className="w-3 h-3 shrink-0" />
+      {figures.length === 1 ? "1 figure isn't" : `${figures.length} figures aren't`} backed by a cited lookup. Verify before acting.
+    </p>
+  );
+}
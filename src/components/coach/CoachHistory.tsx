@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Download, History, Loader2, MessageSquarePlus, Search, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import {
+  fetchCoachConversation,
+  useCoachConversations,
+  type CoachConversation,
+} from "@/hooks/useCoachConversations";
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import { conversationToMarkdown } from "@/utils/coachConversations";
+
+interface CoachHistoryProps {
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  /** Called after a thread is deleted, so the chat can leave it */
+  onDeleted?: (id: string) => void;
+}
+
+function formatUpdated(iso: string): string {
+  const date = new Date(iso);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+/**
+ * Past Stock Coach threads: search across titles and messages, resume,
+ * export as Markdown, delete.
+ */
+export function CoachHistory({ activeId, onSelect, onNew, onDeleted }: CoachHistoryProps) {
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebouncedValue(search, 300);
+  const { conversations, isLoading, deleteConversation } = useCoachConversations(debouncedSearch);
+  const [pendingDelete, setPendingDelete] = useState<CoachConversation | null>(null);
+
+  const handleExport = async (conversation: CoachConversation) => {
+    try {
+      const { messages } = await fetchCoachConversation(conversation.id);
+      const markdown = conversationToMarkdown(conversation.title, conversation.activeSymbols, messages);
+      const url = URL.createObjectURL(new Blob([markdown], { type: "text/markdown;charset=utf-8" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `coach-${conversation.title.replace(/[^\w-]+/g, "-").toLowerCase().slice(0, 40)}-${conversation.createdAt.slice(0, 10)}.md`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Failed to export conversation");
+    }
+  };
+
+  const handleDelete = async (conversation: CoachConversation) => {
+    try {
+      await deleteConversation(conversation.id);
+      onDeleted?.(conversation.id);
+    } catch {
+      // Toast shown by the hook
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bento-module overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-3 border-b border-border/50 shrink-0">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-primary" />
+          <h2 className="text-sm font-semibold">History</h2>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs" onClick={onNew}>
+          <MessageSquarePlus className="w-3.5 h-3.5" />
+          New
+        </Button>
+      </div>
+
+      <div className="px-3 py-2 shrink-0">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations..."
+            className="h-8 pl-8 text-xs bg-accent/30 border-border/50"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 px-2 pb-2">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="px-2 py-8 text-center text-xs text-muted-foreground">
+            {debouncedSearch.trim() ? "No conversations match" : "Your conversations will appear here"}
+          </p>
+        ) : (
+          <div className="space-y-0.5">
+            {conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => onSelect(conversation.id)}
+                onKeyDown={(e) => e.key === "Enter" && onSelect(conversation.id)}
+                className={cn(
+                  "group flex items-start gap-2 px-2 py-2 rounded-lg cursor-pointer transition-colors",
+                  conversation.id === activeId ? "bg-primary/10" : "hover:bg-accent/50"
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className={cn("text-xs truncate", conversation.id === activeId && "font-medium text-primary")}>
+                    {conversation.title}
+                  </p>
+                  <div className="flex items-center gap-1.5 mt-0.5 text-[10px] text-muted-foreground">
+                    <span className="tabular-nums">{formatUpdated(conversation.updatedAt)}</span>
+                    {conversation.activeSymbols.slice(0, 3).map((symbol) => (
+                      <span key={symbol} className="font-mono">{symbol}</span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleExport(conversation);
+                    }}
+                    className="p-1 rounded text-muted-foreground hover:text-foreground"
+                    title="Export as Markdown"
+                  >
+                    <Download className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setPendingDelete(conversation);
+                    }}
+                    className="p-1 rounded text-muted-foreground hover:text-destructive"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all its messages are removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && handleDelete(pendingDelete)}
+              className="bg-loss hover:bg-loss/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
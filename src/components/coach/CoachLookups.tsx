@@ -0,0 +1,41 @@
+import { AlertCircle, Check, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CoachLookup } from "@/hooks/useStockCoach";
+
+interface CoachLookupsProps {
+  lookups: CoachLookup[];
+  className?: string;
+}
+
+/**
+ * The data the coach looked up for an answer, live while it runs
+ */
+export function CoachLookups({ lookups, className }: CoachLookupsProps) {
+  if (lookups.length === 0) return null;
+
+  return (
+    <ul className={cn("mb-2 space-y-0.5", className)}>
+      {lookups.map((lookup) => (
+        <li
+          key={lookup.id}
+          className={cn(
+            "flex items-center gap-1.5 text-[10px]",
+            lookup.state === "error" ? "text-loss" : "text-muted-foreground"
+          )}
+        >
+          {lookup.state === "running" ? (
+            <Loader2 className="w-3 h-3 animate-spin text-primary" />
+          ) : lookup.state === "done" ? (
+            <Check className="w-3 h-3 text-gain" />
+          ) : (
+            <AlertCircle className="w-3 h-3" />
+          )}
+          <span className="truncate">
+            {lookup.label}
+            {lookup.state === "running" && "…"}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -5,8 +5,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { useStockCoach, Message } from "@/hooks/useStockCoach";
+import { CoachLookups } from "./CoachLookups";
+import { CitationChip, UncitedFiguresNotice } from "./CoachCitations";
 import { toast } from "sonner";
 import ReactMarkdown from "react-markdown";
+import { citationIdFromHref, linkCitations } from "@/utils/coachCitations";
 
 interface StockChatWidgetProps {
   symbol: string;
@@ -31,6 +34,7 @@ const MessageBubble = ({ message }: { message: Message }) => {
           <p className="text-xs whitespace-pre-wrap">{message.content}</p>
         ) : (
           <div className="prose prose-sm dark:prose-invert max-w-none">
+            {message.lookups && <CoachLookups lookups={message.lookups} />}
             <ReactMarkdown
               components={{
                 p: ({ children }) => <p className="mb-1.5 last:mb-0 text-xs leading-relaxed">{children}</p>,
@@ -41,6 +45,16 @@ const MessageBubble = ({ message }: { message: Message }) => {
                 ol: ({ children }) => <ol className="list-decimal list-inside space-y-0.5 mb-1.5 text-xs">{children}</ol>,
                 li: ({ children }) => <li className="text-muted-foreground text-xs">{children}</li>,
                 strong: ({ children }) => <strong className="font-semibold text-foreground">{children}</strong>,
+                a: ({ href, children }) => {
+                  const citationId = citationIdFromHref(href);
+                  return citationId ? (
+                    <CitationChip id={citationId} citation={message.citations?.find((c) => c.id === citationId)} />
+                  ) : (
+                    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                      {children}
+                    </a>
+                  );
+                },
                 code: ({ children }) => (
                   <code className="bg-background/50 px-1 py-0.5 rounded text-[10px] font-mono text-primary">
                     {children}
@@ -48,11 +62,12 @@ const MessageBubble = ({ message }: { message: Message }) => {
                 ),
               }}
             >
-              {message.content || "Thinking..."}
+              {linkCitations(message.content) || "Thinking..."}
             </ReactMarkdown>
             {message.isStreaming && (
               <span className="inline-block w-1.5 h-3 bg-primary/70 animate-pulse ml-0.5" />
             )}
+            {!message.isStreaming && <UncitedFiguresNotice content={message.content} className="not-prose" />}
           </div>
         )}
       </div>
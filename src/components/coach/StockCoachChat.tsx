@@ -1,17 +1,28 @@
 import { useState, useRef, useEffect } from "react";
-import { Send, Trash2, Sparkles, TrendingUp, Brain, Target, AlertTriangle, X, StopCircle } from "lucide-react";
+import { Send, Plus, Sparkles, TrendingUp, Brain, Target, AlertTriangle, X, StopCircle, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { useStockCoach, Message } from "@/hooks/useStockCoach";
+import { CoachLookups } from "./CoachLookups";
+import { CitationChip, UncitedFiguresNotice } from "./CoachCitations";
+import { SymbolResolutionChips } from "./SymbolResolutionChips";
+import { AiUsageMeter } from "@/components/premium/AiUsageMeter";
+import { useAiUsage } from "@/hooks/useAiUsage";
 import { toast } from "sonner";
 import ReactMarkdown from "react-markdown";
+import { citationIdFromHref, linkCitations } from "@/utils/coachCitations";
 import { motion } from "framer-motion";
 
 interface StockCoachChatProps {
   initialSymbol?: string;
   onSymbolMentioned?: (symbol: string) => void;
+  /** Save the conversation so it can be resumed from the history */
+  persist?: boolean;
+  /** The saved thread to show; null starts a new conversation */
+  conversationId?: string | null;
+  onConversationChange?: (conversationId: string | null) => void;
 }
 
 const SUGGESTED_PROMPTS = [
@@ -21,14 +32,19 @@ const SUGGESTED_PROMPTS = [
   { icon: AlertTriangle, text: "Risks of buying MSFT now?", symbol: "MSFT" },
 ];
 
-const MessageBubble = ({ message }: { message: Message }) => {
+interface MessageBubbleProps {
+  message: Message;
+  onCorrectSymbol?: (query: string, symbol: string | null) => void;
+}
+
+const MessageBubble = ({ message, onCorrectSymbol }: MessageBubbleProps) => {
   const isUser = message.role === "user";
 
   return (
     <motion.div
       initial={{ opacity: 0, y: 8 }}
       animate={{ opacity: 1, y: 0 }}
-      className={cn("flex w-full mb-3", isUser ? "justify-end" : "justify-start")}
+      className={cn("flex flex-col w-full mb-3", isUser ? "items-end" : "items-start")}
     >
       <div
         className={cn(
@@ -42,6 +58,7 @@ const MessageBubble = ({ message }: { message: Message }) => {
           <p className="text-sm">{message.content}</p>
         ) : (
           <div className="prose prose-sm dark:prose-invert max-w-none">
+            {message.lookups && <CoachLookups lookups={message.lookups} />}
             <ReactMarkdown
               components={{
                 p: ({ children }) => <p className="mb-2 last:mb-0 text-sm leading-relaxed text-foreground">{children}</p>,
@@ -52,6 +69,16 @@ const MessageBubble = ({ message }: { message: Message }) => {
                 ol: ({ children }) => <ol className="list-decimal list-inside space-y-0.5 mb-2 text-sm">{children}</ol>,
                 li: ({ children }) => <li className="text-muted-foreground">{children}</li>,
                 strong: ({ children }) => <strong className="font-semibold text-foreground">{children}</strong>,
+                a: ({ href, children }) => {
+                  const citationId = citationIdFromHref(href);
+                  return citationId ? (
+                    <CitationChip id={citationId} citation={message.citations?.find((c) => c.id === citationId)} />
+                  ) : (
+                    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                      {children}
+                    </a>
+                  );
+                },
                 code: ({ children }) => (
                   <code className="bg-muted px-1.5 py-0.5 rounded text-[11px] font-mono text-primary">
                     {children}
@@ -64,22 +91,32 @@ const MessageBubble = ({ message }: { message: Message }) => {
                 ),
               }}
             >
-              {message.content || "Thinking..."}
+              {linkCitations(message.content) || "Thinking..."}
             </ReactMarkdown>
             {message.isStreaming && (
               <span className="inline-block w-1.5 h-4 bg-primary animate-pulse ml-0.5 rounded-sm" />
             )}
+            {!message.isStreaming && <UncitedFiguresNotice content={message.content} className="not-prose" />}
           </div>
         )}
         <p className="text-[9px] mt-1.5 opacity-40 tabular-nums">
           {message.timestamp.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
         </p>
       </div>
+      {message.resolutions && onCorrectSymbol && (
+        <SymbolResolutionChips resolutions={message.resolutions} onCorrect={onCorrectSymbol} />
+      )}
     </motion.div>
   );
 };
 
-export function StockCoachChat({ initialSymbol, onSymbolMentioned }: StockCoachChatProps) {
+export function StockCoachChat({
+  initialSymbol,
+  onSymbolMentioned,
+  persist = false,
+  conversationId = null,
+  onConversationChange,
+}: StockCoachChatProps) {
   const [input, setInput] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -88,13 +125,64 @@ export function StockCoachChat({ initialSymbol, onSymbolMentioned }: StockCoachC
     messages, 
     isLoading, 
     activeSymbols,
+    conversationId: currentConversationId,
+    isLoadingConversation,
     sendMessage, 
     clearMessages,
+    loadConversation,
+    correctSymbol,
     cancelRequest,
   } = useStockCoach({
     onError: (error) => toast.error(error),
+    persist,
+    onSymbolsResolved: (resolutions) => {
+      const best = resolutions.find(r => r.confidence !== "low");
+      if (best) onSymbolMentioned?.(best.symbol);
+    },
   });
 
+  const { isExhausted: aiQuotaReached } = useAiUsage();
+
+  const handleCorrectSymbol = (messageId: string, query: string, symbol: string | null) => {
+    correctSymbol(messageId, query, symbol);
+    if (symbol) onSymbolMentioned?.(symbol.toUpperCase());
+  };
+
+  // Follow the thread picked outside (history, URL). Only a new pick acts: a
+  // thread started here changes currentConversationId before the parent catches up.
+  const followedConversationRef = useRef<string | null | undefined>(undefined);
+  const followRequestRef = useRef(0);
+  useEffect(() => {
+    if (followedConversationRef.current === conversationId) return;
+    followedConversationRef.current = conversationId;
+    const requestId = ++followRequestRef.current;
+
+    if (conversationId === currentConversationId) return;
+    if (!conversationId) {
+      clearMessages();
+      return;
+    }
+    const previousConversationId = currentConversationId;
+    loadConversation(conversationId).then((conversation) => {
+      // Another thread was picked while this one loaded
+      if (requestId !== followRequestRef.current) return;
+      if (!conversation) {
+        onConversationChange?.(previousConversationId);
+        return;
+      }
+      const symbol = conversation.activeSymbols[conversation.activeSymbols.length - 1];
+      if (symbol) onSymbolMentioned?.(symbol);
+    });
+  }, [conversationId, currentConversationId, clearMessages, loadConversation, onConversationChange, onSymbolMentioned]);
+
+  // Report threads started or cleared here; not on mount, before a thread from the URL has loaded
+  const reportedConversationRef = useRef(currentConversationId);
+  useEffect(() => {
+    if (reportedConversationRef.current === currentConversationId) return;
+    reportedConversationRef.current = currentConversationId;
+    if (currentConversationId !== conversationId) onConversationChange?.(currentConversationId);
+  }, [currentConversationId, conversationId, onConversationChange]);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -102,33 +190,16 @@ export function StockCoachChat({ initialSymbol, onSymbolMentioned }: StockCoachC
   }, [messages]);
 
   useEffect(() => {
-    if (initialSymbol && messages.length === 0) {
+    if (initialSymbol && messages.length === 0 && !conversationId) {
       sendMessage(`Analyze ${initialSymbol} - give me a complete breakdown of current price action, key indicators, and your assessment.`, [initialSymbol]);
     }
   }, [initialSymbol]);
 
-  const extractSymbols = (message: string): string[] => {
-    const symbolPattern = /\$?\b([A-Z]{1,5})\b/gi;
-    const matches = Array.from(message.matchAll(symbolPattern)).map(m => (m[1] || "").toUpperCase());
-    const commonWords = new Set(['I','A','THE','AND','OR','FOR','TO','IN','IS','IT','BE','AS','AT','SO','WE','HE','BY','ON','DO','IF','ME','MY','UP','AN','GO','NO','US','AM','OF','AI','RSI','EMA','SMA','ATR','MACD','PE','EPS','CEO','CFO','IPO','ETF','GDP','CPI','FED','SEC','NYSE','DOW','USD','EUR','GBP','BUY','SELL','HOLD','STOP','LOSS','WHAT','WHEN','WHERE','WHY','HOW','CAN','ARE','WAS','HAS','HAD','WILL','THIS','THAT','ABOUT','YOUR','GIVE','NOW','SET']);
-    return matches.filter(s => s.length >= 2 && s.length <= 5).filter(s => !commonWords.has(s));
-  };
-
-  const resolveCompanyMention = (message: string): string | null => {
-    const m = message.toLowerCase();
-    const map: Array<[RegExp, string]> = [[/\bapple\b/, "AAPL"],[/\bmicrosoft\b/, "MSFT"],[/\bgoogle\b|\balphabet\b/, "GOOGL"],[/\bnvidia\b/, "NVDA"],[/\btesla\b/, "TSLA"],[/\bamazon\b/, "AMZN"],[/\bmeta\b|\bfacebook\b/, "META"]];
-    for (const [re, sym] of map) { if (re.test(m)) return sym; }
-    return null;
-  };
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
-    const detectedSymbols = extractSymbols(input);
-    const resolved = detectedSymbols[0] || resolveCompanyMention(input) || undefined;
-    if (resolved) onSymbolMentioned?.(resolved);
-    const symbolsForCoach = detectedSymbols.length > 0 ? detectedSymbols : (resolved ? [resolved] : undefined);
-    sendMessage(input, symbolsForCoach);
+    if (!input.trim() || isLoading || aiQuotaReached) return;
+    // The coach resolves tickers and company names server-side
+    sendMessage(input);
     setInput("");
     if (textareaRef.current) textareaRef.current.style.height = "auto";
   };
@@ -173,8 +244,8 @@ export function StockCoachChat({ initialSymbol, onSymbolMentioned }: StockCoachC
             </div>
           )}
           {messages.length > 0 && (
-            <button onClick={clearMessages} className="p-1.5 rounded-lg hover:bg-accent transition-colors">
-              <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+            <button onClick={clearMessages} className="p-1.5 rounded-lg hover:bg-accent transition-colors" title="New conversation">
+              <Plus className="w-3.5 h-3.5 text-muted-foreground" />
             </button>
           )}
         </div>
@@ -182,7 +253,11 @@ export function StockCoachChat({ initialSymbol, onSymbolMentioned }: StockCoachC
 
       {/* Messages */}
       <ScrollArea className="flex-1 px-4 py-3" ref={scrollRef}>
-        {messages.length === 0 ? (
+        {isLoadingConversation ? (
+          <div className="h-full flex items-center justify-center py-16">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : messages.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center text-center py-8">
             <div className="w-12 h-12 rounded-2xl bg-primary/10 flex items-center justify-center mb-4">
               <Brain className="w-6 h-6 text-primary" />
@@ -213,7 +288,11 @@ export function StockCoachChat({ initialSymbol, onSymbolMentioned }: StockCoachC
         ) : (
           <div className="space-y-1">
             {messages.map(message => (
-              <MessageBubble key={message.id} message={message} />
+              <MessageBubble
+                key={message.id}
+                message={message}
+                onCorrectSymbol={(query, symbol) => handleCorrectSymbol(message.id, query, symbol)}
+              />
             ))}
           </div>
         )}
@@ -243,14 +322,17 @@ export function StockCoachChat({ initialSymbol, onSymbolMentioned }: StockCoachC
               <StopCircle className="w-4 h-4" />
             </Button>
           ) : (
-            <Button type="submit" size="icon" disabled={!input.trim()} className="h-10 w-10 bg-primary hover:bg-primary/90 rounded-xl shrink-0">
+            <Button type="submit" size="icon" disabled={!input.trim() || aiQuotaReached} className="h-10 w-10 bg-primary hover:bg-primary/90 rounded-xl shrink-0">
               <Send className="w-4 h-4" />
             </Button>
           )}
         </form>
-        <p className="text-[9px] text-muted-foreground text-center mt-2">
-          ⚠️ Educational only. Not financial advice.
-        </p>
+        <div className="flex items-center justify-between gap-2 mt-2">
+          <AiUsageMeter variant="compact" />
+          <p className="text-[9px] text-muted-foreground">
+            ⚠️ Educational only. Not financial advice.
+          </p>
+        </div>
       </div>
     </div>
   );
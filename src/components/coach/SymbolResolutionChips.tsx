@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Check, HelpCircle, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { SymbolResolution } from "@/hooks/useStockCoach";
+
+interface SymbolResolutionChipsProps {
+  resolutions: SymbolResolution[];
+  /** null: the text was not a stock */
+  onCorrect: (query: string, symbol: string | null) => void;
+}
+
+const SYMBOL_PATTERN = /^[A-Za-z]{1,5}(\.[A-Za-z])?$/;
+
+function ResolutionChip({ resolution, onCorrect }: { resolution: SymbolResolution; onCorrect: SymbolResolutionChipsProps["onCorrect"] }) {
+  const [open, setOpen] = useState(false);
+  const [custom, setCustom] = useState("");
+  const certain = resolution.confirmed || resolution.confidence === "high";
+  const showsQuery = resolution.query.replace("$", "").toUpperCase() !== resolution.symbol;
+
+  const choose = (symbol: string | null) => {
+    onCorrect(resolution.query, symbol);
+    setCustom("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          title={resolution.name ?? resolution.symbol}
+          className={cn(
+            "inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] border transition-colors",
+            certain
+              ? "border-border/50 bg-accent/40 text-muted-foreground hover:text-foreground"
+              : "border-dashed border-amber-500/50 bg-amber-500/5 text-amber-600 dark:text-amber-400"
+          )}
+        >
+          {showsQuery && <span className="max-w-[90px] truncate">{resolution.query}</span>}
+          {showsQuery && <span className="opacity-50">→</span>}
+          <span className="font-mono font-medium">{resolution.symbol}</span>
+          {resolution.confirmed ? <Check className="w-2.5 h-2.5 text-gain" /> : !certain && <HelpCircle className="w-2.5 h-2.5" />}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 p-2 space-y-1.5">
+        <p className="text-[10px] text-muted-foreground">
+          "{resolution.query}" means…
+        </p>
+        <div className="space-y-0.5">
+          {[resolution, ...resolution.alternatives.filter((a) => a.symbol !== resolution.symbol)].map((option) => (
+            <button
+              key={option.symbol}
+              onClick={() => choose(option.symbol)}
+              className="flex items-center gap-2 w-full px-2 py-1 rounded text-left text-xs hover:bg-accent"
+            >
+              <span className="font-mono font-medium w-14 shrink-0">{option.symbol}</span>
+              <span className="truncate text-muted-foreground text-[10px]">{option.name}</span>
+              {option.symbol === resolution.symbol && <Check className="w-3 h-3 ml-auto shrink-0 text-primary" />}
+            </button>
+          ))}
+        </div>
+        <form
+          className="flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (SYMBOL_PATTERN.test(custom.trim())) choose(custom);
+          }}
+        >
+          <Input
+            value={custom}
+            onChange={(e) => setCustom(e.target.value)}
+            placeholder="Other ticker"
+            className="h-7 text-xs font-mono uppercase"
+          />
+        </form>
+        <button
+          onClick={() => choose(null)}
+          className="flex items-center gap-1.5 w-full px-2 py-1 rounded text-[10px] text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+        >
+          <X className="w-3 h-3" />
+          Not a stock
+        </button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * How the coach read the companies and tickers in a question. Unsure
+ * readings are highlighted; any of them can be corrected.
+ */
+export function SymbolResolutionChips({ resolutions, onCorrect }: SymbolResolutionChipsProps) {
+  if (resolutions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-end gap-1 mt-1">
+      {resolutions.map((resolution) => (
+        <ResolutionChip key={resolution.query} resolution={resolution} onCorrect={onCorrect} />
+      ))}
+    </div>
+  );
+}
@@ -1,26 +1,36 @@
 import { useState, useRef, useCallback } from "react";
-import { Share2, Download, Copy, Check, Loader2, Lock } from "lucide-react";
+import { Share2, Download, Copy, Check, Loader2, Lock, Link2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { ShareLinkDialog } from "./ShareLinkDialog";
 import { useToast } from "@/hooks/use-toast";
 import { useSubscription } from "@/hooks/useSubscription";
 import { cn } from "@/lib/utils";
+import type { SharedChartSnapshot } from "@/utils/sharedCharts";
+import type { TimeframeType } from "@/types/market";
 
 interface ChartShareButtonProps {
   chartRef: React.RefObject<HTMLDivElement>;
   symbol: string;
   price: number;
   changePercent: number;
+  /** Enables "Share as Link" - a read-only copy of the chart at /s/:id */
+  link?: {
+    timeframe: TimeframeType;
+    getSnapshot: () => SharedChartSnapshot;
+  };
 }
 
-export function ChartShareButton({ chartRef, symbol, price, changePercent }: ChartShareButtonProps) {
+export function ChartShareButton({ chartRef, symbol, price, changePercent, link }: ChartShareButtonProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [linkDialogOpen, setLinkDialogOpen] = useState(false);
   const { toast } = useToast();
   const { canUseFeature, tier } = useSubscription();
 
@@ -181,46 +191,78 @@ export function ChartShareButton({ chartRef, symbol, price, changePercent }: Cha
     }
   };
 
+  const handleShareLink = () => {
+    if (!canShare) {
+      toast({
+        title: "Premium Feature",
+        description: "Upgrade to Pro to share charts.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setLinkDialogOpen(true);
+  };
+
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="outline"
-          size="sm"
-          className={cn(
-            "gap-2",
-            !canShare && "opacity-60"
-          )}
-          disabled={isGenerating}
-        >
-          {isGenerating ? (
-            <Loader2 className="w-4 h-4 animate-spin" />
-          ) : !canShare ? (
-            <Lock className="w-4 h-4" />
-          ) : (
-            <Share2 className="w-4 h-4" />
-          )}
-          Share
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-48">
-        <DropdownMenuItem onClick={handleShare} disabled={!canShare}>
-          <Share2 className="w-4 h-4 mr-2" />
-          Share Chart
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={handleCopyToClipboard} disabled={!canShare}>
-          {copied ? (
-            <Check className="w-4 h-4 mr-2 text-gain" />
-          ) : (
-            <Copy className="w-4 h-4 mr-2" />
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className={cn(
+              "gap-2",
+              !canShare && "opacity-60"
+            )}
+            disabled={isGenerating}
+          >
+            {isGenerating ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : !canShare ? (
+              <Lock className="w-4 h-4" />
+            ) : (
+              <Share2 className="w-4 h-4" />
+            )}
+            Share
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuItem onClick={handleShare} disabled={!canShare}>
+            <Share2 className="w-4 h-4 mr-2" />
+            Share Chart
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopyToClipboard} disabled={!canShare}>
+            {copied ? (
+              <Check className="w-4 h-4 mr-2 text-gain" />
+            ) : (
+              <Copy className="w-4 h-4 mr-2" />
+            )}
+            Copy to Clipboard
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDownload} disabled={!canShare}>
+            <Download className="w-4 h-4 mr-2" />
+            Download PNG
+          </DropdownMenuItem>
+          {link && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={handleShareLink} disabled={!canShare}>
+                <Link2 className="w-4 h-4 mr-2" />
+                Share as Link
+              </DropdownMenuItem>
+            </>
           )}
-          Copy to Clipboard
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={handleDownload} disabled={!canShare}>
-          <Download className="w-4 h-4 mr-2" />
-          Download PNG
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {link && (
+        <ShareLinkDialog
+          open={linkDialogOpen}
+          onOpenChange={setLinkDialogOpen}
+          symbol={symbol}
+          timeframe={link.timeframe}
+          getSnapshot={link.getSnapshot}
+        />
+      )}
+    </>
   );
 }
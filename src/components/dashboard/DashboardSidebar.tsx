@@ -8,6 +8,8 @@ import {
   Settings,
   Calculator,
   Star,
+  Briefcase,
+  Filter,
   Globe,
   ChevronLeft,
   ChevronRight,
@@ -37,9 +39,11 @@ import {
 const navItems = [
   { icon: LayoutDashboard, label: "Overview", path: "/dashboard" },
   { icon: TrendingUp, label: "Analysis", path: "/dashboard/analysis", onboardingId: "sidebar-analysis" },
+  { icon: Filter, label: "Screener", path: "/dashboard/screener" },
   { icon: MessageCircle, label: "AI Coach", path: "/dashboard/coach", onboardingId: "sidebar-coach", highlight: true },
   { icon: Newspaper, label: "News", path: "/dashboard/news" },
   { icon: Star, label: "Watchlist", path: "/dashboard/watchlist" },
+  { icon: Briefcase, label: "Portfolio", path: "/dashboard/portfolio" },
   { icon: Calculator, label: "Calculator", path: "/dashboard/calculator" },
   { icon: Globe, label: "Macro", path: "/dashboard/macro" },
   { icon: GraduationCap, label: "Learn", path: "/dashboard/learn" },
@@ -4,6 +4,7 @@ import { cn } from "@/lib/utils";
 import { useQuotes } from "@/hooks/useMarketData";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
+import { NotificationsBell } from "./NotificationsBell";
 
 const MARKET_SYMBOLS = ["SPY", "QQQ", "AAPL", "MSFT", "NVDA", "TSLA"];
 
@@ -118,6 +119,7 @@ const MarketOverviewComponent = ({ onSymbolClick }: MarketOverviewProps) => {
 
       {/* Right Section */}
       <div className="flex items-center gap-3 pl-4 border-l border-border shrink-0">
+        <NotificationsBell />
         <button
           onClick={refetch}
           disabled={loading}
@@ -0,0 +1,74 @@
+import { Bell } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { useNotifications, type AppNotification } from "@/hooks/useNotifications";
+
+export function NotificationsBell() {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+
+  const handleClick = (notification: AppNotification) => {
+    if (!notification.readAt) markAsRead(notification.id);
+    const symbol = notification.data.symbol;
+    if (typeof symbol === "string") {
+      navigate(`/dashboard/analysis?symbol=${encodeURIComponent(symbol)}`);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="relative p-1.5 rounded-lg hover:bg-accent transition-colors"
+          title="Notifications"
+        >
+          <Bell className="w-3.5 h-3.5 text-muted-foreground" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-primary text-primary-foreground text-[9px] font-semibold flex items-center justify-center tabular-nums">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-border/50">
+          <span className="text-xs font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              onClick={markAllAsRead}
+              className="text-[10px] text-muted-foreground hover:text-primary transition-colors"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <div className="max-h-80 overflow-y-auto scrollbar-terminal">
+          {notifications.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-8">No notifications yet</p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                onClick={() => handleClick(notification)}
+                className={cn(
+                  "w-full text-left px-3 py-2.5 border-b border-border/30 last:border-0 hover:bg-accent/50 transition-colors",
+                  !notification.readAt && "bg-primary/5"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  {!notification.readAt && <span className="w-1.5 h-1.5 rounded-full bg-primary shrink-0" />}
+                  <span className="text-xs font-medium truncate">{notification.title}</span>
+                </div>
+                <p className="text-[11px] text-muted-foreground mt-0.5">{notification.body}</p>
+                <p className="text-[10px] text-muted-foreground/70 mt-0.5 tabular-nums">
+                  {new Date(notification.createdAt).toLocaleString()}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
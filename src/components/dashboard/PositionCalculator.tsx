@@ -4,11 +4,27 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 
-const PositionCalculator = () => {
-  const [accountBalance, setAccountBalance] = useState("10000");
+interface PositionCalculatorProps {
+  defaultAccountBalance?: number;
+  defaultEntryPrice?: number;
+}
+
+// Default stop sits 2% below a prefilled entry until the user sets their own
+const DEFAULT_STOP_DISTANCE = 0.02;
+
+const formatInput = (value: number) => String(Math.round(value * 100) / 100);
+
+const PositionCalculator = ({ defaultAccountBalance, defaultEntryPrice }: PositionCalculatorProps = {}) => {
+  const [accountBalance, setAccountBalance] = useState(
+    defaultAccountBalance ? formatInput(defaultAccountBalance) : "10000"
+  );
   const [riskPercent, setRiskPercent] = useState("2");
-  const [entryPrice, setEntryPrice] = useState("45000");
-  const [stopLoss, setStopLoss] = useState("44000");
+  const [entryPrice, setEntryPrice] = useState(
+    defaultEntryPrice ? formatInput(defaultEntryPrice) : "45000"
+  );
+  const [stopLoss, setStopLoss] = useState(
+    defaultEntryPrice ? formatInput(defaultEntryPrice * (1 - DEFAULT_STOP_DISTANCE)) : "44000"
+  );
 
   const balance = parseFloat(accountBalance) || 0;
   const risk = parseFloat(riskPercent) || 0;
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Bell, Loader2, Crown } from "lucide-react";
+import { Link } from "react-router-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useSubscription } from "@/hooks/useSubscription";
+import {
+  usePriceAlerts,
+  ALERT_CONDITION_LABELS,
+  type AlertCondition,
+} from "@/hooks/usePriceAlerts";
+
+interface PriceAlertDialogProps {
+  symbol?: string;
+  trigger?: React.ReactNode;
+}
+
+const DEFAULT_THRESHOLDS: Partial<Record<AlertCondition, string>> = {
+  percent_change: "5",
+  rsi_above: "70",
+  rsi_below: "30",
+};
+
+export function PriceAlertDialog({ symbol: initialSymbol = "", trigger }: PriceAlertDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [symbol, setSymbol] = useState(initialSymbol);
+  const [condition, setCondition] = useState<AlertCondition>("price_above");
+  const [threshold, setThreshold] = useState("");
+  const [period, setPeriod] = useState("");
+  const [note, setNote] = useState("");
+  const [notifyEmail, setNotifyEmail] = useState(false);
+
+  const { limits } = useSubscription();
+  const { alerts, createAlert, isCreating } = usePriceAlerts();
+
+  const usesPeriod = condition.startsWith("rsi") || condition.startsWith("ma_cross");
+  const usesThreshold = !condition.startsWith("ma_cross");
+  const atLimit = limits.alerts !== -1 && alerts.length >= limits.alerts;
+
+  const handleConditionChange = (value: AlertCondition) => {
+    setCondition(value);
+    setThreshold(DEFAULT_THRESHOLDS[value] ?? "");
+    setPeriod("");
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await createAlert({
+        symbol: symbol.trim().toUpperCase(),
+        condition,
+        threshold: usesThreshold ? parseFloat(threshold) : undefined,
+        period: usesPeriod && period ? parseInt(period, 10) : undefined,
+        note: note.trim() || undefined,
+        notifyEmail,
+      });
+      setOpen(false);
+      setThreshold("");
+      setNote("");
+    } catch {
+      // Error toast is raised by the hook
+    }
+  };
+
+  const canSubmit =
+    symbol.trim().length > 0 &&
+    (!usesThreshold || (threshold !== "" && !isNaN(parseFloat(threshold)))) &&
+    !isCreating;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm" className="h-8 gap-1.5 text-xs">
+            <Bell className="w-3.5 h-3.5" />
+            New Alert
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Create Price Alert</DialogTitle>
+        </DialogHeader>
+
+        {atLimit ? (
+          <div className="flex flex-col items-center text-center py-6 gap-3">
+            <div className="w-12 h-12 rounded-xl bg-primary/10 flex items-center justify-center">
+              <Crown className="w-6 h-6 text-primary" />
+            </div>
+            <p className="text-sm text-muted-foreground max-w-xs">
+              {limits.alerts === 0
+                ? "Price alerts are available on Pro and Elite plans."
+                : `You've used all ${limits.alerts} alerts on your plan. Delete an alert or upgrade for more.`}
+            </p>
+            <Link to="/pricing">
+              <Button size="sm" className="h-8 text-xs bg-primary hover:bg-primary/90">
+                Upgrade
+              </Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="alert-symbol" className="text-xs text-muted-foreground">Symbol</Label>
+              <Input
+                id="alert-symbol"
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                placeholder="AAPL"
+                className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+                maxLength={10}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Condition</Label>
+              <Select value={condition} onValueChange={(v) => handleConditionChange(v as AlertCondition)}>
+                <SelectTrigger className="h-9 bg-muted/30 border-border/50 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map((key) => (
+                    <SelectItem key={key} value={key} className="text-sm">
+                      {ALERT_CONDITION_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {usesThreshold && (
+                <div className="space-y-2">
+                  <Label htmlFor="alert-threshold" className="text-xs text-muted-foreground">
+                    {condition === "percent_change" ? "Change (%)" : condition.startsWith("rsi") ? "RSI level" : "Price ($)"}
+                  </Label>
+                  <Input
+                    id="alert-threshold"
+                    type="number"
+                    step="any"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+                  />
+                </div>
+              )}
+              {usesPeriod && (
+                <div className="space-y-2">
+                  <Label htmlFor="alert-period" className="text-xs text-muted-foreground">Period</Label>
+                  <Input
+                    id="alert-period"
+                    type="number"
+                    min={2}
+                    max={200}
+                    value={period}
+                    onChange={(e) => setPeriod(e.target.value)}
+                    placeholder={condition.startsWith("rsi") ? "14" : "50"}
+                    className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+                  />
+                </div>
+              )}
+            </div>
+
+            {condition === "percent_change" && (
+              <p className="text-[11px] text-muted-foreground">
+                Use a negative value (e.g. -5) to be alerted on drops.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="alert-note" className="text-xs text-muted-foreground">Note (optional)</Label>
+              <Input
+                id="alert-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={200}
+                placeholder="e.g. Breakout above resistance"
+                className="h-9 bg-muted/30 border-border/50 text-sm"
+              />
+            </div>
+
+            <div className="flex items-center justify-between py-1">
+              <div>
+                <Label htmlFor="alert-email" className="text-sm font-medium">Email me</Label>
+                <p className="text-xs text-muted-foreground">Requires Price Alerts enabled in Settings</p>
+              </div>
+              <Switch
+                id="alert-email"
+                checked={notifyEmail}
+                onCheckedChange={setNotifyEmail}
+                className="scale-90"
+              />
+            </div>
+
+            <Button
+              onClick={handleSubmit}
+              disabled={!canSubmit}
+              className="w-full h-9 text-sm bg-primary hover:bg-primary/90"
+            >
+              {isCreating && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Create Alert
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+import { Bell, BellOff, Trash2, Loader2, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { BentoModule } from "@/components/ui/bento-module";
+import { cn } from "@/lib/utils";
+import { useSubscription } from "@/hooks/useSubscription";
+import { usePriceAlerts, describeAlert } from "@/hooks/usePriceAlerts";
+import { PriceAlertDialog } from "./PriceAlertDialog";
+
+interface PriceAlertsPanelProps {
+  delay?: number;
+}
+
+export function PriceAlertsPanel({ delay = 0 }: PriceAlertsPanelProps) {
+  const { limits } = useSubscription();
+  const { alerts, isLoading, toggleAlert, deleteAlert } = usePriceAlerts();
+
+  const limitLabel = limits.alerts === -1 ? "∞" : limits.alerts;
+
+  return (
+    <BentoModule
+      size="full"
+      title="Price Alerts"
+      delay={delay}
+      action={
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-mono text-muted-foreground tabular-nums">
+            {alerts.length}/{limitLabel}
+          </span>
+          <PriceAlertDialog />
+        </div>
+      }
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : alerts.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-8 text-center">
+          <BellOff className="w-6 h-6 text-muted-foreground mb-2" />
+          <p className="text-sm text-muted-foreground">No alerts yet</p>
+          <p className="text-xs text-muted-foreground/70">
+            Get notified on price levels, % moves, RSI and moving-average crosses
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-border/30">
+          {alerts.map((alert) => (
+            <div key={alert.id} className="flex items-center justify-between gap-3 py-2.5">
+              <div className="flex items-center gap-3 min-w-0">
+                <div className={cn(
+                  "w-8 h-8 rounded-lg flex items-center justify-center shrink-0",
+                  alert.triggeredAt && !alert.isActive ? "bg-gain/10" : "bg-muted/50"
+                )}>
+                  {alert.triggeredAt && !alert.isActive ? (
+                    <CheckCircle2 className="w-4 h-4 text-gain" />
+                  ) : (
+                    <Bell className={cn("w-4 h-4", alert.isActive ? "text-primary" : "text-muted-foreground")} />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold font-mono">{alert.symbol}</span>
+                    {alert.notifyEmail && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-muted/50 text-muted-foreground">Email</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{describeAlert(alert)}</p>
+                  {alert.triggeredAt && !alert.isActive && (
+                    <p className="text-[10px] text-gain">
+                      Triggered {new Date(alert.triggeredAt).toLocaleString()}
+                    </p>
+                  )}
+                  {alert.note && (
+                    <p className="text-[10px] text-muted-foreground/70 truncate">{alert.note}</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch
+                  checked={alert.isActive}
+                  onCheckedChange={(checked) => toggleAlert({ id: alert.id, isActive: checked })}
+                  className="scale-90"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteAlert(alert.id)}
+                  className="h-7 w-7 p-0 text-muted-foreground hover:text-loss hover:bg-loss/10"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </BentoModule>
+  );
+}
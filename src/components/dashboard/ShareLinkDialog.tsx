@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Check, Copy, Eye, Link2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useSharedCharts, type SharedChartLink } from "@/hooks/useSharedCharts";
+import { SHARE_EXPIRY_OPTIONS, sharedChartUrl, type SharedChartSnapshot } from "@/utils/sharedCharts";
+import type { TimeframeType } from "@/types/market";
+
+interface ShareLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  symbol: string;
+  timeframe: TimeframeType;
+  /** The chart as it is now; taken when the link is created */
+  getSnapshot: () => SharedChartSnapshot;
+}
+
+function linkStatus(link: SharedChartLink): { label: string; active: boolean } {
+  if (link.revokedAt) return { label: "Revoked", active: false };
+  if (link.expiresAt && Date.parse(link.expiresAt) <= Date.now()) return { label: "Expired", active: false };
+  if (link.expiresAt) {
+    return { label: `Until ${new Date(link.expiresAt).toLocaleDateString()}`, active: true };
+  }
+  return { label: "No expiry", active: true };
+}
+
+/**
+ * Create a read-only link to the current chart, and manage links created
+ * earlier: copy, see how often they were opened, revoke.
+ */
+export function ShareLinkDialog({ open, onOpenChange, symbol, timeframe, getSnapshot }: ShareLinkDialogProps) {
+  const { links, createLink, isCreating, revokeLink } = useSharedCharts(open);
+  const [expiry, setExpiry] = useState("7");
+  const [createdId, setCreatedId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    try {
+      const id = await createLink({
+        symbol,
+        timeframe,
+        snapshot: getSnapshot(),
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      setCreatedId(id);
+      copyLink(id);
+    } catch {
+      // Toast shown by the hook
+    }
+  };
+
+  const copyLink = async (id: string) => {
+    await navigator.clipboard.writeText(sharedChartUrl(id));
+    setCopiedId(id);
+    setTimeout(() => setCopiedId((current) => (current === id ? null : current)), 2000);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) setCreatedId(null);
+      }}
+    >
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Share {symbol} chart as link</DialogTitle>
+          <DialogDescription className="text-xs">
+            Anyone with the link sees a read-only copy of this chart with its indicators, drawings and verdict.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SHARE_EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.label} value={option.days === null ? "never" : String(option.days)} className="text-xs">
+                  {option.days === null ? "Never expires" : `Expires in ${option.label}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-8 flex-1 gap-1.5 text-xs" onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Link2 className="w-3.5 h-3.5" />}
+            Create link
+          </Button>
+        </div>
+
+        {createdId && (
+          <div className="flex items-center gap-2">
+            <Input readOnly value={sharedChartUrl(createdId)} className="h-8 text-xs font-mono" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" onClick={() => copyLink(createdId)}>
+              {copiedId === createdId ? <Check className="w-3.5 h-3.5 text-gain" /> : <Copy className="w-3.5 h-3.5" />}
+            </Button>
+          </div>
+        )}
+
+        {links.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-[11px] font-medium text-muted-foreground">Your links</p>
+            <div className="max-h-52 overflow-y-auto scrollbar-terminal space-y-1">
+              {links.map((link) => {
+                const status = linkStatus(link);
+                return (
+                  <div key={link.id} className="flex items-center gap-2 px-2 py-1.5 rounded-md bg-accent/30 text-xs">
+                    <span className="font-mono font-medium">{link.symbol}</span>
+                    <span className="text-[10px] font-mono text-muted-foreground">{link.timeframe}</span>
+                    <span className={cn("text-[10px]", status.active ? "text-muted-foreground" : "text-loss")}>
+                      {status.label}
+                    </span>
+                    <span className="ml-auto flex items-center gap-1 text-[10px] text-muted-foreground tabular-nums" title="Views">
+                      <Eye className="w-3 h-3" />
+                      {link.viewCount}
+                    </span>
+                    {status.active && (
+                      <>
+                        <button
+                          onClick={() => copyLink(link.id)}
+                          className="p-1 rounded text-muted-foreground hover:text-foreground"
+                          title="Copy link"
+                        >
+                          {copiedId === link.id ? <Check className="w-3 h-3 text-gain" /> : <Copy className="w-3 h-3" />}
+                        </button>
+                        <button
+                          onClick={() => revokeLink(link.id)}
+                          className="px-1.5 py-0.5 rounded text-[10px] text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                        >
+                          Revoke
+                        </button>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
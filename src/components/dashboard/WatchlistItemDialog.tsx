@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { WatchlistItem } from "@/hooks/useWatchlist";
+import type { Watchlist } from "@/hooks/useWatchlists";
+
+interface WatchlistItemDialogProps {
+  item: WatchlistItem;
+  lists: Watchlist[];
+  onSave: (id: string, updates: { notes: string | null; targetPrice: number | null }) => Promise<boolean>;
+  onMove: (id: string, watchlistId: string) => Promise<boolean>;
+  trigger: React.ReactNode;
+}
+
+export function WatchlistItemDialog({ item, lists, onSave, onMove, trigger }: WatchlistItemDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [targetPrice, setTargetPrice] = useState("");
+  const [listId, setListId] = useState(item.watchlistId);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setNotes(item.notes ?? "");
+      setTargetPrice(item.targetPrice?.toString() ?? "");
+      setListId(item.watchlistId);
+    }
+    setOpen(next);
+  };
+
+  const parsedTarget = targetPrice.trim() === "" ? null : parseFloat(targetPrice);
+  const targetValid = parsedTarget === null || (!isNaN(parsedTarget) && parsedTarget > 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    let ok = await onSave(item.id, { notes: notes.trim() || null, targetPrice: parsedTarget });
+    if (ok && listId !== item.watchlistId) {
+      ok = await onMove(item.id, listId);
+    }
+    setSaving(false);
+    if (ok) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-mono">{item.symbol}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="item-target" className="text-xs text-muted-foreground">Target price ($)</Label>
+            <Input
+              id="item-target"
+              type="number"
+              step="any"
+              min={0}
+              value={targetPrice}
+              onChange={(e) => setTargetPrice(e.target.value)}
+              placeholder={item.price > 0 ? item.price.toFixed(2) : "—"}
+              className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="item-notes" className="text-xs text-muted-foreground">Notes</Label>
+            <Textarea
+              id="item-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              rows={3}
+              placeholder="Thesis, levels to watch, earnings date..."
+              className="bg-muted/30 border-border/50 text-sm resize-none"
+            />
+          </div>
+
+          {lists.length > 1 && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Watchlist</Label>
+              <Select value={listId} onValueChange={setListId}>
+                <SelectTrigger className="h-9 bg-muted/30 border-border/50 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {lists.map((list) => (
+                    <SelectItem key={list.id} value={list.id} className="text-sm">
+                      {list.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <Button
+            onClick={handleSave}
+            disabled={!targetValid || saving}
+            className="w-full h-9 text-sm bg-primary hover:bg-primary/90"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { MoreHorizontal, Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { Watchlist } from "@/hooks/useWatchlists";
+
+interface WatchlistSwitcherProps {
+  lists: Watchlist[];
+  activeList: Watchlist | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => Promise<unknown>;
+  onRename: (id: string, name: string) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  canCreate: boolean;
+  compact?: boolean;
+}
+
+type NameDialogMode = "create" | "rename" | null;
+
+export function WatchlistSwitcher({
+  lists,
+  activeList,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  canCreate,
+  compact = false,
+}: WatchlistSwitcherProps) {
+  const [dialogMode, setDialogMode] = useState<NameDialogMode>(null);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (mode: Exclude<NameDialogMode, null>) => {
+    setName(mode === "rename" ? activeList?.name ?? "" : "");
+    setDialogMode(mode);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    const ok = dialogMode === "rename" && activeList
+      ? await onRename(activeList.id, name)
+      : Boolean(await onCreate(name));
+    setSaving(false);
+    if (ok) setDialogMode(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1 min-w-0">
+      <Select value={activeList?.id ?? ""} onValueChange={onSelect}>
+        <SelectTrigger
+          className={cn(
+            "border-border/50 bg-muted/30 min-w-0",
+            compact ? "h-6 w-[140px] text-xs px-2" : "h-9 w-[180px] text-sm"
+          )}
+        >
+          <SelectValue placeholder="Select watchlist" />
+        </SelectTrigger>
+        <SelectContent>
+          {lists.map((list) => (
+            <SelectItem key={list.id} value={list.id} className={compact ? "text-xs" : "text-sm"}>
+              {list.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn("p-0 text-muted-foreground", compact ? "h-6 w-6" : "h-9 w-9")}
+          >
+            <MoreHorizontal className="w-3.5 h-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-44">
+          <DropdownMenuItem
+            onClick={() => openDialog("create")}
+            disabled={!canCreate}
+            className="text-xs gap-2"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            {canCreate ? "New watchlist" : "Upgrade for more lists"}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => openDialog("rename")}
+            disabled={!activeList}
+            className="text-xs gap-2"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => activeList && onDelete(activeList.id)}
+            disabled={!activeList || lists.length <= 1}
+            className="text-xs gap-2 text-loss focus:text-loss"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete watchlist
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent className="sm:max-w-sm bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>{dialogMode === "rename" ? "Rename Watchlist" : "New Watchlist"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              placeholder="e.g. Semiconductors"
+              maxLength={50}
+              autoFocus
+              className="h-9 bg-muted/30 border-border/50 text-sm"
+            />
+            <Button
+              onClick={handleSave}
+              disabled={!name.trim() || saving}
+              className="w-full h-9 text-sm bg-primary hover:bg-primary/90"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {dialogMode === "rename" ? "Save" : "Create"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
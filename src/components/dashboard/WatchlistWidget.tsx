@@ -3,7 +3,9 @@ import { TrendingUp, TrendingDown, Plus, Loader2, Trash2, AlertTriangle, Refresh
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useWatchlist } from "@/hooks/useWatchlist";
+import { useWatchlists } from "@/hooks/useWatchlists";
 import { AddAssetDialog } from "@/components/dashboard/AddAssetDialog";
+import { WatchlistSwitcher } from "@/components/dashboard/WatchlistSwitcher";
 import { motion } from "framer-motion";
 
 interface WatchlistWidgetProps {
@@ -12,9 +14,19 @@ interface WatchlistWidgetProps {
 }
 
 const WatchlistWidget = memo(function WatchlistWidget({ onSelectSymbol, selectedSymbol }: WatchlistWidgetProps) {
-  const { watchlist, loading, error, addToWatchlist, removeFromWatchlist, refetch } = useWatchlist();
+  const {
+    lists,
+    activeList,
+    setActiveListId,
+    loading: listsLoading,
+    canCreateList,
+    createList,
+    renameList,
+    deleteList,
+  } = useWatchlists();
+  const { watchlist, loading: itemsLoading, error, addToWatchlist, removeFromWatchlist, refetch } = useWatchlist(activeList?.id);
 
-  if (loading) {
+  if (listsLoading || itemsLoading) {
     return (
       <div className="h-full flex items-center justify-center">
         <Loader2 className="w-5 h-5 animate-spin text-primary" />
@@ -39,7 +51,16 @@ const WatchlistWidget = memo(function WatchlistWidget({ onSelectSymbol, selected
     <div className="h-full flex flex-col">
       {/* Header */}
       <div className="flex items-center justify-between mb-3">
-        <span className="data-label">Watchlist</span>
+        <WatchlistSwitcher
+          compact
+          lists={lists}
+          activeList={activeList}
+          onSelect={setActiveListId}
+          onCreate={createList}
+          onRename={renameList}
+          onDelete={deleteList}
+          canCreate={canCreateList}
+        />
         <AddAssetDialog
           onAdd={addToWatchlist}
           trigger={
@@ -14,6 +14,8 @@ import { cn } from "@/lib/utils";
 import ReactMarkdown from "react-markdown";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useQueryClient } from "@tanstack/react-query";
+import { AI_USAGE_KEY } from "@/hooks/useAiUsage";
 import type { SkillLevel, EducationContext } from "@/types/education";
 import { QUICK_EXPLANATIONS } from "@/types/education";
 
@@ -79,6 +81,7 @@ export function EducationPopover({
   const [fullContent, setFullContent] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const quickExplanation = QUICK_EXPLANATIONS[topic];
 
   const handleOpenChange = async (open: boolean) => {
@@ -101,6 +104,7 @@ export function EducationPopover({
         });
       } finally {
         setIsLoading(false);
+        queryClient.invalidateQueries({ queryKey: AI_USAGE_KEY });
       }
     }
   };
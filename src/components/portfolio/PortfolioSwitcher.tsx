@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { MoreHorizontal, Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { Portfolio } from "@/hooks/usePortfolio";
+
+interface PortfolioSwitcherProps {
+  portfolios: Portfolio[];
+  activePortfolio: Portfolio | null;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => Promise<string>;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  isCreating: boolean;
+}
+
+type NameDialogMode = "create" | "rename" | null;
+
+export function PortfolioSwitcher({
+  portfolios,
+  activePortfolio,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  isCreating,
+}: PortfolioSwitcherProps) {
+  const [dialogMode, setDialogMode] = useState<NameDialogMode>(null);
+  const [name, setName] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const openDialog = (mode: Exclude<NameDialogMode, null>) => {
+    setName(mode === "rename" ? activePortfolio?.name ?? "" : "");
+    setDialogMode(mode);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    if (dialogMode === "rename" && activePortfolio) {
+      onRename(activePortfolio.id, name);
+      setDialogMode(null);
+      return;
+    }
+    try {
+      const id = await onCreate(name);
+      onSelect(id);
+      setDialogMode(null);
+    } catch {
+      // Error toast is raised by the hook
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 min-w-0">
+      <Select value={activePortfolio?.id ?? ""} onValueChange={onSelect}>
+        <SelectTrigger className="h-9 w-[180px] text-sm border-border/50 bg-muted/30 min-w-0">
+          <SelectValue placeholder="Select portfolio" />
+        </SelectTrigger>
+        <SelectContent>
+          {portfolios.map((portfolio) => (
+            <SelectItem key={portfolio.id} value={portfolio.id} className="text-sm">
+              {portfolio.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-9 w-9 p-0 text-muted-foreground">
+            <MoreHorizontal className="w-3.5 h-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-44">
+          <DropdownMenuItem onClick={() => openDialog("create")} className="text-xs gap-2">
+            <Plus className="w-3.5 h-3.5" />
+            New portfolio
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => openDialog("rename")}
+            disabled={!activePortfolio}
+            className="text-xs gap-2"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setConfirmDelete(true)}
+            disabled={!activePortfolio}
+            className="text-xs gap-2 text-loss focus:text-loss"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete portfolio
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent className="sm:max-w-sm bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>{dialogMode === "rename" ? "Rename Portfolio" : "New Portfolio"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              placeholder="e.g. Brokerage"
+              maxLength={50}
+              autoFocus
+              className="h-9 bg-muted/30 border-border/50 text-sm"
+            />
+            <Button
+              onClick={handleSave}
+              disabled={!name.trim() || isCreating}
+              className="w-full h-9 text-sm bg-primary hover:bg-primary/90"
+            >
+              {isCreating && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              {dialogMode === "rename" ? "Save" : "Create"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {activePortfolio?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the portfolio and its entire transaction history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => activePortfolio && onDelete(activePortfolio.id)}
+              className="bg-loss hover:bg-loss/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
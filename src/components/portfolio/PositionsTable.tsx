@@ -0,0 +1,118 @@
+import { BarChart3, Calculator } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { Position } from "@/utils/portfolio";
+
+interface PositionsTableProps {
+  positions: Position[];
+  onViewChart: (symbol: string) => void;
+  onSizePosition: (position: Position) => void;
+}
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function PositionsTable({ positions, onViewChart, onSizePosition }: PositionsTableProps) {
+  if (positions.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-sm text-muted-foreground">No open positions</p>
+        <p className="text-xs text-muted-foreground/70">Record a buy to start tracking holdings</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="border-b border-border/50">
+          <tr>
+            <th className="text-left text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Asset</th>
+            <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Shares</th>
+            <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 hidden md:table-cell">Avg Cost</th>
+            <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Price</th>
+            <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Value</th>
+            <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Unrealized</th>
+            <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 hidden lg:table-cell">Realized</th>
+            <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 hidden lg:table-cell">Weight</th>
+            <th className="text-center text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 w-24">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border/30">
+          {positions.map((position) => {
+            const pnl = position.unrealizedPnl;
+            const isPositive = (pnl ?? 0) >= 0;
+
+            return (
+              <tr key={position.symbol} className="hover:bg-muted/30 transition-colors duration-200">
+                <td className="px-4 py-3">
+                  <div className="text-sm font-semibold font-mono">{position.symbol}</div>
+                  <div className="text-[10px] text-muted-foreground">
+                    {position.lots.length} lot{position.lots.length === 1 ? "" : "s"}
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-right text-sm font-mono tabular-nums">
+                  {position.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                </td>
+                <td className="px-4 py-3 text-right text-xs font-mono tabular-nums text-muted-foreground hidden md:table-cell">
+                  {formatCurrency(position.averageCost)}
+                </td>
+                <td className="px-4 py-3 text-right text-sm font-mono tabular-nums">
+                  {position.marketPrice !== null ? formatCurrency(position.marketPrice) : "—"}
+                </td>
+                <td className="px-4 py-3 text-right text-sm font-mono tabular-nums">
+                  {formatCurrency(position.marketValue ?? position.costBasis)}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {pnl !== null ? (
+                    <div className={cn("flex flex-col items-end font-mono tabular-nums", isPositive ? "text-gain" : "text-loss")}>
+                      <span className="text-sm">{isPositive ? "+" : ""}{formatCurrency(pnl)}</span>
+                      {position.unrealizedPnlPercent !== null && (
+                        <span className="text-[10px]">
+                          {isPositive ? "+" : ""}{position.unrealizedPnlPercent.toFixed(2)}%
+                        </span>
+                      )}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">—</span>
+                  )}
+                </td>
+                <td className={cn(
+                  "px-4 py-3 text-right text-xs font-mono tabular-nums hidden lg:table-cell",
+                  position.realizedPnl > 0 ? "text-gain" : position.realizedPnl < 0 ? "text-loss" : "text-muted-foreground"
+                )}>
+                  {position.realizedPnl !== 0 ? formatCurrency(position.realizedPnl) : "—"}
+                </td>
+                <td className="px-4 py-3 text-right text-xs font-mono tabular-nums text-muted-foreground hidden lg:table-cell">
+                  {position.weight !== null ? `${position.weight.toFixed(1)}%` : "—"}
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex items-center justify-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onViewChart(position.symbol)}
+                      className="h-7 w-7 p-0 text-muted-foreground hover:text-primary"
+                      title="View chart"
+                    >
+                      <BarChart3 className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onSizePosition(position)}
+                      className="h-7 w-7 p-0 text-muted-foreground hover:text-primary"
+                      title="Open in Position Calculator"
+                    >
+                      <Calculator className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { Plus, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TRANSACTION_TYPE_LABELS, type NewTransactionInput } from "@/hooks/usePortfolio";
+import { findOversoldSell, getHeldQuantity, type Transaction, type TransactionType } from "@/utils/portfolio";
+
+interface TransactionDialogProps {
+  transactions: Transaction[];
+  onSubmit: (input: NewTransactionInput) => Promise<void>;
+  isSubmitting: boolean;
+  defaultSymbol?: string;
+  trigger?: React.ReactNode;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+const formatShares = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+const PENDING_ID = "pending";
+
+export function TransactionDialog({ transactions, onSubmit, isSubmitting, defaultSymbol = "", trigger }: TransactionDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<TransactionType>("buy");
+  const [symbol, setSymbol] = useState(defaultSymbol);
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [amount, setAmount] = useState("");
+  const [fees, setFees] = useState("");
+  const [splitRatio, setSplitRatio] = useState("");
+  const [date, setDate] = useState(today);
+  const [notes, setNotes] = useState("");
+
+  const isTrade = type === "buy" || type === "sell";
+  const needsSymbol = type !== "deposit" && type !== "withdrawal";
+  const needsAmount = type === "dividend" || type === "deposit" || type === "withdrawal";
+
+  const num = (value: string) => (value.trim() === "" ? undefined : parseFloat(value));
+  // End of day so same-day trades entered earlier are included when checking holdings
+  const executedAt = new Date(`${date}T23:59:59`).toISOString();
+
+  const held = type === "sell" && symbol.trim()
+    ? getHeldQuantity(transactions, symbol.trim(), executedAt)
+    : null;
+
+  // Replay the whole ledger with this sell in it, so later sells can't be left short either
+  const oversoldSell = held !== null && (num(quantity) ?? 0) > 0
+    ? findOversoldSell(
+        [
+          ...transactions,
+          {
+            id: PENDING_ID,
+            type: "sell",
+            symbol: symbol.trim(),
+            quantity: num(quantity) ?? 0,
+            price: num(price) ?? 0,
+            amount: null,
+            fees: num(fees) ?? 0,
+            splitRatio: null,
+            notes: null,
+            executedAt,
+            createdAt: new Date().toISOString(),
+          },
+        ],
+        symbol.trim()
+      )
+    : null;
+  const oversold = oversoldSell !== null;
+  const shortLater = oversoldSell !== null && oversoldSell.transaction.id !== PENDING_ID;
+
+  const isValid =
+    (!needsSymbol || symbol.trim().length > 0) &&
+    (!isTrade || ((num(quantity) ?? 0) > 0 && (num(price) ?? -1) >= 0 && !oversold)) &&
+    (!needsAmount || (num(amount) ?? 0) > 0) &&
+    (type !== "split" || (num(splitRatio) ?? 0) > 0) &&
+    (num(fees) === undefined || num(fees)! >= 0) &&
+    !!date;
+
+  const reset = () => {
+    setQuantity("");
+    setPrice("");
+    setAmount("");
+    setFees("");
+    setSplitRatio("");
+    setNotes("");
+    setDate(today());
+  };
+
+  const handleSubmit = async () => {
+    try {
+      await onSubmit({
+        type,
+        symbol: needsSymbol ? symbol : undefined,
+        quantity: isTrade ? num(quantity) : undefined,
+        price: isTrade ? num(price) : undefined,
+        amount: needsAmount ? num(amount) : undefined,
+        fees: isTrade ? num(fees) : undefined,
+        splitRatio: type === "split" ? num(splitRatio) : undefined,
+        notes: notes || undefined,
+        executedAt,
+      });
+      setOpen(false);
+      reset();
+    } catch {
+      // Error toast is raised by the hook
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button size="sm" className="h-9 gap-1.5 text-sm bg-primary hover:bg-primary/90">
+            <Plus className="w-4 h-4" />
+            Add Transaction
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Record Transaction</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Type</Label>
+              <Select value={type} onValueChange={(v) => setType(v as TransactionType)}>
+                <SelectTrigger className="h-9 bg-muted/30 border-border/50 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map((key) => (
+                    <SelectItem key={key} value={key} className="text-sm">
+                      {TRANSACTION_TYPE_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tx-date" className="text-xs text-muted-foreground">Date</Label>
+              <Input
+                id="tx-date"
+                type="date"
+                value={date}
+                max={today()}
+                onChange={(e) => setDate(e.target.value)}
+                className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+              />
+            </div>
+          </div>
+
+          {needsSymbol && (
+            <div className="space-y-2">
+              <Label htmlFor="tx-symbol" className="text-xs text-muted-foreground">Symbol</Label>
+              <Input
+                id="tx-symbol"
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                placeholder="AAPL"
+                maxLength={10}
+                className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+              />
+            </div>
+          )}
+
+          {isTrade && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="tx-quantity" className="text-xs text-muted-foreground">Shares</Label>
+                <Input
+                  id="tx-quantity"
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tx-price" className="text-xs text-muted-foreground">Price ($)</Label>
+                <Input
+                  id="tx-price"
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tx-fees" className="text-xs text-muted-foreground">Fees ($)</Label>
+                <Input
+                  id="tx-fees"
+                  type="number"
+                  step="any"
+                  min={0}
+                  value={fees}
+                  onChange={(e) => setFees(e.target.value)}
+                  placeholder="0"
+                  className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+                />
+              </div>
+            </div>
+          )}
+
+          {held !== null && (
+            <p className={oversold ? "text-[11px] text-loss" : "text-[11px] text-muted-foreground"}>
+              {held > 0
+                ? `You hold ${formatShares(held)} shares on this date.`
+                : "You hold no shares of this symbol on this date."}
+              {shortLater &&
+                ` This would leave your sale on ${new Date(oversoldSell.transaction.executedAt).toLocaleDateString()} short, with only ${formatShares(oversoldSell.held)} shares left.`}
+            </p>
+          )}
+
+          {needsAmount && (
+            <div className="space-y-2">
+              <Label htmlFor="tx-amount" className="text-xs text-muted-foreground">
+                {type === "dividend" ? "Cash received ($)" : "Amount ($)"}
+              </Label>
+              <Input
+                id="tx-amount"
+                type="number"
+                step="any"
+                min={0}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+              />
+            </div>
+          )}
+
+          {type === "split" && (
+            <div className="space-y-2">
+              <Label htmlFor="tx-ratio" className="text-xs text-muted-foreground">New shares per old share</Label>
+              <Input
+                id="tx-ratio"
+                type="number"
+                step="any"
+                min={0}
+                value={splitRatio}
+                onChange={(e) => setSplitRatio(e.target.value)}
+                placeholder="4"
+                className="h-9 bg-muted/30 border-border/50 text-sm font-mono"
+              />
+              <p className="text-[11px] text-muted-foreground">
+                Use 4 for a 4-for-1 split, 0.1 for a 1-for-10 reverse split.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="tx-notes" className="text-xs text-muted-foreground">Note (optional)</Label>
+            <Input
+              id="tx-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              className="h-9 bg-muted/30 border-border/50 text-sm"
+            />
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={!isValid || isSubmitting}
+            className="w-full h-9 text-sm bg-primary hover:bg-primary/90"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Record {TRANSACTION_TYPE_LABELS[type]}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { TRANSACTION_TYPE_LABELS } from "@/hooks/usePortfolio";
+import type { Transaction } from "@/utils/portfolio";
+
+interface TransactionsTableProps {
+  transactions: Transaction[];
+  onDelete: (id: string) => void;
+}
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function describeTransaction(tx: Transaction): string {
+  switch (tx.type) {
+    case "buy":
+    case "sell":
+      return `${tx.quantity?.toLocaleString(undefined, { maximumFractionDigits: 6 })} @ ${formatCurrency(tx.price ?? 0)}${tx.fees > 0 ? ` + ${formatCurrency(tx.fees)} fees` : ""}`;
+    case "split":
+      return (tx.splitRatio ?? 1) >= 1 ? `${tx.splitRatio}-for-1` : `1-for-${(1 / (tx.splitRatio ?? 1)).toFixed(0)}`;
+    default:
+      return "";
+  }
+}
+
+// Signed cash impact of a transaction on the portfolio's cash balance
+function cashImpact(tx: Transaction): number | null {
+  switch (tx.type) {
+    case "buy":
+      return -((tx.quantity ?? 0) * (tx.price ?? 0) + tx.fees);
+    case "sell":
+      return (tx.quantity ?? 0) * (tx.price ?? 0) - tx.fees;
+    case "dividend":
+    case "deposit":
+      return tx.amount ?? 0;
+    case "withdrawal":
+      return -(tx.amount ?? 0);
+    default:
+      return null;
+  }
+}
+
+export function TransactionsTable({ transactions, onDelete }: TransactionsTableProps) {
+  if (transactions.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-sm text-muted-foreground">No transactions yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-[420px] overflow-y-auto scrollbar-terminal">
+      <table className="w-full">
+        <thead className="border-b border-border/50">
+          <tr>
+            <th className="text-left text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Date</th>
+            <th className="text-left text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Type</th>
+            <th className="text-left text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Symbol</th>
+            <th className="text-left text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 hidden md:table-cell">Details</th>
+            <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Cash</th>
+            <th className="w-12" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border/30">
+          {transactions.map((tx) => {
+            const impact = cashImpact(tx);
+            return (
+              <tr key={tx.id} className="hover:bg-muted/30 transition-colors duration-200">
+                <td className="px-4 py-2.5 text-xs font-mono tabular-nums text-muted-foreground">
+                  {new Date(tx.executedAt).toLocaleDateString()}
+                </td>
+                <td className="px-4 py-2.5 text-xs font-medium">{TRANSACTION_TYPE_LABELS[tx.type]}</td>
+                <td className="px-4 py-2.5 text-xs font-mono font-semibold">{tx.symbol ?? "—"}</td>
+                <td className="px-4 py-2.5 text-xs font-mono text-muted-foreground hidden md:table-cell">
+                  <span title={tx.notes ?? undefined}>{describeTransaction(tx)}</span>
+                </td>
+                <td className={cn(
+                  "px-4 py-2.5 text-right text-xs font-mono tabular-nums",
+                  impact === null ? "text-muted-foreground" : impact >= 0 ? "text-gain" : "text-loss"
+                )}>
+                  {impact === null ? "—" : `${impact >= 0 ? "+" : "-"}${formatCurrency(Math.abs(impact))}`}
+                </td>
+                <td className="px-2 py-2.5 text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete(tx.id)}
+                    className="h-7 w-7 p-0 text-muted-foreground hover:text-loss hover:bg-loss/10"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { Sparkles } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { AI_FEATURE_LABELS, useAiUsage, type AiFeature } from "@/hooks/useAiUsage";
+
+interface AiUsageMeterProps {
+  /** compact: one line for chat inputs; full: both quotas with a per-feature breakdown */
+  variant?: "compact" | "full";
+  className?: string;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(tokens >= 10_000_000 ? 0 : 1)}M`;
+  if (tokens >= 1_000) return `${Math.round(tokens / 1_000)}k`;
+  return String(tokens);
+}
+
+function percentUsed(used: number, limit: number): number {
+  if (limit === -1) return 0;
+  if (limit === 0) return 100;
+  return Math.min(100, (used / limit) * 100);
+}
+
+function QuotaBar({ label, used, limit, format }: { label: string; used: number; limit: number; format: (n: number) => string }) {
+  const percent = percentUsed(used, limit);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="tabular-nums">
+          {format(used)} <span className="text-muted-foreground">/ {limit === -1 ? "∞" : format(limit)}</span>
+        </span>
+      </div>
+      <Progress
+        value={percent}
+        className={cn("h-1.5", percent >= 100 ? "[&>div]:bg-loss" : percent >= 80 && "[&>div]:bg-amber-500")}
+      />
+    </div>
+  );
+}
+
+/**
+ * Today's AI usage against the plan's daily quota (resets at midnight UTC)
+ */
+export function AiUsageMeter({ variant = "full", className }: AiUsageMeterProps) {
+  const { byFeature, requests, tokens, requestLimit, tokenLimit, isExhausted, isLoading } = useAiUsage();
+  if (isLoading) return null;
+
+  if (variant === "compact") {
+    // Whichever quota is closer to running out
+    const percent = Math.max(percentUsed(requests, requestLimit), percentUsed(tokens, tokenLimit));
+    return (
+      <div
+        className={cn(
+          "flex items-center gap-1.5 text-[10px] tabular-nums",
+          isExhausted ? "text-loss" : percent >= 80 ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground",
+          className
+        )}
+        title={`${requests} requests and ${formatTokens(tokens)} tokens used today · resets at midnight UTC`}
+      >
+        <Sparkles className="w-3 h-3" />
+        {isExhausted ? (
+          <span>
+            Daily AI limit reached ·{" "}
+            <Link to="/pricing" className="underline hover:text-foreground">Upgrade</Link>
+          </span>
+        ) : requestLimit === -1 ? (
+          <span>{Math.round(percent)}% of today's AI allowance used</span>
+        ) : (
+          <span>{requests}/{requestLimit} AI requests today</span>
+        )}
+      </div>
+    );
+  }
+
+  const features = Object.entries(byFeature) as [AiFeature, { requests: number; tokens: number }][];
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <QuotaBar label="Requests" used={requests} limit={requestLimit} format={String} />
+      <QuotaBar label="Tokens" used={tokens} limit={tokenLimit} format={formatTokens} />
+      {features.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] text-muted-foreground">
+          {features.map(([feature, usage]) => (
+            <span key={feature} className="tabular-nums">
+              {AI_FEATURE_LABELS[feature] ?? feature}: {usage.requests} req · {formatTokens(usage.tokens)} tokens
+            </span>
+          ))}
+        </div>
+      )}
+      <p className="text-[10px] text-muted-foreground">Resets daily at midnight UTC.</p>
+    </div>
+  );
+}
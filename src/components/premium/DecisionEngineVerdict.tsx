@@ -11,7 +11,9 @@ import {
   Zap,
   Shield,
   Eye,
-  Gift
+  Gift,
+  Minus,
+  Loader2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -19,50 +21,44 @@ import { cn } from "@/lib/utils";
 import { useSubscription } from "@/hooks/useSubscription";
 import { useDecisionEngineUsage } from "@/hooks/useDecisionEngineUsage";
 import { SubscriptionModal } from "@/components/premium/SubscriptionModal";
+import { generateTradePlan, type TradePlan } from "@/utils/tradePlan";
+import type { VerdictResult } from "@shared/verdictEngine";
+import type { Candle } from "@/types/market";
 
 interface DecisionEngineVerdictProps {
   symbol: string;
-  price?: number;
-  change?: number;
-  changePercent?: number;
+  verdict: VerdictResult;
+  candles: Candle[];
+  loading?: boolean;
 }
 
-// Mock analysis data - in production, this would come from an AI/analysis API
-function generateAnalysisData(symbol: string, price: number = 180, changePercent: number = 1.5) {
-  const isPositive = changePercent >= 0;
-  const signalStrength = Math.abs(changePercent) * 20 + Math.random() * 30;
-  
-  const signals = ["Strong Buy", "Buy", "Hold", "Sell", "Strong Sell"];
-  const signalIndex = isPositive 
-    ? (signalStrength > 50 ? 0 : 1)
-    : (signalStrength > 50 ? 4 : 3);
-  
-  return {
-    signal: signals[signalIndex],
-    signalScore: Math.min(95, Math.max(25, signalStrength + 40)),
-    isPositive: signalIndex <= 1,
-    catalysts: [
-      `${symbol} showing strong institutional accumulation patterns`,
-      "RSI divergence indicates potential reversal opportunity",
-      "Earnings momentum exceeds sector average by 23%",
-    ],
-    rationale: `Based on our proprietary 47-factor analysis model, ${symbol} demonstrates compelling technical and fundamental characteristics. The stock is currently trading at a ${isPositive ? 'premium' : 'discount'} to its intrinsic value, with key support levels holding strong. Volume analysis suggests smart money is ${isPositive ? 'accumulating' : 'distributing'} shares ahead of the next catalyst event.`,
-    actionPlan: [
-      `Entry Zone: $${(price * 0.98).toFixed(2)} - $${(price * 1.01).toFixed(2)}`,
-      `Target 1: $${(price * 1.08).toFixed(2)} (+8%)`,
-      `Target 2: $${(price * 1.15).toFixed(2)} (+15%)`,
-      `Stop Loss: $${(price * 0.94).toFixed(2)} (-6%)`,
-      `Risk/Reward Ratio: 2.5:1`,
-    ],
-    riskLevel: isPositive ? "Moderate" : "Elevated",
-    timeHorizon: "2-4 weeks",
-  };
+const formatPrice = (value: number) => `$${value.toFixed(2)}`;
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+
+function buildActionPlan(plan: TradePlan): string[] {
+  if (!plan.entryZone || !plan.stopLoss) {
+    return [
+      plan.nearestResistance !== undefined && `Bullish trigger: close above ${formatPrice(plan.nearestResistance)}`,
+      plan.nearestSupport !== undefined && `Bearish trigger: close below ${formatPrice(plan.nearestSupport)}`,
+      `ATR (14): ${formatPrice(plan.atr)}`,
+    ].filter(Boolean) as string[];
+  }
+
+  return [
+    `Entry Zone: ${formatPrice(plan.entryZone.low)} - ${formatPrice(plan.entryZone.high)}`,
+    ...plan.targets.map((target, i) =>
+      `Target ${i + 1}: ${formatPrice(target.price)} (${formatPercent(target.changePercent)})`
+    ),
+    `Stop Loss: ${formatPrice(plan.stopLoss.price)} (${formatPercent(plan.stopLoss.changePercent)})`,
+    `Risk/Reward Ratio: ${plan.riskReward.toFixed(1)}:1`,
+  ];
 }
 
 export function DecisionEngineVerdict({ 
   symbol, 
-  price = 180, 
-  changePercent = 1.38 
+  verdict,
+  candles,
+  loading = false,
 }: DecisionEngineVerdictProps) {
   const { isPro, isElite } = useSubscription();
   const { 
@@ -98,15 +94,29 @@ export function DecisionEngineVerdict({
     }
   };
 
-  // Generate analysis data
-  const analysis = useMemo(() => 
-    generateAnalysisData(symbol, price, changePercent), 
-    [symbol, price, changePercent]
-  );
+  const plan = useMemo(() => generateTradePlan({ verdict, candles }), [verdict, candles]);
+  const actionPlan = useMemo(() => (plan ? buildActionPlan(plan) : []), [plan]);
+
+  if (!plan) {
+    return (
+      <div className="glass-panel rounded-xl p-6 flex flex-col items-center justify-center text-center gap-2">
+        {loading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            <BarChart3 className="w-6 h-6 text-muted-foreground" />
+            <p className="text-xs text-muted-foreground">
+              Not enough price history to build a trade plan for {symbol}
+            </p>
+          </>
+        )}
+      </div>
+    );
+  }
 
-  const SignalIcon = analysis.isPositive ? TrendingUp : TrendingDown;
-  const signalColor = analysis.isPositive ? "text-gain" : "text-loss";
-  const signalBg = analysis.isPositive ? "bg-gain/10" : "bg-loss/10";
+  const SignalIcon = plan.direction === "long" ? TrendingUp : plan.direction === "short" ? TrendingDown : Minus;
+  const signalColor = plan.direction === "long" ? "text-gain" : plan.direction === "short" ? "text-loss" : "text-warning";
+  const signalBg = plan.direction === "long" ? "bg-gain/10" : plan.direction === "short" ? "bg-loss/10" : "bg-warning/10";
 
   return (
     <>
@@ -126,7 +136,7 @@ export function DecisionEngineVerdict({
                 </span>
               </h3>
               <p className="text-[10px] text-muted-foreground">
-                47-factor analysis for {symbol}
+                {plan.factorCount}-factor analysis for {symbol}
               </p>
             </div>
           </div>
@@ -161,7 +171,7 @@ export function DecisionEngineVerdict({
               <div>
                 <div className="text-xs text-muted-foreground">Technical Signal</div>
                 <div className={cn("text-lg font-bold", signalColor)}>
-                  {analysis.signal}
+                  {plan.signal}
                 </div>
               </div>
             </div>
@@ -169,7 +179,7 @@ export function DecisionEngineVerdict({
             <div className="text-right">
               <div className="text-xs text-muted-foreground">Strength</div>
               <div className="text-2xl font-bold font-mono">
-                {analysis.signalScore.toFixed(0)}
+                {plan.score}
                 <span className="text-sm text-muted-foreground">/100</span>
               </div>
             </div>
@@ -182,7 +192,7 @@ export function DecisionEngineVerdict({
               Key Catalysts Detected
             </div>
             <div className="text-xs text-muted-foreground">
-              Our engine has identified <span className="text-primary font-semibold">3 key catalysts</span> for this ticker.
+              Our engine has identified <span className="text-primary font-semibold">{plan.catalysts.length} key {plan.catalysts.length === 1 ? "catalyst" : "catalysts"}</span> for this ticker.
             </div>
           </div>
 
@@ -199,11 +209,33 @@ export function DecisionEngineVerdict({
                   <Eye className="w-3.5 h-3.5 text-info" />
                   Analysis Rationale
                 </div>
-                <p className="text-xs text-muted-foreground leading-relaxed">
-                  {analysis.rationale}
-                </p>
+                <div className="space-y-1.5">
+                  {plan.rationale.map((line, i) => (
+                    <p key={i} className="text-xs text-muted-foreground leading-relaxed">
+                      {line.text}
+                    </p>
+                  ))}
+                </div>
               </div>
 
+              {/* Catalysts & Risks - each line maps to a verdict metric */}
+              {(plan.catalysts.length > 0 || plan.risks.length > 0) && (
+                <div className="rounded-lg bg-secondary/30 p-3 space-y-1">
+                  {plan.catalysts.map((catalyst) => (
+                    <div key={catalyst.metricId} className="flex items-start gap-1.5 text-xs">
+                      <Zap className="w-3 h-3 text-gain shrink-0 mt-0.5" />
+                      <span>{catalyst.text}</span>
+                    </div>
+                  ))}
+                  {plan.risks.map((risk) => (
+                    <div key={risk.metricId} className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                      <AlertTriangle className="w-3 h-3 text-loss shrink-0 mt-0.5" />
+                      <span>{risk.text}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Action Plan Section */}
               <div className="rounded-lg bg-secondary/30 p-3">
                 <div className="text-xs font-medium mb-2 flex items-center gap-1.5">
@@ -211,7 +243,7 @@ export function DecisionEngineVerdict({
                   Action Plan
                 </div>
                 <div className="space-y-1">
-                  {analysis.actionPlan.map((action, i) => (
+                  {actionPlan.map((action, i) => (
                     <div 
                       key={i} 
                       className="flex items-center gap-1.5 text-xs font-mono"
@@ -229,15 +261,15 @@ export function DecisionEngineVerdict({
                   <div className="text-[10px] text-muted-foreground mb-0.5">Risk Level</div>
                   <div className={cn(
                     "text-sm font-semibold flex items-center gap-1.5",
-                    analysis.riskLevel === "Moderate" ? "text-warning" : "text-loss"
+                    plan.riskLevel === "Low" ? "text-gain" : plan.riskLevel === "Moderate" ? "text-warning" : "text-loss"
                   )}>
                     <AlertTriangle className="w-3.5 h-3.5" />
-                    {analysis.riskLevel}
+                    {plan.riskLevel}
                   </div>
                 </div>
                 <div className="rounded-lg bg-secondary/30 p-2.5">
                   <div className="text-[10px] text-muted-foreground mb-0.5">Time Horizon</div>
-                  <div className="text-sm font-semibold">{analysis.timeHorizon}</div>
+                  <div className="text-sm font-semibold">{plan.timeHorizon}</div>
                 </div>
               </div>
             </div>
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { MoreHorizontal, Save, Plus, Trash2, Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SavedScreen } from "@/hooks/useSavedScreens";
+
+interface SavedScreensMenuProps {
+  screens: SavedScreen[];
+  activeScreen: SavedScreen | null;
+  onLoad: (screen: SavedScreen) => void;
+  onSave: (id: string | undefined, name: string) => Promise<string>;
+  onDelete: (id: string) => void;
+  isSaving: boolean;
+}
+
+export function SavedScreensMenu({
+  screens,
+  activeScreen,
+  onLoad,
+  onSave,
+  onDelete,
+  isSaving,
+}: SavedScreensMenuProps) {
+  const [nameDialogOpen, setNameDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const openNameDialog = () => {
+    setName("");
+    setNameDialogOpen(true);
+  };
+
+  const handleSaveAs = async () => {
+    if (!name.trim()) return;
+    try {
+      await onSave(undefined, name);
+      setNameDialogOpen(false);
+    } catch {
+      // Error toast is raised by the hook
+    }
+  };
+
+  const handleSave = () => {
+    if (!activeScreen) {
+      openNameDialog();
+      return;
+    }
+    // Overwrites the loaded screen with the current filters
+    onSave(activeScreen.id, activeScreen.name).catch(() => undefined);
+  };
+
+  return (
+    <div className="flex items-center gap-1 min-w-0">
+      <Select
+        value={activeScreen?.id ?? ""}
+        onValueChange={(id) => {
+          const screen = screens.find((s) => s.id === id);
+          if (screen) onLoad(screen);
+        }}
+      >
+        <SelectTrigger className="h-9 w-[180px] text-sm border-border/50 bg-muted/30 min-w-0">
+          <SelectValue placeholder={screens.length > 0 ? "Saved screens" : "No saved screens"} />
+        </SelectTrigger>
+        <SelectContent>
+          {screens.map((screen) => (
+            <SelectItem key={screen.id} value={screen.id} className="text-sm">
+              {screen.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-9 w-9 p-0 text-muted-foreground">
+            <MoreHorizontal className="w-3.5 h-3.5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-44">
+          <DropdownMenuItem onClick={handleSave} className="text-xs gap-2">
+            <Save className="w-3.5 h-3.5" />
+            {activeScreen ? "Save changes" : "Save screen"}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={openNameDialog} className="text-xs gap-2">
+            <Plus className="w-3.5 h-3.5" />
+            Save as new
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setConfirmDelete(true)}
+            disabled={!activeScreen}
+            className="text-xs gap-2 text-loss focus:text-loss"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete screen
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={nameDialogOpen} onOpenChange={setNameDialogOpen}>
+        <DialogContent className="sm:max-w-sm bg-card border-border">
+          <DialogHeader>
+            <DialogTitle>Save Screen</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSaveAs()}
+              placeholder="e.g. Oversold quality"
+              maxLength={50}
+              autoFocus
+              className="h-9 bg-muted/30 border-border/50 text-sm"
+            />
+            <Button
+              onClick={handleSaveAs}
+              disabled={!name.trim() || isSaving}
+              className="w-full h-9 text-sm bg-primary hover:bg-primary/90"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Save
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {activeScreen?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The saved filters are removed. Your watchlists are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => activeScreen && onDelete(activeScreen.id)}
+              className="bg-loss hover:bg-loss/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Lock, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import {
+  isEnumFilter,
+  SCREENER_FIELD_MAP,
+  type ScreenFilter,
+} from "@/utils/screener";
+
+interface ScreenerFilterRowProps {
+  filter: ScreenFilter;
+  locked: boolean; // premium field on the free tier
+  onChange: (filter: ScreenFilter) => void;
+  onRemove: () => void;
+}
+
+const parseBound = (value: string) => {
+  if (value.trim() === "") return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export function ScreenerFilterRow({ filter, locked, onChange, onRemove }: ScreenerFilterRowProps) {
+  const field = SCREENER_FIELD_MAP.get(filter.field);
+  if (!field) return null;
+
+  return (
+    <div className={cn(
+      "flex flex-wrap items-center gap-2 px-3 py-2 rounded-lg bg-muted/30 border border-border/30",
+      locked && "opacity-60"
+    )}>
+      <span className="flex items-center gap-1.5 text-xs font-medium w-36 shrink-0">
+        {locked && <Lock className="w-3 h-3 text-muted-foreground" />}
+        {field.label}
+        {field.kind === "number" && field.unit && field.unit !== "$" && (
+          <span className="text-[10px] text-muted-foreground">({field.unit})</span>
+        )}
+      </span>
+
+      {isEnumFilter(filter) && field.kind === "enum" ? (
+        <div className="flex flex-wrap gap-1 flex-1">
+          {field.options.map((option) => {
+            const selected = filter.values.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                type="button"
+                disabled={locked}
+                onClick={() => onChange({
+                  ...filter,
+                  values: selected
+                    ? filter.values.filter((v) => v !== option.value)
+                    : [...filter.values, option.value],
+                })}
+                className={cn(
+                  "px-2 py-0.5 rounded-full text-[10px] border transition-colors",
+                  selected
+                    ? "bg-primary/15 border-primary/40 text-primary"
+                    : "border-border/50 text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      ) : !isEnumFilter(filter) ? (
+        <div className="flex items-center gap-1.5 flex-1">
+          <Input
+            type="number"
+            placeholder="Min"
+            disabled={locked}
+            value={filter.min ?? ""}
+            onChange={(e) => onChange({ ...filter, min: parseBound(e.target.value) })}
+            className="h-7 w-24 bg-background/50 border-border/50 text-xs font-mono"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="number"
+            placeholder="Max"
+            disabled={locked}
+            value={filter.max ?? ""}
+            onChange={(e) => onChange({ ...filter, max: parseBound(e.target.value) })}
+            className="h-7 w-24 bg-background/50 border-border/50 text-xs font-mono"
+          />
+        </div>
+      ) : null}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onRemove}
+        className="h-7 w-7 p-0 text-muted-foreground hover:text-loss hover:bg-loss/10 ml-auto"
+      >
+        <X className="w-3.5 h-3.5" />
+      </Button>
+    </div>
+  );
+}
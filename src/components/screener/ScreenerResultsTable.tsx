@@ -0,0 +1,108 @@
+import { ArrowDown, ArrowUp, BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  formatScreenerValue,
+  SCREENER_FIELD_MAP,
+  type ScreenSort,
+  type ScreenerRow,
+} from "@/utils/screener";
+import type { VerdictResult } from "@shared/verdictEngine";
+
+interface ScreenerResultsTableProps {
+  rows: ScreenerRow[];
+  columns: string[]; // field ids after Symbol
+  sort: ScreenSort;
+  onSortChange: (sort: ScreenSort) => void;
+  onViewChart: (symbol: string) => void;
+}
+
+const signalClasses: Record<VerdictResult['signal'], string> = {
+  extreme_bullish: "bg-gain/15 text-gain",
+  bullish: "bg-gain/10 text-gain",
+  neutral: "bg-warning/10 text-warning",
+  bearish: "bg-loss/10 text-loss",
+  extreme_bearish: "bg-loss/15 text-loss",
+};
+
+export function ScreenerResultsTable({ rows, columns, sort, onSortChange, onViewChart }: ScreenerResultsTableProps) {
+  if (rows.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-sm text-muted-foreground">No stocks match these filters</p>
+        <p className="text-xs text-muted-foreground/70">Widen a range or remove a filter</p>
+      </div>
+    );
+  }
+
+  const toggleSort = (field: string) => {
+    onSortChange(
+      sort.field === field
+        ? { field, direction: sort.direction === "desc" ? "asc" : "desc" }
+        : { field, direction: "desc" }
+    );
+  };
+
+  const sortHeader = (field: string, label: string, align: "left" | "right" = "right") => (
+    <th key={field} className={cn(
+      "text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 whitespace-nowrap",
+      align === "left" ? "text-left" : "text-right"
+    )}>
+      <button
+        type="button"
+        onClick={() => toggleSort(field)}
+        className={cn("inline-flex items-center gap-1 hover:text-foreground", sort.field === field && "text-foreground")}
+      >
+        {label}
+        {sort.field === field && (sort.direction === "desc"
+          ? <ArrowDown className="w-3 h-3" />
+          : <ArrowUp className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="border-b border-border/50">
+          <tr>
+            {sortHeader("symbol", "Symbol", "left")}
+            {columns.map((id) => sortHeader(id, SCREENER_FIELD_MAP.get(id)?.label ?? id))}
+            <th className="w-12" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border/30">
+          {rows.map((row) => (
+            <tr key={row.symbol} className="hover:bg-muted/30 transition-colors duration-200">
+              <td className="px-4 py-2.5">
+                <div className="text-sm font-semibold font-mono">{row.symbol}</div>
+                <div className="text-[10px] text-muted-foreground truncate max-w-[180px]">{row.companyName ?? "—"}</div>
+              </td>
+              {columns.map((id) => (
+                <td key={id} className="px-4 py-2.5 text-right text-xs font-mono tabular-nums whitespace-nowrap">
+                  {id === "signal" ? (
+                    <span className={cn("px-2 py-0.5 rounded-full text-[10px] font-sans font-medium", signalClasses[row.signal])}>
+                      {formatScreenerValue(SCREENER_FIELD_MAP.get(id), row.signal)}
+                    </span>
+                  ) : (
+                    formatScreenerValue(SCREENER_FIELD_MAP.get(id), row[id])
+                  )}
+                </td>
+              ))}
+              <td className="px-2 py-2.5 text-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onViewChart(row.symbol)}
+                  className="h-7 w-7 p-0 text-muted-foreground hover:text-primary"
+                >
+                  <BarChart3 className="w-3.5 h-3.5" />
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -14,7 +14,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { VerdictGauge } from "./VerdictGauge";
-import { VerdictResult, VerdictMetric } from "@/utils/verdictEngine";
+import { VerdictResult, VerdictMetric, TimeframeAlignment } from "@shared/verdictEngine";
 import { useSubscription } from "@/hooks/useSubscription";
 import { FinancialDisclaimer } from "@/components/common/FinancialDisclaimer";
 import { cn } from "@/lib/utils";
@@ -40,13 +40,6 @@ const layerLabels = {
   macro: 'Macro',
 };
 
-const layerWeights = {
-  technical: 40,
-  fundamental: 30,
-  sentiment: 20,
-  macro: 10,
-};
-
 function SignalIcon({ signal }: { signal: 'bullish' | 'bearish' | 'neutral' }) {
   if (signal === 'bullish') return <TrendingUp className="w-3 h-3 text-gain" />;
   if (signal === 'bearish') return <TrendingDown className="w-3 h-3 text-loss" />;
@@ -97,7 +90,7 @@ function LayerBreakdown({ verdict }: { verdict: VerdictResult }) {
       {layers.map((layer, i) => {
         const Icon = layerIcons[layer];
         const score = verdict.layerScores[layer];
-        const weight = layerWeights[layer];
+        const weight = Math.round(verdict.layerWeights[layer] * 100);
         
         const getBarColor = (s: number) => {
           if (s >= 60) return 'bg-gain';
@@ -140,6 +133,56 @@ function LayerBreakdown({ verdict }: { verdict: VerdictResult }) {
   );
 }
 
+// Technical signals per timeframe: one row per metric, one column per timeframe
+function TimeframeMatrix({ alignment }: { alignment: TimeframeAlignment }) {
+  const rows = new Map<string, string>();
+  alignment.timeframes.forEach(tf => tf.metrics.forEach(m => rows.set(m.id, m.name)));
+
+  const scoreColor = (score: number) => score >= 60 ? 'text-gain' : score >= 40 ? 'text-warning' : 'text-loss';
+
+  return (
+    <div className="rounded-xl border border-border/50 overflow-hidden">
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr className="bg-muted/30">
+            <th className="text-left font-medium text-muted-foreground px-2 py-1.5">Signal</th>
+            {alignment.timeframes.map(tf => (
+              <th key={tf.timeframe} className="font-mono font-semibold px-1 py-1.5 w-10">{tf.timeframe}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from(rows).map(([id, name]) => (
+            <tr key={id} className="border-t border-border/30">
+              <td className="px-2 py-1 text-muted-foreground truncate max-w-[120px]">{name}</td>
+              {alignment.timeframes.map(tf => {
+                const metric = tf.metrics.find(m => m.id === id);
+                return (
+                  <td key={tf.timeframe} className="py-1">
+                    <div className="flex justify-center">
+                      {metric ? <SignalIcon signal={metric.signal} /> : <span className="text-muted-foreground/40">–</span>}
+                    </div>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          <tr className="border-t border-border/50 bg-muted/20">
+            <td className="px-2 py-1.5 font-medium text-foreground">Technical</td>
+            {alignment.timeframes.map(tf => (
+              <td key={tf.timeframe} className="py-1.5 text-center font-mono font-semibold tabular-nums">
+                {tf.score !== null
+                  ? <span className={scoreColor(tf.score)}>{tf.score}</span>
+                  : <span className="text-muted-foreground/40" title="Not enough bars">–</span>}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 function LockedOverlay({ onUnlockClick }: { onUnlockClick?: () => void }) {
   return (
     <div className="absolute inset-0 backdrop-blur-[2px] bg-background/70 rounded-xl flex flex-col items-center justify-center z-10">
@@ -192,15 +235,20 @@ export function MasterVerdict({ verdict, symbol, loading, onUnlockClick }: Maste
           <Activity className="w-4 h-4 text-primary" />
           <span className="data-label">Master Verdict</span>
         </div>
-        <Badge variant="outline" className="font-mono text-[10px] h-5 px-1.5">
-          {symbol}
-        </Badge>
+        <div className="flex items-center gap-1.5">
+          <Badge variant="secondary" className="text-[10px] h-5 px-1.5 font-normal" title="Strategy profile">
+            {verdict.profile.name}
+          </Badge>
+          <Badge variant="outline" className="font-mono text-[10px] h-5 px-1.5">
+            {symbol}
+          </Badge>
+        </div>
       </div>
 
       <div className="p-4 space-y-5">
         {/* Gauge Section */}
         <div className="flex flex-col items-center">
-          <VerdictGauge score={verdict.score} size={220} />
+          <VerdictGauge score={verdict.score} size={220} profileName={verdict.profile.name} />
           
           <motion.div
             initial={{ opacity: 0, y: 8 }}
@@ -226,6 +274,24 @@ export function MasterVerdict({ verdict, symbol, loading, onUnlockClick }: Maste
           <LayerBreakdown verdict={verdict} />
         </div>
 
+        {/* Timeframe Alignment */}
+        {verdict.timeframeAlignment && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="data-label">Timeframe Alignment</span>
+              <span className={cn(
+                "text-[10px] font-medium px-1.5 py-0.5 rounded capitalize",
+                verdict.timeframeAlignment.direction === 'bullish' ? 'bg-gain/10 text-gain'
+                  : verdict.timeframeAlignment.direction === 'bearish' ? 'bg-loss/10 text-loss'
+                  : 'bg-warning/10 text-warning'
+              )}>
+                {Math.round(verdict.timeframeAlignment.agreement * 100)}% {verdict.timeframeAlignment.direction}
+              </span>
+            </div>
+            <TimeframeMatrix alignment={verdict.timeframeAlignment} />
+          </div>
+        )}
+
         {/* Top Signals */}
         <div className="relative">
           <div className="flex items-center justify-between mb-2">
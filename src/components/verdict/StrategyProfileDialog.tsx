@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+import { VERDICT_PROFILE_PRESETS, getVerdictProfileConfigError } from "@/utils/verdictProfiles";
+import {
+  VERDICT_METRICS,
+  type LayerWeights,
+  type VerdictLayer,
+  type VerdictProfile,
+  type VerdictProfileConfig,
+  type VerdictThresholds,
+} from "@shared/verdictEngine";
+
+interface StrategyProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile: VerdictProfile | null; // null to create
+  onSave: (name: string, config: VerdictProfileConfig) => Promise<void>;
+  isSaving: boolean;
+}
+
+const LAYERS: { id: VerdictLayer; label: string }[] = [
+  { id: 'technical', label: 'Technical' },
+  { id: 'fundamental', label: 'Fundamental' },
+  { id: 'sentiment', label: 'Sentiment' },
+  { id: 'macro', label: 'Macro' },
+];
+
+const THRESHOLD_FIELDS: { id: keyof VerdictThresholds; label: string; step: number }[] = [
+  { id: 'rsiOversold', label: 'RSI oversold', step: 1 },
+  { id: 'rsiBearish', label: 'RSI weak below', step: 1 },
+  { id: 'rsiBullish', label: 'RSI strong above', step: 1 },
+  { id: 'rsiOverbought', label: 'RSI overbought', step: 1 },
+  { id: 'ma50ExtendedPercent', label: '50-MA trend band (%)', step: 0.5 },
+  { id: 'volumeSpikeRatio', label: 'Volume spike (x avg)', step: 0.1 },
+];
+
+const toPercent = (value: number) => Math.round(value * 100);
+
+// Form state works in whole percentages
+function toFormState(config: VerdictProfileConfig) {
+  return {
+    layerWeights: Object.fromEntries(
+      LAYERS.map((l) => [l.id, toPercent(config.layerWeights[l.id])])
+    ) as Record<VerdictLayer, number>,
+    metricWeights: Object.fromEntries(
+      VERDICT_METRICS.map((m) => [m.id, toPercent(config.metricWeights[m.id] ?? m.defaultWeight)])
+    ),
+    thresholds: config.thresholds,
+  };
+}
+
+export function StrategyProfileDialog({ open, onOpenChange, profile, onSave, isSaving }: StrategyProfileDialogProps) {
+  const [name, setName] = useState("");
+  const [layerWeights, setLayerWeights] = useState(() => toFormState(VERDICT_PROFILE_PRESETS[0].config).layerWeights);
+  const [metricWeights, setMetricWeights] = useState<Record<string, number>>({});
+  const [thresholds, setThresholds] = useState<VerdictThresholds>(VERDICT_PROFILE_PRESETS[0].config.thresholds);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConfig = (config: VerdictProfileConfig) => {
+    const form = toFormState(config);
+    setLayerWeights(form.layerWeights);
+    setMetricWeights(form.metricWeights);
+    setThresholds(form.thresholds);
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    const form = toFormState((profile ?? VERDICT_PROFILE_PRESETS[0]).config);
+    setName(profile?.name ?? "");
+    setLayerWeights(form.layerWeights);
+    setMetricWeights(form.metricWeights);
+    setThresholds(form.thresholds);
+    setError(null);
+  }, [open, profile]);
+
+  const layerTotal = LAYERS.reduce((sum, l) => sum + layerWeights[l.id], 0);
+
+  const buildConfig = (): VerdictProfileConfig => {
+    const weights = Object.fromEntries(
+      LAYERS.map((l) => [l.id, layerWeights[l.id] / 100])
+    ) as LayerWeights;
+    // Only persist metric weights that differ from the engine defaults
+    const overrides: Record<string, number> = {};
+    VERDICT_METRICS.forEach((m) => {
+      const value = (metricWeights[m.id] ?? toPercent(m.defaultWeight)) / 100;
+      if (Math.abs(value - m.defaultWeight) > 0.0001) overrides[m.id] = value;
+    });
+    return { layerWeights: weights, metricWeights: overrides, thresholds };
+  };
+
+  const handleSave = async () => {
+    const config = buildConfig();
+    const validationError = !name.trim() ? "Name is required" : getVerdictProfileConfigError(config);
+    setError(validationError);
+    if (validationError) return;
+
+    try {
+      await onSave(name, config);
+      onOpenChange(false);
+    } catch {
+      // Error toast is raised by the hook
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-card border-border max-h-[85vh] overflow-y-auto scrollbar-terminal">
+        <DialogHeader>
+          <DialogTitle>{profile ? "Edit Strategy Profile" : "New Strategy Profile"}</DialogTitle>
+          <DialogDescription>
+            Choose how much each layer, metric and threshold counts toward the Master Verdict.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name" className="text-xs text-muted-foreground">Name</Label>
+              <Input
+                id="profile-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Swing Momentum"
+                maxLength={50}
+                className="h-9 bg-muted/30 border-border/50 text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Start from preset</Label>
+              <Select
+                onValueChange={(value) => {
+                  const preset = VERDICT_PROFILE_PRESETS.find((p) => p.name === value);
+                  if (!preset) return;
+                  loadConfig(preset.config);
+                  if (!name.trim()) setName(preset.name);
+                }}
+              >
+                <SelectTrigger className="h-9 bg-muted/30 border-border/50 text-sm">
+                  <SelectValue placeholder="Choose..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {VERDICT_PROFILE_PRESETS.map((preset) => (
+                    <SelectItem key={preset.name} value={preset.name} className="text-sm">
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Layer weights */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="data-label">Layer Weights</span>
+              <span className={cn("text-[10px] font-mono tabular-nums", layerTotal === 100 ? "text-muted-foreground" : "text-loss")}>
+                {layerTotal}% / 100%
+              </span>
+            </div>
+            {LAYERS.map((layer) => (
+              <div key={layer.id} className="flex items-center gap-3">
+                <span className="text-xs w-24">{layer.label}</span>
+                <Slider
+                  value={[layerWeights[layer.id]]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={([value]) => setLayerWeights((prev) => ({ ...prev, [layer.id]: value }))}
+                  className="flex-1"
+                />
+                <span className="text-xs font-mono tabular-nums w-10 text-right">{layerWeights[layer.id]}%</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Thresholds */}
+          <div className="space-y-3">
+            <span className="data-label">Technical Thresholds</span>
+            <div className="grid grid-cols-2 gap-3">
+              {THRESHOLD_FIELDS.map((field) => (
+                <div key={field.id} className="space-y-1.5">
+                  <Label htmlFor={`threshold-${field.id}`} className="text-[11px] text-muted-foreground">{field.label}</Label>
+                  <Input
+                    id={`threshold-${field.id}`}
+                    type="number"
+                    step={field.step}
+                    value={thresholds[field.id]}
+                    onChange={(e) => setThresholds((prev) => ({ ...prev, [field.id]: parseFloat(e.target.value) || 0 }))}
+                    className="h-8 bg-muted/30 border-border/50 text-xs font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Metric weights */}
+          <div className="space-y-3">
+            <span className="data-label">Metric Weights (within layer)</span>
+            {LAYERS.map((layer) => (
+              <div key={layer.id} className="space-y-1.5">
+                <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{layer.label}</div>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+                  {VERDICT_METRICS.filter((m) => m.layer === layer.id).map((metric) => (
+                    <div key={metric.id} className="flex items-center justify-between gap-2">
+                      <Label htmlFor={`metric-${metric.id}`} className="text-[11px] truncate">{metric.name}</Label>
+                      <Input
+                        id={`metric-${metric.id}`}
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={metricWeights[metric.id] ?? toPercent(metric.defaultWeight)}
+                        onChange={(e) => setMetricWeights((prev) => ({ ...prev, [metric.id]: parseFloat(e.target.value) || 0 }))}
+                        className="h-7 w-16 bg-muted/30 border-border/50 text-xs font-mono"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {error && <p className="text-xs text-loss">{error}</p>}
+
+          <Button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="w-full h-9 text-sm bg-primary hover:bg-primary/90"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            {profile ? "Save Changes" : "Create Profile"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
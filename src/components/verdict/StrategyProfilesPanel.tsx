@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Check, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useVerdictProfiles, type SavedVerdictProfile } from "@/hooks/useVerdictProfiles";
+import { DEFAULT_VERDICT_PROFILE, type VerdictProfileConfig } from "@shared/verdictEngine";
+import { StrategyProfileDialog } from "./StrategyProfileDialog";
+
+const DEFAULT_VALUE = "default";
+
+const describeWeights = (config: VerdictProfileConfig) => {
+  const w = config.layerWeights;
+  return `T ${Math.round(w.technical * 100)} · F ${Math.round(w.fundamental * 100)} · S ${Math.round(w.sentiment * 100)} · M ${Math.round(w.macro * 100)}`;
+};
+
+export function StrategyProfilesPanel() {
+  const {
+    profiles,
+    activeProfile,
+    saveProfile,
+    isSaving,
+    deleteProfile,
+    setActiveProfile,
+  } = useVerdictProfiles();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SavedVerdictProfile | null>(null);
+
+  const openDialog = (profile: SavedVerdictProfile | null) => {
+    setEditing(profile);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (name: string, config: VerdictProfileConfig) => {
+    const id = await saveProfile({ id: editing?.id, name, config });
+    // New profiles are switched on straight away
+    if (!editing) setActiveProfile(id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 py-1">
+        <div>
+          <Label className="text-sm font-medium">Active Profile</Label>
+          <p className="text-xs text-muted-foreground">Weights used for every Master Verdict</p>
+        </div>
+        <Select
+          value={activeProfile.id ?? DEFAULT_VALUE}
+          onValueChange={(value) => setActiveProfile(value === DEFAULT_VALUE ? null : value)}
+        >
+          <SelectTrigger className="h-8 w-[180px] text-xs border-border/50 bg-muted/30">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_VALUE} className="text-xs">
+              {DEFAULT_VERDICT_PROFILE.name} (default)
+            </SelectItem>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id} className="text-xs">
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1.5 pt-3 border-t border-border/30">
+        {profiles.length === 0 && (
+          <p className="text-xs text-muted-foreground py-2">
+            No saved profiles yet. Start from the Momentum, Value or Macro-aware presets.
+          </p>
+        )}
+        {profiles.map((profile) => (
+          <div
+            key={profile.id}
+            className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-muted/30"
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-1.5 text-sm font-medium truncate">
+                {profile.isActive && <Check className="w-3.5 h-3.5 text-primary shrink-0" />}
+                {profile.name}
+              </div>
+              <div className="text-[10px] font-mono text-muted-foreground">{describeWeights(profile.config)}</div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => openDialog(profile)}
+                className="h-7 w-7 p-0 text-muted-foreground hover:text-primary"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteProfile(profile.id)}
+                className="h-7 w-7 p-0 text-muted-foreground hover:text-loss hover:bg-loss/10"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => openDialog(null)}
+        className="h-8 gap-1.5 text-xs"
+      >
+        <Plus className="w-3 h-3" />
+        New profile
+      </Button>
+
+      <StrategyProfileDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        profile={editing}
+        onSave={handleSave}
+        isSaving={isSaving}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { FlaskConical, Loader2 } from "lucide-react";
+import {
+  AreaChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useVerdictBacktest } from "@/hooks/useVerdictBacktest";
+import { useVerdictProfiles } from "@/hooks/useVerdictProfiles";
+import { cn } from "@/lib/utils";
+import type { VerdictSignal } from "@/utils/backtest";
+
+interface VerdictBacktestProps {
+  symbol: string;
+}
+
+const PERIODS = [
+  { value: "365", label: "1Y" },
+  { value: "1095", label: "3Y" },
+  { value: "1825", label: "5Y" },
+];
+
+const signalLabels: Record<VerdictSignal, string> = {
+  extreme_bullish: "Strong Buy",
+  bullish: "Buy",
+  neutral: "Hold",
+  bearish: "Sell",
+  extreme_bearish: "Strong Sell",
+};
+
+const formatPercent = (value: number | null, digits = 1) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(digits)}%`;
+
+const toneClass = (value: number | null) =>
+  value === null || value === 0 ? "text-muted-foreground" : value > 0 ? "text-gain" : "text-loss";
+
+export function VerdictBacktest({ symbol }: VerdictBacktestProps) {
+  const [days, setDays] = useState("1095");
+  const [slippageBps, setSlippageBps] = useState("5");
+  const [commissionBps, setCommissionBps] = useState("1");
+  const [allowShort, setAllowShort] = useState(false);
+
+  const { activeProfile } = useVerdictProfiles();
+  const { result, candleCount, loading, error } = useVerdictBacktest(symbol, parseInt(days), {
+    slippageBps: Math.max(0, parseFloat(slippageBps) || 0),
+    commissionBps: Math.max(0, parseFloat(commissionBps) || 0),
+    allowShort,
+  }, activeProfile);
+
+  const chartData = result?.equityCurve.map((point) => ({
+    date: new Date(point.timestamp * 1000).toLocaleDateString(undefined, { month: "short", year: "2-digit" }),
+    strategy: Math.round(point.equity),
+    buyHold: Math.round(point.benchmark),
+  })) ?? [];
+
+  const metrics = result?.metrics;
+  const stats = metrics ? [
+    { label: "Return", value: formatPercent(metrics.totalReturn), hint: `B&H ${formatPercent(metrics.benchmarkReturn)}`, tone: toneClass(metrics.totalReturn) },
+    { label: "CAGR", value: formatPercent(metrics.cagr), hint: `B&H ${formatPercent(metrics.benchmarkCagr)}`, tone: toneClass(metrics.cagr) },
+    { label: "Max DD", value: formatPercent(-metrics.maxDrawdown), hint: "Peak to trough", tone: metrics.maxDrawdown > 0 ? "text-loss" : "text-muted-foreground" },
+    { label: "Sharpe", value: metrics.sharpe !== null ? metrics.sharpe.toFixed(2) : "—", hint: "Annualized", tone: toneClass(metrics.sharpe) },
+    { label: "Hit Rate", value: metrics.hitRate !== null ? `${(metrics.hitRate * 100).toFixed(0)}%` : "—", hint: `${metrics.tradeCount} trades`, tone: "text-foreground" },
+    { label: "Exposure", value: `${(metrics.exposure * 100).toFixed(0)}%`, hint: "Bars in market", tone: "text-foreground" },
+  ] : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold">Verdict Backtest</h3>
+          <span className="text-xs font-mono text-muted-foreground">{symbol}</span>
+          <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-muted text-muted-foreground">
+            {activeProfile.name}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="h-8 w-[72px] text-xs border-border/50 bg-muted/30">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period.value} value={period.value} className="text-xs">
+                  {period.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-1.5">
+            <Label htmlFor="bt-slippage" className="text-[10px] text-muted-foreground uppercase">Slip bps</Label>
+            <Input
+              id="bt-slippage"
+              type="number"
+              min={0}
+              value={slippageBps}
+              onChange={(e) => setSlippageBps(e.target.value)}
+              className="h-8 w-16 text-xs font-mono bg-muted/30 border-border/50"
+            />
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Label htmlFor="bt-commission" className="text-[10px] text-muted-foreground uppercase">Comm bps</Label>
+            <Input
+              id="bt-commission"
+              type="number"
+              min={0}
+              value={commissionBps}
+              onChange={(e) => setCommissionBps(e.target.value)}
+              className="h-8 w-16 text-xs font-mono bg-muted/30 border-border/50"
+            />
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Switch id="bt-short" checked={allowShort} onCheckedChange={setAllowShort} />
+            <Label htmlFor="bt-short" className="text-[10px] text-muted-foreground uppercase">Shorts</Label>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-48">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : error || !result ? (
+        <div className="text-center py-12">
+          <p className="text-sm text-muted-foreground">
+            {error ?? `Not enough history to backtest (${candleCount} bars)`}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+            {stats.map((stat) => (
+              <div key={stat.label} className="p-3 rounded-lg bg-muted/30 border border-border/30">
+                <div className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider">{stat.label}</div>
+                <div className={cn("text-sm font-semibold font-mono tabular-nums", stat.tone)}>{stat.value}</div>
+                <div className="text-[10px] text-muted-foreground">{stat.hint}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                <defs>
+                  <linearGradient id="backtest-equity" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor="hsl(var(--primary))" stopOpacity={0.2} />
+                    <stop offset="100%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--chart-grid))" vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickLine={false}
+                  interval="preserveStartEnd"
+                  minTickGap={40}
+                />
+                <YAxis
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                  axisLine={false}
+                  tickLine={false}
+                  width={55}
+                  tickFormatter={(v) => `$${(v / 1000).toFixed(1)}k`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                    fontSize: '11px',
+                  }}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="strategy"
+                  name="Verdict strategy"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={2}
+                  fill="url(#backtest-equity)"
+                />
+                <Line
+                  type="monotone"
+                  dataKey="buyHold"
+                  name="Buy & hold"
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeWidth={1}
+                  strokeDasharray="4 4"
+                  dot={false}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="border-b border-border/50">
+                <tr>
+                  <th className="text-left text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-3 py-2">Signal</th>
+                  <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-3 py-2">Bars</th>
+                  {result.config.forwardHorizons.map((horizon) => (
+                    <th key={horizon} className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-3 py-2">
+                      +{horizon}d avg / hit
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/30">
+                {result.buckets.map((bucket) => (
+                  <tr key={bucket.signal}>
+                    <td className="px-3 py-2 text-xs font-medium">{signalLabels[bucket.signal]}</td>
+                    <td className="px-3 py-2 text-right text-xs font-mono tabular-nums text-muted-foreground">{bucket.bars}</td>
+                    {bucket.horizons.map((stats) => (
+                      <td key={stats.horizon} className="px-3 py-2 text-right text-xs font-mono tabular-nums">
+                        <span className={toneClass(stats.averageReturn)}>{formatPercent(stats.averageReturn, 2)}</span>
+                        <span className="text-muted-foreground">
+                          {" / "}{stats.hitRate !== null ? `${(stats.hitRate * 100).toFixed(0)}%` : "—"}
+                        </span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-[10px] text-muted-foreground">
+            Replays the technical layer only. Signals are taken at the close and filled at the next open.
+            Past performance does not guarantee future results.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
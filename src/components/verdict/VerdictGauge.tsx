@@ -5,9 +5,10 @@ interface VerdictGaugeProps {
   score: number;
   size?: number;
   animated?: boolean;
+  profileName?: string; // strategy profile that produced the score
 }
 
-export function VerdictGauge({ score, size = 240, animated = true }: VerdictGaugeProps) {
+export function VerdictGauge({ score, size = 240, animated = true, profileName }: VerdictGaugeProps) {
   const clampedScore = Math.max(0, Math.min(100, score));
   const needleAngle = -135 + (clampedScore / 100) * 270;
   
@@ -220,6 +221,11 @@ export function VerdictGauge({ score, size = 240, animated = true }: VerdictGaug
         <div className="text-xs text-muted-foreground font-medium tracking-wide mt-1">
           COMPOSITE SCORE
         </div>
+        {profileName && (
+          <div className="text-[10px] text-muted-foreground/70 mt-0.5">
+            {profileName} profile
+          </div>
+        )}
       </motion.div>
     </div>
   );
@@ -0,0 +1,144 @@
+import { History, Loader2, TrendingDown, TrendingUp, Minus } from "lucide-react";
+import {
+  AreaChart,
+  Area,
+  YAxis,
+  ReferenceLine,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { useVerdictHistory } from "@/hooks/useVerdictHistory";
+import { cn } from "@/lib/utils";
+import { SIGNAL_THRESHOLDS, type VerdictMetric, type VerdictResult } from "@shared/verdictEngine";
+
+interface VerdictTimelineProps {
+  symbol: string;
+}
+
+const MAX_EVENTS = 6;
+
+const signalLabels: Record<VerdictResult['signal'], string> = {
+  extreme_bullish: "Strong Buy",
+  bullish: "Buy",
+  neutral: "Hold",
+  bearish: "Sell",
+  extreme_bearish: "Strong Sell",
+};
+
+// Snapshot dates are calendar days; parse as local midnight so they don't shift a day
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "numeric", day: "numeric" });
+
+function DirectionIcon({ signal }: { signal: VerdictMetric['signal'] }) {
+  if (signal === "bullish") return <TrendingUp className="w-3 h-3 text-gain shrink-0" />;
+  if (signal === "bearish") return <TrendingDown className="w-3 h-3 text-loss shrink-0" />;
+  return <Minus className="w-3 h-3 text-warning shrink-0" />;
+}
+
+export function VerdictTimeline({ symbol }: VerdictTimelineProps) {
+  const { snapshots, flips, signalChanges, loading, error } = useVerdictHistory(symbol);
+
+  const chartData = snapshots.map((s) => ({ date: formatDate(s.date), score: s.score }));
+  const first = snapshots[0];
+  const latest = snapshots[snapshots.length - 1];
+  const delta = first && latest ? latest.score - first.score : 0;
+
+  // Signal changes and metric flips in one list, newest first
+  const events = [
+    ...signalChanges.map((c) => ({
+      key: `signal-${c.date}`,
+      date: c.date,
+      direction: (c.to > c.from ? "bullish" : "bearish") as VerdictMetric['signal'],
+      text: `Verdict moved from ${signalLabels[c.fromSignal]} to ${signalLabels[c.toSignal]} (${c.from} → ${c.to})`,
+    })),
+    ...flips.map((f) => ({
+      key: `${f.metricId}-${f.date}`,
+      date: f.date,
+      direction: f.toSignal,
+      text: `${f.metricName} moved from ${f.from} to ${f.to}`,
+    })),
+  ]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_EVENTS);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-primary" />
+          <h3 className="text-sm font-semibold">Verdict History</h3>
+        </div>
+        {snapshots.length > 1 && (
+          <span className={cn(
+            "text-xs font-mono tabular-nums",
+            delta > 0 ? "text-gain" : delta < 0 ? "text-loss" : "text-muted-foreground"
+          )}>
+            {delta > 0 ? "+" : ""}{delta} pts / {snapshots.length}d
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-20">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="text-xs text-muted-foreground py-4 text-center">{error}</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-4 text-center">
+          No history for {symbol} yet. Scores are recorded daily for symbols on any watchlist.
+        </p>
+      ) : (
+        <>
+          <div className="h-20">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 4, right: 0, left: 0, bottom: 0 }}>
+                <defs>
+                  <linearGradient id="verdict-history" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor="hsl(var(--primary))" stopOpacity={0.25} />
+                    <stop offset="100%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <YAxis domain={[0, 100]} hide />
+                <ReferenceLine y={SIGNAL_THRESHOLDS.bullish} stroke="hsl(var(--gain))" strokeDasharray="2 4" strokeOpacity={0.5} />
+                <ReferenceLine y={SIGNAL_THRESHOLDS.neutral} stroke="hsl(var(--loss))" strokeDasharray="2 4" strokeOpacity={0.5} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                    fontSize: '11px',
+                  }}
+                  labelFormatter={(_, payload) => payload?.[0]?.payload?.date ?? ""}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="score"
+                  name="Score"
+                  stroke="hsl(var(--primary))"
+                  strokeWidth={1.5}
+                  fill="url(#verdict-history)"
+                  dot={false}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          {events.length === 0 ? (
+            <p className="text-[11px] text-muted-foreground">No metric changes in the last {snapshots.length} snapshots.</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {events.map((event) => (
+                <li key={event.key} className="flex items-start gap-2 text-[11px] leading-snug">
+                  <DirectionIcon signal={event.direction} />
+                  <span className="flex-1">{event.text}</span>
+                  <span className="font-mono tabular-nums text-muted-foreground shrink-0">{formatDate(event.date)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,77 +1,369 @@
-import type { ChartIndicator } from "@/types/market";
+import type { ChartIndicator, IndicatorKind, PriceSource } from "@/types/market";
+import { getFormulaWarmup, parseFormula } from "@/utils/indicatorFormula";
 
-// Default chart indicator configurations
-export const defaultIndicators: ChartIndicator[] = [
-  {
-    id: "sma20",
-    name: "Simple Moving Average (20)",
-    shortName: "SMA 20",
+export interface IndicatorParamField {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+// One plotted line of an indicator; `dashed`/`markers` only apply to overlays
+export interface IndicatorOutput {
+  key: string;
+  label: string;
+  color?: string; // fixed color; defaults to the instance color
+  dashed?: boolean;
+  markers?: boolean; // dots instead of a connected line
+}
+
+export interface IndicatorDefinition {
+  kind: IndicatorKind;
+  name: string;
+  shortName: string;
+  type: "overlay" | "oscillator";
+  color: string;
+  params: Record<string, number>;
+  paramFields: IndicatorParamField[];
+  supportsSource: boolean; // false when the indicator needs the full OHLCV bar
+  outputs: IndicatorOutput[];
+  warmup: (params: Record<string, number>) => number; // bars before the first value
+}
+
+const period = (max = 500): IndicatorParamField => ({ key: "period", label: "Period", min: 1, max });
+
+const BAND_OUTPUTS: IndicatorOutput[] = [
+  { key: "upper", label: "Upper", dashed: true },
+  { key: "middle", label: "Middle" },
+  { key: "lower", label: "Lower", dashed: true },
+];
+
+// Every indicator the chart can render, with its default settings
+export const INDICATOR_DEFINITIONS: Record<IndicatorKind, IndicatorDefinition> = {
+  sma: {
+    kind: "sma",
+    name: "Simple Moving Average",
+    shortName: "SMA",
     type: "overlay",
-    enabled: true,
-    color: "hsl(var(--info))",
+    color: "#3b82f6",
     params: { period: 20 },
+    paramFields: [period()],
+    supportsSource: true,
+    outputs: [{ key: "value", label: "SMA" }],
+    warmup: (p) => p.period,
   },
-  {
-    id: "sma50",
-    name: "Simple Moving Average (50)",
-    shortName: "SMA 50",
-    type: "overlay",
-    enabled: false,
-    color: "hsl(var(--warning))",
-    params: { period: 50 },
-  },
-  {
-    id: "ema12",
-    name: "Exponential Moving Average (12)",
-    shortName: "EMA 12",
+  ema: {
+    kind: "ema",
+    name: "Exponential Moving Average",
+    shortName: "EMA",
     type: "overlay",
-    enabled: false,
-    color: "hsl(var(--accent))",
+    color: "#a855f7",
     params: { period: 12 },
+    paramFields: [period()],
+    supportsSource: true,
+    outputs: [{ key: "value", label: "EMA" }],
+    warmup: (p) => p.period,
   },
-  {
-    id: "ema26",
-    name: "Exponential Moving Average (26)",
-    shortName: "EMA 26",
-    type: "overlay",
-    enabled: false,
-    color: "hsl(var(--primary))",
-    params: { period: 26 },
-  },
-  {
-    id: "bb",
+  bb: {
+    kind: "bb",
     name: "Bollinger Bands",
     shortName: "BB",
     type: "overlay",
-    enabled: false,
-    color: "hsl(var(--terminal-cyan))",
+    color: "#22d3ee",
     params: { period: 20, stdDev: 2 },
+    paramFields: [period(), { key: "stdDev", label: "Std dev", min: 0.5, max: 5, step: 0.5 }],
+    supportsSource: true,
+    outputs: BAND_OUTPUTS,
+    warmup: (p) => p.period,
   },
-  {
-    id: "vwap",
+  vwap: {
+    kind: "vwap",
     name: "Volume Weighted Avg Price",
     shortName: "VWAP",
     type: "overlay",
-    enabled: false,
-    color: "hsl(var(--terminal-amber))",
-    params: {},
+    color: "#f59e0b",
+    params: { stdDev: 1, outerStdDev: 2 },
+    paramFields: [
+      { key: "stdDev", label: "Inner std dev", min: 0.5, max: 5, step: 0.5 },
+      { key: "outerStdDev", label: "Outer std dev", min: 0.5, max: 5, step: 0.5 },
+    ],
+    supportsSource: false,
+    outputs: [
+      { key: "value", label: "VWAP" },
+      { key: "upper", label: "Upper", dashed: true },
+      { key: "lower", label: "Lower", dashed: true },
+      { key: "outerUpper", label: "Outer upper", dashed: true },
+      { key: "outerLower", label: "Outer lower", dashed: true },
+    ],
+    warmup: () => 1,
   },
-  {
-    id: "rsi",
+  ichimoku: {
+    kind: "ichimoku",
+    name: "Ichimoku Cloud",
+    shortName: "Ichimoku",
+    type: "overlay",
+    color: "#3b82f6",
+    params: { conversion: 9, base: 26, spanB: 52, displacement: 26 },
+    paramFields: [
+      { key: "conversion", label: "Conversion", min: 1, max: 200 },
+      { key: "base", label: "Base", min: 1, max: 200 },
+      { key: "spanB", label: "Span B", min: 1, max: 200 },
+      { key: "displacement", label: "Displacement", min: 1, max: 200 },
+    ],
+    supportsSource: false,
+    outputs: [
+      { key: "conversion", label: "Conversion" },
+      { key: "base", label: "Base", color: "#f43f5e" },
+      { key: "spanA", label: "Span A", color: "#10b981", dashed: true },
+      { key: "spanB", label: "Span B", color: "#a855f7", dashed: true },
+      { key: "lagging", label: "Lagging", color: "#71717a" },
+    ],
+    warmup: (p) => p.spanB + p.displacement,
+  },
+  keltner: {
+    kind: "keltner",
+    name: "Keltner Channels",
+    shortName: "KC",
+    type: "overlay",
+    color: "#ec4899",
+    params: { period: 20, atrPeriod: 10, multiplier: 2 },
+    paramFields: [
+      { key: "period", label: "EMA period", min: 1, max: 500 },
+      { key: "atrPeriod", label: "ATR period", min: 1, max: 200 },
+      { key: "multiplier", label: "Multiplier", min: 0.5, max: 10, step: 0.5 },
+    ],
+    supportsSource: false,
+    outputs: BAND_OUTPUTS,
+    warmup: (p) => Math.max(p.period, p.atrPeriod + 1),
+  },
+  donchian: {
+    kind: "donchian",
+    name: "Donchian Channels",
+    shortName: "DC",
+    type: "overlay",
+    color: "#0ea5e9",
+    params: { period: 20 },
+    paramFields: [period()],
+    supportsSource: false,
+    outputs: [
+      { key: "upper", label: "Upper" },
+      { key: "middle", label: "Middle", dashed: true },
+      { key: "lower", label: "Lower" },
+    ],
+    warmup: (p) => p.period,
+  },
+  supertrend: {
+    kind: "supertrend",
+    name: "SuperTrend",
+    shortName: "ST",
+    type: "overlay",
+    color: "#10b981",
+    params: { period: 10, multiplier: 3 },
+    paramFields: [period(200), { key: "multiplier", label: "Multiplier", min: 0.5, max: 10, step: 0.5 }],
+    supportsSource: false,
+    outputs: [{ key: "value", label: "SuperTrend" }],
+    warmup: (p) => p.period + 1,
+  },
+  psar: {
+    kind: "psar",
+    name: "Parabolic SAR",
+    shortName: "PSAR",
+    type: "overlay",
+    color: "#facc15",
+    params: { step: 0.02, max: 0.2 },
+    paramFields: [
+      { key: "step", label: "Step", min: 0.01, max: 0.1, step: 0.01 },
+      { key: "max", label: "Max", min: 0.1, max: 1, step: 0.05 },
+    ],
+    supportsSource: false,
+    outputs: [{ key: "value", label: "SAR", markers: true }],
+    warmup: () => 2,
+  },
+  rsi: {
+    kind: "rsi",
     name: "Relative Strength Index",
     shortName: "RSI",
     type: "oscillator",
-    enabled: false,
-    color: "hsl(var(--accent))",
+    color: "#10b981",
     params: { period: 14 },
+    paramFields: [period(200)],
+    supportsSource: true,
+    outputs: [{ key: "value", label: "RSI" }],
+    warmup: (p) => p.period + 1,
   },
-  {
-    id: "macd",
+  macd: {
+    kind: "macd",
     name: "MACD",
     shortName: "MACD",
     type: "oscillator",
-    enabled: false,
-    color: "hsl(var(--info))",
+    color: "#3b82f6",
     params: { fast: 12, slow: 26, signal: 9 },
+    paramFields: [
+      { key: "fast", label: "Fast", min: 1, max: 200 },
+      { key: "slow", label: "Slow", min: 2, max: 300 },
+      { key: "signal", label: "Signal", min: 1, max: 100 },
+    ],
+    supportsSource: true,
+    outputs: [
+      { key: "macd", label: "MACD" },
+      { key: "signal", label: "Signal" },
+      { key: "histogram", label: "Histogram" },
+    ],
+    warmup: (p) => p.slow,
   },
+  stoch: {
+    kind: "stoch",
+    name: "Stochastic Oscillator",
+    shortName: "Stoch",
+    type: "oscillator",
+    color: "#3b82f6",
+    params: { period: 14, signal: 3, smoothing: 3 },
+    paramFields: [
+      { key: "period", label: "%K period", min: 1, max: 200 },
+      { key: "signal", label: "%D period", min: 1, max: 50 },
+      { key: "smoothing", label: "Smoothing", min: 1, max: 50 },
+    ],
+    supportsSource: false,
+    outputs: [
+      { key: "k", label: "%K" },
+      { key: "d", label: "%D" },
+    ],
+    warmup: (p) => p.period + p.smoothing + p.signal - 2,
+  },
+  adx: {
+    kind: "adx",
+    name: "Average Directional Index",
+    shortName: "ADX",
+    type: "oscillator",
+    color: "#f59e0b",
+    params: { period: 14 },
+    paramFields: [period(200)],
+    supportsSource: false,
+    outputs: [
+      { key: "adx", label: "ADX" },
+      { key: "plusDI", label: "+DI" },
+      { key: "minusDI", label: "-DI" },
+    ],
+    warmup: (p) => p.period * 2,
+  },
+  obv: {
+    kind: "obv",
+    name: "On-Balance Volume",
+    shortName: "OBV",
+    type: "oscillator",
+    color: "#10b981",
+    params: {},
+    paramFields: [],
+    supportsSource: false,
+    outputs: [{ key: "value", label: "OBV" }],
+    warmup: () => 1,
+  },
+  atr: {
+    kind: "atr",
+    name: "Average True Range",
+    shortName: "ATR",
+    type: "oscillator",
+    color: "#f59e0b",
+    params: { period: 14 },
+    paramFields: [period(200)],
+    supportsSource: false,
+    outputs: [{ key: "value", label: "ATR" }],
+    warmup: (p) => p.period + 1,
+  },
+  // Plots as overlay or oscillator depending on the instance's formula
+  formula: {
+    kind: "formula",
+    name: "Custom Formula",
+    shortName: "Formula",
+    type: "oscillator",
+    color: "#14b8a6",
+    params: {},
+    paramFields: [],
+    supportsSource: false,
+    outputs: [{ key: "value", label: "Value" }],
+    warmup: () => 1,
+  },
+};
+
+export const INDICATOR_KINDS = Object.keys(INDICATOR_DEFINITIONS) as IndicatorKind[];
+
+export const PRICE_SOURCES: { id: PriceSource; label: string }[] = [
+  { id: "close", label: "Close" },
+  { id: "open", label: "Open" },
+  { id: "high", label: "High" },
+  { id: "low", label: "Low" },
+  { id: "hl2", label: "HL/2" },
+  { id: "hlc3", label: "HLC/3" },
+  { id: "ohlc4", label: "OHLC/4" },
+];
+
+export const MAX_INDICATORS = 20;
+
+/**
+ * New instance of `kind` with the default settings. Ids only need to be
+ * unique within one chart's indicator list.
+ */
+export function createIndicator(
+  kind: IndicatorKind,
+  overrides: Partial<Omit<ChartIndicator, "kind" | "type">> = {}
+): ChartIndicator {
+  const definition = INDICATOR_DEFINITIONS[kind];
+  return {
+    id: `${kind}-${Math.random().toString(36).slice(2, 8)}`,
+    enabled: true,
+    color: definition.color,
+    lineWidth: 1,
+    source: "close",
+    ...overrides,
+    kind,
+    type: overrides.formula?.plot ?? definition.type,
+    params: { ...definition.params, ...overrides.params },
+  };
+}
+
+// e.g. "SMA 20", "BB (20, 2)", "EMA 9 · HL/2"
+export function getIndicatorLabel(indicator: ChartIndicator): string {
+  if (indicator.formula) return indicator.formula.name;
+  const definition = INDICATOR_DEFINITIONS[indicator.kind];
+  const values = definition.paramFields.map((field) => indicator.params[field.key]);
+  let label = definition.shortName;
+  if (values.length === 1) label += ` ${values[0]}`;
+  else if (values.length > 1) label += ` (${values.join(", ")})`;
+  if (definition.supportsSource && indicator.source !== "close") {
+    label += ` · ${PRICE_SOURCES.find((s) => s.id === indicator.source)?.label ?? indicator.source}`;
+  }
+  return label;
+}
+
+export function getIndicatorWarmup(indicator: ChartIndicator): number {
+  if (indicator.formula) {
+    try {
+      return getFormulaWarmup(parseFormula(indicator.formula.expression));
+    } catch {
+      return 1;
+    }
+  }
+  return INDICATOR_DEFINITIONS[indicator.kind].warmup(indicator.params);
+}
+
+// Default chart indicator configurations
+export const defaultIndicators: ChartIndicator[] = [
+  createIndicator("sma", { id: "sma20", params: { period: 20 } }),
+  createIndicator("sma", { id: "sma50", enabled: false, color: "#f59e0b", params: { period: 50 } }),
+  createIndicator("ema", { id: "ema12", enabled: false, params: { period: 12 } }),
+  createIndicator("ema", { id: "ema26", enabled: false, color: "#10b981", params: { period: 26 } }),
+  createIndicator("bb", { id: "bb", enabled: false }),
+  createIndicator("vwap", { id: "vwap", enabled: false, lineWidth: 2 }),
+  createIndicator("ichimoku", { id: "ichimoku", enabled: false }),
+  createIndicator("keltner", { id: "keltner", enabled: false }),
+  createIndicator("donchian", { id: "donchian", enabled: false }),
+  createIndicator("supertrend", { id: "supertrend", enabled: false }),
+  createIndicator("psar", { id: "psar", enabled: false }),
+  createIndicator("rsi", { id: "rsi", enabled: false }),
+  createIndicator("macd", { id: "macd", enabled: false }),
+  createIndicator("stoch", { id: "stoch", enabled: false }),
+  createIndicator("adx", { id: "adx", enabled: false }),
+  createIndicator("obv", { id: "obv", enabled: false }),
+  createIndicator("atr", { id: "atr", enabled: false }),
 ];
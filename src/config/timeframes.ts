@@ -19,3 +19,15 @@ export const indicatorTimeframeConfig = {
   days: 120, // 120 days for short-term strategy: 50-day SMA + RSI warm-up + buffer
   label: "Technical Analysis",
 };
+
+// Timeframes the verdict scores for its alignment matrix. Windows are longer
+// than the chart's so each one reaches 100+ bars ("full" data quality).
+export const VERDICT_TIMEFRAMES = ["1H", "4H", "1D", "1W"] as const satisfies readonly TimeframeType[];
+export type VerdictTimeframe = (typeof VERDICT_TIMEFRAMES)[number];
+
+export const verdictTimeframeConfig: Record<VerdictTimeframe, { resolution: string; days: number; label: string }> = {
+  "1H": { ...timeframeConfig["1H"], days: 30 }, // ~7 regular-session bars a day
+  "4H": { ...timeframeConfig["4H"], days: 90 }, // ~2 aggregated bars a day
+  "1D": { ...timeframeConfig["1D"], days: indicatorTimeframeConfig.days },
+  "1W": { ...timeframeConfig["1W"], days: 730 }, // days are trading days for daily-based resolutions
+};
@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useSubscription } from "./useSubscription";
+
+export type AiFeature = "stock-coach" | "pulse-tutor" | "education";
+
+export interface AiFeatureUsage {
+  requests: number;
+  tokens: number;
+}
+
+export const AI_USAGE_KEY = ["ai-usage"];
+
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+  "stock-coach": "Stock Coach",
+  "pulse-tutor": "Keystone Tutor",
+  education: "Explanations",
+};
+
+// Usage days are UTC, matching the ai_usage ledger
+function todayUtc(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Today's AI requests and tokens against the plan's daily quota. The edge
+ * functions write the ledger and enforce the quota; this only reads it.
+ */
+export function useAiUsage() {
+  const { limits, isLoading: isTierLoading } = useSubscription();
+
+  const { data: byFeature = {}, isLoading } = useQuery({
+    queryKey: AI_USAGE_KEY,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return {};
+
+      const { data, error } = await supabase
+        .from("ai_usage")
+        .select("feature, requests, prompt_tokens, completion_tokens")
+        .eq("user_id", user.id)
+        .eq("usage_date", todayUtc());
+
+      if (error) throw error;
+      return Object.fromEntries(
+        (data || []).map((row) => [
+          row.feature,
+          { requests: row.requests, tokens: row.prompt_tokens + row.completion_tokens },
+        ])
+      ) as Partial<Record<AiFeature, AiFeatureUsage>>;
+    },
+    staleTime: 1000 * 30,
+  });
+
+  const usages = Object.values(byFeature);
+  const requests = usages.reduce((sum, u) => sum + u.requests, 0);
+  const tokens = usages.reduce((sum, u) => sum + u.tokens, 0);
+  const requestLimit: number = limits.aiRequestsPerDay;
+  const tokenLimit: number = limits.aiTokensPerDay;
+
+  return {
+    byFeature,
+    requests,
+    tokens,
+    /** -1 = unlimited */
+    requestLimit,
+    tokenLimit,
+    isExhausted:
+      (requestLimit !== -1 && requests >= requestLimit) ||
+      (tokenLimit !== -1 && tokens >= tokenLimit),
+    isLoading: isLoading || isTierLoading,
+  };
+}
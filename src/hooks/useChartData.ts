@@ -3,14 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import type { Candle, TimeframeType, ChartIndicator, EnrichedCandle } from "@/types/market";
 import { timeframeConfig } from "@/config/timeframes";
 import { DataCache, cacheKey } from "@/utils/cache";
-import {
-  calculateSMA,
-  calculateEMA,
-  calculateBollingerBands,
-  calculateRSI,
-  calculateMACD,
-  calculateVWAP,
-} from "@/utils/technicalIndicators";
+import { computeIndicatorSeries, seriesKey } from "@/utils/indicatorSeries";
 
 // Re-export types and config for backward compatibility
 export type { Candle, TimeframeType, ChartIndicator, EnrichedCandle };
@@ -104,69 +97,42 @@ export function useChartData(symbol: string, timeframe: TimeframeType) {
   };
 }
 
+/**
+ * Attach every enabled indicator's outputs to the candles as a keyed series
+ * map. Only calculation inputs (kind, source, params, formula) trigger a
+ * recompute; color and width edits are render-only.
+ */
 export function useEnrichedChartData(candles: Candle[], indicators: ChartIndicator[]): EnrichedCandle[] {
-  const closes = useMemo(() => candles.map((c) => c.close), [candles]);
-
-  // Calculate indicators independently for better performance
-  const sma20 = useMemo(
-    () => (indicators.find((i) => i.id === "sma20")?.enabled ? calculateSMA(closes, 20) : []),
-    [closes, indicators.find((i) => i.id === "sma20")?.enabled]
-  );
-
-  const sma50 = useMemo(
-    () => (indicators.find((i) => i.id === "sma50")?.enabled ? calculateSMA(closes, 50) : []),
-    [closes, indicators.find((i) => i.id === "sma50")?.enabled]
-  );
-
-  const ema12 = useMemo(
-    () => (indicators.find((i) => i.id === "ema12")?.enabled ? calculateEMA(closes, 12) : []),
-    [closes, indicators.find((i) => i.id === "ema12")?.enabled]
-  );
-
-  const ema26 = useMemo(
-    () => (indicators.find((i) => i.id === "ema26")?.enabled ? calculateEMA(closes, 26) : []),
-    [closes, indicators.find((i) => i.id === "ema26")?.enabled]
-  );
-
-  const bb = useMemo(
-    () => (indicators.find((i) => i.id === "bb")?.enabled ? calculateBollingerBands(closes, 20, 2) : null),
-    [closes, indicators.find((i) => i.id === "bb")?.enabled]
-  );
-
-  const vwap = useMemo(
-    () => (indicators.find((i) => i.id === "vwap")?.enabled ? calculateVWAP(candles) : []),
-    [candles, indicators.find((i) => i.id === "vwap")?.enabled]
-  );
-
-  const rsi = useMemo(
-    () => (indicators.find((i) => i.id === "rsi")?.enabled ? calculateRSI(closes, 14) : []),
-    [closes, indicators.find((i) => i.id === "rsi")?.enabled]
+  const calcSignature = JSON.stringify(
+    indicators
+      .filter((i) => i.enabled)
+      .map(({ id, kind, source, params, formula }) => ({ id, kind, source, params, formula }))
   );
 
-  const macdData = useMemo(
-    () => (indicators.find((i) => i.id === "macd")?.enabled ? calculateMACD(closes, 12, 26, 9) : null),
-    [closes, indicators.find((i) => i.id === "macd")?.enabled]
-  );
+  const computed = useMemo(() => {
+    const active = JSON.parse(calcSignature) as ChartIndicator[];
+    return active.map((indicator) => ({
+      id: indicator.id,
+      series: computeIndicatorSeries(indicator, candles),
+    }));
+  }, [candles, calcSignature]);
 
   return useMemo(() => {
     if (candles.length === 0) return [];
 
-    return candles.map((candle, i) => ({
-      ...candle,
-      isUp: candle.close >= candle.open,
-      body: [Math.min(candle.open, candle.close), Math.max(candle.open, candle.close)] as [number, number],
-      sma20: sma20[i],
-      sma50: sma50[i],
-      ema12: ema12[i],
-      ema26: ema26[i],
-      bbUpper: bb?.upper[i],
-      bbMiddle: bb?.middle[i],
-      bbLower: bb?.lower[i],
-      vwap: vwap[i],
-      rsi: rsi[i],
-      macd: macdData?.macd[i],
-      macdSignal: macdData?.signal[i],
-      macdHistogram: macdData?.histogram[i],
-    }));
-  }, [candles, sma20, sma50, ema12, ema26, bb, vwap, rsi, macdData]);
+    return candles.map((candle, i) => {
+      const series: Record<string, number | null> = {};
+      for (const { id, series: outputs } of computed) {
+        for (const [output, values] of Object.entries(outputs)) {
+          series[seriesKey(id, output)] = values[i] ?? null;
+        }
+      }
+      return {
+        ...candle,
+        isUp: candle.close >= candle.open,
+        body: [Math.min(candle.open, candle.close), Math.max(candle.open, candle.close)] as [number, number],
+        series,
+      };
+    });
+  }, [candles, computed]);
 }
@@ -1,12 +1,39 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import type { ChartDrawing, DrawingType, DrawingData } from "@/types/market";
 import { useToast } from "@/hooks/use-toast";
-import type { Json } from "@/integrations/supabase/types";
+import type { Json, Tables } from "@/integrations/supabase/types";
 
+type DrawingFields = Pick<ChartDrawing, "data" | "timeframes">;
+
+// One undoable edit. Clearing the chart is a delete of every drawing shown.
+type DrawingChange =
+  | { kind: "add" | "delete"; drawings: ChartDrawing[] }
+  | { kind: "update"; id: string; before: Partial<DrawingFields>; after: Partial<DrawingFields> };
+
+const MAX_HISTORY = 50;
+
+const toDrawing = (row: Tables<"chart_drawings">): ChartDrawing => ({
+  id: row.id,
+  user_id: row.user_id,
+  symbol: row.symbol,
+  timeframe: row.timeframe,
+  timeframes: row.timeframes,
+  type: row.type as DrawingType,
+  data: row.data as unknown as DrawingData,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+/**
+ * The signed-in user's drawings of a symbol, shared by all timeframes. Each
+ * drawing can be limited to some timeframes; `drawings` holds the ones shown on `timeframe`.
+ */
 export function useChartDrawings(symbol: string, timeframe: string) {
-  const [drawings, setDrawings] = useState<ChartDrawing[]>([]);
+  const [allDrawings, setDrawings] = useState<ChartDrawing[]>([]);
   const [loading, setLoading] = useState(true);
+  const [undoStack, setUndoStack] = useState<DrawingChange[]>([]);
+  const [redoStack, setRedoStack] = useState<DrawingChange[]>([]);
   const { toast } = useToast();
 
   const fetchDrawings = useCallback(async () => {
@@ -21,78 +48,115 @@ export function useChartDrawings(symbol: string, timeframe: string) {
       const { data, error } = await supabase
         .from("chart_drawings")
         .select("*")
+        .eq("user_id", session.session.user.id)
         .eq("symbol", symbol)
-        .eq("timeframe", timeframe)
         .order("created_at", { ascending: true });
 
       if (error) throw error;
-      
-      // Transform data to match our types
-      const transformed: ChartDrawing[] = (data || []).map((row) => ({
-        id: row.id,
-        user_id: row.user_id,
-        symbol: row.symbol,
-        timeframe: row.timeframe,
-        type: row.type as DrawingType,
-        data: row.data as unknown as DrawingData,
-        created_at: row.created_at,
-        updated_at: row.updated_at,
-      }));
-      
-      setDrawings(transformed);
+      setDrawings((data || []).map(toDrawing));
     } catch (err) {
       console.error("Error fetching drawings:", err);
     } finally {
       setLoading(false);
     }
-  }, [symbol, timeframe]);
+  }, [symbol]);
 
   useEffect(() => {
     fetchDrawings();
   }, [fetchDrawings]);
 
+  const drawings = useMemo(
+    () => allDrawings.filter((d) => !d.timeframes || d.timeframes.includes(timeframe)),
+    [allDrawings, timeframe]
+  );
+
+  // Reset the undo history with the symbol it belongs to
+  useEffect(() => {
+    setUndoStack([]);
+    setRedoStack([]);
+  }, [symbol]);
+
+  const record = useCallback((change: DrawingChange) => {
+    setUndoStack((prev) => [...prev.slice(-(MAX_HISTORY - 1)), change]);
+    setRedoStack([]);
+  }, []);
+
+  // Insert rows as given; re-inserting a removed drawing keeps its id and scope so later history entries still match
+  const insertRows = useCallback(async (
+    rows: (Pick<ChartDrawing, "type" | "data"> & Partial<Pick<ChartDrawing, "id" | "timeframe" | "timeframes">>)[]
+  ): Promise<ChartDrawing[] | null> => {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session?.session?.user) {
+      toast({
+        title: "Login required",
+        description: "Please sign in to save chart drawings",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const { data: inserted, error } = await supabase
+      .from("chart_drawings")
+      .insert(rows.map((row) => ({
+        ...(row.id && { id: row.id }),
+        user_id: session.session.user.id,
+        symbol,
+        timeframe: row.timeframe ?? timeframe,
+        timeframes: row.timeframes ?? null,
+        type: row.type,
+        data: row.data as unknown as Json,
+      })))
+      .select();
+
+    if (error) throw error;
+
+    const created = (inserted || []).map(toDrawing);
+    setDrawings((prev) => [...prev, ...created]);
+    return created;
+  }, [symbol, timeframe, toast]);
+
+  const removeRows = useCallback(async (ids: string[]) => {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session?.session?.user) throw new Error("Not signed in");
+
+    const { error } = await supabase
+      .from("chart_drawings")
+      .delete()
+      .eq("user_id", session.session.user.id)
+      .in("id", ids);
+
+    if (error) throw error;
+    setDrawings((prev) => prev.filter((d) => !ids.includes(d.id)));
+  }, []);
+
+  const writeFields = useCallback(async (id: string, fields: Partial<DrawingFields>) => {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session?.session?.user) throw new Error("Not signed in");
+
+    const { error } = await supabase
+      .from("chart_drawings")
+      .update({
+        ...(fields.data && { data: fields.data as unknown as Json }),
+        ...(fields.timeframes !== undefined && { timeframes: fields.timeframes }),
+      })
+      .eq("user_id", session.session.user.id)
+      .eq("id", id);
+
+    if (error) throw error;
+    setDrawings((prev) =>
+      prev.map((d) => (d.id === id ? { ...d, ...fields, updated_at: new Date().toISOString() } : d))
+    );
+  }, []);
+
   const addDrawing = useCallback(async (
     type: DrawingType,
     data: DrawingData
   ): Promise<ChartDrawing | null> => {
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) {
-        toast({
-          title: "Login required",
-          description: "Please sign in to save chart drawings",
-          variant: "destructive",
-        });
-        return null;
-      }
-
-      const { data: newDrawing, error } = await supabase
-        .from("chart_drawings")
-        .insert({
-          user_id: session.session.user.id,
-          symbol,
-          timeframe,
-          type,
-          data: data as unknown as Json,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      const drawing: ChartDrawing = {
-        id: newDrawing.id,
-        user_id: newDrawing.user_id,
-        symbol: newDrawing.symbol,
-        timeframe: newDrawing.timeframe,
-        type: newDrawing.type as DrawingType,
-        data: newDrawing.data as unknown as DrawingData,
-        created_at: newDrawing.created_at,
-        updated_at: newDrawing.updated_at,
-      };
-      
-      setDrawings((prev) => [...prev, drawing]);
-      return drawing;
+      const created = await insertRows([{ type, data }]);
+      if (!created?.[0]) return null;
+      record({ kind: "add", drawings: created });
+      return created[0];
     } catch (err) {
       console.error("Error adding drawing:", err);
       toast({
@@ -102,84 +166,124 @@ export function useChartDrawings(symbol: string, timeframe: string) {
       });
       return null;
     }
-  }, [symbol, timeframe, toast]);
+  }, [insertRows, record, toast]);
 
   const updateDrawing = useCallback(async (
     id: string,
     data: DrawingData
   ): Promise<boolean> => {
+    const before = allDrawings.find((d) => d.id === id)?.data;
     try {
-      const { error } = await supabase
-        .from("chart_drawings")
-        .update({ data: data as unknown as Json })
-        .eq("id", id);
-
-      if (error) throw error;
-
-      setDrawings((prev) =>
-        prev.map((d) => (d.id === id ? { ...d, data, updated_at: new Date().toISOString() } : d))
-      );
+      await writeFields(id, { data });
+      if (before) record({ kind: "update", id, before: { data: before }, after: { data } });
       return true;
     } catch (err) {
       console.error("Error updating drawing:", err);
       return false;
     }
-  }, []);
+  }, [allDrawings, writeFields, record]);
 
-  const deleteDrawing = useCallback(async (id: string): Promise<boolean> => {
+  // Limit a drawing to some timeframes, or show it on all of them with null
+  const setDrawingTimeframes = useCallback(async (
+    id: string,
+    timeframes: string[] | null
+  ): Promise<boolean> => {
+    const drawing = allDrawings.find((d) => d.id === id);
     try {
-      const { error } = await supabase
-        .from("chart_drawings")
-        .delete()
-        .eq("id", id);
-
-      if (error) throw error;
+      await writeFields(id, { timeframes });
+      if (drawing) record({ kind: "update", id, before: { timeframes: drawing.timeframes }, after: { timeframes } });
+      return true;
+    } catch (err) {
+      console.error("Error updating drawing timeframes:", err);
+      return false;
+    }
+  }, [allDrawings, writeFields, record]);
 
-      setDrawings((prev) => prev.filter((d) => d.id !== id));
+  const deleteDrawing = useCallback(async (id: string): Promise<boolean> => {
+    const drawing = allDrawings.find((d) => d.id === id);
+    try {
+      await removeRows([id]);
+      if (drawing) record({ kind: "delete", drawings: [drawing] });
       toast({
         title: "Drawing removed",
-        description: "The drawing has been deleted",
+        description: "Undo with Ctrl+Z",
       });
       return true;
     } catch (err) {
       console.error("Error deleting drawing:", err);
       return false;
     }
-  }, [toast]);
+  }, [allDrawings, removeRows, record, toast]);
 
+  // Removes the drawings shown on this timeframe; ones limited to other timeframes stay
   const clearAllDrawings = useCallback(async (): Promise<boolean> => {
+    if (drawings.length === 0) return true;
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.user) return false;
-
-      const { error } = await supabase
-        .from("chart_drawings")
-        .delete()
-        .eq("symbol", symbol)
-        .eq("timeframe", timeframe)
-        .eq("user_id", session.session.user.id);
-
-      if (error) throw error;
-
-      setDrawings([]);
+      await removeRows(drawings.map((d) => d.id));
+      record({ kind: "delete", drawings });
       toast({
         title: "Drawings cleared",
-        description: "All drawings have been removed",
+        description: "Undo with Ctrl+Z",
       });
       return true;
     } catch (err) {
       console.error("Error clearing drawings:", err);
       return false;
     }
-  }, [symbol, timeframe, toast]);
+  }, [drawings, removeRows, record, toast]);
+
+  // Apply a change forwards (redo) or its inverse (undo)
+  const applyChange = useCallback(async (change: DrawingChange, direction: "undo" | "redo") => {
+    const removing = (change.kind === "add") === (direction === "undo");
+    if (change.kind === "update") {
+      await writeFields(change.id, direction === "undo" ? change.before : change.after);
+    } else if (removing) {
+      await removeRows(change.drawings.map((d) => d.id));
+    } else {
+      await insertRows(change.drawings);
+    }
+  }, [writeFields, removeRows, insertRows]);
+
+  const undo = useCallback(async (): Promise<boolean> => {
+    const change = undoStack[undoStack.length - 1];
+    if (!change) return false;
+    try {
+      await applyChange(change, "undo");
+      setUndoStack((prev) => prev.slice(0, -1));
+      setRedoStack((prev) => [...prev, change]);
+      return true;
+    } catch (err) {
+      console.error("Error undoing drawing change:", err);
+      return false;
+    }
+  }, [undoStack, applyChange]);
+
+  const redo = useCallback(async (): Promise<boolean> => {
+    const change = redoStack[redoStack.length - 1];
+    if (!change) return false;
+    try {
+      await applyChange(change, "redo");
+      setRedoStack((prev) => prev.slice(0, -1));
+      setUndoStack((prev) => [...prev, change]);
+      return true;
+    } catch (err) {
+      console.error("Error redoing drawing change:", err);
+      return false;
+    }
+  }, [redoStack, applyChange]);
 
   return {
     drawings,
     loading,
     addDrawing,
     updateDrawing,
+    setDrawingTimeframes,
     deleteDrawing,
     clearAllDrawings,
+    undo,
+    redo,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
     refetch: fetchDrawings,
   };
 }
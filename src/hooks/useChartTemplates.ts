@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  chartTemplateNameSchema,
+  getChartIndicatorsError,
+  parseChartIndicators,
+  serializeIndicators,
+} from "@/utils/chartTemplates";
+import type { ChartIndicator } from "@/types/market";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface ChartTemplate {
+  id: string;
+  name: string;
+  indicators: ChartIndicator[];
+  isDefault: boolean;
+}
+
+export interface SaveChartTemplateInput {
+  id?: string; // omit to create
+  name: string;
+  indicators: ChartIndicator[];
+}
+
+const QUERY_KEY = ["chart-templates"];
+
+/**
+ * The user's saved indicator layouts. The default template (if any) is
+ * loaded when a chart mounts.
+ */
+export function useChartTemplates() {
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading, isFetched } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("chart_templates")
+        .select("id, name, indicators, is_default")
+        .eq("user_id", user.id)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).flatMap((row): ChartTemplate[] => {
+        const indicators = parseChartIndicators(row.indicators);
+        if (!indicators) {
+          console.warn(`[ChartTemplates] Ignoring invalid template "${row.name}"`);
+          return [];
+        }
+        return [{ id: row.id, name: row.name, indicators, isDefault: row.is_default }];
+      });
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const defaultTemplate = templates.find((t) => t.isDefault) ?? null;
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const saveTemplate = useMutation({
+    mutationFn: async ({ id, name, indicators }: SaveChartTemplateInput) => {
+      const parsedName = chartTemplateNameSchema.safeParse(name);
+      if (!parsedName.success) throw new Error(parsedName.error.issues[0].message);
+      const indicatorsError = getChartIndicatorsError(indicators);
+      if (indicatorsError) throw new Error(indicatorsError);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const payload = {
+        name: parsedName.data,
+        indicators: serializeIndicators(indicators) as unknown as Json,
+      };
+      const { data, error } = id
+        ? await supabase.from("chart_templates").update(payload).eq("id", id).select("id").single()
+        : await supabase.from("chart_templates").insert({ ...payload, user_id: user.id }).select("id").single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`You already have a template called "${parsedName.data}"`);
+        throw error;
+      }
+      return data.id as string;
+    },
+    onSuccess: () => {
+      toast.success("Chart template saved");
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save template");
+    },
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("chart_templates").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Chart template deleted");
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to delete template");
+    },
+  });
+
+  const setDefaultTemplate = useMutation({
+    // null switches back to the built-in indicators
+    mutationFn: async (id: string | null) => {
+      const { error } = await supabase.rpc("set_default_chart_template", { _template_id: id });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast.error("Failed to update default template");
+    },
+  });
+
+  return {
+    templates,
+    defaultTemplate,
+    isLoading,
+    isFetched,
+    saveTemplate: saveTemplate.mutateAsync,
+    isSaving: saveTemplate.isPending,
+    deleteTemplate: deleteTemplate.mutate,
+    setDefaultTemplate: setDefaultTemplate.mutate,
+  };
+}
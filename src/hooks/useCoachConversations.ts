@@ -0,0 +1,107 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { Tables } from "@/integrations/supabase/types";
+import type { CoachCitation, Message } from "./useStockCoach";
+
+export interface CoachConversation {
+  id: string;
+  title: string;
+  activeSymbols: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const COACH_CONVERSATIONS_KEY = ["coach-conversations"];
+
+function toConversation(row: Tables<"coach_conversations">): CoachConversation {
+  return {
+    id: row.id,
+    title: row.title,
+    activeSymbols: row.active_symbols,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * A saved thread with its messages in order
+ */
+export async function fetchCoachConversation(id: string): Promise<{ conversation: CoachConversation; messages: Message[] }> {
+  const [conversationResult, messagesResult] = await Promise.all([
+    supabase.from("coach_conversations").select("*").eq("id", id).single(),
+    supabase
+      .from("coach_messages")
+      .select("id, role, content, citations, created_at")
+      .eq("conversation_id", id)
+      .order("created_at", { ascending: true }),
+  ]);
+
+  if (conversationResult.error) throw conversationResult.error;
+  if (messagesResult.error) throw messagesResult.error;
+
+  return {
+    conversation: toConversation(conversationResult.data),
+    messages: (messagesResult.data || []).map((row): Message => ({
+      id: row.id,
+      role: row.role === "user" ? "user" : "assistant",
+      content: row.content,
+      timestamp: new Date(row.created_at),
+      citations: Array.isArray(row.citations) ? (row.citations as unknown as CoachCitation[]) : undefined,
+    })),
+  };
+}
+
+/**
+ * The user's Stock Coach threads, most recently active first. With a search
+ * query, only threads whose title or messages contain it.
+ */
+export function useCoachConversations(search: string = "") {
+  const queryClient = useQueryClient();
+  const query = search.trim();
+
+  const { data: conversations = [], isLoading } = useQuery({
+    queryKey: [...COACH_CONVERSATIONS_KEY, query],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      if (query) {
+        const { data, error } = await supabase.rpc("search_coach_conversations", { _query: query });
+        if (error) throw error;
+        return (data || []).map(toConversation);
+      }
+
+      const { data, error } = await supabase
+        .from("coach_conversations")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("updated_at", { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return (data || []).map(toConversation);
+    },
+    staleTime: 1000 * 30,
+  });
+
+  const deleteConversation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("coach_conversations").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Conversation deleted");
+      queryClient.invalidateQueries({ queryKey: COACH_CONVERSATIONS_KEY });
+    },
+    onError: () => {
+      toast.error("Failed to delete conversation");
+    },
+  });
+
+  return {
+    conversations,
+    isLoading,
+    deleteConversation: deleteConversation.mutateAsync,
+  };
+}
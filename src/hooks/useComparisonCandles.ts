@@ -0,0 +1,35 @@
+import { useCallback } from "react";
+import { useQueries, type UseQueryResult } from "@tanstack/react-query";
+import type { Candle, TimeframeType } from "@/types/market";
+import { fetchCandles } from "./useOptimizedCandles";
+
+/**
+ * Candles for each comparison symbol on the chart's timeframe, keyed by symbol.
+ * Shares the ["candles", symbol, timeframe] cache with useOptimizedCandles.
+ */
+export function useComparisonCandles(symbols: string[], timeframe: TimeframeType) {
+  const symbolsKey = symbols.join(",");
+
+  // Stable while the symbols are, so the result only changes when a query does
+  const combine = useCallback((results: UseQueryResult<Candle[]>[]) => {
+    const keys = symbolsKey ? symbolsKey.split(",") : [];
+    const candles: Record<string, Candle[]> = {};
+    const failed: string[] = [];
+    keys.forEach((symbol, i) => {
+      if (results[i]?.data) candles[symbol] = results[i].data;
+      if (results[i]?.isError) failed.push(symbol);
+    });
+    return { candles, failed, loading: results.some((r) => r.isLoading) };
+  }, [symbolsKey]);
+
+  return useQueries({
+    queries: symbols.map((symbol) => ({
+      queryKey: ["candles", symbol, timeframe],
+      queryFn: () => fetchCandles(symbol, timeframe),
+      staleTime: 60 * 1000,
+      gcTime: 10 * 60 * 1000,
+      retry: 2,
+    })),
+    combine,
+  });
+}
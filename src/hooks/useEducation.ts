@@ -1,14 +1,17 @@
 import { useState, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import type { SkillLevel, EducationContext, EducationResponse } from "@/types/education";
 import { EDUCATIONAL_TOPICS } from "@/types/education";
+import { AI_USAGE_KEY } from "./useAiUsage";
 
 export function useEducation() {
   const [isLoading, setIsLoading] = useState(false);
   const [content, setContent] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const fetchExplanation = useCallback(async (
     topic: string,
@@ -44,8 +47,9 @@ export function useEducation() {
       return null;
     } finally {
       setIsLoading(false);
+      queryClient.invalidateQueries({ queryKey: AI_USAGE_KEY });
     }
-  }, [toast]);
+  }, [toast, queryClient]);
 
   return {
     fetchExplanation,
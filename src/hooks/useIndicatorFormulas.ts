@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { indicatorFormulaSchema } from "@/utils/chartTemplates";
+import type { IndicatorFormula } from "@/types/market";
+
+export interface SavedFormula extends IndicatorFormula {
+  id: string;
+}
+
+export interface SaveFormulaInput extends IndicatorFormula {
+  id?: string; // omit to create
+}
+
+const QUERY_KEY = ["indicator-formulas"];
+
+/**
+ * The user's saved custom indicator formulas. Adding one to a chart copies
+ * it into the indicator instance, so templates keep working if it is later
+ * edited or deleted.
+ */
+export function useIndicatorFormulas() {
+  const queryClient = useQueryClient();
+
+  const { data: formulas = [], isLoading } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("indicator_formulas")
+        .select("id, name, expression, plot")
+        .eq("user_id", user.id)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((row): SavedFormula => ({
+        id: row.id,
+        name: row.name,
+        expression: row.expression,
+        plot: row.plot === "overlay" ? "overlay" : "oscillator",
+      }));
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const saveFormula = useMutation({
+    mutationFn: async ({ id, ...formula }: SaveFormulaInput) => {
+      const parsed = indicatorFormulaSchema.safeParse(formula);
+      if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const payload = {
+        name: parsed.data.name,
+        expression: parsed.data.expression,
+        plot: parsed.data.plot,
+      };
+      const { data, error } = id
+        ? await supabase.from("indicator_formulas").update(payload).eq("id", id).select("id").single()
+        : await supabase.from("indicator_formulas").insert({ ...payload, user_id: user.id }).select("id").single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`You already have a formula called "${payload.name}"`);
+        throw error;
+      }
+      return data.id as string;
+    },
+    onSuccess: () => {
+      toast.success("Formula saved");
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save formula");
+    },
+  });
+
+  const deleteFormula = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("indicator_formulas").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Formula deleted");
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to delete formula");
+    },
+  });
+
+  return {
+    formulas,
+    isLoading,
+    saveFormula: saveFormula.mutateAsync,
+    isSaving: saveFormula.isPending,
+    deleteFormula: deleteFormula.mutate,
+  };
+}
@@ -0,0 +1,72 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface AppNotification {
+  id: string;
+  type: "price_alert" | "system";
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+const NOTIFICATION_LIMIT = 30;
+
+export function useNotifications() {
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey: ["notifications"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+
+      return (data || []).map((row): AppNotification => ({
+        id: row.id,
+        type: row.type as AppNotification["type"],
+        title: row.title,
+        body: row.body,
+        data: (row.data ?? {}) as Record<string, unknown>,
+        readAt: row.read_at,
+        createdAt: row.created_at,
+      }));
+    },
+    // Alerts are evaluated on a schedule, so polling once a minute is enough
+    refetchInterval: 1000 * 60,
+    staleTime: 1000 * 30,
+  });
+
+  const markAsRead = useMutation({
+    mutationFn: async (ids: string[]) => {
+      if (ids.length === 0) return;
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .in("id", ids);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+
+  const unread = notifications.filter((n) => !n.readAt);
+
+  return {
+    notifications,
+    unreadCount: unread.length,
+    isLoading,
+    markAsRead: (id: string) => markAsRead.mutate([id]),
+    markAllAsRead: () => markAsRead.mutate(unread.map((n) => n.id)),
+  };
+}
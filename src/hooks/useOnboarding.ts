@@ -136,11 +136,23 @@ export const useOnboarding = () => {
         return; // User already has watchlist items
       }
 
-      // Add default stocks
-      const stocksToAdd = DEFAULT_WATCHLIST_STOCKS.map((stock) => ({
+      // Default stocks go into the user's first list (created on signup)
+      const { data: defaultList } = await supabase
+        .from("watchlists")
+        .select("id")
+        .eq("user_id", user.id)
+        .order("position", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (!defaultList) return;
+
+      const stocksToAdd = DEFAULT_WATCHLIST_STOCKS.map((stock, position) => ({
         user_id: user.id,
+        watchlist_id: defaultList.id,
         symbol: stock.symbol,
         name: stock.name,
+        position,
       }));
 
       await supabase.from("watchlist").insert(stocksToAdd);
@@ -3,6 +3,28 @@ import { supabase } from "@/integrations/supabase/client";
 import type { Candle, TimeframeType } from "@/types/market";
 import { timeframeConfig } from "@/config/timeframes";
 
+// Candles for one symbol and timeframe, sorted oldest -> newest for consistent indicators/charts
+export async function fetchCandles(symbol: string, timeframe: TimeframeType): Promise<Candle[]> {
+  if (!symbol) return [];
+
+  const config = timeframeConfig[timeframe];
+
+  const { data, error: fnError } = await supabase.functions.invoke("market-data", {
+    body: {
+      symbols: [symbol],
+      type: "candles",
+      resolution: config.resolution,
+      days: config.days,
+    },
+  });
+
+  if (fnError) throw fnError;
+  if (data?.error) throw new Error(data.error);
+
+  const rawCandles: Candle[] = data?.candles || [];
+  return [...rawCandles].sort((a, b) => a.timestamp - b.timestamp);
+}
+
 /**
  * Optimized candles hook using React Query for better caching.
  * Benefits:
@@ -13,27 +35,7 @@ import { timeframeConfig } from "@/config/timeframes";
 export function useOptimizedCandles(symbol: string, timeframe: TimeframeType = "1D") {
   const { data, isLoading, error, refetch, isFetching } = useQuery({
     queryKey: ["candles", symbol, timeframe],
-    queryFn: async (): Promise<Candle[]> => {
-      if (!symbol) return [];
-
-      const config = timeframeConfig[timeframe];
-
-      const { data, error: fnError } = await supabase.functions.invoke("market-data", {
-        body: {
-          symbols: [symbol],
-          type: "candles",
-          resolution: config.resolution,
-          days: config.days,
-        },
-      });
-
-      if (fnError) throw fnError;
-      if (data?.error) throw new Error(data.error);
-
-      const rawCandles: Candle[] = data?.candles || [];
-      // Sort oldest -> newest for consistent indicators/charts
-      return [...rawCandles].sort((a, b) => a.timestamp - b.timestamp);
-    },
+    queryFn: () => fetchCandles(symbol, timeframe),
     enabled: !!symbol,
     staleTime: 60 * 1000, // Consider fresh for 1 minute
     gcTime: 10 * 60 * 1000, // Keep in cache for 10 minutes
@@ -0,0 +1,294 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { useQuotes } from "@/hooks/useMarketData";
+import {
+  calculatePortfolio,
+  type CostBasisMethod,
+  type Transaction,
+  type TransactionType,
+} from "@/utils/portfolio";
+import type { Candle } from "@/types/market";
+
+export interface Portfolio {
+  id: string;
+  name: string;
+  costBasisMethod: CostBasisMethod;
+}
+
+export interface NewTransactionInput {
+  type: TransactionType;
+  symbol?: string;
+  quantity?: number;
+  price?: number;
+  amount?: number;
+  fees?: number;
+  splitRatio?: number;
+  notes?: string;
+  executedAt: string;
+}
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  dividend: "Dividend",
+  split: "Split",
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+};
+
+// Daily history is only needed for time-weighted return valuations
+const MAX_HISTORY_DAYS = 365 * 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TransactionRow = {
+  id: string;
+  type: string;
+  symbol: string | null;
+  quantity: number | null;
+  price: number | null;
+  amount: number | null;
+  fees: number;
+  split_ratio: number | null;
+  notes: string | null;
+  executed_at: string;
+  created_at: string;
+};
+
+function toTransaction(row: TransactionRow): Transaction {
+  return {
+    id: row.id,
+    type: row.type as TransactionType,
+    symbol: row.symbol,
+    quantity: row.quantity !== null ? Number(row.quantity) : null,
+    price: row.price !== null ? Number(row.price) : null,
+    amount: row.amount !== null ? Number(row.amount) : null,
+    fees: Number(row.fees),
+    splitRatio: row.split_ratio !== null ? Number(row.split_ratio) : null,
+    notes: row.notes,
+    executedAt: row.executed_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * CRUD for the current user's portfolios
+ */
+export function usePortfolios() {
+  const queryClient = useQueryClient();
+
+  const { data: portfolios = [], isLoading } = useQuery({
+    queryKey: ["portfolios"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("portfolios")
+        .select("id, name, cost_basis_method")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row): Portfolio => ({
+        id: row.id,
+        name: row.name,
+        costBasisMethod: row.cost_basis_method as CostBasisMethod,
+      }));
+    },
+    staleTime: 1000 * 60,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["portfolios"] });
+
+  const createPortfolio = useMutation({
+    mutationFn: async (name: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { data, error } = await supabase
+        .from("portfolios")
+        .insert({ user_id: user.id, name: name.trim() })
+        .select("id")
+        .single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`You already have a portfolio called "${name.trim()}"`);
+        throw error;
+      }
+      return data.id as string;
+    },
+    onSuccess: () => {
+      toast.success("Portfolio created");
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to create portfolio");
+    },
+  });
+
+  const updatePortfolio = useMutation({
+    mutationFn: async ({ id, name, costBasisMethod }: { id: string; name?: string; costBasisMethod?: CostBasisMethod }) => {
+      const { error } = await supabase
+        .from("portfolios")
+        .update({
+          ...(name !== undefined && { name: name.trim() }),
+          ...(costBasisMethod !== undefined && { cost_basis_method: costBasisMethod }),
+        })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast.error("Failed to update portfolio");
+    },
+  });
+
+  const deletePortfolio = useMutation({
+    mutationFn: async (id: string) => {
+      // Transactions are removed by ON DELETE CASCADE
+      const { error } = await supabase.from("portfolios").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Portfolio deleted");
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to delete portfolio");
+    },
+  });
+
+  return {
+    portfolios,
+    isLoading,
+    createPortfolio: createPortfolio.mutateAsync,
+    isCreating: createPortfolio.isPending,
+    updatePortfolio: updatePortfolio.mutate,
+    deletePortfolio: deletePortfolio.mutate,
+  };
+}
+
+/**
+ * Ledger, positions and performance for one portfolio, marked to market-data quotes
+ */
+export function usePortfolio(portfolio: Portfolio | null) {
+  const queryClient = useQueryClient();
+  const portfolioId = portfolio?.id;
+  const transactionsKey = ["portfolio-transactions", portfolioId];
+
+  const { data: transactions = [], isLoading } = useQuery({
+    queryKey: transactionsKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, type, symbol, quantity, price, amount, fees, split_ratio, notes, executed_at, created_at")
+        .eq("portfolio_id", portfolioId)
+        .order("executed_at", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(toTransaction);
+    },
+    enabled: !!portfolioId,
+    staleTime: 1000 * 30,
+  });
+
+  const symbols = useMemo(
+    () => Array.from(new Set(transactions.map((tx) => tx.symbol).filter(Boolean) as string[])).sort(),
+    [transactions]
+  );
+
+  const { quotes, loading: quotesLoading } = useQuotes(symbols);
+
+  const historyDays = useMemo(() => {
+    if (transactions.length === 0) return 0;
+    const first = Math.min(...transactions.map((tx) => new Date(tx.executedAt).getTime()));
+    return Math.min(MAX_HISTORY_DAYS, Math.ceil((Date.now() - first) / DAY_MS) + 5);
+  }, [transactions]);
+
+  const { data: priceHistory = {} } = useQuery({
+    queryKey: ["portfolio-history", symbols.join(","), historyDays],
+    queryFn: async () => {
+      const entries = await Promise.all(
+        symbols.map(async (symbol) => {
+          const { data, error } = await supabase.functions.invoke("market-data", {
+            body: { symbols: [symbol], type: "candles", resolution: "D", days: historyDays },
+          });
+          // Missing history only degrades TWR to trade-price valuations
+          if (error || data?.error) return [symbol, []] as const;
+          const candles: Candle[] = data?.candles || [];
+          return [symbol, [...candles].sort((a, b) => a.timestamp - b.timestamp)] as const;
+        })
+      );
+      return Object.fromEntries(entries) as Record<string, Candle[]>;
+    },
+    enabled: symbols.length > 0 && historyDays > 0,
+    staleTime: 1000 * 60 * 60,
+  });
+
+  const summary = useMemo(() => {
+    const quoteMap: Record<string, number> = {};
+    quotes.forEach((q) => {
+      if (!q.error) quoteMap[q.symbol] = q.price;
+    });
+    return calculatePortfolio(transactions, portfolio?.costBasisMethod ?? "fifo", quoteMap, priceHistory);
+  }, [transactions, quotes, priceHistory, portfolio?.costBasisMethod]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["portfolio-transactions", portfolioId] });
+
+  const addTransaction = useMutation({
+    mutationFn: async (input: NewTransactionInput) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+      if (!portfolioId) throw new Error("No portfolio selected");
+
+      const { error } = await supabase.from("transactions").insert({
+        portfolio_id: portfolioId,
+        user_id: user.id,
+        type: input.type,
+        symbol: input.symbol?.trim().toUpperCase() || null,
+        quantity: input.quantity ?? null,
+        price: input.price ?? null,
+        amount: input.amount ?? null,
+        fees: input.fees ?? 0,
+        split_ratio: input.splitRatio ?? null,
+        notes: input.notes?.trim() || null,
+        executed_at: input.executedAt,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, input) => {
+      toast.success(`${TRANSACTION_TYPE_LABELS[input.type]} recorded`);
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to record transaction");
+    },
+  });
+
+  const deleteTransaction = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("transactions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Transaction deleted");
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to delete transaction");
+    },
+  });
+
+  return {
+    transactions,
+    summary,
+    isLoading,
+    quotesLoading,
+    addTransaction: addTransaction.mutateAsync,
+    isAdding: addTransaction.isPending,
+    deleteTransaction: deleteTransaction.mutate,
+  };
+}
@@ -0,0 +1,188 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export type AlertCondition =
+  | "price_above"
+  | "price_below"
+  | "percent_change"
+  | "rsi_above"
+  | "rsi_below"
+  | "ma_cross_above"
+  | "ma_cross_below";
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  threshold: number;
+  period: number | null;
+  note: string | null;
+  notifyEmail: boolean;
+  isActive: boolean;
+  lastValue: number | null;
+  lastCheckedAt: string | null;
+  triggeredAt: string | null;
+  createdAt: string;
+}
+
+export interface CreatePriceAlertInput {
+  symbol: string;
+  condition: AlertCondition;
+  threshold?: number;
+  period?: number;
+  note?: string;
+  notifyEmail?: boolean;
+}
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  price_above: "Price crosses above",
+  price_below: "Price crosses below",
+  percent_change: "Daily % change reaches",
+  rsi_above: "RSI rises above",
+  rsi_below: "RSI falls below",
+  ma_cross_above: "Price crosses above SMA",
+  ma_cross_below: "Price crosses below SMA",
+};
+
+// Human-readable summary, e.g. "RSI(14) rises above 70"
+export function describeAlert(alert: Pick<PriceAlert, "condition" | "threshold" | "period">): string {
+  switch (alert.condition) {
+    case "price_above":
+    case "price_below":
+      return `${ALERT_CONDITION_LABELS[alert.condition]} $${alert.threshold.toFixed(2)}`;
+    case "percent_change":
+      return `${ALERT_CONDITION_LABELS[alert.condition]} ${alert.threshold > 0 ? "+" : ""}${alert.threshold}%`;
+    case "rsi_above":
+    case "rsi_below":
+      return `RSI(${alert.period ?? 14}) ${alert.condition === "rsi_above" ? "rises above" : "falls below"} ${alert.threshold}`;
+    case "ma_cross_above":
+    case "ma_cross_below":
+      return `${ALERT_CONDITION_LABELS[alert.condition]}(${alert.period ?? 50})`;
+  }
+}
+
+type PriceAlertRow = {
+  id: string;
+  symbol: string;
+  condition: string;
+  threshold: number;
+  params: unknown;
+  note: string | null;
+  notify_email: boolean;
+  is_active: boolean;
+  last_value: number | null;
+  last_checked_at: string | null;
+  triggered_at: string | null;
+  created_at: string;
+};
+
+function toPriceAlert(row: PriceAlertRow): PriceAlert {
+  const params = (row.params ?? {}) as { period?: number };
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    condition: row.condition as AlertCondition,
+    threshold: Number(row.threshold),
+    period: params.period ?? null,
+    note: row.note,
+    notifyEmail: row.notify_email,
+    isActive: row.is_active,
+    lastValue: row.last_value,
+    lastCheckedAt: row.last_checked_at,
+    triggeredAt: row.triggered_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * CRUD for the current user's price alerts.
+ * Creation goes through the price-alerts edge function, which enforces
+ * TIER_LIMITS.alerts server-side; updates and deletes use RLS directly.
+ */
+export function usePriceAlerts(symbol?: string) {
+  const queryClient = useQueryClient();
+  const queryKey = ["price-alerts", symbol ?? "all"];
+
+  const { data: alerts = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      let query = supabase
+        .from("price_alerts")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (symbol) query = query.eq("symbol", symbol.toUpperCase());
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map(toPriceAlert);
+    },
+    staleTime: 1000 * 30,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["price-alerts"] });
+
+  const createAlert = useMutation({
+    mutationFn: async (input: CreatePriceAlertInput) => {
+      const { data, error } = await supabase.functions.invoke("price-alerts", { body: input });
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+      return toPriceAlert(data.alert);
+    },
+    onSuccess: (alert) => {
+      toast.success(`Alert created for ${alert.symbol}`);
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to create alert");
+    },
+  });
+
+  const toggleAlert = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      // Re-arming clears the baseline so crossing detection starts fresh
+      const { error } = await supabase
+        .from("price_alerts")
+        .update({
+          is_active: isActive,
+          ...(isActive ? { triggered_at: null, last_value: null } : {}),
+        })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast.error("Failed to update alert");
+    },
+  });
+
+  const deleteAlert = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("price_alerts").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Alert deleted");
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to delete alert");
+    },
+  });
+
+  return {
+    alerts,
+    activeCount: alerts.filter((a) => a.isActive).length,
+    isLoading,
+    error,
+    createAlert: createAlert.mutateAsync,
+    isCreating: createAlert.isPending,
+    toggleAlert: toggleAlert.mutate,
+    deleteAlert: deleteAlert.mutate,
+  };
+}
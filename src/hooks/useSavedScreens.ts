@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  DEFAULT_SCREEN_SORT,
+  screenFiltersSchema,
+  screenNameSchema,
+  screenSortSchema,
+  type ScreenFilter,
+  type ScreenSort,
+  type ScreenerUniverse,
+} from "@/utils/screener";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface SavedScreen {
+  id: string;
+  name: string;
+  universe: ScreenerUniverse;
+  watchlistId: string | null;
+  filters: ScreenFilter[];
+  sort: ScreenSort;
+}
+
+export interface SaveScreenInput {
+  id?: string; // omit to create
+  name: string;
+  universe: ScreenerUniverse;
+  watchlistId: string | null;
+  filters: ScreenFilter[];
+  sort: ScreenSort;
+}
+
+const QUERY_KEY = ["saved-screens"];
+
+/**
+ * The user's saved screener configurations
+ */
+export function useSavedScreens() {
+  const queryClient = useQueryClient();
+
+  const { data: screens = [], isLoading } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("saved_screens")
+        .select("id, name, universe, watchlist_id, filters, sort")
+        .eq("user_id", user.id)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).flatMap((row): SavedScreen[] => {
+        const filters = screenFiltersSchema.safeParse(row.filters);
+        if (!filters.success) {
+          console.warn(`[SavedScreens] Ignoring invalid screen "${row.name}"`);
+          return [];
+        }
+        const sort = screenSortSchema.safeParse(row.sort);
+        return [{
+          id: row.id,
+          name: row.name,
+          universe: row.universe as ScreenerUniverse,
+          watchlistId: row.watchlist_id,
+          filters: filters.data as ScreenFilter[],
+          sort: sort.success ? (sort.data as ScreenSort) : DEFAULT_SCREEN_SORT,
+        }];
+      });
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const saveScreen = useMutation({
+    mutationFn: async ({ id, name, universe, watchlistId, filters, sort }: SaveScreenInput) => {
+      const parsedName = screenNameSchema.safeParse(name);
+      if (!parsedName.success) throw new Error(parsedName.error.issues[0].message);
+      const parsedFilters = screenFiltersSchema.safeParse(filters);
+      if (!parsedFilters.success) throw new Error(parsedFilters.error.issues[0].message);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const payload = {
+        name: parsedName.data,
+        universe,
+        watchlist_id: universe === "watchlist" ? watchlistId : null,
+        filters: parsedFilters.data as unknown as Json,
+        sort: sort as unknown as Json,
+      };
+      const { data, error } = id
+        ? await supabase.from("saved_screens").update(payload).eq("id", id).select("id").single()
+        : await supabase.from("saved_screens").insert({ ...payload, user_id: user.id }).select("id").single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`You already have a screen called "${parsedName.data}"`);
+        throw error;
+      }
+      return data.id as string;
+    },
+    onSuccess: () => {
+      toast.success("Screen saved");
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save screen");
+    },
+  });
+
+  const deleteScreen = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("saved_screens").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Screen deleted");
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to delete screen");
+    },
+  });
+
+  return {
+    screens,
+    isLoading,
+    saveScreen: saveScreen.mutateAsync,
+    isSaving: saveScreen.isPending,
+    deleteScreen: deleteScreen.mutate,
+  };
+}
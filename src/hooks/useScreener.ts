@@ -0,0 +1,48 @@
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  isActiveFilter,
+  type ScreenFilter,
+  type ScreenerResponse,
+  type ScreenerUniverse,
+} from "@/utils/screener";
+
+export interface RunScreenInput {
+  universe: ScreenerUniverse;
+  watchlistId?: string | null;
+  filters: ScreenFilter[];
+}
+
+/**
+ * Runs a screen through the screener edge function. Results come back sorted
+ * by verdict score; the table re-sorts locally.
+ */
+export function useScreener() {
+  const runScreen = useMutation({
+    mutationFn: async ({ universe, watchlistId, filters }: RunScreenInput): Promise<ScreenerResponse> => {
+      const { data, error } = await supabase.functions.invoke("screener", {
+        body: {
+          universe,
+          watchlistId: universe === "watchlist" ? watchlistId : undefined,
+          filters: filters.filter(isActiveFilter),
+        },
+      });
+
+      if (data?.error === "premium_required") throw new Error(data.message);
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data as ScreenerResponse;
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Screener failed");
+    },
+  });
+
+  return {
+    runScreen: runScreen.mutate,
+    response: runScreen.data ?? null,
+    isRunning: runScreen.isPending,
+    reset: runScreen.reset,
+  };
+}
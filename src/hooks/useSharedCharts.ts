@@ -0,0 +1,161 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  parseSharedChartSnapshot,
+  serializeSnapshot,
+  timeframeSchema,
+  type SharedChartSnapshot,
+  type SharedChartView,
+} from "@/utils/sharedCharts";
+import type { TimeframeType } from "@/types/market";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface SharedChartLink {
+  id: string;
+  symbol: string;
+  timeframe: string;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+}
+
+export interface CreateSharedChartInput {
+  symbol: string;
+  timeframe: TimeframeType;
+  snapshot: SharedChartSnapshot;
+  expiresInDays: number | null; // null never expires
+}
+
+const QUERY_KEY = ["shared-charts"];
+
+/**
+ * The user's chart links, newest first, with their view counts. Revoking a
+ * link keeps it in the list so the owner can still see how often it was opened.
+ */
+export function useSharedCharts(enabled: boolean = true) {
+  const queryClient = useQueryClient();
+
+  const { data: links = [], isLoading } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("shared_charts")
+        .select("id, symbol, timeframe, created_at, expires_at, revoked_at, view_count")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map((row): SharedChartLink => ({
+        id: row.id,
+        symbol: row.symbol,
+        timeframe: row.timeframe,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+        revokedAt: row.revoked_at,
+        viewCount: row.view_count,
+      }));
+    },
+    enabled,
+    staleTime: 1000 * 60,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const createLink = useMutation({
+    mutationFn: async ({ symbol, timeframe, snapshot, expiresInDays }: CreateSharedChartInput) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Sign in to share charts");
+
+      const expiresAt = expiresInDays === null
+        ? null
+        : new Date(Date.now() + expiresInDays * 86_400_000).toISOString();
+      const { data, error } = await supabase
+        .from("shared_charts")
+        .insert({
+          user_id: user.id,
+          symbol,
+          timeframe,
+          snapshot: serializeSnapshot(snapshot) as unknown as Json,
+          expires_at: expiresAt,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+      return data.id as string;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to create link");
+    },
+  });
+
+  const revokeLink = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("shared_charts")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Link revoked");
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to revoke link");
+    },
+  });
+
+  return {
+    links,
+    isLoading,
+    createLink: createLink.mutateAsync,
+    isCreating: createLink.isPending,
+    revokeLink: revokeLink.mutate,
+  };
+}
+
+/**
+ * A shared chart as anyone with the link sees it. Every fetch counts as a
+ * view, so it is fetched once per page load. null when the link does not
+ * exist, was revoked or has expired.
+ */
+export function useSharedChart(id: string | undefined) {
+  const { data = null, isLoading, error } = useQuery({
+    queryKey: ["shared-chart", id],
+    queryFn: async (): Promise<SharedChartView | null> => {
+      const { data, error } = await supabase.rpc("view_shared_chart", { _share_id: id ?? "" });
+      if (error) throw error;
+
+      const row = data?.[0];
+      if (!row) return null;
+      const snapshot = parseSharedChartSnapshot(row.snapshot);
+      const timeframe = timeframeSchema.safeParse(row.timeframe);
+      if (!snapshot || !timeframe.success) {
+        console.warn(`[SharedChart] Ignoring invalid snapshot ${id}`);
+        return null;
+      }
+
+      return {
+        symbol: row.symbol,
+        timeframe: timeframe.data,
+        snapshot,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+        viewCount: row.view_count,
+      };
+    },
+    enabled: !!id,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  return { sharedChart: data, loading: isLoading, error: error instanceof Error ? error.message : null };
+}
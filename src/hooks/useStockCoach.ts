@@ -1,5 +1,39 @@
 import { useState, useCallback, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { conversationTitle } from "@/utils/coachConversations";
+import { COACH_CONVERSATIONS_KEY, fetchCoachConversation } from "./useCoachConversations";
+import { AI_USAGE_KEY } from "./useAiUsage";
+
+// A data lookup the coach made while answering, e.g. "Looking up AAPL quote"
+export interface CoachLookup {
+  id: string;
+  label: string;
+  state: "running" | "done" | "error";
+}
+
+// How the coach read a company or ticker in a question; users can confirm or correct it
+export interface SymbolResolution {
+  query: string;
+  symbol: string;
+  name?: string;
+  source: "cashtag" | "ticker" | "alias" | "search";
+  confidence: "high" | "medium" | "low";
+  alternatives: { symbol: string; name?: string }[];
+  confirmed?: boolean;
+}
+
+// A data block the coach looked up; answers cite it inline as [Q1], [N2]...
+export interface CoachCitation {
+  id: string;
+  kind: "quote" | "technicals" | "fundamentals" | "verdict" | "economic" | "news" | "comparison";
+  label: string;
+  symbol?: string;
+  url?: string;
+  publishedAt?: string;
+  data: Record<string, unknown>;
+}
 
 export interface Message {
   id: string;
@@ -7,10 +41,17 @@ export interface Message {
   content: string;
   timestamp: Date;
   isStreaming?: boolean;
+  lookups?: CoachLookup[];
+  resolutions?: SymbolResolution[];
+  citations?: CoachCitation[];
 }
 
 interface UseStockCoachOptions {
   onError?: (error: string) => void;
+  /** Save the conversation as a thread that can be resumed later */
+  persist?: boolean;
+  /** The symbols the coach found in a question, best match first */
+  onSymbolsResolved?: (resolutions: SymbolResolution[]) => void;
 }
 
 const COACH_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/stock-coach`;
@@ -19,7 +60,12 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [activeSymbols, setActiveSymbols] = useState<string[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [isLoadingConversation, setIsLoadingConversation] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Bumped by every load and clear, so a slow load cannot replace a newer thread
+  const loadRequestRef = useRef(0);
+  const queryClient = useQueryClient();
 
   const sendMessage = useCallback(async (input: string, symbols?: string[]) => {
     if (!input.trim()) return;
@@ -41,8 +87,9 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
     setIsLoading(true);
 
     // Update active symbols if provided
+    let nextSymbols = [...new Set([...activeSymbols, ...(symbols || [])])];
     if (symbols && symbols.length > 0) {
-      setActiveSymbols(prev => [...new Set([...prev, ...symbols])]);
+      setActiveSymbols(nextSymbols);
     }
 
     let assistantContent = "";
@@ -70,6 +117,16 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
         return;
       }
 
+      // Saving is best effort; the coach still answers if it fails
+      let threadId = conversationId;
+      if (options.persist) {
+        threadId = await saveUserMessage(session.user.id, threadId, userMessage.content, nextSymbols);
+        if (threadId !== conversationId) {
+          setConversationId(threadId);
+          queryClient.invalidateQueries({ queryKey: COACH_CONVERSATIONS_KEY });
+        }
+      }
+
       const allMessages = [...messages, userMessage].map(m => ({
         role: m.role,
         content: m.content,
@@ -98,6 +155,9 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
       const reader = resp.body.getReader();
       const decoder = new TextDecoder();
       let textBuffer = "";
+      let streamError: string | null = null;
+      let lookups: CoachLookup[] = [];
+      let citations: CoachCitation[] = [];
 
       while (true) {
         const { done, value } = await reader.read();
@@ -120,6 +180,55 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
 
           try {
             const parsed = JSON.parse(jsonStr);
+
+            // Tool lookups and failures after streaming started arrive as events of their own
+            if (parsed.type === "tool_status") {
+              const lookup: CoachLookup = { id: parsed.id, label: parsed.label, state: parsed.state };
+              lookups = lookups.some(l => l.id === lookup.id)
+                ? lookups.map(l => (l.id === lookup.id ? lookup : l))
+                : [...lookups, lookup];
+              const current = lookups;
+              setMessages(prev =>
+                prev.map(m =>
+                  m.id === assistantId
+                    ? { ...m, lookups: current }
+                    : m
+                )
+              );
+              continue;
+            }
+            if (parsed.type === "citations") {
+              citations = [...citations, ...(parsed.citations as CoachCitation[])];
+              const current = citations;
+              setMessages(prev =>
+                prev.map(m =>
+                  m.id === assistantId
+                    ? { ...m, citations: current }
+                    : m
+                )
+              );
+              continue;
+            }
+            if (parsed.type === "symbols") {
+              const resolutions = parsed.resolutions as SymbolResolution[];
+              const resolved = resolutions.filter(r => r.confidence !== "low").map(r => r.symbol);
+              nextSymbols = [...new Set([...nextSymbols, ...resolved])];
+              setActiveSymbols(prev => [...new Set([...prev, ...resolved])]);
+              setMessages(prev =>
+                prev.map(m =>
+                  m.id === userMessage.id
+                    ? { ...m, resolutions }
+                    : m
+                )
+              );
+              options.onSymbolsResolved?.(resolutions);
+              continue;
+            }
+            if (parsed.type === "error") {
+              streamError = parsed.error || "The coach could not finish this answer";
+              continue;
+            }
+
             const content = parsed.choices?.[0]?.delta?.content as string | undefined;
             if (content) {
               assistantContent += content;
@@ -158,6 +267,9 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
         }
       }
 
+      if (streamError && !assistantContent) throw new Error(streamError);
+      if (streamError) options.onError?.(streamError);
+
       // Mark streaming as complete
       setMessages(prev =>
         prev.map(m =>
@@ -166,6 +278,13 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
             : m
         )
       );
+
+      if (threadId && assistantContent) {
+        await saveAssistantMessage(session.user.id, threadId, assistantContent, citations, nextSymbols);
+      }
+      if (threadId) {
+        queryClient.invalidateQueries({ queryKey: COACH_CONVERSATIONS_KEY });
+      }
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") {
         // Request was cancelled
@@ -180,14 +299,69 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
       setMessages(prev => prev.filter(m => m.id !== assistantId));
     } finally {
       setIsLoading(false);
+      // Answers and quota refusals both change what the usage meter shows
+      queryClient.invalidateQueries({ queryKey: AI_USAGE_KEY });
     }
-  }, [messages, activeSymbols, options]);
+  }, [messages, activeSymbols, conversationId, options, queryClient]);
+
+  // Confirm or correct how a question was read; null means it was not a stock
+  const correctSymbol = useCallback((messageId: string, query: string, symbol: string | null) => {
+    const message = messages.find(m => m.id === messageId);
+    const previous = message?.resolutions?.find(r => r.query === query);
+    if (!message || !previous) return;
+
+    const corrected = symbol?.trim().toUpperCase() || null;
+    setMessages(prev =>
+      prev.map(m =>
+        m.id === messageId
+          ? {
+            ...m,
+            resolutions: (m.resolutions ?? []).flatMap((r): SymbolResolution[] => {
+              if (r.query !== query) return [r];
+              if (!corrected) return [];
+              const alternative = [r, ...r.alternatives].find(a => a.symbol === corrected);
+              return [{ ...r, symbol: corrected, name: alternative?.name, confidence: "high", confirmed: true }];
+            }),
+          }
+          : m
+      )
+    );
+    setActiveSymbols(prev => {
+      const rest = previous.symbol === corrected ? prev : prev.filter(s => s !== previous.symbol);
+      return corrected ? [...new Set([...rest, corrected])] : rest;
+    });
+  }, [messages]);
 
+  // Starts a new conversation; a saved thread stays in the history
   const clearMessages = useCallback(() => {
+    abortControllerRef.current?.abort();
+    loadRequestRef.current++;
     setMessages([]);
     setActiveSymbols([]);
+    setConversationId(null);
   }, []);
 
+  // Resume a saved thread with the symbols it was discussing
+  const loadConversation = useCallback(async (id: string) => {
+    abortControllerRef.current?.abort();
+    const requestId = ++loadRequestRef.current;
+    setIsLoadingConversation(true);
+    try {
+      const { conversation, messages: saved } = await fetchCoachConversation(id);
+      if (requestId !== loadRequestRef.current) return null;
+      setMessages(saved);
+      setActiveSymbols(conversation.activeSymbols);
+      setConversationId(conversation.id);
+      return conversation;
+    } catch (error) {
+      console.error("Failed to load coach conversation:", error);
+      options.onError?.("Could not load this conversation");
+      return null;
+    } finally {
+      if (requestId === loadRequestRef.current) setIsLoadingConversation(false);
+    }
+  }, [options]);
+
   const cancelRequest = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -199,9 +373,63 @@ export function useStockCoach(options: UseStockCoachOptions = {}) {
     messages,
     isLoading,
     activeSymbols,
+    conversationId,
+    isLoadingConversation,
     sendMessage,
     clearMessages,
+    loadConversation,
+    correctSymbol,
     cancelRequest,
     setActiveSymbols,
   };
 }
+
+// Returns the thread the message was saved to, creating it for the first question
+async function saveUserMessage(
+  userId: string,
+  conversationId: string | null,
+  content: string,
+  symbols: string[]
+): Promise<string | null> {
+  let threadId = conversationId;
+  if (!threadId) {
+    const { data, error } = await supabase
+      .from("coach_conversations")
+      .insert({ user_id: userId, title: conversationTitle(content), active_symbols: symbols })
+      .select("id")
+      .single();
+    if (error) {
+      console.error("Failed to save coach conversation:", error);
+      return null;
+    }
+    threadId = data.id;
+  }
+
+  const { error } = await supabase
+    .from("coach_messages")
+    .insert({ conversation_id: threadId, user_id: userId, role: "user", content });
+  if (error) console.error("Failed to save coach message:", error);
+  return threadId;
+}
+
+async function saveAssistantMessage(
+  userId: string,
+  conversationId: string,
+  content: string,
+  citations: CoachCitation[],
+  symbols: string[]
+) {
+  const { error } = await supabase
+    .from("coach_messages")
+    .insert({
+      conversation_id: conversationId,
+      user_id: userId,
+      role: "assistant",
+      content,
+      citations: citations.length > 0 ? (citations as unknown as Json) : null,
+    });
+  if (error) console.error("Failed to save coach message:", error);
+
+  // Also moves the thread to the top of the history
+  await supabase.from("coach_conversations").update({ active_symbols: symbols }).eq("id", conversationId);
+}
@@ -22,6 +22,8 @@ export const STRIPE_PRICES = {
   elite: "price_1SpbFxGC4ILz5tueYZ34WXXO",
 } as const;
 
+// watchlists / watchlistItems are also enforced by RLS (see get_watchlist_limit in migrations);
+// alerts and the daily AI quotas by the edge functions (see _shared/tierCheck.ts)
 export const TIER_LIMITS = {
   free: {
     symbols: 5,
@@ -29,7 +31,8 @@ export const TIER_LIMITS = {
     watchlistItems: 10,
     indicators: 3,
     alerts: 0,
-    aiAnalysis: false,
+    aiRequestsPerDay: 10,
+    aiTokensPerDay: 60_000,
     realtimeNews: false,
     chartSharing: false,
   },
@@ -39,7 +42,8 @@ export const TIER_LIMITS = {
     watchlistItems: 50,
     indicators: 15,
     alerts: 10,
-    aiAnalysis: true,
+    aiRequestsPerDay: 150,
+    aiTokensPerDay: 1_000_000,
     realtimeNews: true,
     chartSharing: true,
   },
@@ -49,7 +53,8 @@ export const TIER_LIMITS = {
     watchlistItems: -1,
     indicators: -1,
     alerts: -1,
-    aiAnalysis: true,
+    aiRequestsPerDay: -1,
+    aiTokensPerDay: 5_000_000,
     realtimeNews: true,
     chartSharing: true,
   },
@@ -0,0 +1,60 @@
+import { useCallback, useMemo, useState } from "react";
+import type { Candle, SuggestedDrawing } from "@/types/market";
+import { detectSupportResistance } from "@shared/supportResistance";
+
+const MAX_LEVELS = 4;
+const SUGGESTION_COLORS = { support: "#10b981", resistance: "#f43f5e" };
+
+// Same time value PriceChart plots the candle at
+function chartTime(candle: Candle): string {
+  if (candle.date && candle.date.includes("-")) return candle.date;
+  return new Date(candle.timestamp * 1000).toISOString().split("T")[0];
+}
+
+/**
+ * Support/resistance levels and trendlines detected on the loaded candles,
+ * offered as drawings. Dismissed suggestions stay hidden until the page reloads.
+ */
+export function useSuggestedDrawings(candles: Candle[], symbol: string, timeframe: string, enabled: boolean) {
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const scope = `${symbol}:${timeframe}`;
+
+  const detected = useMemo((): SuggestedDrawing[] => {
+    if (!enabled || candles.length === 0) return [];
+    const { levels, trendlines } = detectSupportResistance(candles, MAX_LEVELS);
+    const side = (kind: "support" | "resistance") => (kind === "support" ? "Support" : "Resistance");
+    const touchText = (touches: number) => (touches > 0 ? `${touches} touch${touches === 1 ? "" : "es"}` : "volume node");
+
+    return [
+      ...levels.map((level): SuggestedDrawing => ({
+        id: `${scope}:level:${level.price.toFixed(2)}`,
+        type: "horizontal",
+        data: { price: level.price, color: SUGGESTION_COLORS[level.kind], lineWidth: 1 },
+        label: `${side(level.kind)} · ${touchText(level.touches)}`,
+        strength: level.strength,
+      })),
+      ...trendlines.map((line): SuggestedDrawing => ({
+        id: `${scope}:trend:${line.kind}:${chartTime(candles[line.startIndex])}`,
+        type: "trendline",
+        data: {
+          startPrice: line.startPrice,
+          startTime: chartTime(candles[line.startIndex]),
+          endPrice: line.endPrice,
+          endTime: chartTime(candles[line.endIndex]),
+          color: SUGGESTION_COLORS[line.kind],
+          lineWidth: 2,
+        },
+        label: `${side(line.kind)} trendline · ${touchText(line.touches)}`,
+        strength: line.strength,
+      })),
+    ];
+  }, [candles, enabled, scope]);
+
+  const suggestions = useMemo(() => detected.filter((s) => !dismissed.has(s.id)), [detected, dismissed]);
+
+  const dismissSuggestion = useCallback((id: string) => {
+    setDismissed((prev) => new Set(prev).add(id));
+  }, []);
+
+  return { suggestions, dismissSuggestion };
+}
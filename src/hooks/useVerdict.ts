@@ -1,8 +1,32 @@
 import { useMemo } from "react";
-import { calculateVerdictScore, VerdictResult, VerdictInput } from "@/utils/verdictEngine";
+import { calculateVerdictScore, VerdictResult, VerdictInput, VerdictProfile, MarketData } from "@shared/verdictEngine";
 import { useFredData } from "./useFredData";
 import { useFundamentals } from "./useFundamentals";
-import { useTechnicalIndicators } from "./useTechnicalIndicators";
+import { useTechnicalIndicators, type TechnicalIndicators } from "./useTechnicalIndicators";
+import { useVerdictProfiles } from "./useVerdictProfiles";
+import type { Candle } from "@/types/market";
+
+// Verdict inputs from one timeframe's indicators (short-term strategy)
+function toMarketData(indicators: TechnicalIndicators): MarketData {
+  return {
+    price: indicators.price,
+    ma50: indicators.ma50,     // Primary trend indicator
+    ma20: indicators.ma20,     // Short-term trend
+    rsi: indicators.rsi,
+    macdSignal: indicators.macdSignal,
+    emaCrossover: indicators.emaCrossover, // EMA 20/50 crossover signal
+    adx: indicators.adx,
+    plusDI: indicators.plusDI,
+    minusDI: indicators.minusDI,
+    stochK: indicators.stochK,
+    stochD: indicators.stochD,
+    volume: indicators.volume,
+    avgVolume: indicators.avgVolume,
+    priceChange: indicators.priceChange,
+    candlePattern: indicators.candlePattern,
+    divergence: indicators.divergence,
+  };
+}
 
 interface UseVerdictProps {
   symbol: string;
@@ -15,14 +39,22 @@ interface UseVerdictProps {
 
 export function useVerdict({ symbol, sentimentData }: UseVerdictProps): {
   verdict: VerdictResult;
+  profile: VerdictProfile;
+  candles: Candle[];
   loading: boolean;
   fundamentalsLoading: boolean;
   indicatorsLoading: boolean;
+  timeframesLoading: boolean;
   dataQuality: 'full' | 'partial' | 'insufficient' | undefined;
 } {
   const { analysis, vixLevel } = useFredData();
   const { data: fundamentals, loading: fundamentalsLoading, premiumLocked } = useFundamentals(symbol);
-  const { indicators, loading: indicatorsLoading } = useTechnicalIndicators(symbol);
+  const { indicators, candles, loading: indicatorsLoading } = useTechnicalIndicators(symbol);
+  // Other timeframes only feed the alignment matrix and confidence
+  const hourly = useTechnicalIndicators(symbol, "1H");
+  const fourHour = useTechnicalIndicators(symbol, "4H");
+  const weekly = useTechnicalIndicators(symbol, "1W");
+  const { activeProfile } = useVerdictProfiles();
 
   // Check if fundamental data is partially locked by paywall
   const fundamentalsLocked = premiumLocked.length > 0;
@@ -37,18 +69,7 @@ export function useVerdict({ symbol, sentimentData }: UseVerdictProps): {
       console.warn(`[Verdict] Missing 50-day MA for ${symbol} - insufficient historical data`);
     }
     
-    // Build market data input with validated indicators (short-term strategy)
-    const marketData = {
-      price: indicators.price,
-      ma50: indicators.ma50,     // Primary trend indicator
-      ma20: indicators.ma20,     // Short-term trend
-      rsi: indicators.rsi,
-      macdSignal: indicators.macdSignal,
-      emaCrossover: indicators.emaCrossover, // EMA 20/50 crossover signal
-      volume: indicators.volume,
-      avgVolume: indicators.avgVolume,
-      priceChange: indicators.priceChange,
-    };
+    const marketData = toMarketData(indicators);
 
     // Determine rate trend from analysis
     // The edge function now returns rateTrend directly, but fallback to parsing rateEnvironment
@@ -91,16 +112,33 @@ export function useVerdict({ symbol, sentimentData }: UseVerdictProps): {
       dataQuality: fundamentalsLocked 
         ? (indicators.dataQuality === 'full' ? 'partial' : indicators.dataQuality)
         : indicators.dataQuality,
+      profile: activeProfile,
+      timeframes: [
+        { timeframe: "1H", indicators: hourly.indicators },
+        { timeframe: "4H", indicators: fourHour.indicators },
+        { timeframe: "1D", indicators },
+        { timeframe: "1W", indicators: weekly.indicators },
+      ].map(({ timeframe, indicators: tfIndicators }) => ({
+        timeframe,
+        market: toMarketData(tfIndicators),
+        dataQuality: tfIndicators.dataQuality,
+      })),
     };
 
     return calculateVerdictScore(input);
-  }, [symbol, indicators, fundamentals, sentimentData, analysis, vixLevel, fundamentalsLocked]);
+  }, [
+    symbol, indicators, hourly.indicators, fourHour.indicators, weekly.indicators,
+    fundamentals, sentimentData, analysis, vixLevel, fundamentalsLocked, activeProfile,
+  ]);
 
   return {
     verdict,
+    profile: activeProfile,
+    candles,
     loading: indicatorsLoading,
     fundamentalsLoading,
     indicatorsLoading,
+    timeframesLoading: hourly.loading || fourHour.loading || weekly.loading,
     dataQuality: indicators.dataQuality,
   };
 }
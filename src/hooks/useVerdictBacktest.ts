@@ -0,0 +1,46 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { runBacktest, type BacktestConfig } from "@/utils/backtest";
+import type { VerdictProfile } from "@shared/verdictEngine";
+import type { Candle } from "@/types/market";
+
+/**
+ * Daily history for `symbol` replayed through the verdict backtester.
+ * The backtest reruns locally whenever the config changes; candles are cached.
+ */
+export function useVerdictBacktest(
+  symbol: string,
+  days: number,
+  config: Partial<BacktestConfig> = {},
+  profile?: VerdictProfile
+) {
+  const { data: candles = [], isLoading, error } = useQuery({
+    queryKey: ["backtest-candles", symbol, days],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke("market-data", {
+        body: { symbols: [symbol], type: "candles", resolution: "D", days },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const candles: Candle[] = data?.candles || [];
+      return [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    },
+    enabled: !!symbol,
+    staleTime: 1000 * 60 * 60,
+  });
+
+  const configKey = JSON.stringify(config);
+  const result = useMemo(
+    () => (candles.length > 0 ? runBacktest(candles, JSON.parse(configKey), profile) : null),
+    [candles, configKey, profile]
+  );
+
+  return {
+    result,
+    candleCount: candles.length,
+    loading: isLoading,
+    error: error instanceof Error ? error.message : null,
+  };
+}
@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  detectMetricFlips,
+  detectSignalChanges,
+  type SnapshotMetric,
+  type VerdictSnapshot,
+} from "@/utils/verdictHistory";
+
+/**
+ * Daily verdict snapshots for `symbol` over the last `days` calendar days,
+ * oldest first, plus the metric flips and signal changes between them.
+ */
+export function useVerdictHistory(symbol: string, days = 90) {
+  const { data: snapshots = [], isLoading, error } = useQuery({
+    queryKey: ["verdict-history", symbol, days],
+    queryFn: async () => {
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+      // Tier-checked: fundamental and analyst metrics are only returned to paid tiers
+      const { data, error } = await supabase
+        .rpc("get_verdict_history", { _symbol: symbol.toUpperCase(), _since: since });
+
+      if (error) throw error;
+
+      return (data || []).map((row): VerdictSnapshot => ({
+        date: row.snapshot_date,
+        score: row.score,
+        signal: row.signal as VerdictSnapshot['signal'],
+        confidence: row.confidence,
+        price: row.price,
+        layerScores: row.layer_scores as unknown as VerdictSnapshot['layerScores'],
+        topMetrics: (row.top_metrics as unknown as SnapshotMetric[]) ?? [],
+        metrics: (row.metrics as unknown as SnapshotMetric[]) ?? [],
+      }));
+    },
+    enabled: !!symbol,
+    // Snapshots are written once a day
+    staleTime: 1000 * 60 * 30,
+  });
+
+  const flips = useMemo(() => detectMetricFlips(snapshots), [snapshots]);
+  const signalChanges = useMemo(() => detectSignalChanges(snapshots), [snapshots]);
+
+  return {
+    snapshots,
+    flips,
+    signalChanges,
+    loading: isLoading,
+    error: error instanceof Error ? error.message : null,
+  };
+}
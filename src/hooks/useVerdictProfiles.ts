@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  DEFAULT_VERDICT_PROFILE,
+  type VerdictProfile,
+  type VerdictProfileConfig,
+} from "@shared/verdictEngine";
+import {
+  getVerdictProfileConfigError,
+  parseVerdictProfileConfig,
+  verdictProfileNameSchema,
+} from "@/utils/verdictProfiles";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface SavedVerdictProfile extends VerdictProfile {
+  id: string;
+  isActive: boolean;
+}
+
+export interface SaveVerdictProfileInput {
+  id?: string; // omit to create
+  name: string;
+  config: VerdictProfileConfig;
+}
+
+const QUERY_KEY = ["verdict-profiles"];
+
+/**
+ * The user's saved strategy profiles and the one the verdict should use.
+ * Falls back to the built-in Balanced profile when none is active.
+ */
+export function useVerdictProfiles() {
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [], isLoading } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from("verdict_profiles")
+        .select("id, name, config, is_active")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).flatMap((row): SavedVerdictProfile[] => {
+        const config = parseVerdictProfileConfig(row.config);
+        if (!config) {
+          console.warn(`[VerdictProfiles] Ignoring invalid profile "${row.name}"`);
+          return [];
+        }
+        return [{ id: row.id, name: row.name, config, isActive: row.is_active }];
+      });
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const activeProfile: VerdictProfile = profiles.find((p) => p.isActive) ?? DEFAULT_VERDICT_PROFILE;
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+
+  const saveProfile = useMutation({
+    mutationFn: async ({ id, name, config }: SaveVerdictProfileInput) => {
+      const parsedName = verdictProfileNameSchema.safeParse(name);
+      if (!parsedName.success) throw new Error(parsedName.error.issues[0].message);
+      const configError = getVerdictProfileConfigError(config);
+      if (configError) throw new Error(configError);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const payload = { name: parsedName.data, config: config as unknown as Json };
+      const { data, error } = id
+        ? await supabase.from("verdict_profiles").update(payload).eq("id", id).select("id").single()
+        : await supabase.from("verdict_profiles").insert({ ...payload, user_id: user.id }).select("id").single();
+
+      if (error) {
+        if (error.code === "23505") throw new Error(`You already have a profile called "${parsedName.data}"`);
+        throw error;
+      }
+      return data.id as string;
+    },
+    onSuccess: () => {
+      toast.success("Strategy profile saved");
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to save profile");
+    },
+  });
+
+  const deleteProfile = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("verdict_profiles").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Strategy profile deleted");
+      invalidate();
+    },
+    onError: () => {
+      toast.error("Failed to delete profile");
+    },
+  });
+
+  const setActiveProfile = useMutation({
+    // null switches back to the built-in default
+    mutationFn: async (id: string | null) => {
+      const { error } = await supabase.rpc("set_active_verdict_profile", { _profile_id: id });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast.error("Failed to switch profile");
+    },
+  });
+
+  return {
+    profiles,
+    activeProfile,
+    isLoading,
+    saveProfile: saveProfile.mutateAsync,
+    isSaving: saveProfile.isPending,
+    deleteProfile: deleteProfile.mutate,
+    setActiveProfile: setActiveProfile.mutate,
+  };
+}
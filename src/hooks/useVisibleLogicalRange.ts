@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import type { IChartApi, LogicalRange } from "lightweight-charts";
+
+// Bar range (indices into the series data) currently scrolled into view
+export function useVisibleLogicalRange(chart: IChartApi | null): LogicalRange | null {
+  const [range, setRange] = useState<LogicalRange | null>(null);
+
+  useEffect(() => {
+    if (!chart) return;
+    const timeScale = chart.timeScale();
+    const handleRange = (next: LogicalRange | null) => setRange(next);
+
+    handleRange(timeScale.getVisibleLogicalRange());
+    timeScale.subscribeVisibleLogicalRangeChange(handleRange);
+    return () => timeScale.unsubscribeVisibleLogicalRangeChange(handleRange);
+  }, [chart]);
+
+  return range;
+}
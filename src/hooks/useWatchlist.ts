@@ -1,11 +1,17 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useSubscription } from "@/hooks/useSubscription";
+import type { Quote } from "@/types/market";
 
 export interface WatchlistItem {
   id: string;
+  watchlistId: string;
   symbol: string;
   name: string;
+  position: number;
+  notes: string | null;
+  targetPrice: number | null;
   price: number;
   change: number;
   changePercent: number;
@@ -14,25 +20,59 @@ export interface WatchlistItem {
   volume?: string;
 }
 
-export function useWatchlist() {
+type WatchlistRow = {
+  id: string;
+  watchlist_id: string;
+  symbol: string;
+  name: string;
+  position: number;
+  notes: string | null;
+  target_price: number | null;
+};
+
+function toWatchlistItem(row: WatchlistRow, quote: Partial<Quote> = {}): WatchlistItem {
+  return {
+    id: row.id,
+    watchlistId: row.watchlist_id,
+    symbol: row.symbol,
+    name: row.name,
+    position: row.position,
+    notes: row.notes,
+    targetPrice: row.target_price,
+    price: quote.price || 0,
+    change: quote.change || 0,
+    changePercent: quote.changePercent || 0,
+    high24h: quote.high,
+    low24h: quote.low,
+  };
+}
+
+// Postgres error raised when an RLS WITH CHECK fails - here that means the list is full
+const RLS_VIOLATION = "42501";
+
+/**
+ * Items of a single named watchlist (see useWatchlists for the lists themselves)
+ */
+export function useWatchlist(watchlistId: string | undefined) {
   const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
+  const { limits } = useSubscription();
 
   const fetchWatchlist = useCallback(async () => {
     try {
       setError(null);
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        setLoading(false);
+      if (!watchlistId) {
+        setWatchlist([]);
         return;
       }
 
       const { data, error } = await supabase
         .from("watchlist")
-        .select("*")
-        .eq("user_id", user.id)
+        .select("id, watchlist_id, symbol, name, position, notes, target_price")
+        .eq("watchlist_id", watchlistId)
+        .order("position", { ascending: true })
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -59,33 +99,11 @@ export function useWatchlist() {
           priceMap[q.symbol] = q;
         });
 
-        const itemsWithPrices: WatchlistItem[] = data.map((item) => {
-          const quote = priceMap[item.symbol] || {};
-          return {
-            id: item.id,
-            symbol: item.symbol,
-            name: item.name,
-            price: quote.price || 0,
-            change: quote.change || 0,
-            changePercent: quote.changePercent || 0,
-            high24h: quote.high,
-            low24h: quote.low,
-          };
-        });
-
-        setWatchlist(itemsWithPrices);
+        setWatchlist(data.map((item) => toWatchlistItem(item, priceMap[item.symbol])));
       } catch (priceErr) {
         // If price fetch fails, still show watchlist with zero prices
         console.error("Error fetching prices:", priceErr);
-        const itemsWithoutPrices: WatchlistItem[] = data.map((item) => ({
-          id: item.id,
-          symbol: item.symbol,
-          name: item.name,
-          price: 0,
-          change: 0,
-          changePercent: 0,
-        }));
-        setWatchlist(itemsWithoutPrices);
+        setWatchlist(data.map((item) => toWatchlistItem(item)));
       }
     } catch (err) {
       console.error("Error fetching watchlist:", err);
@@ -93,9 +111,11 @@ export function useWatchlist() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [watchlistId]);
 
   useEffect(() => {
+    // Switching lists shows the loader instead of the previous list's items
+    setLoading(true);
     fetchWatchlist();
 
     // Refresh prices every 30 seconds
@@ -108,24 +128,39 @@ export function useWatchlist() {
     return () => clearInterval(interval);
   }, [fetchWatchlist]);
 
+  const notifyListFull = () => {
+    toast({
+      title: "Watchlist is full",
+      description: `Your plan allows ${limits.watchlistItems} assets per watchlist. Upgrade for more.`,
+      variant: "destructive",
+    });
+  };
+
   const addToWatchlist = async (symbol: string, name: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
+      if (!watchlistId) throw new Error("No watchlist selected");
 
+      // New assets go to the top of the list
+      const position = watchlist.length > 0 ? Math.min(...watchlist.map((i) => i.position)) - 1 : 0;
       const { error } = await supabase
         .from("watchlist")
-        .insert({ user_id: user.id, symbol: symbol.toUpperCase(), name });
+        .insert({ user_id: user.id, watchlist_id: watchlistId, symbol: symbol.toUpperCase(), name, position });
 
       if (error) {
         if (error.code === "23505") {
           toast({
             title: "Already in watchlist",
-            description: `${symbol} is already in your watchlist.`,
+            description: `${symbol} is already in this watchlist.`,
             variant: "destructive",
           });
           return false;
         }
+        if (error.code === RLS_VIOLATION) {
+          notifyListFull();
+          return false;
+        }
         throw error;
       }
 
@@ -174,12 +209,124 @@ export function useWatchlist() {
     }
   };
 
+  const reorderItems = async (orderedIds: string[]) => {
+    const previous = watchlist;
+    const byId = new Map(watchlist.map((item) => [item.id, item]));
+    const reordered = orderedIds
+      .map((id, position) => byId.has(id) ? { ...byId.get(id)!, position } : null)
+      .filter(Boolean) as WatchlistItem[];
+    const changed = reordered.filter((item) => byId.get(item.id)?.position !== item.position);
+
+    setWatchlist(reordered);
+    if (changed.length === 0) return true;
+
+    try {
+      const results = await Promise.all(
+        changed.map((item) =>
+          supabase.from("watchlist").update({ position: item.position }).eq("id", item.id)
+        )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed) throw failed.error;
+      return true;
+    } catch (error) {
+      console.error("Error reordering watchlist:", error);
+      setWatchlist(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save the new order.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const updateItem = async (id: string, updates: { notes?: string | null; targetPrice?: number | null }) => {
+    try {
+      const { error } = await supabase
+        .from("watchlist")
+        .update({
+          ...(updates.notes !== undefined && { notes: updates.notes }),
+          ...(updates.targetPrice !== undefined && { target_price: updates.targetPrice }),
+        })
+        .eq("id", id);
+
+      if (error) throw error;
+
+      setWatchlist((prev) => prev.map((item) => item.id === id ? { ...item, ...updates } : item));
+      return true;
+    } catch (error) {
+      console.error("Error updating watchlist item:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update asset.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const moveToList = async (id: string, targetWatchlistId: string) => {
+    const item = watchlist.find((i) => i.id === id);
+    if (!item || targetWatchlistId === item.watchlistId) return false;
+
+    try {
+      // Land at the bottom of the target list
+      const { data: last } = await supabase
+        .from("watchlist")
+        .select("position")
+        .eq("watchlist_id", targetWatchlistId)
+        .order("position", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { error } = await supabase
+        .from("watchlist")
+        .update({ watchlist_id: targetWatchlistId, position: (last?.position ?? -1) + 1 })
+        .eq("id", id);
+
+      if (error) {
+        if (error.code === "23505") {
+          toast({
+            title: "Already in that watchlist",
+            description: `${item.symbol} is already in the selected watchlist.`,
+            variant: "destructive",
+          });
+          return false;
+        }
+        if (error.code === RLS_VIOLATION) {
+          notifyListFull();
+          return false;
+        }
+        throw error;
+      }
+
+      setWatchlist((prev) => prev.filter((i) => i.id !== id));
+      toast({
+        title: "Asset moved",
+        description: `${item.symbol} was moved to another watchlist.`,
+      });
+      return true;
+    } catch (error) {
+      console.error("Error moving watchlist item:", error);
+      toast({
+        title: "Error",
+        description: "Failed to move asset.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
   return {
     watchlist,
     loading,
     error,
     addToWatchlist,
     removeFromWatchlist,
+    reorderItems,
+    updateItem,
+    moveToList,
     refetch: fetchWatchlist,
   };
 }
@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useSubscription } from "@/hooks/useSubscription";
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  position: number;
+}
+
+const ACTIVE_LIST_STORAGE_KEY = "watchlist:active";
+
+// Postgres error raised when an RLS WITH CHECK fails - here that means the tier limit was hit
+const RLS_VIOLATION = "42501";
+
+export function useWatchlists() {
+  const [lists, setLists] = useState<Watchlist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeListId, setActiveListIdState] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_LIST_STORAGE_KEY)
+  );
+  const { toast } = useToast();
+  const { limits, isWithinLimit } = useSubscription();
+
+  const fetchLists = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("watchlists")
+        .select("id, name, position")
+        .eq("user_id", user.id)
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setLists(data || []);
+    } catch (err) {
+      console.error("Error fetching watchlists:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLists();
+  }, [fetchLists]);
+
+  const setActiveListId = useCallback((id: string) => {
+    setActiveListIdState(id);
+    localStorage.setItem(ACTIVE_LIST_STORAGE_KEY, id);
+  }, []);
+
+  // Fall back to the first list if the stored one was deleted or belongs to another account
+  const activeList = lists.find((list) => list.id === activeListId) ?? lists[0] ?? null;
+  const canCreateList = isWithinLimit("watchlists", lists.length);
+
+  const createList = async (name: string) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const position = lists.length > 0 ? Math.max(...lists.map((l) => l.position)) + 1 : 0;
+      const { data, error } = await supabase
+        .from("watchlists")
+        .insert({ user_id: user.id, name: name.trim(), position })
+        .select("id, name, position")
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          toast({
+            title: "Name already used",
+            description: `You already have a watchlist called "${name.trim()}".`,
+            variant: "destructive",
+          });
+          return null;
+        }
+        if (error.code === RLS_VIOLATION) {
+          toast({
+            title: "Watchlist limit reached",
+            description: `Your plan includes ${limits.watchlists} watchlist${limits.watchlists === 1 ? "" : "s"}. Upgrade for more.`,
+            variant: "destructive",
+          });
+          return null;
+        }
+        throw error;
+      }
+
+      setLists((prev) => [...prev, data]);
+      setActiveListId(data.id);
+      return data;
+    } catch (error) {
+      console.error("Error creating watchlist:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create watchlist.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const renameList = async (id: string, name: string) => {
+    try {
+      const { error } = await supabase
+        .from("watchlists")
+        .update({ name: name.trim() })
+        .eq("id", id);
+
+      if (error) {
+        if (error.code === "23505") {
+          toast({
+            title: "Name already used",
+            description: `You already have a watchlist called "${name.trim()}".`,
+            variant: "destructive",
+          });
+          return false;
+        }
+        throw error;
+      }
+
+      setLists((prev) => prev.map((list) => (list.id === id ? { ...list, name: name.trim() } : list)));
+      return true;
+    } catch (error) {
+      console.error("Error renaming watchlist:", error);
+      toast({
+        title: "Error",
+        description: "Failed to rename watchlist.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const deleteList = async (id: string) => {
+    if (lists.length <= 1) {
+      toast({
+        title: "Can't delete",
+        description: "You need at least one watchlist.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    try {
+      // Items are removed by ON DELETE CASCADE
+      const { error } = await supabase.from("watchlists").delete().eq("id", id);
+      if (error) throw error;
+
+      setLists((prev) => prev.filter((list) => list.id !== id));
+      toast({
+        title: "Watchlist deleted",
+        description: "The watchlist and its assets were removed.",
+      });
+      return true;
+    } catch (error) {
+      console.error("Error deleting watchlist:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete watchlist.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return {
+    lists,
+    activeList,
+    setActiveListId,
+    loading,
+    canCreateList,
+    createList,
+    renameList,
+    deleteList,
+    refetch: fetchLists,
+  };
+}
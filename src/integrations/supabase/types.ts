@@ -74,6 +74,42 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_usage: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          feature: string
+          id: string
+          prompt_tokens: number
+          requests: number
+          updated_at: string
+          usage_date: string
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          feature: string
+          id?: string
+          prompt_tokens?: number
+          requests?: number
+          updated_at?: string
+          usage_date?: string
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          feature?: string
+          id?: string
+          prompt_tokens?: number
+          requests?: number
+          updated_at?: string
+          usage_date?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       app_metrics: {
         Row: {
           created_at: string
@@ -114,6 +150,7 @@ export type Database = {
           id: string
           symbol: string
           timeframe: string
+          timeframes: string[] | null
           type: string
           updated_at: string
           user_id: string
@@ -124,6 +161,7 @@ export type Database = {
           id?: string
           symbol: string
           timeframe: string
+          timeframes?: string[] | null
           type: string
           updated_at?: string
           user_id: string
@@ -134,12 +172,249 @@ export type Database = {
           id?: string
           symbol?: string
           timeframe?: string
+          timeframes?: string[] | null
           type?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      chart_templates: {
+        Row: {
+          created_at: string
+          id: string
+          indicators: Json
+          is_default: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          indicators?: Json
+          is_default?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          indicators?: Json
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      coach_conversations: {
+        Row: {
+          active_symbols: string[]
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          active_symbols?: string[]
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          active_symbols?: string[]
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      coach_messages: {
+        Row: {
+          citations: Json | null
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          citations?: Json | null
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          citations?: Json | null
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coach_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "coach_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      indicator_formulas: {
+        Row: {
+          created_at: string
+          expression: string
+          id: string
+          name: string
+          plot: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expression: string
+          id?: string
+          name: string
+          plot?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expression?: string
+          id?: string
+          name?: string
+          plot?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string
+          created_at: string
+          data: Json
+          id: string
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      portfolios: {
+        Row: {
+          cost_basis_method: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cost_basis_method?: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cost_basis_method?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      price_alerts: {
+        Row: {
+          condition: string
+          created_at: string
+          id: string
+          is_active: boolean
+          last_checked_at: string | null
+          last_value: number | null
+          note: string | null
+          notify_email: boolean
+          params: Json
+          symbol: string
+          threshold: number
+          triggered_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          condition: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string | null
+          last_value?: number | null
+          note?: string | null
+          notify_email?: boolean
+          params?: Json
+          symbol: string
+          threshold?: number
+          triggered_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          condition?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string | null
+          last_value?: number | null
+          note?: string | null
+          notify_email?: boolean
+          params?: Json
+          symbol?: string
+          threshold?: number
+          triggered_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -179,6 +454,142 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_screens: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          sort: Json | null
+          universe: string
+          updated_at: string
+          user_id: string
+          watchlist_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          sort?: Json | null
+          universe: string
+          updated_at?: string
+          user_id: string
+          watchlist_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          sort?: Json | null
+          universe?: string
+          updated_at?: string
+          user_id?: string
+          watchlist_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_screens_watchlist_id_fkey"
+            columns: ["watchlist_id"]
+            isOneToOne: false
+            referencedRelation: "watchlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shared_charts: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          revoked_at: string | null
+          snapshot: Json
+          symbol: string
+          timeframe: string
+          user_id: string
+          view_count: number
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          snapshot: Json
+          symbol: string
+          timeframe: string
+          user_id: string
+          view_count?: number
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          snapshot?: Json
+          symbol?: string
+          timeframe?: string
+          user_id?: string
+          view_count?: number
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          amount: number | null
+          created_at: string
+          executed_at: string
+          fees: number
+          id: string
+          notes: string | null
+          portfolio_id: string
+          price: number | null
+          quantity: number | null
+          split_ratio: number | null
+          symbol: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          executed_at?: string
+          fees?: number
+          id?: string
+          notes?: string | null
+          portfolio_id: string
+          price?: number | null
+          quantity?: number | null
+          split_ratio?: number | null
+          symbol?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          executed_at?: string
+          fees?: number
+          id?: string
+          notes?: string | null
+          portfolio_id?: string
+          price?: number | null
+          quantity?: number | null
+          split_ratio?: number | null
+          symbol?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_portfolio_id_fkey"
+            columns: ["portfolio_id"]
+            isOneToOne: false
+            referencedRelation: "portfolios"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_subscriptions: {
         Row: {
           cancel_at_period_end: boolean | null
@@ -218,26 +629,184 @@ export type Database = {
         }
         Relationships: []
       }
+      verdict_profiles: {
+        Row: {
+          config: Json
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      verdict_snapshot_failures: {
+        Row: {
+          attempts: number
+          last_error: string | null
+          snapshot_date: string
+          symbol: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          last_error?: string | null
+          snapshot_date: string
+          symbol: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          last_error?: string | null
+          snapshot_date?: string
+          symbol?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      verdict_snapshots: {
+        Row: {
+          confidence: number
+          created_at: string
+          full_metrics: Json
+          full_top_metrics: Json
+          fundamentals: Json | null
+          id: string
+          layer_scores: Json
+          metrics: Json
+          price: number | null
+          score: number
+          signal: string
+          snapshot_date: string
+          symbol: string
+          technicals: Json
+          top_metrics: Json
+        }
+        Insert: {
+          confidence: number
+          created_at?: string
+          full_metrics?: Json
+          full_top_metrics?: Json
+          fundamentals?: Json | null
+          id?: string
+          layer_scores: Json
+          metrics?: Json
+          price?: number | null
+          score: number
+          signal: string
+          snapshot_date?: string
+          symbol: string
+          technicals?: Json
+          top_metrics?: Json
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          full_metrics?: Json
+          full_top_metrics?: Json
+          fundamentals?: Json | null
+          id?: string
+          layer_scores?: Json
+          metrics?: Json
+          price?: number | null
+          score?: number
+          signal?: string
+          snapshot_date?: string
+          symbol?: string
+          technicals?: Json
+          top_metrics?: Json
+        }
+        Relationships: []
+      }
       watchlist: {
         Row: {
           created_at: string
           id: string
           name: string
+          notes: string | null
+          position: number
           symbol: string
+          target_price: number | null
+          updated_at: string
           user_id: string
+          watchlist_id: string
         }
         Insert: {
           created_at?: string
           id?: string
           name: string
+          notes?: string | null
+          position?: number
           symbol: string
+          target_price?: number | null
+          updated_at?: string
           user_id: string
+          watchlist_id: string
         }
         Update: {
           created_at?: string
           id?: string
           name?: string
+          notes?: string | null
+          position?: number
           symbol?: string
+          target_price?: number | null
+          updated_at?: string
+          user_id?: string
+          watchlist_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "watchlist_watchlist_id_fkey"
+            columns: ["watchlist_id"]
+            isOneToOne: false
+            referencedRelation: "watchlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      watchlists: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          position: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          position?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          position?: number
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
@@ -247,6 +816,46 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_ai_tokens: {
+        Args: {
+          _completion_tokens: number
+          _feature: string
+          _prompt_tokens: number
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      can_create_watchlist: { Args: { _user_id: string }; Returns: boolean }
+      can_place_watchlist_item: {
+        Args: { _item_id: string; _watchlist_id: string }
+        Returns: boolean
+      }
+      get_latest_verdict_snapshots: {
+        Args: { _max_age_days?: number; _symbols: string[] }
+        Returns: {
+          confidence: number
+          created_at: string
+          full_metrics: Json
+          full_top_metrics: Json
+          fundamentals: Json | null
+          id: string
+          layer_scores: Json
+          metrics: Json
+          price: number | null
+          score: number
+          signal: string
+          snapshot_date: string
+          symbol: string
+          technicals: Json
+          top_metrics: Json
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "verdict_snapshots"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       get_user_subscription: {
         Args: never
         Returns: {
@@ -260,6 +869,72 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_verdict_history: {
+        Args: { _since: string; _symbol: string }
+        Returns: {
+          confidence: number
+          layer_scores: Json
+          metrics: Json
+          price: number | null
+          score: number
+          signal: string
+          snapshot_date: string
+          top_metrics: Json
+        }[]
+      }
+      get_watchlist_limit: {
+        Args: { _feature: string; _user_id: string }
+        Returns: number
+      }
+      reserve_ai_request: {
+        Args: {
+          _feature: string
+          _request_limit: number
+          _token_limit: number
+          _user_id: string
+        }
+        Returns: {
+          allowed: boolean
+          requests_used: number
+          tokens_used: number
+        }[]
+      }
+      search_coach_conversations: {
+        Args: { _query: string }
+        Returns: {
+          active_symbols: string[]
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "coach_conversations"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      set_active_verdict_profile: {
+        Args: { _profile_id: string }
+        Returns: undefined
+      }
+      set_default_chart_template: {
+        Args: { _template_id: string }
+        Returns: undefined
+      }
+      view_shared_chart: {
+        Args: { _share_id: string }
+        Returns: {
+          created_at: string
+          expires_at: string
+          snapshot: Json
+          symbol: string
+          timeframe: string
+          view_count: number
+        }[]
+      }
     }
     Enums: {
       subscription_tier: "free" | "pro" | "elite"
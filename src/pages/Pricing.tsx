@@ -107,6 +107,7 @@ const features = [
     items: [
       { name: "Technical indicators", free: "3 basic", pro: "15+ advanced", elite: "All + custom" },
       { name: "AI sentiment analysis", free: "✗", pro: "Basic", elite: "Advanced" },
+      { name: "AI Coach & Tutor", free: "10 requests/day", pro: "150 requests/day", elite: "Unlimited (fair use)" },
       { name: "Pattern recognition", free: "✗", pro: "✓", elite: "✓" },
       { name: "Correlation analysis", free: "✗", pro: "✗", elite: "✓" },
     ],
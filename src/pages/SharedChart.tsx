@@ -0,0 +1,107 @@
+import { Link, useParams } from "react-router-dom";
+import { Activity, Eye, Link2Off, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import AdvancedChart from "@/components/charts/AdvancedChart";
+import { VerdictGauge } from "@/components/verdict/VerdictGauge";
+import { useSharedChart } from "@/hooks/useSharedCharts";
+import { cn } from "@/lib/utils";
+import type { SharedVerdict } from "@/utils/sharedCharts";
+
+const signalLabels: Record<SharedVerdict["signal"], string> = {
+  extreme_bullish: "Strong Buy",
+  bullish: "Buy",
+  neutral: "Hold",
+  bearish: "Sell",
+  extreme_bearish: "Strong Sell",
+};
+
+/**
+ * Public, read-only view of a chart shared by link. Visitors can pan, zoom
+ * and switch timeframes, but nothing they do is saved.
+ */
+const SharedChart = () => {
+  const { id } = useParams<{ id: string }>();
+  const { sharedChart, loading } = useSharedChart(id);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <nav className="flex items-center justify-between px-4 py-3 lg:px-12 border-b border-border/50">
+        <Link to="/" className="flex items-center gap-2 hover:opacity-80 transition-opacity">
+          <Activity className="w-6 h-6 text-primary" />
+          <span className="text-lg font-bold tracking-tight">Keystone Analytics</span>
+        </Link>
+        <Link to="/auth">
+          <Button size="sm">Try it free</Button>
+        </Link>
+      </nav>
+
+      <main className="flex-1 w-full max-w-6xl mx-auto px-3 py-4 sm:px-6 sm:py-6 space-y-3">
+        {loading ? (
+          <div className="flex items-center justify-center py-32">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : !sharedChart ? (
+          <div className="flex flex-col items-center justify-center gap-3 py-32 text-center">
+            <Link2Off className="w-10 h-10 text-muted-foreground" />
+            <h1 className="text-lg font-semibold">This link is no longer available</h1>
+            <p className="text-sm text-muted-foreground max-w-sm">
+              It may have expired or been revoked by the person who shared it.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <div>
+                <h1 className="text-lg font-semibold tracking-tight">
+                  {sharedChart.symbol} <span className="text-muted-foreground font-mono text-sm">{sharedChart.timeframe}</span>
+                </h1>
+                <p className="text-xs text-muted-foreground">
+                  Shared {new Date(sharedChart.createdAt).toLocaleDateString()} at $
+                  {sharedChart.snapshot.price.toFixed(2)} (
+                  {sharedChart.snapshot.changePercent >= 0 ? "+" : ""}
+                  {sharedChart.snapshot.changePercent.toFixed(2)}%)
+                  {sharedChart.expiresAt && ` · expires ${new Date(sharedChart.expiresAt).toLocaleDateString()}`}
+                  <span className="inline-flex items-center gap-1 ml-2">
+                    <Eye className="w-3 h-3" />
+                    {sharedChart.viewCount}
+                  </span>
+                </p>
+              </div>
+
+              {sharedChart.snapshot.verdict && (
+                <div className="flex items-center gap-3 px-3 py-2 rounded-lg border border-border/50 bg-card">
+                  <VerdictGauge score={sharedChart.snapshot.verdict.score} size={64} animated={false} />
+                  <div>
+                    <p
+                      className={cn(
+                        "text-sm font-semibold",
+                        sharedChart.snapshot.verdict.signal.includes("bullish") && "text-gain",
+                        sharedChart.snapshot.verdict.signal.includes("bearish") && "text-loss"
+                      )}
+                    >
+                      {signalLabels[sharedChart.snapshot.verdict.signal]}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">
+                      Verdict {sharedChart.snapshot.verdict.score}/100 · {sharedChart.snapshot.verdict.confidence}% confidence
+                    </p>
+                    <p className="text-[10px] text-muted-foreground">{sharedChart.snapshot.verdict.profileName}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="h-[560px] rounded-xl border border-border/50 bg-card overflow-hidden">
+              <AdvancedChart symbol={sharedChart.symbol} shared={sharedChart} />
+            </div>
+
+            <p className="text-[10px] text-muted-foreground text-center">
+              Prices are live; indicators, drawings and the verdict are as shared. Not investment advice.
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedChart;
@@ -1,7 +1,10 @@
 import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import AdvancedChart from "@/components/charts/AdvancedChart";
 import { DecisionEngineVerdict } from "@/components/premium/DecisionEngineVerdict";
 import { MasterVerdict } from "@/components/verdict/MasterVerdict";
+import { VerdictBacktest } from "@/components/verdict/VerdictBacktest";
+import { VerdictTimeline } from "@/components/verdict/VerdictTimeline";
 import { StockChatWidget } from "@/components/coach/StockChatWidget";
 import { StockSearch } from "@/components/dashboard/StockSearch";
 import { StockResearchPanel } from "@/components/research/StockResearchPanel";
@@ -13,12 +16,15 @@ import { BentoModule, BentoGrid } from "@/components/ui/bento-module";
 import { motion } from "framer-motion";
 
 const Analysis = () => {
-  const [selectedSymbol, setSelectedSymbol] = useState("AAPL");
+  const [searchParams] = useSearchParams();
+  const [selectedSymbol, setSelectedSymbol] = useState(
+    () => searchParams.get("symbol")?.toUpperCase() || "AAPL"
+  );
   const { quotes } = useQuotes([selectedSymbol]);
   const quote = quotes[0];
   
   // useVerdict now internally fetches technical indicators
-  const { verdict, loading: verdictLoading } = useVerdict({ 
+  const { verdict, candles, loading: verdictLoading } = useVerdict({ 
     symbol: selectedSymbol,
   });
 
@@ -62,6 +68,7 @@ const Analysis = () => {
             <AdvancedChart 
               symbol={selectedSymbol} 
               onSymbolChange={setSelectedSymbol} 
+              verdict={verdict}
             />
           </BentoModule>
         </div>
@@ -80,28 +87,33 @@ const Analysis = () => {
               </BentoModule>
             )}
 
-            {/* Decision Engine Verdict */}
+            {/* Daily verdict score history */}
             <BentoModule size="full" noHeader delay={1}>
+              <VerdictTimeline symbol={selectedSymbol} />
+            </BentoModule>
+
+            {/* Decision Engine Verdict */}
+            <BentoModule size="full" noHeader delay={2}>
               <DecisionEngineVerdict 
                 symbol={selectedSymbol}
-                price={quote?.price}
-                change={quote?.change}
-                changePercent={quote?.changePercent}
+                verdict={verdict}
+                candles={candles}
+                loading={verdictLoading}
               />
             </BentoModule>
 
             {/* Company Fundamentals */}
-            <BentoModule size="full" noHeader delay={2}>
+            <BentoModule size="full" noHeader delay={3}>
               <CompanyFundamentals symbol={selectedSymbol} />
             </BentoModule>
 
             {/* Research Panel */}
-            <BentoModule size="full" noHeader delay={3}>
+            <BentoModule size="full" noHeader delay={4}>
               <StockResearchPanel symbol={selectedSymbol} />
             </BentoModule>
 
             {/* AI Chat Widget */}
-            <BentoModule size="full" noHeader delay={4}>
+            <BentoModule size="full" noHeader delay={5}>
               <StockChatWidget 
                 symbol={selectedSymbol}
                 price={quote?.price}
@@ -111,6 +123,11 @@ const Analysis = () => {
           </BentoGrid>
         </div>
       </div>
+
+      {/* Historical performance of the verdict score */}
+      <BentoModule size="full" noHeader>
+        <VerdictBacktest symbol={selectedSymbol} />
+      </BentoModule>
     </motion.div>
   );
 };
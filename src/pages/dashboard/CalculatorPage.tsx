@@ -1,16 +1,35 @@
+import { useSearchParams } from "react-router-dom";
 import PositionCalculator from "@/components/dashboard/PositionCalculator";
 import { Calculator } from "lucide-react";
 
+const parsePositive = (value: string | null) => {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
 const CalculatorPage = () => {
+  // Portfolio positions link here with their entry and account value prefilled
+  const [searchParams] = useSearchParams();
+  const symbol = searchParams.get("symbol")?.toUpperCase();
+  const entry = parsePositive(searchParams.get("entry"));
+  const balance = parsePositive(searchParams.get("balance"));
+
   return (
     <div className="space-y-6 max-w-md">
       <div className="flex items-center gap-3">
         <Calculator className="w-6 h-6 text-primary" />
         <h1 className="text-2xl font-bold">Position Calculator</h1>
+        {symbol && (
+          <span className="text-sm font-mono text-muted-foreground">{symbol}</span>
+        )}
       </div>
 
       <div className="glass-panel rounded-xl p-6">
-        <PositionCalculator />
+        <PositionCalculator
+          key={searchParams.toString()}
+          defaultEntryPrice={entry}
+          defaultAccountBalance={balance}
+        />
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useSearchParams } from "react-router-dom";
 import { StockCoachChat } from "@/components/coach/StockCoachChat";
+import { CoachHistory } from "@/components/coach/CoachHistory";
 import { MarketDataPanel } from "@/components/coach/MarketDataPanel";
 import { MasterVerdict } from "@/components/verdict/MasterVerdict";
 import { StockSearch } from "@/components/dashboard/StockSearch";
@@ -29,6 +30,8 @@ const LEARNING_TOPICS = [
 const Coach = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const initialSymbol = searchParams.get("symbol") || "";
+  // The open thread lives in the URL so a reload resumes it
+  const conversationId = searchParams.get("thread");
   const [activeSymbol, setActiveSymbol] = useState(initialSymbol || "AAPL");
   const [showSearch, setShowSearch] = useState(false);
   
@@ -37,17 +40,28 @@ const Coach = () => {
     symbol: activeSymbol,
   });
 
+  const updateSearchParams = (key: string, value: string | null) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (value) next.set(key, value);
+      else next.delete(key);
+      return next;
+    }, { replace: key === "thread" });
+  };
+
   const handleSymbolSelect = (symbol: string) => {
     setActiveSymbol(symbol);
-    setSearchParams({ symbol });
+    updateSearchParams("symbol", symbol);
     setShowSearch(false);
   };
 
   const handleSymbolMentioned = (symbol: string) => {
     setActiveSymbol(symbol);
-    setSearchParams({ symbol });
+    updateSearchParams("symbol", symbol);
   };
 
+  const handleConversationChange = (id: string | null) => updateSearchParams("thread", id);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -107,12 +121,25 @@ const Coach = () => {
       </div>
 
       {/* Main Content */}
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 xl:grid-cols-[240px_minmax(0,2fr)_minmax(0,1fr)] gap-6">
+        {/* Conversation History */}
+        <div className="order-last xl:order-first h-72 xl:h-[600px]">
+          <CoachHistory
+            activeId={conversationId}
+            onSelect={handleConversationChange}
+            onNew={() => handleConversationChange(null)}
+            onDeleted={(id) => id === conversationId && handleConversationChange(null)}
+          />
+        </div>
+
         {/* Chat Section - Takes 2 columns */}
-        <div className="lg:col-span-2 h-[600px]">
+        <div className="lg:col-span-2 xl:col-span-1 h-[600px]">
           <StockCoachChat 
             initialSymbol={initialSymbol || undefined}
             onSymbolMentioned={handleSymbolMentioned}
+            persist
+            conversationId={conversationId}
+            onConversationChange={handleConversationChange}
           />
         </div>
 
@@ -0,0 +1,282 @@
+import { useState, useEffect } from "react";
+import { Briefcase, Loader2, Plus } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BentoModule, BentoGrid } from "@/components/ui/bento-module";
+import { PortfolioSwitcher } from "@/components/portfolio/PortfolioSwitcher";
+import { TransactionDialog } from "@/components/portfolio/TransactionDialog";
+import { PositionsTable } from "@/components/portfolio/PositionsTable";
+import { TransactionsTable } from "@/components/portfolio/TransactionsTable";
+import { usePortfolios, usePortfolio } from "@/hooks/usePortfolio";
+import { cn } from "@/lib/utils";
+import type { CostBasisMethod, Position } from "@/utils/portfolio";
+
+const ACTIVE_PORTFOLIO_STORAGE_KEY = "portfolio:active";
+
+const formatCurrency = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value: number | null) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+
+interface StatProps {
+  label: string;
+  value: string;
+  hint?: string;
+  tone?: "gain" | "loss" | "neutral";
+}
+
+function Stat({ label, value, hint, tone = "neutral" }: StatProps) {
+  return (
+    <div className="p-4 rounded-lg bg-muted/30 border border-border/30">
+      <div className="text-[10px] font-medium text-muted-foreground uppercase tracking-wider mb-1">{label}</div>
+      <div
+        className={cn(
+          "text-lg font-semibold font-mono tabular-nums",
+          tone === "gain" && "text-gain",
+          tone === "loss" && "text-loss"
+        )}
+      >
+        {value}
+      </div>
+      {hint && <div className="text-[10px] text-muted-foreground mt-0.5">{hint}</div>}
+    </div>
+  );
+}
+
+const toneOf = (value: number | null) =>
+  value === null || value === 0 ? "neutral" : value > 0 ? "gain" : "loss";
+
+const Portfolio = () => {
+  const {
+    portfolios,
+    isLoading: portfoliosLoading,
+    createPortfolio,
+    isCreating,
+    updatePortfolio,
+    deletePortfolio,
+  } = usePortfolios();
+  const [activeId, setActiveId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_PORTFOLIO_STORAGE_KEY)
+  );
+  const [newName, setNewName] = useState("");
+  const navigate = useNavigate();
+
+  const activePortfolio = portfolios.find((p) => p.id === activeId) ?? portfolios[0] ?? null;
+
+  const {
+    transactions,
+    summary,
+    isLoading: ledgerLoading,
+    quotesLoading,
+    addTransaction,
+    isAdding,
+    deleteTransaction,
+  } = usePortfolio(activePortfolio);
+
+  useEffect(() => {
+    if (activePortfolio) localStorage.setItem(ACTIVE_PORTFOLIO_STORAGE_KEY, activePortfolio.id);
+  }, [activePortfolio]);
+
+  const handleCreateFirst = async () => {
+    if (!newName.trim()) return;
+    try {
+      setActiveId(await createPortfolio(newName));
+      setNewName("");
+    } catch {
+      // Error toast is raised by the hook
+    }
+  };
+
+  const handleViewChart = (symbol: string) => {
+    navigate(`/dashboard?symbol=${symbol}`);
+  };
+
+  const handleSizePosition = (position: Position) => {
+    const params = new URLSearchParams({
+      symbol: position.symbol,
+      entry: position.averageCost.toFixed(2),
+      balance: summary.totalValue.toFixed(2),
+    });
+    navigate(`/dashboard/calculator?${params.toString()}`);
+  };
+
+  if (portfoliosLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="space-y-6"
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+    >
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+            <Briefcase className="w-4 h-4 text-primary" />
+          </div>
+          <h1 className="text-lg font-semibold tracking-tight">Portfolio</h1>
+          {portfolios.length > 0 && (
+            <PortfolioSwitcher
+              portfolios={portfolios}
+              activePortfolio={activePortfolio}
+              onSelect={setActiveId}
+              onCreate={createPortfolio}
+              onRename={(id, name) => updatePortfolio({ id, name })}
+              onDelete={(id) => {
+                deletePortfolio(id);
+                setActiveId(null);
+              }}
+              isCreating={isCreating}
+            />
+          )}
+        </div>
+
+        {activePortfolio && (
+          <div className="flex items-center gap-3">
+            <Select
+              value={activePortfolio.costBasisMethod}
+              onValueChange={(v) => updatePortfolio({ id: activePortfolio.id, costBasisMethod: v as CostBasisMethod })}
+            >
+              <SelectTrigger className="h-9 w-[150px] text-sm border-border/50 bg-muted/30">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fifo" className="text-sm">FIFO lots</SelectItem>
+                <SelectItem value="average" className="text-sm">Average cost</SelectItem>
+              </SelectContent>
+            </Select>
+            <TransactionDialog
+              transactions={transactions}
+              onSubmit={addTransaction}
+              isSubmitting={isAdding}
+            />
+          </div>
+        )}
+      </div>
+
+      <BentoGrid>
+        {/* First portfolio */}
+        {!activePortfolio && (
+          <BentoModule size="full" noHeader className="min-h-[400px]">
+            <div className="flex flex-col items-center justify-center h-full py-16">
+              <div className="w-16 h-16 rounded-2xl bg-muted/50 flex items-center justify-center mb-6">
+                <Briefcase className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h2 className="text-lg font-semibold mb-2">Create your first portfolio</h2>
+              <p className="text-sm text-muted-foreground mb-6 text-center max-w-xs">
+                Record buys, sells, dividends and cash moves to track real cost basis and returns
+              </p>
+              <div className="flex items-center gap-2">
+                <Input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreateFirst()}
+                  placeholder="e.g. Brokerage"
+                  maxLength={50}
+                  className="h-9 w-48 bg-muted/30 border-border/50 text-sm"
+                />
+                <Button
+                  size="sm"
+                  onClick={handleCreateFirst}
+                  disabled={!newName.trim() || isCreating}
+                  className="h-9 gap-1.5 text-sm bg-primary hover:bg-primary/90"
+                >
+                  {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                  Create
+                </Button>
+              </div>
+            </div>
+          </BentoModule>
+        )}
+
+        {activePortfolio && ledgerLoading && (
+          <BentoModule size="full" noHeader>
+            <div className="flex items-center justify-center h-40">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          </BentoModule>
+        )}
+
+        {activePortfolio && !ledgerLoading && (
+          <>
+            <BentoModule size="full" noHeader delay={0}>
+              <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+                <Stat
+                  label="Total Value"
+                  value={formatCurrency(summary.totalValue)}
+                  hint={quotesLoading ? "Updating quotes..." : `Net invested ${formatCurrency(summary.netContributions)}`}
+                />
+                <Stat
+                  label="Cash"
+                  value={formatCurrency(summary.cash)}
+                  hint={`Fees paid ${formatCurrency(summary.fees)}`}
+                />
+                <Stat
+                  label="Unrealized P&L"
+                  value={formatCurrency(summary.unrealizedPnl)}
+                  hint={`Cost basis ${formatCurrency(summary.costBasis)}`}
+                  tone={toneOf(summary.unrealizedPnl)}
+                />
+                <Stat
+                  label="Realized P&L"
+                  value={formatCurrency(summary.realizedPnl)}
+                  hint={`Dividends ${formatCurrency(summary.dividends)}`}
+                  tone={toneOf(summary.realizedPnl)}
+                />
+                <Stat
+                  label="Time-Weighted"
+                  value={formatPercent(summary.timeWeightedReturn)}
+                  hint="Cumulative, excludes cash flows"
+                  tone={toneOf(summary.timeWeightedReturn)}
+                />
+                <Stat
+                  label="Money-Weighted"
+                  value={formatPercent(summary.moneyWeightedReturn)}
+                  hint="Annualized IRR"
+                  tone={toneOf(summary.moneyWeightedReturn)}
+                />
+              </div>
+            </BentoModule>
+
+            <BentoModule size="full" title="Positions" noPadding delay={1}>
+              <PositionsTable
+                positions={summary.positions}
+                onViewChart={handleViewChart}
+                onSizePosition={handleSizePosition}
+              />
+            </BentoModule>
+
+            <BentoModule
+              size="full"
+              title="Transactions"
+              action={<span className="text-xs font-mono text-muted-foreground tabular-nums">{transactions.length}</span>}
+              noPadding
+              delay={2}
+            >
+              <TransactionsTable transactions={transactions} onDelete={deleteTransaction} />
+            </BentoModule>
+          </>
+        )}
+      </BentoGrid>
+    </motion.div>
+  );
+};
+
+export default Portfolio;
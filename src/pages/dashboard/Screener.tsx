@@ -0,0 +1,270 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Download, Filter, Loader2, Lock, Play } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { BentoModule, BentoGrid } from "@/components/ui/bento-module";
+import { ScreenerFilterRow } from "@/components/screener/ScreenerFilterRow";
+import { ScreenerResultsTable } from "@/components/screener/ScreenerResultsTable";
+import { SavedScreensMenu } from "@/components/screener/SavedScreensMenu";
+import { useScreener } from "@/hooks/useScreener";
+import { useSavedScreens, type SavedScreen } from "@/hooks/useSavedScreens";
+import { useWatchlists } from "@/hooks/useWatchlists";
+import { useSubscription } from "@/hooks/useSubscription";
+import {
+  DEFAULT_SCREEN_SORT,
+  SCREENER_FIELDS,
+  SCREENER_FIELD_MAP,
+  SCREENER_UNIVERSES,
+  screenerRowsToCsv,
+  sortScreenerRows,
+  type ScreenFilter,
+  type ScreenSort,
+  type ScreenerFieldGroup,
+  type ScreenerUniverse,
+} from "@/utils/screener";
+
+// Always shown; filtered fields are added after these
+const BASE_COLUMNS = ["score", "signal", "price", "priceChange", "rsi", "peRatio", "marketCap"];
+const MAX_COLUMNS = 12;
+
+const FIELD_GROUPS = [...new Set(SCREENER_FIELDS.map((f) => f.group))] as ScreenerFieldGroup[];
+
+const Screener = () => {
+  const navigate = useNavigate();
+  const { isPro } = useSubscription();
+  const { lists } = useWatchlists();
+  const { screens, saveScreen, isSaving, deleteScreen } = useSavedScreens();
+  const { runScreen, response, isRunning } = useScreener();
+
+  const [universe, setUniverse] = useState<ScreenerUniverse>("sp500");
+  const [watchlistId, setWatchlistId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<ScreenFilter[]>([{ field: "score", min: 60 }]);
+  const [sort, setSort] = useState<ScreenSort>(DEFAULT_SCREEN_SORT);
+  const [activeScreenId, setActiveScreenId] = useState<string | null>(null);
+
+  const activeScreen = screens.find((s) => s.id === activeScreenId) ?? null;
+  const effectiveWatchlistId = watchlistId ?? lists[0]?.id ?? null;
+  const isLocked = (fieldId: string) => !isPro && !!SCREENER_FIELD_MAP.get(fieldId)?.premium;
+
+  const columns = useMemo(() => {
+    const filtered = filters.map((f) => f.field).filter((id) => !BASE_COLUMNS.includes(id));
+    return [...BASE_COLUMNS, ...new Set(filtered)].slice(0, MAX_COLUMNS);
+  }, [filters]);
+
+  const rows = useMemo(
+    () => (response ? sortScreenerRows(response.results, sort) : []),
+    [response, sort]
+  );
+
+  const addFilter = (fieldId: string) => {
+    const field = SCREENER_FIELD_MAP.get(fieldId);
+    if (!field) return;
+    setFilters((prev) => [...prev, field.kind === "enum" ? { field: fieldId, values: [] } : { field: fieldId }]);
+  };
+
+  const handleRun = () => {
+    runScreen({ universe, watchlistId: effectiveWatchlistId, filters });
+  };
+
+  const handleLoad = (screen: SavedScreen) => {
+    setActiveScreenId(screen.id);
+    setUniverse(screen.universe);
+    setWatchlistId(screen.watchlistId);
+    setFilters(screen.filters);
+    setSort(screen.sort);
+    runScreen({ universe: screen.universe, watchlistId: screen.watchlistId ?? lists[0]?.id, filters: screen.filters });
+  };
+
+  const handleSave = async (id: string | undefined, name: string) => {
+    const savedId = await saveScreen({ id, name, universe, watchlistId: effectiveWatchlistId, filters, sort });
+    setActiveScreenId(savedId);
+    return savedId;
+  };
+
+  const handleExport = () => {
+    const csv = screenerRowsToCsv(rows, columns);
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${(activeScreen?.name ?? `screen-${universe}`).replace(/[^\w-]+/g, "-").toLowerCase()}-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const canRun = universe !== "watchlist" || !!effectiveWatchlistId;
+  const hasLockedFilter = filters.some((f) => isLocked(f.field));
+
+  return (
+    <motion.div
+      className="space-y-6"
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+    >
+      {/* Page Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center">
+            <Filter className="w-4 h-4 text-primary" />
+          </div>
+          <h1 className="text-lg font-semibold tracking-tight">Screener</h1>
+          <SavedScreensMenu
+            screens={screens}
+            activeScreen={activeScreen}
+            onLoad={handleLoad}
+            onSave={handleSave}
+            onDelete={(id) => {
+              deleteScreen(id);
+              setActiveScreenId(null);
+            }}
+            isSaving={isSaving}
+          />
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Select value={universe} onValueChange={(v) => setUniverse(v as ScreenerUniverse)}>
+            <SelectTrigger className="h-9 w-[140px] text-sm border-border/50 bg-muted/30">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCREENER_UNIVERSES.map((u) => (
+                <SelectItem key={u.id} value={u.id} className="text-sm">{u.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {universe === "watchlist" && (
+            <Select value={effectiveWatchlistId ?? ""} onValueChange={setWatchlistId}>
+              <SelectTrigger className="h-9 w-[160px] text-sm border-border/50 bg-muted/30">
+                <SelectValue placeholder="No watchlists" />
+              </SelectTrigger>
+              <SelectContent>
+                {lists.map((list) => (
+                  <SelectItem key={list.id} value={list.id} className="text-sm">{list.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            size="sm"
+            onClick={handleRun}
+            disabled={!canRun || isRunning || hasLockedFilter}
+            className="h-9 gap-1.5 text-sm bg-primary hover:bg-primary/90"
+          >
+            {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+            Run
+          </Button>
+        </div>
+      </div>
+
+      <BentoGrid>
+        <BentoModule
+          size="full"
+          title="Filters"
+          delay={0}
+          action={
+            <Select value="" onValueChange={addFilter}>
+              <SelectTrigger className="h-8 w-[150px] text-xs border-border/50 bg-muted/30">
+                <SelectValue placeholder="Add filter" />
+              </SelectTrigger>
+              <SelectContent className="max-h-80">
+                {FIELD_GROUPS.map((group) => (
+                  <SelectGroup key={group}>
+                    <SelectLabel className="text-[10px] uppercase tracking-wide text-muted-foreground">{group}</SelectLabel>
+                    {SCREENER_FIELDS.filter((f) => f.group === group).map((field) => (
+                      <SelectItem key={field.id} value={field.id} disabled={isLocked(field.id)} className="text-xs">
+                        <span className="flex items-center gap-1.5">
+                          {isLocked(field.id) && <Lock className="w-3 h-3" />}
+                          {field.label}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          }
+        >
+          <div className="space-y-2">
+            {filters.length === 0 && (
+              <p className="text-xs text-muted-foreground py-2">
+                No filters: every stock in the universe is returned, ranked by verdict score.
+              </p>
+            )}
+            {filters.map((filter, index) => (
+              <ScreenerFilterRow
+                key={`${filter.field}-${index}`}
+                filter={filter}
+                locked={isLocked(filter.field)}
+                onChange={(next) => setFilters((prev) => prev.map((f, i) => (i === index ? next : f)))}
+                onRemove={() => setFilters((prev) => prev.filter((_, i) => i !== index))}
+              />
+            ))}
+            {hasLockedFilter && (
+              <p className="text-[11px] text-muted-foreground">
+                Locked filters use premium fundamentals. Remove them or upgrade to Pro to run this screen.
+              </p>
+            )}
+          </div>
+        </BentoModule>
+
+        <BentoModule
+          size="full"
+          title={response ? `Results · ${rows.length} of ${response.evaluated}` : "Results"}
+          noPadding
+          delay={1}
+          action={
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleExport}
+              disabled={rows.length === 0}
+              className="h-8 gap-1.5 text-xs"
+            >
+              <Download className="w-3 h-3" />
+              Export CSV
+            </Button>
+          }
+        >
+          {isRunning ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !response ? (
+            <div className="text-center py-10">
+              <p className="text-sm text-muted-foreground">Set your filters and press Run</p>
+              <p className="text-xs text-muted-foreground/70">Scores come from the daily Master Verdict snapshot</p>
+            </div>
+          ) : (
+            <>
+              <ScreenerResultsTable
+                rows={rows}
+                columns={columns}
+                sort={sort}
+                onSortChange={setSort}
+                onViewChart={(symbol) => navigate(`/dashboard/analysis?symbol=${symbol}`)}
+              />
+              {response.unavailable.length > 0 && (
+                <p className="px-4 py-3 text-[10px] text-muted-foreground border-t border-border/30">
+                  No recent data for {response.unavailable.length} of {response.universeSize} symbols
+                  {response.unavailable.length <= 10 && ` (${response.unavailable.join(", ")})`}.
+                </p>
+              )}
+            </>
+          )}
+        </BentoModule>
+      </BentoGrid>
+    </motion.div>
+  );
+};
+
+export default Screener;
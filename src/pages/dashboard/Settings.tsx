@@ -12,6 +12,8 @@ import { useOnboarding } from "@/hooks/useOnboarding";
 import { Link } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { BentoModule, BentoGrid } from "@/components/ui/bento-module";
+import { StrategyProfilesPanel } from "@/components/verdict/StrategyProfilesPanel";
+import { AiUsageMeter } from "@/components/premium/AiUsageMeter";
 import { motion } from "framer-motion";
 import { useTheme } from "next-themes";
 import {
@@ -327,6 +329,11 @@ const Settings = () => {
               </div>
             </div>
 
+            <div className="pt-3 border-t border-border/30">
+              <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-2">AI Usage Today</p>
+              <AiUsageMeter />
+            </div>
+
             {isPro && (
               <div className="pt-3 border-t border-border/30">
                 <p className="text-[10px] text-muted-foreground uppercase tracking-wider mb-2">Benefits</p>
@@ -448,8 +455,13 @@ const Settings = () => {
           </div>
         </BentoModule>
 
+        {/* Strategy Profiles Section */}
+        <BentoModule size="full" title="Strategy Profiles" delay={4}>
+          <StrategyProfilesPanel />
+        </BentoModule>
+
         {/* Appearance Section */}
-        <BentoModule size="full" title="Appearance" delay={4}>
+        <BentoModule size="full" title="Appearance" delay={5}>
           <div className="space-y-4">
             <div className="flex items-center justify-between py-1">
               <div>
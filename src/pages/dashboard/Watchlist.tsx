@@ -1,25 +1,238 @@
-import { useState } from "react";
-import { Star, Search, TrendingUp, TrendingDown, Trash2, Loader2, BarChart3 } from "lucide-react";
+import { useState, useEffect } from "react";
+import { Star, Search, TrendingUp, TrendingDown, Trash2, Loader2, BarChart3, Bell, GripVertical, Pencil, Target } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
-import { useWatchlist } from "@/hooks/useWatchlist";
+import { useWatchlist, type WatchlistItem } from "@/hooks/useWatchlist";
+import { useWatchlists, type Watchlist as WatchlistList } from "@/hooks/useWatchlists";
 import { AddAssetDialog } from "@/components/dashboard/AddAssetDialog";
+import { WatchlistSwitcher } from "@/components/dashboard/WatchlistSwitcher";
+import { WatchlistItemDialog } from "@/components/dashboard/WatchlistItemDialog";
+import { PriceAlertDialog } from "@/components/dashboard/PriceAlertDialog";
+import { PriceAlertsPanel } from "@/components/dashboard/PriceAlertsPanel";
 import { useNavigate } from "react-router-dom";
 import { BentoModule, BentoGrid } from "@/components/ui/bento-module";
-import { motion } from "framer-motion";
+import { motion, Reorder, useDragControls } from "framer-motion";
+
+interface WatchlistRowProps {
+  item: WatchlistItem;
+  index: number;
+  lists: WatchlistList[];
+  draggable: boolean;
+  onViewChart: (symbol: string) => void;
+  onRemove: (id: string) => void;
+  onSave: (id: string, updates: { notes: string | null; targetPrice: number | null }) => Promise<boolean>;
+  onMove: (id: string, watchlistId: string) => Promise<boolean>;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}
+
+function WatchlistRow({ item, index, lists, draggable, onViewChart, onRemove, onSave, onMove, onDragStart, onDragEnd }: WatchlistRowProps) {
+  const dragControls = useDragControls();
+  const isPositive = item.change >= 0;
+  const targetDistance = item.targetPrice && item.price > 0
+    ? ((item.targetPrice - item.price) / item.price) * 100
+    : null;
+
+  return (
+    <Reorder.Item
+      as="tr"
+      value={item}
+      dragListener={false}
+      dragControls={dragControls}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      className="hover:bg-muted/30 transition-colors duration-200 cursor-pointer group bg-card"
+      onClick={() => onViewChart(item.symbol)}
+      initial={{ opacity: 0, y: 4 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.03 }}
+    >
+      <td className="pl-2 py-3 w-6">
+        {draggable && (
+          <button
+            onPointerDown={(e) => dragControls.start(e)}
+            onClick={(e) => e.stopPropagation()}
+            className="p-1 cursor-grab active:cursor-grabbing text-muted-foreground/50 hover:text-muted-foreground touch-none"
+            title="Drag to reorder"
+          >
+            <GripVertical className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </td>
+      <td className="px-4 py-3">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-muted/50 flex items-center justify-center group-hover:bg-primary/10 transition-colors">
+            <span className="text-[10px] font-bold font-mono text-muted-foreground group-hover:text-primary">
+              {item.symbol.slice(0, 2)}
+            </span>
+          </div>
+          <div className="min-w-0">
+            <div className="text-sm font-semibold font-mono group-hover:text-primary transition-colors">
+              {item.symbol}
+            </div>
+            <div className="text-xs text-muted-foreground truncate max-w-[120px]">
+              {item.name}
+            </div>
+            {item.notes && (
+              <div className="text-[10px] text-muted-foreground/70 truncate max-w-[200px]" title={item.notes}>
+                {item.notes}
+              </div>
+            )}
+          </div>
+        </div>
+      </td>
+      <td className="px-4 py-3 text-right">
+        <span className="text-sm font-mono font-medium tabular-nums">
+          ${item.price.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+        </span>
+      </td>
+      <td className="px-4 py-3 text-right">
+        <span className={cn(
+          "inline-flex items-center gap-1 text-xs font-mono tabular-nums px-2 py-0.5 rounded",
+          isPositive 
+            ? "text-gain bg-gain/10" 
+            : "text-loss bg-loss/10"
+        )}>
+          {isPositive ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+          {isPositive ? "+" : ""}{item.changePercent.toFixed(2)}%
+        </span>
+      </td>
+      <td className="px-4 py-3 text-right hidden md:table-cell">
+        {item.targetPrice ? (
+          <div className="flex flex-col items-end">
+            <span className="text-xs font-mono tabular-nums">
+              ${item.targetPrice.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+            </span>
+            {targetDistance !== null && (
+              <span className={cn(
+                "text-[10px] font-mono tabular-nums",
+                targetDistance >= 0 ? "text-gain" : "text-loss"
+              )}>
+                {targetDistance >= 0 ? "+" : ""}{targetDistance.toFixed(1)}%
+              </span>
+            )}
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">—</span>
+        )}
+      </td>
+      <td className="px-4 py-3 text-right hidden lg:table-cell">
+        <span className="text-xs font-mono text-muted-foreground tabular-nums">
+          ${item.high24h?.toLocaleString() || "—"}
+        </span>
+      </td>
+      <td className="px-4 py-3 text-right hidden lg:table-cell">
+        <span className="text-xs font-mono text-muted-foreground tabular-nums">
+          ${item.low24h?.toLocaleString() || "—"}
+        </span>
+      </td>
+      <td className="px-4 py-3">
+        <div className="flex items-center justify-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              onViewChart(item.symbol);
+            }}
+            className="h-7 w-7 p-0 text-muted-foreground hover:text-primary"
+          >
+            <BarChart3 className="w-3.5 h-3.5" />
+          </Button>
+          <div onClick={(e) => e.stopPropagation()}>
+            <WatchlistItemDialog
+              item={item}
+              lists={lists}
+              onSave={onSave}
+              onMove={onMove}
+              trigger={
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-muted-foreground hover:text-primary"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </Button>
+              }
+            />
+          </div>
+          <div onClick={(e) => e.stopPropagation()}>
+            <PriceAlertDialog
+              symbol={item.symbol}
+              trigger={
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-muted-foreground hover:text-primary"
+                >
+                  <Bell className="w-3.5 h-3.5" />
+                </Button>
+              }
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove(item.id);
+            }}
+            className="h-7 w-7 p-0 text-muted-foreground hover:text-loss hover:bg-loss/10"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      </td>
+    </Reorder.Item>
+  );
+}
 
 const Watchlist = () => {
-  const { watchlist, loading, addToWatchlist, removeFromWatchlist } = useWatchlist();
+  const {
+    lists,
+    activeList,
+    setActiveListId,
+    loading: listsLoading,
+    canCreateList,
+    createList,
+    renameList,
+    deleteList,
+  } = useWatchlists();
+  const {
+    watchlist,
+    loading: itemsLoading,
+    addToWatchlist,
+    removeFromWatchlist,
+    reorderItems,
+    updateItem,
+    moveToList,
+  } = useWatchlist(activeList?.id);
   const [searchQuery, setSearchQuery] = useState("");
+  const [orderedItems, setOrderedItems] = useState<WatchlistItem[]>([]);
+  // From drag start until the new order is saved
+  const [isReordering, setIsReordering] = useState(false);
   const navigate = useNavigate();
+  const loading = listsLoading || itemsLoading;
+
+  // Local copy so rows can move while dragging; persisted on drop. The price
+  // refresh must not snap rows back mid-drag or before the new order is saved.
+  useEffect(() => {
+    if (isReordering) return;
+    setOrderedItems(watchlist);
+  }, [watchlist, isReordering]);
 
-  const filteredWatchlist = watchlist.filter(
+  const isSearching = searchQuery.trim().length > 0;
+  const filteredWatchlist = orderedItems.filter(
     (item) =>
       item.symbol.toLowerCase().includes(searchQuery.toLowerCase()) ||
       item.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const handleDragEnd = () => {
+    reorderItems(orderedItems.map((item) => item.id)).finally(() => setIsReordering(false));
+  };
+
   const handleViewChart = (symbol: string) => {
     navigate(`/dashboard?symbol=${symbol}`);
   };
@@ -46,6 +259,15 @@ const Watchlist = () => {
             <Star className="w-4 h-4 text-primary" />
           </div>
           <h1 className="text-lg font-semibold tracking-tight">Watchlist</h1>
+          <WatchlistSwitcher
+            lists={lists}
+            activeList={activeList}
+            onSelect={setActiveListId}
+            onCreate={createList}
+            onRename={renameList}
+            onDelete={deleteList}
+            canCreate={canCreateList}
+          />
           <span className="text-xs font-mono text-muted-foreground tabular-nums">
             {watchlist.length} assets
           </span>
@@ -89,100 +311,41 @@ const Watchlist = () => {
               <table className="w-full">
                 <thead className="border-b border-border/50">
                   <tr>
+                    <th className="w-6" />
                     <th className="text-left text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Asset</th>
                     <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Price</th>
                     <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3">Change</th>
+                    <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 hidden md:table-cell">
+                      <span className="inline-flex items-center gap-1"><Target className="w-3 h-3" />Target</span>
+                    </th>
                     <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 hidden lg:table-cell">High</th>
                     <th className="text-right text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 hidden lg:table-cell">Low</th>
-                    <th className="text-center text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 w-24">Actions</th>
+                    <th className="text-center text-[10px] font-medium text-muted-foreground uppercase tracking-wider px-4 py-3 w-40">Actions</th>
                   </tr>
                 </thead>
-                <tbody className="divide-y divide-border/30">
-                  {filteredWatchlist.map((item, index) => {
-                    const isPositive = item.change >= 0;
-                    
-                    return (
-                      <motion.tr 
-                        key={item.id} 
-                        className="hover:bg-muted/30 transition-colors duration-200 cursor-pointer group"
-                        onClick={() => handleViewChart(item.symbol)}
-                        initial={{ opacity: 0, y: 4 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: index * 0.03 }}
-                      >
-                        <td className="px-4 py-3">
-                          <div className="flex items-center gap-3">
-                            <div className="w-8 h-8 rounded-lg bg-muted/50 flex items-center justify-center group-hover:bg-primary/10 transition-colors">
-                              <span className="text-[10px] font-bold font-mono text-muted-foreground group-hover:text-primary">
-                                {item.symbol.slice(0, 2)}
-                              </span>
-                            </div>
-                            <div>
-                              <div className="text-sm font-semibold font-mono group-hover:text-primary transition-colors">
-                                {item.symbol}
-                              </div>
-                              <div className="text-xs text-muted-foreground truncate max-w-[120px]">
-                                {item.name}
-                              </div>
-                            </div>
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          <span className="text-sm font-mono font-medium tabular-nums">
-                            ${item.price.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                          </span>
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          <span className={cn(
-                            "inline-flex items-center gap-1 text-xs font-mono tabular-nums px-2 py-0.5 rounded",
-                            isPositive 
-                              ? "text-gain bg-gain/10" 
-                              : "text-loss bg-loss/10"
-                          )}>
-                            {isPositive ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
-                            {isPositive ? "+" : ""}{item.changePercent.toFixed(2)}%
-                          </span>
-                        </td>
-                        <td className="px-4 py-3 text-right hidden lg:table-cell">
-                          <span className="text-xs font-mono text-muted-foreground tabular-nums">
-                            ${item.high24h?.toLocaleString() || "—"}
-                          </span>
-                        </td>
-                        <td className="px-4 py-3 text-right hidden lg:table-cell">
-                          <span className="text-xs font-mono text-muted-foreground tabular-nums">
-                            ${item.low24h?.toLocaleString() || "—"}
-                          </span>
-                        </td>
-                        <td className="px-4 py-3">
-                          <div className="flex items-center justify-center gap-1">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleViewChart(item.symbol);
-                              }}
-                              className="h-7 w-7 p-0 text-muted-foreground hover:text-primary"
-                            >
-                              <BarChart3 className="w-3.5 h-3.5" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                removeFromWatchlist(item.id);
-                              }}
-                              className="h-7 w-7 p-0 text-muted-foreground hover:text-loss hover:bg-loss/10"
-                            >
-                              <Trash2 className="w-3.5 h-3.5" />
-                            </Button>
-                          </div>
-                        </td>
-                      </motion.tr>
-                    );
-                  })}
-                </tbody>
+                <Reorder.Group
+                  as="tbody"
+                  axis="y"
+                  values={orderedItems}
+                  onReorder={setOrderedItems}
+                  className="divide-y divide-border/30"
+                >
+                  {filteredWatchlist.map((item, index) => (
+                    <WatchlistRow
+                      key={item.id}
+                      item={item}
+                      index={index}
+                      lists={lists}
+                      draggable={!isSearching}
+                      onViewChart={handleViewChart}
+                      onRemove={removeFromWatchlist}
+                      onSave={updateItem}
+                      onMove={moveToList}
+                      onDragStart={() => setIsReordering(true)}
+                      onDragEnd={handleDragEnd}
+                    />
+                  ))}
+                </Reorder.Group>
               </table>
             </div>
 
@@ -194,6 +357,8 @@ const Watchlist = () => {
             )}
           </BentoModule>
         )}
+
+        <PriceAlertsPanel delay={1} />
       </BentoGrid>
     </motion.div>
   );
@@ -117,6 +117,72 @@ export const QUICK_EXPLANATIONS: Record<string, { title: string; brief: string }
   trend: {
     title: "Trend",
     brief: "Overall direction of price movement. Uptrend = higher highs, downtrend = lower lows."
+  },
+
+  // Candlestick Patterns
+  candlestick_patterns: {
+    title: "Candlestick Patterns",
+    brief: "One- to three-bar shapes that hint at a reversal or continuation. Stronger after a clear trend and with confirmation."
+  },
+  doji: {
+    title: "Doji",
+    brief: "Open and close almost equal. Buyers and sellers are balanced - indecision that can precede a turn."
+  },
+  hammer: {
+    title: "Hammer",
+    brief: "Small body with a long lower shadow after a decline. Sellers pushed lower but buyers took it back - possible bottom."
+  },
+  hanging_man: {
+    title: "Hanging Man",
+    brief: "Hammer-shaped bar after a rally. Shows selling pressure appearing - possible top if the next bar confirms."
+  },
+  inverted_hammer: {
+    title: "Inverted Hammer",
+    brief: "Small body with a long upper shadow after a decline. Buyers are testing higher - possible bottom."
+  },
+  shooting_star: {
+    title: "Shooting Star",
+    brief: "Small body with a long upper shadow after a rally. Buyers were rejected at the highs - possible top."
+  },
+  bullish_engulfing: {
+    title: "Bullish Engulfing",
+    brief: "An up bar whose body fully covers the prior down bar. Buyers have taken control - bullish reversal."
+  },
+  bearish_engulfing: {
+    title: "Bearish Engulfing",
+    brief: "A down bar whose body fully covers the prior up bar. Sellers have taken control - bearish reversal."
+  },
+  bullish_harami: {
+    title: "Bullish Harami",
+    brief: "A small bar inside the prior long down bar. Selling is losing momentum - early sign of a bottom."
+  },
+  bearish_harami: {
+    title: "Bearish Harami",
+    brief: "A small bar inside the prior long up bar. Buying is losing momentum - early sign of a top."
+  },
+  piercing_line: {
+    title: "Piercing Line",
+    brief: "After a long down bar, price opens lower but closes above its midpoint. Buyers are stepping in."
+  },
+  dark_cloud_cover: {
+    title: "Dark Cloud Cover",
+    brief: "After a long up bar, price opens higher but closes below its midpoint. Sellers are stepping in."
+  },
+  morning_star: {
+    title: "Morning Star",
+    brief: "Long down bar, small indecisive bar, then a strong up bar. A classic three-bar bottom."
+  },
+  evening_star: {
+    title: "Evening Star",
+    brief: "Long up bar, small indecisive bar, then a strong down bar. A classic three-bar top."
+  },
+  three_white_soldiers: {
+    title: "Three White Soldiers",
+    brief: "Three strong up bars, each closing higher. Steady buying - bullish reversal or continuation."
+  },
+  three_black_crows: {
+    title: "Three Black Crows",
+    brief: "Three strong down bars, each closing lower. Steady selling - bearish reversal or continuation."
   }
 };
 
@@ -134,6 +200,7 @@ export const EDUCATIONAL_TOPICS: EducationalTopic[] = [
   { id: "breakout", title: "Breakouts", category: "Patterns", icon: "💥" },
   { id: "trend", title: "Trend Analysis", category: "Patterns", icon: "📐" },
   { id: "support", title: "Support & Resistance", category: "Patterns", icon: "🧱" },
+  { id: "candlestick_patterns", title: "Candlestick Patterns", category: "Patterns", icon: "🕯️" },
   
   // Valuation
   { id: "pe_ratio", title: "P/E Ratio", category: "Valuation", icon: "💰" },
@@ -33,28 +33,50 @@ export interface SearchResult {
 export type TimeframeType = "1H" | "4H" | "1D" | "1W" | "1M" | "3M" | "1Y";
 
 // Chart drawing types for technical analysis
-export type DrawingType = "trendline" | "fibonacci" | "horizontal" | "annotation";
+export type DrawingType =
+  | "trendline"
+  | "ray"
+  | "channel"
+  | "horizontal"
+  | "vertical"
+  | "rectangle"
+  | "fibonacci"
+  | "fib_extension"
+  | "measure"
+  | "annotation"
+  | "anchored_vwap";
+
+export type DrawingLineStyle = "solid" | "dashed" | "dotted";
 
 export interface ChartDrawing {
   id: string;
   user_id: string;
   symbol: string;
-  timeframe: string;
+  timeframe: string; // timeframe the drawing was made on
+  timeframes: string[] | null; // timeframes it shows on; null shows it on all of them
   type: DrawingType;
   data: DrawingData;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Times are chart times of the bar a point sits on: YYYY-MM-DD for daily and
+ * longer bars, an ISO timestamp for intraday ones. They are placed on any
+ * resolution by interpolating between the bars around them.
+ */
 export interface DrawingData {
   // Common fields
   color?: string;
   lineWidth?: number;
-  // Trendline: two points
+  lineStyle?: DrawingLineStyle;
+  // Trendline, ray, channel, rectangle, measure: two points
   startPrice?: number;
   startTime?: string;
   endPrice?: number;
   endTime?: string;
+  // Channel: price distance of the parallel line from the trendline
+  channelOffset?: number;
   // Horizontal line
   price?: number;
   // Fibonacci
@@ -63,34 +85,66 @@ export interface DrawingData {
   highTime?: string;
   lowTime?: string;
   levels?: number[];
-  // Annotation
+  // Fib extension: the start -> end move projected from this third point
+  thirdPrice?: number;
+  thirdTime?: string;
+  // Annotation, vertical line; anchored VWAP uses `time` (anchor bar) and `price` (handle)
   text?: string;
   time?: string;
 }
 
+// Auto-detected level or trendline shown on the chart until accepted or dismissed
+export interface SuggestedDrawing {
+  id: string;
+  type: Extract<DrawingType, "horizontal" | "trendline">;
+  data: DrawingData;
+  label: string;
+  strength: number; // 0-100
+}
+
 export interface EnrichedCandle extends Candle {
   isUp: boolean;
   body: [number, number];
-  sma20?: number | null;
-  sma50?: number | null;
-  ema12?: number | null;
-  ema26?: number | null;
-  bbUpper?: number | null;
-  bbMiddle?: number | null;
-  bbLower?: number | null;
-  vwap?: number | null;
-  rsi?: number | null;
-  macd?: number | null;
-  macdSignal?: number | null;
-  macdHistogram?: number | null;
+  // Indicator outputs keyed by `${indicatorId}.${output}` (see seriesKey)
+  series: Record<string, number | null>;
 }
 
-export interface ChartIndicator {
-  id: string;
+export type IndicatorKind =
+  | "sma"
+  | "ema"
+  | "bb"
+  | "vwap"
+  | "ichimoku"
+  | "keltner"
+  | "donchian"
+  | "supertrend"
+  | "psar"
+  | "rsi"
+  | "macd"
+  | "stoch"
+  | "adx"
+  | "obv"
+  | "atr"
+  | "formula";
+
+export type PriceSource = "close" | "open" | "high" | "low" | "hl2" | "hlc3" | "ohlc4";
+
+// User-written expression plotted by a "formula" instance (see utils/indicatorFormula)
+export interface IndicatorFormula {
   name: string;
-  shortName: string;
+  expression: string;
+  plot: "overlay" | "oscillator";
+}
+
+// One configured instance of an indicator on the chart
+export interface ChartIndicator {
+  id: string; // unique per chart; a kind can have any number of instances
+  kind: IndicatorKind;
   type: "overlay" | "oscillator";
   enabled: boolean;
   color: string;
+  lineWidth: number;
+  source: PriceSource; // ignored by indicators that use the full bar
   params: Record<string, number>;
+  formula?: IndicatorFormula; // only for kind "formula"
 }
@@ -0,0 +1,305 @@
+/**
+ * Verdict Backtester
+ * Replays historical candles through the technical layer of the verdict engine
+ * bar by bar and trades the resulting signal transitions.
+ *
+ * Only the technical layer is replayed: fundamentals, sentiment and macro have
+ * no point-in-time history here, so including them would leak today's values
+ * into the past.
+ */
+
+import type { Candle } from "@/types/market";
+import { deriveTechnicalIndicatorHistory } from "@/utils/technicalIndicators";
+import {
+  applyMetricWeights,
+  calculateLayerScore,
+  calculateTechnicalMetrics,
+  DEFAULT_VERDICT_PROFILE,
+  getSignalFromScore,
+  SIGNAL_THRESHOLDS,
+  type VerdictProfileConfig,
+  type VerdictResult,
+} from "@shared/verdictEngine";
+
+export type VerdictSignal = VerdictResult['signal'];
+export type BacktestPosition = -1 | 0 | 1;
+
+export interface BacktestConfig {
+  entryScore: number; // go long at or above this score
+  exitScore: number; // exit longs (or go short) below this score
+  allowShort: boolean;
+  slippageBps: number; // applied against us on every fill
+  commissionBps: number; // charged on traded notional
+  initialCapital: number;
+  warmupBars: number; // bars needed before the first score (50-day MA)
+  barsPerYear: number; // annualization for Sharpe
+  forwardHorizons: number[]; // bars ahead for the signal-bucket table
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  entryScore: SIGNAL_THRESHOLDS.bullish,
+  exitScore: SIGNAL_THRESHOLDS.neutral,
+  allowShort: false,
+  slippageBps: 5,
+  commissionBps: 1,
+  initialCapital: 10000,
+  warmupBars: 50,
+  barsPerYear: 252,
+  forwardHorizons: [5, 10, 20],
+};
+
+export interface EquityPoint {
+  timestamp: number; // seconds, from the candle
+  equity: number;
+  benchmark: number; // buy & hold from the first scored bar
+  score: number;
+  position: BacktestPosition;
+}
+
+export interface BacktestTrade {
+  direction: 'long' | 'short';
+  entryTimestamp: number;
+  entryPrice: number; // fill price incl. slippage
+  exitTimestamp: number;
+  exitPrice: number;
+  bars: number;
+  return: number; // net of slippage and commissions
+  open: boolean; // still open at the end, marked to the last close
+}
+
+export interface HorizonStats {
+  horizon: number;
+  samples: number;
+  averageReturn: number | null;
+  hitRate: number | null; // share of samples with a positive forward return
+}
+
+export interface SignalBucketStats {
+  signal: VerdictSignal;
+  bars: number;
+  horizons: HorizonStats[];
+}
+
+export interface BacktestMetrics {
+  totalReturn: number;
+  cagr: number | null;
+  maxDrawdown: number; // positive fraction, e.g. 0.18 = -18% peak to trough
+  sharpe: number | null;
+  hitRate: number | null; // winning closed trades / closed trades
+  tradeCount: number;
+  exposure: number; // share of bars with an open position
+  benchmarkReturn: number;
+  benchmarkCagr: number | null;
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  profileName: string;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+  metrics: BacktestMetrics;
+  buckets: SignalBucketStats[];
+}
+
+const SIGNAL_ORDER: VerdictSignal[] = ['extreme_bullish', 'bullish', 'neutral', 'bearish', 'extreme_bearish'];
+const SECONDS_PER_YEAR = 365.25 * 24 * 60 * 60;
+
+/**
+ * Technical-layer score for every bar, computed only from candles up to and
+ * including that bar. The indicator series are computed once over the whole
+ * history; they are causal, so each bar sees the same EMA/RSI seeding as the
+ * live verdict would have. Uses the profile's technical thresholds and
+ * metric weights; layer weights do not apply to a single layer.
+ */
+export function scoreHistory(
+  candles: Candle[],
+  warmupBars = DEFAULT_BACKTEST_CONFIG.warmupBars,
+  profile: VerdictProfileConfig = DEFAULT_VERDICT_PROFILE.config
+): (number | null)[] {
+  const history = deriveTechnicalIndicatorHistory(candles);
+  return history.map((indicators, i) => {
+    if (i + 1 < warmupBars) return null;
+    const metrics = calculateTechnicalMetrics(indicators, profile.thresholds);
+    return calculateLayerScore(applyMetricWeights(metrics, profile.metricWeights));
+  });
+}
+
+function targetPosition(score: number, current: BacktestPosition, config: BacktestConfig): BacktestPosition {
+  if (score >= config.entryScore) return 1;
+  if (score < config.exitScore) return config.allowShort ? -1 : 0;
+  // Between the thresholds: hold whatever we have
+  return current;
+}
+
+function annualize(growth: number, years: number): number | null {
+  if (years <= 0 || growth <= 0) return null;
+  return Math.pow(growth, 1 / years) - 1;
+}
+
+function calculateMaxDrawdown(values: number[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  for (const value of values) {
+    peak = Math.max(peak, value);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+  }
+  return maxDrawdown;
+}
+
+function calculateSharpe(values: number[], barsPerYear: number): number | null {
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    if (values[i - 1] > 0) returns.push(values[i] / values[i - 1] - 1);
+  }
+  if (returns.length < 2) return null;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  return std > 0 ? (mean / std) * Math.sqrt(barsPerYear) : null;
+}
+
+function buildBucketStats(candles: Candle[], scores: (number | null)[], horizons: number[]): SignalBucketStats[] {
+  return SIGNAL_ORDER.map((signal) => {
+    const indices = scores
+      .map((score, i) => (score !== null && getSignalFromScore(score) === signal ? i : -1))
+      .filter((i) => i >= 0);
+
+    return {
+      signal,
+      bars: indices.length,
+      horizons: horizons.map((horizon) => {
+        const forward = indices
+          .filter((i) => i + horizon < candles.length)
+          .map((i) => candles[i + horizon].close / candles[i].close - 1);
+
+        return {
+          horizon,
+          samples: forward.length,
+          averageReturn: forward.length > 0 ? forward.reduce((sum, r) => sum + r, 0) / forward.length : null,
+          hitRate: forward.length > 0 ? forward.filter((r) => r > 0).length / forward.length : null,
+        };
+      }),
+    };
+  });
+}
+
+/**
+ * Run the backtest. Signals are read at the close of bar t and filled at the
+ * open of bar t+1, so no decision uses a price it could not have seen.
+ */
+export function runBacktest(
+  candles: Candle[],
+  overrides: Partial<BacktestConfig> = {},
+  profile: { name: string; config: VerdictProfileConfig } = DEFAULT_VERDICT_PROFILE
+): BacktestResult | null {
+  const config: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...overrides };
+  const start = config.warmupBars - 1;
+  if (candles.length < config.warmupBars + 1) return null;
+
+  const scores = scoreHistory(candles, config.warmupBars, profile.config);
+  const slippage = config.slippageBps / 10000;
+  const commission = config.commissionBps / 10000;
+
+  let cash = config.initialCapital;
+  let shares = 0;
+  let position: BacktestPosition = 0;
+  let openTrade: { direction: 'long' | 'short'; entryIndex: number; entryPrice: number; equityBefore: number } | null = null;
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  const benchmarkStart = candles[start].close;
+
+  const closePosition = (index: number) => {
+    if (!openTrade) return;
+    const buying = shares < 0;
+    const fill = candles[index].open * (buying ? 1 + slippage : 1 - slippage);
+    cash += shares * fill - Math.abs(shares * fill) * commission;
+
+    trades.push({
+      direction: openTrade.direction,
+      entryTimestamp: candles[openTrade.entryIndex].timestamp,
+      entryPrice: openTrade.entryPrice,
+      exitTimestamp: candles[index].timestamp,
+      exitPrice: fill,
+      bars: index - openTrade.entryIndex,
+      return: cash / openTrade.equityBefore - 1,
+      open: false,
+    });
+
+    shares = 0;
+    openTrade = null;
+  };
+
+  const openPosition = (index: number, direction: 'long' | 'short') => {
+    const fill = candles[index].open * (direction === 'long' ? 1 + slippage : 1 - slippage);
+    const equityBefore = cash;
+    // Size so that notional plus commission uses the whole account
+    const quantity = cash / (fill * (1 + commission));
+    shares = direction === 'long' ? quantity : -quantity;
+    cash -= shares * fill + quantity * fill * commission;
+    openTrade = { direction, entryIndex: index, entryPrice: fill, equityBefore };
+  };
+
+  for (let i = start; i < candles.length; i++) {
+    // Execute yesterday's decision at today's open
+    if (i > start) {
+      const desired = targetPosition(scores[i - 1] as number, position, config);
+      if (desired !== position) {
+        closePosition(i);
+        if (desired !== 0) openPosition(i, desired === 1 ? 'long' : 'short');
+        position = desired;
+      }
+    }
+
+    equityCurve.push({
+      timestamp: candles[i].timestamp,
+      equity: cash + shares * candles[i].close,
+      benchmark: (config.initialCapital * candles[i].close) / benchmarkStart,
+      score: scores[i] as number,
+      position,
+    });
+  }
+
+  // Mark any open trade to the final close so it shows up in the trade list
+  if (openTrade) {
+    const last = candles.length - 1;
+    trades.push({
+      direction: openTrade.direction,
+      entryTimestamp: candles[openTrade.entryIndex].timestamp,
+      entryPrice: openTrade.entryPrice,
+      exitTimestamp: candles[last].timestamp,
+      exitPrice: candles[last].close,
+      bars: last - openTrade.entryIndex,
+      return: equityCurve[equityCurve.length - 1].equity / openTrade.equityBefore - 1,
+      open: true,
+    });
+  }
+
+  const equityValues = equityCurve.map((p) => p.equity);
+  const finalEquity = equityValues[equityValues.length - 1];
+  const finalBenchmark = equityCurve[equityCurve.length - 1].benchmark;
+  const years = (candles[candles.length - 1].timestamp - candles[start].timestamp) / SECONDS_PER_YEAR;
+  const closedTrades = trades.filter((t) => !t.open);
+
+  return {
+    config,
+    profileName: profile.name,
+    equityCurve,
+    trades,
+    metrics: {
+      totalReturn: finalEquity / config.initialCapital - 1,
+      cagr: annualize(finalEquity / config.initialCapital, years),
+      maxDrawdown: calculateMaxDrawdown(equityValues),
+      sharpe: calculateSharpe(equityValues, config.barsPerYear),
+      hitRate: closedTrades.length > 0
+        ? closedTrades.filter((t) => t.return > 0).length / closedTrades.length
+        : null,
+      tradeCount: trades.length,
+      exposure: equityCurve.filter((p) => p.position !== 0).length / equityCurve.length,
+      benchmarkReturn: finalBenchmark / config.initialCapital - 1,
+      benchmarkCagr: annualize(finalBenchmark / config.initialCapital, years),
+    },
+    buckets: buildBucketStats(candles, scores, config.forwardHorizons),
+  };
+}
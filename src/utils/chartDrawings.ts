@@ -0,0 +1,248 @@
+/**
+ * Chart drawing geometry
+ * The points (anchors) each drawing type is defined by, how dragging one of
+ * them changes the stored data, the defaults new drawings start with, and how
+ * drawing times map onto the bars of whichever resolution is charted.
+ */
+
+import type { DrawingData, DrawingLineStyle, DrawingType } from "@/types/market";
+
+export const FIBONACCI_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+export const FIB_EXTENSION_LEVELS = [0, 0.618, 1, 1.272, 1.618, 2, 2.618];
+
+export const DRAWING_COLORS = ["#3b82f6", "#10b981", "#f43f5e", "#f59e0b", "#a855f7", "#e4e4e7"];
+export const DEFAULT_DRAWING_COLOR = "hsl(var(--primary))";
+
+// Types placed with a press-drag-release; the rest need a single click
+export const TWO_POINT_DRAWINGS: DrawingType[] = [
+  "trendline",
+  "ray",
+  "channel",
+  "rectangle",
+  "fibonacci",
+  "fib_extension",
+  "measure",
+];
+
+export interface ChartPoint {
+  time?: string; // drawing time (see DrawingData); undefined for purely horizontal anchors
+  price?: number; // undefined for purely vertical anchors
+}
+
+export interface DrawingAnchor extends ChartPoint {
+  key: string;
+}
+
+export const LINE_DASH: Record<DrawingLineStyle, string | undefined> = {
+  solid: undefined,
+  dashed: "8,4",
+  dotted: "2,3",
+};
+
+// Draggable points of a drawing, in data terms
+export function getDrawingAnchors(type: DrawingType, data: DrawingData): DrawingAnchor[] {
+  const start = { key: "start", time: data.startTime, price: data.startPrice };
+  const end = { key: "end", time: data.endTime, price: data.endPrice };
+
+  switch (type) {
+    case "trendline":
+    case "ray":
+    case "rectangle":
+    case "measure":
+      return [start, end];
+    case "channel":
+      return [
+        start,
+        end,
+        { key: "offset", time: data.endTime, price: (data.endPrice ?? 0) + (data.channelOffset ?? 0) },
+      ];
+    case "fib_extension":
+      return [start, end, { key: "third", time: data.thirdTime, price: data.thirdPrice }];
+    case "fibonacci":
+      return [
+        { key: "high", time: data.highTime, price: data.highPrice },
+        { key: "low", time: data.lowTime, price: data.lowPrice },
+      ];
+    case "horizontal":
+      return [{ key: "point", price: data.price }];
+    case "vertical":
+      return [{ key: "point", time: data.time }];
+    default:
+      return [{ key: "point", time: data.time, price: data.price }];
+  }
+}
+
+/**
+ * Data with one anchor moved to `point`. Fields the point leaves undefined
+ * (e.g. the time of a horizontal line) keep their value. `flip` lets a Fib
+ * retracement swap high and low when one is dragged past the other; moving the
+ * whole drawing turns it off, since the anchors move one at a time.
+ */
+export function moveDrawingAnchor(
+  type: DrawingType,
+  data: DrawingData,
+  key: string,
+  point: ChartPoint,
+  flip: boolean = true
+): DrawingData {
+  const time = point.time;
+  const price = point.price;
+
+  switch (key) {
+    case "start":
+      return { ...data, startTime: time ?? data.startTime, startPrice: price ?? data.startPrice };
+    case "end":
+      return { ...data, endTime: time ?? data.endTime, endPrice: price ?? data.endPrice };
+    case "third":
+      return { ...data, thirdTime: time ?? data.thirdTime, thirdPrice: price ?? data.thirdPrice };
+    case "offset":
+      // Width of the channel, measured at the end point
+      return price === undefined ? data : { ...data, channelOffset: price - (data.endPrice ?? 0) };
+    case "high":
+    case "low": {
+      const moved = key === "high"
+        ? { ...data, highTime: time ?? data.highTime, highPrice: price ?? data.highPrice }
+        : { ...data, lowTime: time ?? data.lowTime, lowPrice: price ?? data.lowPrice };
+      // Dragging one end past the other flips the retracement
+      if (!flip || (moved.highPrice ?? 0) >= (moved.lowPrice ?? 0)) return moved;
+      return {
+        ...moved,
+        highPrice: moved.lowPrice,
+        highTime: moved.lowTime,
+        lowPrice: moved.highPrice,
+        lowTime: moved.highTime,
+      };
+    }
+    default:
+      return {
+        ...data,
+        time: type === "horizontal" ? data.time : time ?? data.time,
+        price: type === "vertical" ? data.price : price ?? data.price,
+      };
+  }
+}
+
+// Stored data for a drawing placed from `start` to `end` (and `third` for Fib extensions)
+export function createDrawingData(
+  type: DrawingType,
+  start: Required<ChartPoint>,
+  end: Required<ChartPoint>,
+  third?: Required<ChartPoint>
+): DrawingData {
+  const common: DrawingData = { color: DEFAULT_DRAWING_COLOR, lineWidth: type === "trendline" || type === "ray" ? 2 : 1 };
+  const points = { startTime: start.time, startPrice: start.price, endTime: end.time, endPrice: end.price };
+
+  switch (type) {
+    case "fibonacci":
+      return {
+        ...common,
+        highPrice: Math.max(start.price, end.price),
+        lowPrice: Math.min(start.price, end.price),
+        highTime: start.price > end.price ? start.time : end.time,
+        lowTime: start.price <= end.price ? start.time : end.time,
+        levels: FIBONACCI_LEVELS,
+      };
+    case "fib_extension":
+      return {
+        ...common,
+        ...points,
+        thirdTime: third?.time ?? end.time,
+        thirdPrice: third?.price ?? end.price,
+        levels: FIB_EXTENSION_LEVELS,
+      };
+    case "channel":
+      // Starts half the move wide (or 1% of price for a flat line); drag the third handle to adjust
+      return {
+        ...common,
+        ...points,
+        channelOffset: -(Math.abs(end.price - start.price) / 2 || end.price * 0.01),
+      };
+    case "rectangle":
+      return { ...common, ...points, color: "#3b82f6" };
+    case "measure":
+      return { ...points, lineWidth: 1 };
+    default:
+      return { ...common, ...points };
+  }
+}
+
+// Price levels of a Fib extension: the start -> end move added to the third point
+export function fibExtensionPrice(data: DrawingData, level: number): number | null {
+  if (data.startPrice === undefined || data.endPrice === undefined || data.thirdPrice === undefined) return null;
+  return data.thirdPrice + (data.endPrice - data.startPrice) * level;
+}
+
+// Calendar days between two drawing times
+export function daysBetween(startTime: string, endTime: string): number {
+  return Math.round((Date.parse(endTime) - Date.parse(startTime)) / 86_400_000);
+}
+
+type TimedBar = { timestamp: number; date?: string };
+
+const DAY_SECONDS = 86400;
+
+const dayKey = (bar: TimedBar) => (bar.date?.includes("-") ? bar.date : new Date(bar.timestamp * 1000).toISOString().slice(0, 10));
+
+// Daily and longer bars are identified by their date, intraday ones by their timestamp
+const isIntraday = (bars: TimedBar[]) =>
+  bars.length > 1 && (bars[bars.length - 1].timestamp - bars[0].timestamp) / (bars.length - 1) < DAY_SECONDS * 0.9;
+
+/**
+ * Fractional bar index of a drawing time on `bars` (oldest first). A date
+ * lands on the bar of that day when there is one; otherwise the time is
+ * interpolated between the bars around it, or extrapolated past either end
+ * using the spacing of the end bars - so a point drawn on a daily chart sits
+ * inside the right week on a weekly chart.
+ */
+export function timeToLogical(bars: TimedBar[], time: string): number | null {
+  if (bars.length === 0) return null;
+  if (!time.includes("T")) {
+    const index = bars.findIndex((bar) => dayKey(bar) === time);
+    if (index !== -1) return index;
+  }
+
+  const seconds = Date.parse(time) / 1000;
+  if (Number.isNaN(seconds)) return null;
+  if (bars.length === 1) return 0;
+
+  const last = bars.length - 1;
+  if (seconds <= bars[0].timestamp) {
+    return (seconds - bars[0].timestamp) / (bars[1].timestamp - bars[0].timestamp);
+  }
+  if (seconds >= bars[last].timestamp) {
+    return last + (seconds - bars[last].timestamp) / (bars[last].timestamp - bars[last - 1].timestamp);
+  }
+
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (bars[mid].timestamp <= seconds) low = mid;
+    else high = mid;
+  }
+  return low + (seconds - bars[low].timestamp) / (bars[high].timestamp - bars[low].timestamp);
+}
+
+/**
+ * Drawing time of the bar nearest a fractional bar index. Beyond either end
+ * of the data the time is projected with the spacing of the end bars, so
+ * drawings can reach into the empty space right of the last bar.
+ */
+export function logicalToTime(bars: TimedBar[], logical: number): string | null {
+  if (bars.length === 0) return null;
+  const index = Math.round(logical);
+  const intraday = isIntraday(bars);
+  const format = (seconds: number) => {
+    const iso = new Date(seconds * 1000).toISOString();
+    return intraday ? `${iso.slice(0, 19)}Z` : iso.slice(0, 10);
+  };
+
+  const last = bars.length - 1;
+  if (index >= 0 && index <= last) {
+    return intraday ? format(bars[index].timestamp) : dayKey(bars[index]);
+  }
+  if (last === 0) return format(bars[0].timestamp + index * DAY_SECONDS);
+  return index < 0
+    ? format(bars[0].timestamp + index * (bars[1].timestamp - bars[0].timestamp))
+    : format(bars[last].timestamp + (index - last) * (bars[last].timestamp - bars[last - 1].timestamp));
+}
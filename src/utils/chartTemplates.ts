@@ -0,0 +1,107 @@
+/**
+ * Chart templates
+ * The zod schema every saved indicator layout is validated against.
+ */
+
+import { z } from "zod";
+import type { ChartIndicator, IndicatorKind, PriceSource } from "@/types/market";
+import {
+  INDICATOR_DEFINITIONS,
+  INDICATOR_KINDS,
+  MAX_INDICATORS,
+  PRICE_SOURCES,
+} from "@/config/indicators";
+import { MAX_FORMULA_LENGTH, formatFormulaError, getFormulaError } from "./indicatorFormula";
+
+const PRICE_SOURCE_IDS = PRICE_SOURCES.map((s) => s.id) as [PriceSource, ...PriceSource[]];
+
+export const indicatorFormulaSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name is too long"),
+  expression: z.string().trim().max(MAX_FORMULA_LENGTH),
+  plot: z.enum(["overlay", "oscillator"]),
+}).superRefine((formula, ctx) => {
+  const error = getFormulaError(formula.expression);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expression"], message: formatFormulaError(error) });
+  }
+});
+
+export const chartIndicatorSchema = z.object({
+  id: z.string().min(1).max(40),
+  kind: z.enum(INDICATOR_KINDS as [IndicatorKind, ...IndicatorKind[]]),
+  enabled: z.boolean(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Colors must be hex values like #3b82f6"),
+  lineWidth: z.number().int().min(1).max(4),
+  source: z.enum(PRICE_SOURCE_IDS),
+  params: z.record(z.string(), z.number()),
+  formula: indicatorFormulaSchema.optional(),
+}).superRefine((indicator, ctx) => {
+  if (indicator.kind === "formula" && !indicator.formula) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["formula"],
+      message: "Custom formula indicators need an expression",
+    });
+  }
+  const definition = INDICATOR_DEFINITIONS[indicator.kind];
+  for (const field of definition.paramFields) {
+    const value = indicator.params[field.key];
+    if (value === undefined || value < field.min || value > field.max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["params", field.key],
+        message: `${definition.shortName} ${field.label.toLowerCase()} must be between ${field.min} and ${field.max}`,
+      });
+    }
+  }
+  if (indicator.kind === "macd" && indicator.params.fast >= indicator.params.slow) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["params", "fast"],
+      message: "MACD fast period must be shorter than the slow period",
+    });
+  }
+});
+
+export const chartIndicatorsSchema = z
+  .array(chartIndicatorSchema)
+  .max(MAX_INDICATORS, `A chart can have at most ${MAX_INDICATORS} indicators`)
+  .refine((list) => new Set(list.map((i) => i.id)).size === list.length, {
+    message: "Indicator ids must be unique",
+  });
+
+export const chartTemplateNameSchema = z.string().trim().min(1, "Name is required").max(50, "Name is too long");
+
+// Only what a template stores; `type` is derived from the kind
+export function serializeIndicators(indicators: ChartIndicator[]) {
+  return indicators.map(({ id, kind, enabled, color, lineWidth, source, params, formula }) => ({
+    id, kind, enabled, color, lineWidth, source, params, ...(formula && { formula }),
+  }));
+}
+
+/**
+ * Validate a stored layout. Params added to an indicator after the template
+ * was saved fall back to their defaults.
+ */
+export function parseChartIndicators(raw: unknown): ChartIndicator[] | null {
+  if (!Array.isArray(raw)) return null;
+  const withDefaults = raw.map((item) => {
+    const value = (item && typeof item === "object" ? item : {}) as Partial<ChartIndicator>;
+    const definition = INDICATOR_DEFINITIONS[value.kind as IndicatorKind];
+    return definition
+      ? { lineWidth: 1, source: "close", ...value, params: { ...definition.params, ...value.params } }
+      : value;
+  });
+  const result = chartIndicatorsSchema.safeParse(withDefaults);
+  if (!result.success) return null;
+  return result.data.map((indicator) => ({
+    ...(indicator as Omit<ChartIndicator, "type">),
+    type: indicator.formula?.plot ?? INDICATOR_DEFINITIONS[indicator.kind].type,
+  }));
+}
+
+// First validation error, formatted for a toast
+export function getChartIndicatorsError(indicators: ChartIndicator[]): string | null {
+  const result = chartIndicatorsSchema.safeParse(serializeIndicators(indicators));
+  return result.success ? null : result.error.issues[0]?.message ?? "Invalid indicators";
+}
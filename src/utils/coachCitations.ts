@@ -0,0 +1,48 @@
+/**
+ * Stock Coach citations
+ * Answers cite the data they used as [Q1], [T2], [N3]...; these helpers turn
+ * the markers into links and find figures that were stated without one.
+ */
+
+// [Q1] or [Q1, T2]; not when already a Markdown link
+const CITATION_MARKER = /\[([A-Z]\d{1,3}(?:\s*,\s*[A-Z]\d{1,3})*)\](?!\()/g;
+const CITATION_HREF_PREFIX = "#cite-";
+
+// Dollar amounts and decimals ($182.50, 71.3, 4.25%); whole numbers are usually
+// rules of thumb ("RSI above 70", "risk 1-2%") and are not flagged
+const FIGURE_PATTERN = /\$\s?\d[\d,]*(?:\.\d+)?|\b\d[\d,]*\.\d+%?/g;
+
+/**
+ * Rewrite citation markers as Markdown links (#cite-Q1) so the renderer can
+ * swap them for chips. Code spans and blocks are left alone.
+ */
+export function linkCitations(content: string): string {
+  return content
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? part
+        : part.replace(CITATION_MARKER, (_, ids: string) =>
+          ids.split(/\s*,\s*/).map((id) => `[${id}](${CITATION_HREF_PREFIX}${id})`).join("")
+        )
+    )
+    .join("");
+}
+
+// "#cite-Q1" → "Q1"
+export function citationIdFromHref(href: string | undefined): string | null {
+  return href?.startsWith(CITATION_HREF_PREFIX) ? href.slice(CITATION_HREF_PREFIX.length) : null;
+}
+
+/**
+ * Figures stated in a sentence that cites nothing. Each sentence (or list
+ * item) that quotes a figure should carry at least one marker.
+ */
+export function findUncitedFigures(content: string): string[] {
+  const prose = content.replace(/```[\s\S]*?```/g, "");
+  const sentences = prose.split("\n").flatMap((line) => line.split(/(?<=[.!?])\s+(?=[A-Z*_])/));
+  return sentences
+    .filter((sentence) => !new RegExp(CITATION_MARKER.source).test(sentence))
+    .flatMap((sentence) => sentence.match(FIGURE_PATTERN) ?? [])
+    .map((figure) => figure.trim());
+}
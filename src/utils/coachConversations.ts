@@ -0,0 +1,43 @@
+/**
+ * Stock Coach conversations
+ * Thread titles and the Markdown export of a saved conversation, with the
+ * sources each answer cited.
+ */
+
+export const MAX_CONVERSATION_TITLE = 80;
+
+export interface CoachTranscriptMessage {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  citations?: { id: string; label: string; url?: string }[];
+}
+
+// The first question, on one line and cut at a word boundary
+export function conversationTitle(question: string): string {
+  const line = question.replace(/\s+/g, " ").trim();
+  if (line.length <= MAX_CONVERSATION_TITLE) return line || "New conversation";
+  const cut = line.slice(0, MAX_CONVERSATION_TITLE - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > MAX_CONVERSATION_TITLE / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+export function conversationToMarkdown(
+  title: string,
+  symbols: string[],
+  messages: CoachTranscriptMessage[]
+): string {
+  const lines = [`# ${title}`, ""];
+  if (symbols.length > 0) lines.push(`Symbols: ${symbols.join(", ")}`, "");
+
+  for (const message of messages) {
+    const time = message.timestamp.toLocaleString();
+    lines.push(`## ${message.role === "user" ? "You" : "Coach"} · ${time}`, "", message.content.trim(), "");
+    if (message.citations?.length) {
+      lines.push("Sources:", ...message.citations.map((c) => `- [${c.id}] ${c.url ? `[${c.label}](${c.url})` : c.label}`), "");
+    }
+  }
+
+  lines.push("---", "Educational only. Not financial advice.", "");
+  return lines.join("\n");
+}
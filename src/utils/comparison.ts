@@ -0,0 +1,70 @@
+/**
+ * Symbol comparison
+ * Lines up other symbols' closes with the charted symbol's bars and derives the
+ * percent-change, ratio and relative-strength views of the pair.
+ */
+
+import { applyToDefined, calculateSMA } from "./technicalIndicators";
+
+type Bar = { timestamp: number; date?: string; close: number };
+
+// "percent": every line as % change from the first visible bar; "ratio": charted symbol / comparison
+export type ComparisonMode = "percent" | "ratio";
+
+export const MAX_COMPARISONS = 4;
+export const COMPARISON_COLORS = ["#f97316", "#8b5cf6", "#14b8a6", "#eab308", "#ec4899"];
+
+const dayKey = (bar: Bar) => (bar.date?.includes("-") ? bar.date : new Date(bar.timestamp * 1000).toISOString().slice(0, 10));
+
+/**
+ * Closes of `other` on the bars of `base`. Bars match on timestamp, falling back
+ * to the calendar day; a bar the other symbol did not trade (e.g. a holiday on
+ * its exchange) carries its previous close forward.
+ */
+export function alignCloses(base: Bar[], other: Bar[]): (number | null)[] {
+  const byTimestamp = new Map(other.map((bar) => [bar.timestamp, bar.close]));
+  const byDay = new Map(other.map((bar) => [dayKey(bar), bar.close]));
+  let previous: number | null = null;
+
+  return base.map((bar) => {
+    const close = byTimestamp.get(bar.timestamp) ?? byDay.get(dayKey(bar)) ?? previous;
+    previous = close;
+    return close;
+  });
+}
+
+// Percent change of each value from the first value at or after `fromIndex`
+export function percentChangeFrom(values: (number | null)[], fromIndex: number = 0): (number | null)[] {
+  let start: number | null = null;
+  return values.map((value, i) => {
+    if (i < fromIndex || value === null) return null;
+    if (start === null) start = value;
+    return start !== 0 ? (value / start - 1) * 100 : null;
+  });
+}
+
+// Base close divided by the other symbol's close (A/B)
+export function ratioSeries(base: number[], other: (number | null)[]): (number | null)[] {
+  return base.map((close, i) => {
+    const value = other[i];
+    return value ? close / value : null;
+  });
+}
+
+/**
+ * Mansfield relative strength: how far the A/B ratio sits above (+) or below
+ * (-) its own `period`-bar average, in percent. Positive means the symbol has
+ * been outperforming the benchmark.
+ */
+export function calculateRelativeStrength(
+  base: number[],
+  benchmark: (number | null)[],
+  period: number = 50
+): (number | null)[] {
+  const ratio = ratioSeries(base, benchmark);
+  const average = applyToDefined(ratio, (values) => calculateSMA(values, period));
+  return ratio.map((value, i) => {
+    const mean = average[i];
+    return value === null || mean === null || mean === 0 ? null : (value / mean - 1) * 100;
+  });
+}
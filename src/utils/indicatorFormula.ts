@@ -0,0 +1,610 @@
+/**
+ * Indicator formulas
+ * A small expression language for custom indicators, e.g.
+ * `(close - sma(close, 20)) / atr(14)`. Formulas are parsed into a syntax
+ * tree and evaluated over whole series; user input never reaches eval.
+ */
+
+import type { Candle } from "@/types/market";
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateRSI,
+  calculateMACD,
+  calculateATR,
+  calculateVWAP,
+  calculateOBV,
+  calculateBollingerBands,
+  rollingMax,
+  rollingMin,
+} from "./technicalIndicators";
+
+export const MAX_FORMULA_LENGTH = 500;
+const MAX_NODES = 200;
+const MAX_LENGTH_ARG = 500;
+
+type Series = (number | null)[];
+
+type BinaryOp = "+" | "-" | "*" | "/" | ">" | ">=" | "<" | "<=" | "==" | "!=" | "and" | "or";
+
+export type FormulaNode =
+  | { type: "number"; value: number; position: number }
+  | { type: "series"; name: string; position: number }
+  | { type: "unary"; op: "-" | "not"; operand: FormulaNode; position: number }
+  | { type: "binary"; op: BinaryOp; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: "call"; name: string; args: FormulaNode[]; position: number };
+
+/** Parse failure; `position` is the 0-based offset of the offending character. */
+export class FormulaError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "FormulaError";
+    this.position = position;
+  }
+}
+
+// ============= Reference =============
+
+const SERIES: Record<string, (c: Candle) => number> = {
+  open: (c) => c.open,
+  high: (c) => c.high,
+  low: (c) => c.low,
+  close: (c) => c.close,
+  volume: (c) => c.volume,
+  hl2: (c) => (c.high + c.low) / 2,
+  hlc3: (c) => (c.high + c.low + c.close) / 3,
+  ohlc4: (c) => (c.open + c.high + c.low + c.close) / 4,
+};
+
+export const FORMULA_SERIES = Object.keys(SERIES);
+
+// "length" params must be whole-number literals so warm-up is known up front
+interface FormulaParam {
+  name: string;
+  kind: "series" | "length";
+  default?: number;
+}
+
+interface FormulaFunction {
+  description: string;
+  params: FormulaParam[];
+  lookback: (lengths: number[]) => number; // extra bars of history on top of the series args
+  evaluate: (series: Series[], lengths: number[], candles: Candle[]) => Series;
+}
+
+const source = (name = "source"): FormulaParam => ({ name, kind: "series" });
+const length = (defaultValue?: number, name = "length"): FormulaParam => ({ name, kind: "length", default: defaultValue });
+
+const map = (s: Series, fn: (v: number) => number): Series =>
+  s.map((v) => (v === null ? null : finite(fn(v))));
+
+const zip = (a: Series, b: Series, fn: (x: number, y: number) => number): Series =>
+  a.map((x, i) => (x === null || b[i] === null ? null : finite(fn(x, b[i] as number))));
+
+const lag = (s: Series, n: number): Series => s.map((_, i) => (i < n ? null : s[i - n]));
+
+const finite = (v: number): number | null => (Number.isFinite(v) ? v : null);
+
+// Run a windowed calculation over each unbroken stretch of values, so no window
+// spans a null (e.g. a division by zero mid-series); warm-up restarts after a gap
+const applyToRuns = (s: Series, calculate: (values: number[]) => Series): Series => {
+  const result: Series = s.map(() => null);
+  let start = 0;
+  while (start < s.length) {
+    if (s[start] === null) {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end < s.length && s[end] !== null) end++;
+    calculate(s.slice(start, end) as number[]).forEach((v, i) => {
+      result[start + i] = v ?? null;
+    });
+    start = end;
+  }
+  return result;
+};
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  sma: {
+    description: "Simple moving average",
+    params: [source(), length()],
+    lookback: ([n]) => n - 1,
+    evaluate: ([s], [n]) => applyToRuns(s, (v) => calculateSMA(v, n)),
+  },
+  ema: {
+    description: "Exponential moving average",
+    params: [source(), length()],
+    lookback: ([n]) => n - 1,
+    evaluate: ([s], [n]) => applyToRuns(s, (v) => calculateEMA(v, n)),
+  },
+  rsi: {
+    description: "Relative strength index (0-100)",
+    params: [source(), length(14)],
+    lookback: ([n]) => n,
+    evaluate: ([s], [n]) => applyToRuns(s, (v) => calculateRSI(v, n)),
+  },
+  macd: {
+    description: "MACD line (fast EMA minus slow EMA)",
+    params: [source(), length(12, "fast"), length(26, "slow")],
+    lookback: ([, slow]) => slow - 1,
+    evaluate: ([s], [fast, slow]) => applyToRuns(s, (v) => calculateMACD(v, fast, slow).macd),
+  },
+  stdev: {
+    description: "Rolling standard deviation",
+    params: [source(), length()],
+    lookback: ([n]) => n - 1,
+    evaluate: ([s], [n]) =>
+      applyToRuns(s, (v) => {
+        const { upper, middle } = calculateBollingerBands(v, n, 1);
+        return upper.map((u, i) => (u === null || middle[i] === null ? null : u - (middle[i] as number)));
+      }),
+  },
+  highest: {
+    description: "Highest value over the last length bars",
+    params: [source(), length()],
+    lookback: ([n]) => n - 1,
+    evaluate: ([s], [n]) => applyToRuns(s, (v) => rollingMax(v, n)),
+  },
+  lowest: {
+    description: "Lowest value over the last length bars",
+    params: [source(), length()],
+    lookback: ([n]) => n - 1,
+    evaluate: ([s], [n]) => applyToRuns(s, (v) => rollingMin(v, n)),
+  },
+  atr: {
+    description: "Average true range of the bars",
+    params: [length(14)],
+    lookback: ([n]) => n,
+    evaluate: (_, [n], candles) => calculateATR(candles, n),
+  },
+  vwap: {
+    description: "Volume weighted average price, reset each session",
+    params: [],
+    lookback: () => 0,
+    evaluate: (_, __, candles) => calculateVWAP(candles).value,
+  },
+  obv: {
+    description: "On-balance volume",
+    params: [],
+    lookback: () => 0,
+    evaluate: (_, __, candles) => calculateOBV(candles),
+  },
+  prev: {
+    description: "Value from bars ago",
+    params: [source(), length(1, "bars")],
+    lookback: ([n]) => n,
+    evaluate: ([s], [n]) => lag(s, n),
+  },
+  change: {
+    description: "Difference from bars ago",
+    params: [source(), length(1, "bars")],
+    lookback: ([n]) => n,
+    evaluate: ([s], [n]) => zip(s, lag(s, n), (a, b) => a - b),
+  },
+  roc: {
+    description: "Percent change from bars ago",
+    params: [source(), length(1, "bars")],
+    lookback: ([n]) => n,
+    evaluate: ([s], [n]) => zip(s, lag(s, n), (a, b) => ((a - b) / b) * 100),
+  },
+  crossover: {
+    description: "1 on the bar a crosses above b, else 0",
+    params: [source("a"), source("b")],
+    lookback: () => 1,
+    evaluate: ([a, b]) => crossed(a, b, 1),
+  },
+  crossunder: {
+    description: "1 on the bar a crosses below b, else 0",
+    params: [source("a"), source("b")],
+    lookback: () => 1,
+    evaluate: ([a, b]) => crossed(a, b, -1),
+  },
+  if: {
+    description: "then when condition is non-zero, else otherwise",
+    params: [source("condition"), source("then"), source("else")],
+    lookback: () => 0,
+    evaluate: ([c, a, b]) => c.map((v, i) => (v === null ? null : v !== 0 ? a[i] : b[i])),
+  },
+  min: {
+    description: "Smaller of two values",
+    params: [source("a"), source("b")],
+    lookback: () => 0,
+    evaluate: ([a, b]) => zip(a, b, Math.min),
+  },
+  max: {
+    description: "Larger of two values",
+    params: [source("a"), source("b")],
+    lookback: () => 0,
+    evaluate: ([a, b]) => zip(a, b, Math.max),
+  },
+  abs: {
+    description: "Absolute value",
+    params: [source("x")],
+    lookback: () => 0,
+    evaluate: ([s]) => map(s, Math.abs),
+  },
+  sqrt: {
+    description: "Square root",
+    params: [source("x")],
+    lookback: () => 0,
+    evaluate: ([s]) => map(s, Math.sqrt),
+  },
+  log: {
+    description: "Natural logarithm",
+    params: [source("x")],
+    lookback: () => 0,
+    evaluate: ([s]) => map(s, Math.log),
+  },
+};
+
+function crossed(a: Series, b: Series, direction: 1 | -1): Series {
+  return a.map((x, i) => {
+    const y = b[i];
+    const px = a[i - 1];
+    const py = b[i - 1];
+    if (x === null || y === null || px === null || py === null || px === undefined || py === undefined) return null;
+    const now = direction === 1 ? x > y : x < y;
+    const before = direction === 1 ? px <= py : px >= py;
+    return now && before ? 1 : 0;
+  });
+}
+
+function signature(name: string): string {
+  const params = FUNCTIONS[name].params.map((p) => (p.default !== undefined ? `${p.name} = ${p.default}` : p.name));
+  return `${name}(${params.join(", ")})`;
+}
+
+// Shown in the formula editor's reference panel
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS).map((name) => ({
+  name,
+  signature: signature(name),
+  description: FUNCTIONS[name].description,
+}));
+
+// ============= Tokenizer =============
+
+type Token =
+  | { kind: "number"; value: number; text: string; position: number }
+  | { kind: "ident"; text: string; position: number }
+  | { kind: "op"; text: string; position: number }
+  | { kind: "end"; text: string; position: number };
+
+const OPERATORS = [">=", "<=", "==", "!=", "&&", "||", "+", "-", "*", "/", ">", "<", "!", "(", ")", ","];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(input.slice(i));
+    if (number) {
+      tokens.push({ kind: "number", value: parseFloat(number[0]), text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i));
+    if (ident) {
+      tokens.push({ kind: "ident", text: ident[0], position: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => input.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: "op", text: op, position: i });
+      i += op.length;
+      continue;
+    }
+
+    if (ch === "=") throw new FormulaError("Use '==' to compare values", i);
+    throw new FormulaError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ kind: "end", text: "", position: input.length });
+  return tokens;
+}
+
+// ============= Parser =============
+
+// Levenshtein distance, for "did you mean" hints on typos
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = temp;
+    }
+  }
+  return row[b.length];
+}
+
+function suggest(name: string, candidates: string[]): string {
+  const lower = name.toLowerCase();
+  const match = candidates
+    .map((c) => ({ c, d: distance(lower, c) }))
+    .filter(({ d }) => d <= 2)
+    .sort((a, b) => a.d - b.d)[0];
+  return match ? `. Did you mean '${match.c}'?` : "";
+}
+
+function describe(token: Token): string {
+  return token.kind === "end" ? "end of formula" : `'${token.text}'`;
+}
+
+class Parser {
+  private index = 0;
+  private nodes = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== "end") {
+      throw new FormulaError(
+        token.text === ")" ? "Unmatched ')'" : `Expected an operator before ${describe(token)}`,
+        token.position
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOp(...ops: string[]): Token | null {
+    const token = this.peek();
+    const text = token.kind === "ident" ? token.text.toLowerCase() : token.text;
+    if ((token.kind === "op" || token.kind === "ident") && ops.includes(text)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private node<T extends FormulaNode>(node: T): T {
+    if (++this.nodes > MAX_NODES) {
+      throw new FormulaError(`Formula is too complex (limit ${MAX_NODES} terms)`, node.position);
+    }
+    return node;
+  }
+
+  private binary(next: () => FormulaNode, ops: Record<string, BinaryOp>): FormulaNode {
+    let left = next();
+    let token: Token | null;
+    while ((token = this.matchOp(...Object.keys(ops)))) {
+      const op = ops[token.kind === "ident" ? token.text.toLowerCase() : token.text];
+      left = this.node({ type: "binary", op, left, right: next(), position: token.position });
+    }
+    return left;
+  }
+
+  private parseOr(): FormulaNode {
+    return this.binary(() => this.parseAnd(), { or: "or", "||": "or" });
+  }
+
+  private parseAnd(): FormulaNode {
+    return this.binary(() => this.parseComparison(), { and: "and", "&&": "and" });
+  }
+
+  private parseComparison(): FormulaNode {
+    return this.binary(() => this.parseAdditive(), {
+      ">": ">", ">=": ">=", "<": "<", "<=": "<=", "==": "==", "!=": "!=",
+    });
+  }
+
+  private parseAdditive(): FormulaNode {
+    return this.binary(() => this.parseMultiplicative(), { "+": "+", "-": "-" });
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    return this.binary(() => this.parseUnary(), { "*": "*", "/": "/" });
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.matchOp("-", "!", "not");
+    if (token) {
+      const op = token.text === "-" ? "-" : "not";
+      return this.node({ type: "unary", op, operand: this.parseUnary(), position: token.position });
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    if (token.kind === "number") {
+      return this.node({ type: "number", value: token.value, position: token.position });
+    }
+
+    if (token.kind === "op" && token.text === "(") {
+      const inner = this.parseOr();
+      if (!this.matchOp(")")) {
+        throw new FormulaError("This '(' is never closed", token.position);
+      }
+      return inner;
+    }
+
+    if (token.kind === "ident") {
+      const name = token.text;
+      if (this.peek().kind === "op" && this.peek().text === "(") {
+        return this.parseCall(token);
+      }
+      if (name in SERIES) {
+        return this.node({ type: "series", name, position: token.position });
+      }
+      if (name in FUNCTIONS) {
+        throw new FormulaError(`'${name}' is a function; call it like ${signature(name)}`, token.position);
+      }
+      throw new FormulaError(`Unknown value '${name}'${suggest(name, FORMULA_SERIES)}`, token.position);
+    }
+
+    throw new FormulaError(`Expected a value but found ${describe(token)}`, token.position);
+  }
+
+  private parseCall(token: Token): FormulaNode {
+    const name = token.text;
+    const fn = FUNCTIONS[name];
+    if (!fn) {
+      throw new FormulaError(`Unknown function '${name}'${suggest(name, Object.keys(FUNCTIONS))}`, token.position);
+    }
+
+    this.next(); // (
+    const args: FormulaNode[] = [];
+    if (!this.matchOp(")")) {
+      do {
+        args.push(this.parseOr());
+      } while (this.matchOp(","));
+      if (!this.matchOp(")")) {
+        throw new FormulaError(`Expected ',' or ')' in ${name}() but found ${describe(this.peek())}`, this.peek().position);
+      }
+    }
+
+    const required = fn.params.filter((p) => p.default === undefined).length;
+    if (args.length < required || args.length > fn.params.length) {
+      const expected = required === fn.params.length ? `${required}` : `${required} to ${fn.params.length}`;
+      throw new FormulaError(
+        `${signature(name)} takes ${expected} argument${fn.params.length === 1 ? "" : "s"}, got ${args.length}`,
+        token.position
+      );
+    }
+
+    args.forEach((arg, i) => {
+      const param = fn.params[i];
+      if (param.kind !== "length") return;
+      if (arg.type !== "number") {
+        throw new FormulaError(`${name}() ${param.name} must be a number, not an expression`, arg.position);
+      }
+      if (!Number.isInteger(arg.value) || arg.value < 1 || arg.value > MAX_LENGTH_ARG) {
+        throw new FormulaError(`${name}() ${param.name} must be a whole number from 1 to ${MAX_LENGTH_ARG}`, arg.position);
+      }
+    });
+    if (name === "macd" && (args[1]?.type === "number" ? args[1].value : 12) >= (args[2]?.type === "number" ? args[2].value : 26)) {
+      throw new FormulaError("macd() fast length must be shorter than the slow length", token.position);
+    }
+
+    return this.node({ type: "call", name, args, position: token.position });
+  }
+}
+
+/** Parse and type-check a formula. Throws a FormulaError pointing at the problem. */
+export function parseFormula(expression: string): FormulaNode {
+  if (!expression.trim()) throw new FormulaError("Formula is empty", 0);
+  if (expression.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula is too long (limit ${MAX_FORMULA_LENGTH} characters)`, MAX_FORMULA_LENGTH);
+  }
+  return new Parser(tokenize(expression)).parse();
+}
+
+export function getFormulaError(expression: string): FormulaError | null {
+  try {
+    parseFormula(expression);
+    return null;
+  } catch (err) {
+    if (err instanceof FormulaError) return err;
+    throw err;
+  }
+}
+
+// "Unknown function 'sme' (at character 4)", for toasts and zod issues
+export function formatFormulaError(error: FormulaError): string {
+  return `${error.message} (at character ${error.position + 1})`;
+}
+
+// ============= Evaluation =============
+
+function lengthArgs(node: Extract<FormulaNode, { type: "call" }>): number[] {
+  return FUNCTIONS[node.name].params.flatMap((param, i) => {
+    if (param.kind !== "length") return [];
+    const arg = node.args[i];
+    return [arg?.type === "number" ? arg.value : (param.default as number)];
+  });
+}
+
+function evaluateNode(node: FormulaNode, candles: Candle[]): Series {
+  switch (node.type) {
+    case "number":
+      return candles.map(() => node.value);
+    case "series":
+      return candles.map(SERIES[node.name]);
+    case "unary": {
+      const operand = evaluateNode(node.operand, candles);
+      return node.op === "-" ? map(operand, (v) => -v) : map(operand, (v) => (v === 0 ? 1 : 0));
+    }
+    case "binary": {
+      const left = evaluateNode(node.left, candles);
+      const right = evaluateNode(node.right, candles);
+      return zip(left, right, BINARY[node.op]);
+    }
+    case "call": {
+      const fn = FUNCTIONS[node.name];
+      const series = fn.params.flatMap((param, i) =>
+        param.kind === "series" ? [evaluateNode(node.args[i], candles)] : []
+      );
+      return fn.evaluate(series, lengthArgs(node), candles);
+    }
+  }
+}
+
+// Comparisons and logic yield 1 / 0 so they can be plotted or multiplied
+const BINARY: Record<BinaryOp, (a: number, b: number) => number> = {
+  "+": (a, b) => a + b,
+  "-": (a, b) => a - b,
+  "*": (a, b) => a * b,
+  "/": (a, b) => a / b,
+  ">": (a, b) => Number(a > b),
+  ">=": (a, b) => Number(a >= b),
+  "<": (a, b) => Number(a < b),
+  "<=": (a, b) => Number(a <= b),
+  "==": (a, b) => Number(a === b),
+  "!=": (a, b) => Number(a !== b),
+  and: (a, b) => Number(a !== 0 && b !== 0),
+  or: (a, b) => Number(a !== 0 || b !== 0),
+};
+
+/**
+ * Evaluate a parsed formula over the candles. Bars without enough history,
+ * and results like division by zero, are null.
+ */
+export function evaluateFormula(node: FormulaNode, candles: Candle[]): (number | null)[] {
+  return evaluateNode(node, candles);
+}
+
+function lookback(node: FormulaNode): number {
+  switch (node.type) {
+    case "number":
+    case "series":
+      return 0;
+    case "unary":
+      return lookback(node.operand);
+    case "binary":
+      return Math.max(lookback(node.left), lookback(node.right));
+    case "call": {
+      const argLookback = Math.max(0, ...node.args.map(lookback));
+      return argLookback + FUNCTIONS[node.name].lookback(lengthArgs(node));
+    }
+  }
+}
+
+// Bars needed before the formula produces its first value
+export function getFormulaWarmup(node: FormulaNode): number {
+  return lookback(node) + 1;
+}
@@ -0,0 +1,98 @@
+import type { Candle, ChartIndicator, PriceSource } from "@/types/market";
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateBollingerBands,
+  calculateRSI,
+  calculateMACD,
+  calculateVWAP,
+  calculateATR,
+  calculateStochastic,
+  calculateADX,
+  calculateOBV,
+  calculateIchimoku,
+  calculateKeltnerChannels,
+  calculateDonchianChannels,
+  calculateSuperTrend,
+  calculateParabolicSAR,
+} from "./technicalIndicators";
+import { evaluateFormula, parseFormula } from "./indicatorFormula";
+
+// Output name -> values aligned to the candles
+export type IndicatorSeries = Record<string, (number | null)[]>;
+
+export function seriesKey(indicatorId: string, output: string): string {
+  return `${indicatorId}.${output}`;
+}
+
+export function getSourceValues(candles: Candle[], source: PriceSource): number[] {
+  switch (source) {
+    case "open":
+      return candles.map((c) => c.open);
+    case "high":
+      return candles.map((c) => c.high);
+    case "low":
+      return candles.map((c) => c.low);
+    case "hl2":
+      return candles.map((c) => (c.high + c.low) / 2);
+    case "hlc3":
+      return candles.map((c) => (c.high + c.low + c.close) / 3);
+    case "ohlc4":
+      return candles.map((c) => (c.open + c.high + c.low + c.close) / 4);
+    default:
+      return candles.map((c) => c.close);
+  }
+}
+
+/**
+ * Compute every output of one indicator instance. Keys match the `outputs`
+ * of its definition in config/indicators.
+ */
+export function computeIndicatorSeries(indicator: ChartIndicator, candles: Candle[]): IndicatorSeries {
+  const p = indicator.params;
+  const values = () => getSourceValues(candles, indicator.source);
+
+  switch (indicator.kind) {
+    case "sma":
+      return { value: calculateSMA(values(), p.period) };
+    case "ema":
+      return { value: calculateEMA(values(), p.period) };
+    case "bb":
+      return calculateBollingerBands(values(), p.period, p.stdDev);
+    case "vwap":
+      return calculateVWAP(candles, p.stdDev, p.outerStdDev);
+    case "ichimoku":
+      return calculateIchimoku(candles, p.conversion, p.base, p.spanB, p.displacement);
+    case "keltner":
+      return calculateKeltnerChannels(candles, p.period, p.atrPeriod, p.multiplier);
+    case "donchian":
+      return calculateDonchianChannels(candles, p.period);
+    case "supertrend": {
+      const { value, direction } = calculateSuperTrend(candles, p.period, p.multiplier);
+      return { value, direction };
+    }
+    case "psar":
+      return { value: calculateParabolicSAR(candles, p.step, p.max) };
+    case "rsi":
+      return { value: calculateRSI(values(), p.period) };
+    case "macd":
+      return calculateMACD(values(), p.fast, p.slow, p.signal);
+    case "stoch":
+      return calculateStochastic(candles, p.period, p.signal, p.smoothing);
+    case "adx":
+      return calculateADX(candles, p.period);
+    case "obv":
+      return { value: calculateOBV(candles) };
+    case "atr":
+      return { value: calculateATR(candles, p.period) };
+    case "formula":
+      // Saved formulas are validated, so this only blanks out a hand-edited one
+      try {
+        return { value: evaluateFormula(parseFormula(indicator.formula?.expression ?? ""), candles) };
+      } catch {
+        return { value: candles.map(() => null) };
+      }
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Portfolio Engine
+ * Replays a transaction ledger into open lots (FIFO or average cost), realized/unrealized P&L,
+ * and time-weighted / money-weighted returns
+ */
+
+import type { Candle } from "@/types/market";
+
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'split' | 'deposit' | 'withdrawal';
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface Transaction {
+  id: string;
+  type: TransactionType;
+  symbol: string | null;
+  quantity: number | null;
+  price: number | null;
+  amount: number | null;
+  fees: number;
+  splitRatio: number | null;
+  notes: string | null;
+  executedAt: string;
+  /** When the entry was recorded; orders trades that share an executedAt */
+  createdAt: string;
+}
+
+export interface Lot {
+  quantity: number;
+  costPerShare: number; // includes buy fees
+  openedAt: string;
+}
+
+export interface Position {
+  symbol: string;
+  quantity: number;
+  costBasis: number;
+  averageCost: number;
+  lots: Lot[];
+  openedAt: string; // oldest open lot
+  marketPrice: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  realizedPnl: number;
+  dividends: number;
+  weight: number | null; // share of total portfolio value
+}
+
+export interface CashFlow {
+  date: string;
+  amount: number; // positive = money into the portfolio
+}
+
+export interface PortfolioSummary {
+  positions: Position[];
+  cash: number;
+  marketValue: number;
+  totalValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  dividends: number;
+  fees: number;
+  netContributions: number;
+  externalFlows: CashFlow[];
+  totalReturn: number; // totalValue - netContributions
+  timeWeightedReturn: number | null; // cumulative, e.g. 0.12 = +12%
+  moneyWeightedReturn: number | null; // annualized IRR
+}
+
+interface SymbolState {
+  lots: Lot[];
+  realizedPnl: number;
+  dividends: number;
+  lastTradePrice: number;
+}
+
+interface LedgerState {
+  symbols: Map<string, SymbolState>;
+  cash: number;
+  realizedPnl: number;
+  dividends: number;
+  fees: number;
+  netContributions: number;
+  externalFlows: CashFlow[];
+}
+
+// Quantities below this are treated as fully closed (avoids float dust from splits)
+const QUANTITY_EPSILON = 1e-9;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+// Same-day entries share an end-of-day executedAt, so they replay in the order they were entered
+function sortLedger(transactions: Transaction[]): Transaction[] {
+  return [...transactions].sort(
+    (a, b) =>
+      new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime() ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() ||
+      a.id.localeCompare(b.id)
+  );
+}
+
+function getSymbolState(state: LedgerState, symbol: string): SymbolState {
+  let entry = state.symbols.get(symbol);
+  if (!entry) {
+    entry = { lots: [], realizedPnl: 0, dividends: 0, lastTradePrice: 0 };
+    state.symbols.set(symbol, entry);
+  }
+  return entry;
+}
+
+function heldQuantity(entry: SymbolState): number {
+  return entry.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+/**
+ * Removes `quantity` shares from the lots and returns their cost.
+ * FIFO consumes the oldest lots first; average cost keeps a single merged lot.
+ */
+function consumeLots(entry: SymbolState, quantity: number): number {
+  let remaining = quantity;
+  let cost = 0;
+  while (remaining > QUANTITY_EPSILON && entry.lots.length > 0) {
+    const lot = entry.lots[0];
+    const taken = Math.min(lot.quantity, remaining);
+    cost += taken * lot.costPerShare;
+    lot.quantity -= taken;
+    remaining -= taken;
+    if (lot.quantity <= QUANTITY_EPSILON) entry.lots.shift();
+  }
+  return cost;
+}
+
+function recordExternalFlow(state: LedgerState, date: string, amount: number) {
+  state.cash += amount;
+  state.netContributions += amount;
+  state.externalFlows.push({ date, amount });
+}
+
+/**
+ * Replays the ledger in execution order. `beforeExternalFlow` is called with the state as it
+ * stood just before each deposit/withdrawal (or implicit funding) so callers can value the
+ * portfolio at that point. `onOversell` is called for each sell of more shares than were held.
+ */
+function replayLedger(
+  transactions: Transaction[],
+  method: CostBasisMethod,
+  beforeExternalFlow?: (state: LedgerState, date: string, amount: number) => void,
+  onOversell?: (tx: Transaction, held: number) => void
+): LedgerState {
+  const state: LedgerState = {
+    symbols: new Map(),
+    cash: 0,
+    realizedPnl: 0,
+    dividends: 0,
+    fees: 0,
+    netContributions: 0,
+    externalFlows: [],
+  };
+
+  for (const tx of sortLedger(transactions)) {
+    const symbol = tx.symbol?.toUpperCase();
+
+    switch (tx.type) {
+      case 'deposit':
+      case 'withdrawal': {
+        const amount = tx.type === 'deposit' ? tx.amount ?? 0 : -(tx.amount ?? 0);
+        beforeExternalFlow?.(state, tx.executedAt, amount);
+        recordExternalFlow(state, tx.executedAt, amount);
+        break;
+      }
+
+      case 'buy': {
+        if (!symbol || !tx.quantity || tx.price === null) break;
+        const entry = getSymbolState(state, symbol);
+        const total = tx.quantity * tx.price + tx.fees;
+
+        // Ledgers that only record trades are funded implicitly: the shortfall counts as a deposit
+        if (total > state.cash) {
+          const shortfall = total - state.cash;
+          beforeExternalFlow?.(state, tx.executedAt, shortfall);
+          recordExternalFlow(state, tx.executedAt, shortfall);
+        }
+
+        state.cash -= total;
+        state.fees += tx.fees;
+        entry.lastTradePrice = tx.price;
+
+        const costPerShare = total / tx.quantity;
+        if (method === 'average' && entry.lots.length > 0) {
+          const lot = entry.lots[0];
+          const quantity = lot.quantity + tx.quantity;
+          lot.costPerShare = (lot.quantity * lot.costPerShare + total) / quantity;
+          lot.quantity = quantity;
+        } else {
+          entry.lots.push({ quantity: tx.quantity, costPerShare, openedAt: tx.executedAt });
+        }
+        break;
+      }
+
+      case 'sell': {
+        if (!symbol || !tx.quantity || tx.price === null) break;
+        const entry = getSymbolState(state, symbol);
+        // Overselling is rejected by the form; clamp defensively so P&L stays meaningful
+        const held = heldQuantity(entry);
+        if (tx.quantity > held + QUANTITY_EPSILON) onOversell?.(tx, held);
+        const quantity = Math.min(tx.quantity, held);
+        if (quantity <= QUANTITY_EPSILON) break;
+
+        const proceeds = quantity * tx.price - tx.fees;
+        const cost = consumeLots(entry, quantity);
+        const pnl = proceeds - cost;
+
+        state.cash += proceeds;
+        state.fees += tx.fees;
+        state.realizedPnl += pnl;
+        entry.realizedPnl += pnl;
+        entry.lastTradePrice = tx.price;
+        break;
+      }
+
+      case 'dividend': {
+        if (!symbol || !tx.amount) break;
+        const entry = getSymbolState(state, symbol);
+        state.cash += tx.amount;
+        state.dividends += tx.amount;
+        entry.dividends += tx.amount;
+        break;
+      }
+
+      case 'split': {
+        if (!symbol || !tx.splitRatio) break;
+        const entry = getSymbolState(state, symbol);
+        for (const lot of entry.lots) {
+          lot.quantity *= tx.splitRatio;
+          lot.costPerShare /= tx.splitRatio;
+        }
+        entry.lastTradePrice /= tx.splitRatio;
+        break;
+      }
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Close on or before `date` from daily candles, falling back to the last traded price
+ */
+function priceAt(candles: Candle[] | undefined, date: string, fallback: number): number {
+  if (!candles || candles.length === 0) return fallback;
+  const cutoff = new Date(date).getTime() / 1000;
+  let price: number | null = null;
+  for (const candle of candles) {
+    if (candle.timestamp > cutoff) break;
+    price = candle.close;
+  }
+  return price ?? fallback;
+}
+
+function valueAt(state: LedgerState, date: string, priceHistory: Record<string, Candle[]>): number {
+  let value = state.cash;
+  state.symbols.forEach((entry, symbol) => {
+    const quantity = heldQuantity(entry);
+    if (quantity > QUANTITY_EPSILON) {
+      value += quantity * priceAt(priceHistory[symbol], date, entry.lastTradePrice);
+    }
+  });
+  return value;
+}
+
+/**
+ * Money-weighted return (XIRR) from investor cash flows; negative = money in
+ */
+export function calculateXIRR(flows: CashFlow[]): number | null {
+  if (flows.length < 2) return null;
+  if (!flows.some((f) => f.amount < 0) || !flows.some((f) => f.amount > 0)) return null;
+
+  const t0 = new Date(flows[0].date).getTime();
+  const years = flows.map((f) => (new Date(f.date).getTime() - t0) / MS_PER_YEAR);
+  const npv = (rate: number) =>
+    flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+
+  // NPV is monotonic in rate for a conventional flow pattern, so bisection is safe
+  let low = -0.9999;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npv(mid);
+    if (Math.abs(value) < 1e-7) return mid;
+    if (npv(low) * value < 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+export function calculatePortfolio(
+  transactions: Transaction[],
+  method: CostBasisMethod,
+  quotes: Record<string, number>,
+  priceHistory: Record<string, Candle[]> = {},
+  asOf: Date = new Date()
+): PortfolioSummary {
+  // Time-weighted return chains sub-period returns between external flows
+  let twrFactor = 1;
+  let valueAfterLastFlow = 0;
+  const state = replayLedger(transactions, method, (snapshot, date, amount) => {
+    const valueBefore = valueAt(snapshot, date, priceHistory);
+    if (valueAfterLastFlow > 0) twrFactor *= valueBefore / valueAfterLastFlow;
+    valueAfterLastFlow = valueBefore + amount;
+  });
+
+  const positions: Position[] = [];
+  let marketValue = 0;
+  let costBasis = 0;
+  let unrealizedPnl = 0;
+
+  state.symbols.forEach((entry, symbol) => {
+    const quantity = heldQuantity(entry);
+    if (quantity <= QUANTITY_EPSILON) return;
+
+    const basis = entry.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerShare, 0);
+    const marketPrice = quotes[symbol] > 0 ? quotes[symbol] : null;
+    const value = marketPrice !== null ? quantity * marketPrice : null;
+    const pnl = value !== null ? value - basis : null;
+
+    // Unquoted positions are carried at cost so totals stay sensible
+    marketValue += value ?? basis;
+    costBasis += basis;
+    unrealizedPnl += pnl ?? 0;
+
+    positions.push({
+      symbol,
+      quantity,
+      costBasis: basis,
+      averageCost: basis / quantity,
+      lots: entry.lots.map((lot) => ({ ...lot })),
+      openedAt: entry.lots[0].openedAt,
+      marketPrice,
+      marketValue: value,
+      unrealizedPnl: pnl,
+      unrealizedPnlPercent: pnl !== null && basis > 0 ? (pnl / basis) * 100 : null,
+      realizedPnl: entry.realizedPnl,
+      dividends: entry.dividends,
+      weight: null,
+    });
+  });
+
+  const totalValue = state.cash + marketValue;
+  for (const position of positions) {
+    position.weight = totalValue > 0 ? ((position.marketValue ?? position.costBasis) / totalValue) * 100 : null;
+  }
+  positions.sort((a, b) => (b.marketValue ?? b.costBasis) - (a.marketValue ?? a.costBasis));
+
+  const timeWeightedReturn = valueAfterLastFlow > 0
+    ? twrFactor * (totalValue / valueAfterLastFlow) - 1
+    : null;
+
+  const investorFlows: CashFlow[] = [
+    ...state.externalFlows.map((f) => ({ date: f.date, amount: -f.amount })),
+    { date: asOf.toISOString(), amount: totalValue },
+  ];
+
+  return {
+    positions,
+    cash: state.cash,
+    marketValue,
+    totalValue,
+    costBasis,
+    unrealizedPnl,
+    realizedPnl: state.realizedPnl,
+    dividends: state.dividends,
+    fees: state.fees,
+    netContributions: state.netContributions,
+    externalFlows: state.externalFlows,
+    totalReturn: totalValue - state.netContributions,
+    timeWeightedReturn,
+    moneyWeightedReturn: calculateXIRR(investorFlows),
+  };
+}
+
+/**
+ * Shares currently held for a symbol - used to validate sells before they are saved
+ */
+export function getHeldQuantity(transactions: Transaction[], symbol: string, asOf?: string): number {
+  const cutoff = asOf ? new Date(asOf).getTime() : Infinity;
+  const prior = transactions.filter((tx) => new Date(tx.executedAt).getTime() <= cutoff);
+  const entry = replayLedger(prior, 'fifo').symbols.get(symbol.toUpperCase());
+  return entry ? heldQuantity(entry) : 0;
+}
+
+/**
+ * First sell of `symbol` that exceeds the shares held at its point in the ledger, or null.
+ * Pass the ledger with the new or edited sell already in it: a backdated sell can leave a
+ * later sell short even when there are enough shares on its own date.
+ */
+export function findOversoldSell(
+  transactions: Transaction[],
+  symbol: string
+): { transaction: Transaction; held: number } | null {
+  const target = symbol.toUpperCase();
+  let oversold: { transaction: Transaction; held: number } | null = null;
+  replayLedger(transactions, 'fifo', undefined, (tx, held) => {
+    if (!oversold && tx.symbol?.toUpperCase() === target) oversold = { transaction: tx, held };
+  });
+  return oversold;
+}
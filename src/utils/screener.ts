@@ -0,0 +1,224 @@
+/**
+ * Stock Screener
+ * Field catalog, filter/saved-screen schemas and result helpers for the
+ * screener edge function. Field ids mirror supabase/functions/screener.
+ */
+
+import { z } from "zod";
+import type { VerdictResult } from "@shared/verdictEngine";
+
+export type ScreenerUniverse = 'sp500' | 'nasdaq100' | 'watchlist';
+
+export const SCREENER_UNIVERSES: { id: ScreenerUniverse; label: string }[] = [
+  { id: 'sp500', label: 'S&P 500' },
+  { id: 'nasdaq100', label: 'Nasdaq 100' },
+  { id: 'watchlist', label: 'Watchlist' },
+];
+
+export type ScreenerFieldGroup = 'Verdict' | 'Technical' | 'Valuation' | 'Growth & Profitability' | 'Financial Health' | 'Analyst & Risk';
+
+interface BaseFieldInfo {
+  id: string;
+  label: string;
+  group: ScreenerFieldGroup;
+  premium?: boolean; // masked for free tier, mirrors PREMIUM_FUNDAMENTAL_FIELDS
+}
+
+export interface NumericFieldInfo extends BaseFieldInfo {
+  kind: 'number';
+  unit?: '%' | 'x' | '$';
+  digits?: number;
+}
+
+export interface EnumFieldInfo extends BaseFieldInfo {
+  kind: 'enum';
+  options: { value: string; label: string }[];
+}
+
+export type ScreenerFieldInfo = NumericFieldInfo | EnumFieldInfo;
+
+const SIGNAL_OPTIONS: { value: VerdictResult['signal']; label: string }[] = [
+  { value: 'extreme_bullish', label: 'Strong Buy' },
+  { value: 'bullish', label: 'Buy' },
+  { value: 'neutral', label: 'Hold' },
+  { value: 'bearish', label: 'Sell' },
+  { value: 'extreme_bearish', label: 'Strong Sell' },
+];
+
+const DIRECTION_OPTIONS = [
+  { value: 'bullish', label: 'Bullish' },
+  { value: 'neutral', label: 'Neutral' },
+  { value: 'bearish', label: 'Bearish' },
+];
+
+// Sector names as reported by the fundamentals provider
+const SECTOR_OPTIONS = [
+  'Basic Materials', 'Communication Services', 'Consumer Cyclical', 'Consumer Defensive',
+  'Energy', 'Financial Services', 'Healthcare', 'Industrials', 'Real Estate', 'Technology', 'Utilities',
+].map(sector => ({ value: sector, label: sector }));
+
+export const SCREENER_FIELDS: ScreenerFieldInfo[] = [
+  { id: 'score', label: 'Verdict Score', group: 'Verdict', kind: 'number', digits: 0 },
+  { id: 'signal', label: 'Verdict Signal', group: 'Verdict', kind: 'enum', options: SIGNAL_OPTIONS },
+  { id: 'confidence', label: 'Confidence', group: 'Verdict', kind: 'number', unit: '%', digits: 0 },
+  { id: 'technicalScore', label: 'Technical Layer', group: 'Verdict', kind: 'number', digits: 0 },
+  { id: 'fundamentalScore', label: 'Fundamental Layer', group: 'Verdict', kind: 'number', digits: 0 },
+  { id: 'sentimentScore', label: 'Sentiment Layer', group: 'Verdict', kind: 'number', digits: 0 },
+  { id: 'macroScore', label: 'Macro Layer', group: 'Verdict', kind: 'number', digits: 0 },
+
+  { id: 'price', label: 'Price', group: 'Technical', kind: 'number', unit: '$' },
+  { id: 'priceChange', label: 'Day Change', group: 'Technical', kind: 'number', unit: '%' },
+  { id: 'rsi', label: 'RSI (14)', group: 'Technical', kind: 'number', digits: 0 },
+  { id: 'priceVsMa50', label: 'Price vs 50-MA', group: 'Technical', kind: 'number', unit: '%' },
+  { id: 'priceVsMa20', label: 'Price vs 20-MA', group: 'Technical', kind: 'number', unit: '%' },
+  { id: 'volumeRatio', label: 'Volume vs Avg', group: 'Technical', kind: 'number', unit: 'x' },
+  { id: 'macdSignal', label: 'MACD', group: 'Technical', kind: 'enum', options: DIRECTION_OPTIONS },
+  { id: 'emaCrossover', label: 'EMA 20/50', group: 'Technical', kind: 'enum', options: DIRECTION_OPTIONS },
+
+  { id: 'sector', label: 'Sector', group: 'Valuation', kind: 'enum', options: SECTOR_OPTIONS },
+  { id: 'marketCap', label: 'Market Cap', group: 'Valuation', kind: 'number', unit: '$', digits: 0 },
+  { id: 'peRatio', label: 'P/E', group: 'Valuation', kind: 'number', unit: 'x', digits: 1 },
+  { id: 'sectorPe', label: 'Sector P/E', group: 'Valuation', kind: 'number', unit: 'x', digits: 1 },
+  { id: 'peVsSector', label: 'P/E vs Sector', group: 'Valuation', kind: 'number', unit: '%' },
+  { id: 'priceToBook', label: 'P/B', group: 'Valuation', kind: 'number', unit: 'x', premium: true },
+  { id: 'priceToSales', label: 'P/S', group: 'Valuation', kind: 'number', unit: 'x', premium: true },
+  { id: 'evToEbitda', label: 'EV/EBITDA', group: 'Valuation', kind: 'number', unit: 'x', premium: true },
+  { id: 'dividendYield', label: 'Dividend Yield', group: 'Valuation', kind: 'number', unit: '%' },
+
+  { id: 'epsGrowth', label: 'EPS Growth', group: 'Growth & Profitability', kind: 'number', unit: '%', premium: true },
+  { id: 'revenueGrowth', label: 'Revenue Growth', group: 'Growth & Profitability', kind: 'number', unit: '%', premium: true },
+  { id: 'profitMargin', label: 'Net Margin', group: 'Growth & Profitability', kind: 'number', unit: '%', premium: true },
+  { id: 'operatingMargin', label: 'Operating Margin', group: 'Growth & Profitability', kind: 'number', unit: '%', premium: true },
+  { id: 'grossMargin', label: 'Gross Margin', group: 'Growth & Profitability', kind: 'number', unit: '%', premium: true },
+  { id: 'roe', label: 'ROE', group: 'Growth & Profitability', kind: 'number', unit: '%', premium: true },
+  { id: 'roa', label: 'ROA', group: 'Growth & Profitability', kind: 'number', unit: '%', premium: true },
+  { id: 'roic', label: 'ROIC', group: 'Growth & Profitability', kind: 'number', unit: '%', premium: true },
+
+  { id: 'debtToEquity', label: 'Debt/Equity', group: 'Financial Health', kind: 'number', unit: 'x', premium: true },
+  { id: 'currentRatio', label: 'Current Ratio', group: 'Financial Health', kind: 'number', unit: 'x', premium: true },
+  { id: 'quickRatio', label: 'Quick Ratio', group: 'Financial Health', kind: 'number', unit: 'x', premium: true },
+  { id: 'interestCoverage', label: 'Interest Coverage', group: 'Financial Health', kind: 'number', unit: 'x', premium: true },
+  { id: 'freeCashFlowYield', label: 'FCF Yield', group: 'Financial Health', kind: 'number', unit: '%', premium: true },
+  { id: 'payoutRatio', label: 'Payout Ratio', group: 'Financial Health', kind: 'number', unit: '%' },
+
+  { id: 'analystRating', label: 'Analyst Rating', group: 'Analyst & Risk', kind: 'number', digits: 1, premium: true },
+  { id: 'priceToTargetUpside', label: 'Upside to Target', group: 'Analyst & Risk', kind: 'number', unit: '%', premium: true },
+  { id: 'beta', label: 'Beta', group: 'Analyst & Risk', kind: 'number', digits: 2 },
+];
+
+export const SCREENER_FIELD_MAP = new Map(SCREENER_FIELDS.map(f => [f.id, f]));
+
+const NUMERIC_IDS = SCREENER_FIELDS.filter(f => f.kind === 'number').map(f => f.id) as [string, ...string[]];
+const ENUM_IDS = SCREENER_FIELDS.filter(f => f.kind === 'enum').map(f => f.id) as [string, ...string[]];
+
+const numericFilterSchema = z.object({
+  field: z.enum(NUMERIC_IDS),
+  min: z.number().finite().optional(),
+  max: z.number().finite().optional(),
+}).refine(
+  f => f.min === undefined || f.max === undefined || f.min <= f.max,
+  { message: 'Minimum must not be above maximum' }
+);
+
+const enumFilterSchema = z.object({
+  field: z.enum(ENUM_IDS),
+  values: z.array(z.string()),
+});
+
+export const screenFilterSchema = z.union([numericFilterSchema, enumFilterSchema]);
+export const screenFiltersSchema = z.array(screenFilterSchema).max(20, 'At most 20 filters');
+
+export const screenSortSchema = z.object({
+  field: z.string(),
+  direction: z.enum(['asc', 'desc']),
+});
+
+export const screenNameSchema = z.string().trim().min(1, 'Name is required').max(50, 'Name is too long');
+
+export type NumericScreenFilter = { field: string; min?: number; max?: number };
+export type EnumScreenFilter = { field: string; values: string[] };
+export type ScreenFilter = NumericScreenFilter | EnumScreenFilter;
+export type ScreenSort = z.infer<typeof screenSortSchema>;
+
+export const DEFAULT_SCREEN_SORT: ScreenSort = { field: 'score', direction: 'desc' };
+
+export const isEnumFilter = (filter: ScreenFilter): filter is EnumScreenFilter => 'values' in filter;
+
+// Filters whose bounds/values are all empty are dropped before running
+export function isActiveFilter(filter: ScreenFilter): boolean {
+  return isEnumFilter(filter)
+    ? filter.values.length > 0
+    : filter.min !== undefined || filter.max !== undefined;
+}
+
+export interface ScreenerRow {
+  symbol: string;
+  companyName: string | null;
+  industry: string | null;
+  snapshotDate: string;
+  signal: VerdictResult['signal'];
+  [field: string]: string | number | null;
+}
+
+export interface ScreenerResponse {
+  results: ScreenerRow[];
+  universeSize: number;
+  evaluated: number;
+  unavailable: string[];
+  premiumLocked: string[];
+}
+
+export function sortScreenerRows(rows: ScreenerRow[], sort: ScreenSort): ScreenerRow[] {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const av = a[sort.field];
+    const bv = b[sort.field];
+    // Missing values always sink to the bottom
+    if (av === null || av === undefined) return bv === null || bv === undefined ? 0 : 1;
+    if (bv === null || bv === undefined) return -1;
+    if (typeof av === 'number' && typeof bv === 'number') return (av - bv) * factor;
+    return String(av).localeCompare(String(bv)) * factor;
+  });
+}
+
+export function formatScreenerValue(field: ScreenerFieldInfo | undefined, value: string | number | null): string {
+  if (value === null || value === undefined) return '—';
+  if (!field || field.kind === 'enum') {
+    const option = field?.kind === 'enum' ? field.options.find(o => o.value === value) : undefined;
+    return option?.label ?? String(value);
+  }
+
+  const num = value as number;
+  if (field.id === 'marketCap') {
+    if (num >= 1e12) return `$${(num / 1e12).toFixed(2)}T`;
+    if (num >= 1e9) return `$${(num / 1e9).toFixed(1)}B`;
+    return `$${(num / 1e6).toFixed(0)}M`;
+  }
+
+  const formatted = num.toFixed(field.digits ?? 2);
+  if (field.unit === '$') return `$${formatted}`;
+  if (field.unit === '%') return `${formatted}%`;
+  if (field.unit === 'x') return `${formatted}x`;
+  return formatted;
+}
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * CSV of the given rows with raw (unformatted) values so spreadsheets can
+ * sort and chart them.
+ */
+export function screenerRowsToCsv(rows: ScreenerRow[], fieldIds: string[]): string {
+  const header = ['Symbol', 'Company', ...fieldIds.map(id => SCREENER_FIELD_MAP.get(id)?.label ?? id), 'As Of'];
+  const lines = rows.map(row => [
+    row.symbol,
+    row.companyName ?? '',
+    ...fieldIds.map(id => {
+      const value = row[id];
+      if (value === null || value === undefined) return '';
+      return typeof value === 'number' ? String(Math.round(value * 10000) / 10000) : value;
+    }),
+    row.snapshotDate,
+  ].map(v => escapeCsv(String(v))).join(','));
+  return [header.map(escapeCsv).join(','), ...lines].join('\n');
+}
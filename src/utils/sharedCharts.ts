@@ -0,0 +1,122 @@
+/**
+ * Shared charts
+ * What a "share as link" snapshot stores, and the zod schema snapshots are
+ * validated against before the public view renders them.
+ */
+
+import { z } from "zod";
+import type { ChartIndicator, DrawingData, DrawingType, TimeframeType } from "@/types/market";
+import type { VerdictResult } from "@shared/verdictEngine";
+import { parseChartIndicators, serializeIndicators } from "./chartTemplates";
+
+const DRAWING_TYPES = [
+  "trendline",
+  "ray",
+  "channel",
+  "horizontal",
+  "vertical",
+  "rectangle",
+  "fibonacci",
+  "fib_extension",
+  "measure",
+  "annotation",
+  "anchored_vwap",
+] as const satisfies readonly DrawingType[];
+
+const TIMEFRAMES = ["1H", "4H", "1D", "1W", "1M", "3M", "1Y"] as const satisfies readonly TimeframeType[];
+
+export const MAX_SHARED_DRAWINGS = 200;
+
+// How long a new link stays valid; null never expires
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "Never", days: null },
+];
+
+export interface SharedDrawing {
+  type: DrawingType;
+  data: DrawingData;
+  timeframes: string[] | null;
+}
+
+// The verdict as it stood when the link was created
+export interface SharedVerdict {
+  score: number;
+  signal: VerdictResult["signal"];
+  confidence: number;
+  profileName: string;
+}
+
+export interface SharedChartSnapshot {
+  indicators: ChartIndicator[];
+  drawings: SharedDrawing[];
+  verdict: SharedVerdict | null;
+  price: number;
+  changePercent: number;
+}
+
+// A link as the public view receives it
+export interface SharedChartView {
+  symbol: string;
+  timeframe: TimeframeType;
+  snapshot: SharedChartSnapshot;
+  createdAt: string;
+  expiresAt: string | null;
+  viewCount: number;
+}
+
+const sharedDrawingSchema = z.object({
+  type: z.enum(DRAWING_TYPES),
+  data: z.record(z.string(), z.unknown()),
+  timeframes: z.array(z.enum(TIMEFRAMES)).nullable(),
+});
+
+const sharedVerdictSchema = z.object({
+  score: z.number().min(0).max(100),
+  signal: z.enum(["extreme_bearish", "bearish", "neutral", "bullish", "extreme_bullish"]),
+  confidence: z.number().min(0).max(100),
+  profileName: z.string().max(50),
+});
+
+const snapshotSchema = z.object({
+  indicators: z.unknown(),
+  drawings: z.array(sharedDrawingSchema).max(MAX_SHARED_DRAWINGS),
+  verdict: sharedVerdictSchema.nullable(),
+  price: z.number(),
+  changePercent: z.number(),
+});
+
+export const timeframeSchema = z.enum(TIMEFRAMES);
+
+// Only what a snapshot stores; drawing ids and owners stay private
+export function serializeSnapshot(snapshot: SharedChartSnapshot) {
+  return {
+    ...snapshot,
+    indicators: serializeIndicators(snapshot.indicators),
+    drawings: snapshot.drawings.map(({ type, data, timeframes }) => ({ type, data, timeframes })),
+  };
+}
+
+export function toSharedVerdict(verdict: VerdictResult): SharedVerdict {
+  return {
+    score: Math.round(verdict.score),
+    signal: verdict.signal,
+    confidence: Math.round(verdict.confidence),
+    profileName: verdict.profile.name,
+  };
+}
+
+// Validate a stored snapshot; indicators go through the chart template schema
+export function parseSharedChartSnapshot(raw: unknown): SharedChartSnapshot | null {
+  const result = snapshotSchema.safeParse(raw);
+  if (!result.success) return null;
+  const indicators = parseChartIndicators(result.data.indicators);
+  if (!indicators) return null;
+  return { ...(result.data as Omit<SharedChartSnapshot, "indicators">), indicators };
+}
+
+export function sharedChartUrl(id: string): string {
+  return `${window.location.origin}/s/${id}`;
+}
@@ -1,39 +1,23 @@
 import type { Candle } from "@/types/market";
+import { calculateATR, calculateEMA, calculateSMA, rollingMax, rollingMin } from "@shared/indicators";
 
-// Technical indicator calculations - extracted for reuse
-
-export function calculateSMA(data: number[], period: number): (number | null)[] {
-  // Strict validation: return all nulls if insufficient data for even one valid calculation
-  if (data.length < period) {
-    return data.map(() => null);
-  }
-  
-  return data.map((_, i) => {
-    if (i < period - 1) return null;
-    const slice = data.slice(i - period + 1, i + 1);
-    return slice.reduce((sum, val) => sum + val, 0) / period;
-  });
-}
-
-export function calculateEMA(data: number[], period: number): (number | null)[] {
-  const result: (number | null)[] = [];
-  const multiplier = 2 / (period + 1);
-
-  for (let i = 0; i < data.length; i++) {
-    if (i < period - 1) {
-      result.push(null);
-    } else if (i === period - 1) {
-      // First EMA is SMA
-      const sma = data.slice(0, period).reduce((sum, val) => sum + val, 0) / period;
-      result.push(sma);
-    } else {
-      const prevEma = result[i - 1] as number;
-      const ema = (data[i] - prevEma) * multiplier + prevEma;
-      result.push(ema);
-    }
-  }
-  return result;
-}
+// Technical indicator calculations - extracted for reuse. The ones the edge
+// functions use as well live in @shared/indicators and are re-exported here.
+export {
+  applyToDefined,
+  calculateADX,
+  calculateATR,
+  calculateEMA,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+  calculateStochastic,
+  deriveTechnicalIndicatorHistory,
+  deriveTechnicalIndicators,
+  rollingMax,
+  rollingMin,
+  type TechnicalIndicators,
+} from "@shared/indicators";
 
 export function calculateBollingerBands(
   data: number[],
@@ -65,106 +49,272 @@ export function calculateBollingerBands(
   return { upper, middle: sma, lower };
 }
 
-export function calculateRSI(data: number[], period: number = 14): (number | null)[] {
-  const result: (number | null)[] = [];
+const DAY_SECONDS = 86400;
 
-  // Strict validation: need period + 1 data points minimum for first valid RSI
-  // Plus additional warm-up period (~50 days) for Wilder's smoothing to stabilize
-  const minimumRequired = period + 1;
-  if (data.length < minimumRequired) {
-    return data.map(() => null);
-  }
+// Session a bar belongs to: the UTC day for intraday bars (a US regular session
+// never crosses midnight UTC), the month for daily bars and the year beyond that
+function vwapSessionKeys(candles: Pick<Candle, "timestamp">[]): string[] {
+  const spacing = candles.length > 1
+    ? (candles[candles.length - 1].timestamp - candles[0].timestamp) / (candles.length - 1)
+    : DAY_SECONDS;
+  const length = spacing < DAY_SECONDS * 0.9 ? 10 : spacing < DAY_SECONDS * 6 ? 7 : 4;
+  return candles.map((c) => new Date(c.timestamp * 1000).toISOString().slice(0, length));
+}
 
-  // Calculate initial average gain and loss
-  let avgGain = 0;
-  let avgLoss = 0;
+/**
+ * VWAP of the typical price, reset at the start of every session (see
+ * vwapSessionKeys), with volume-weighted standard-deviation bands at
+ * `stdDev` and `outerStdDev`.
+ */
+export function calculateVWAP(
+  candles: Candle[],
+  stdDev: number = 1,
+  outerStdDev: number = 2
+): {
+  value: (number | null)[];
+  upper: (number | null)[];
+  lower: (number | null)[];
+  outerUpper: (number | null)[];
+  outerLower: (number | null)[];
+} {
+  const sessions = vwapSessionKeys(candles);
+  const value: (number | null)[] = [];
+  const upper: (number | null)[] = [];
+  const lower: (number | null)[] = [];
+  const outerUpper: (number | null)[] = [];
+  const outerLower: (number | null)[] = [];
+  let cumulativeTPV = 0;
+  let cumulativeTP2V = 0;
+  let cumulativeVolume = 0;
 
-  for (let i = 1; i <= period; i++) {
-    const change = data[i] - data[i - 1];
-    if (change > 0) avgGain += change;
-    else avgLoss += Math.abs(change);
-  }
+  candles.forEach((candle, i) => {
+    if (i > 0 && sessions[i] !== sessions[i - 1]) {
+      cumulativeTPV = 0;
+      cumulativeTP2V = 0;
+      cumulativeVolume = 0;
+    }
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    cumulativeTPV += typicalPrice * candle.volume;
+    cumulativeTP2V += typicalPrice * typicalPrice * candle.volume;
+    cumulativeVolume += candle.volume;
 
-  avgGain /= period;
-  avgLoss /= period;
+    if (cumulativeVolume <= 0) {
+      for (const series of [value, upper, lower, outerUpper, outerLower]) series.push(null);
+      return;
+    }
+    const vwap = cumulativeTPV / cumulativeVolume;
+    const std = Math.sqrt(Math.max(0, cumulativeTP2V / cumulativeVolume - vwap * vwap));
+    value.push(vwap);
+    upper.push(vwap + stdDev * std);
+    lower.push(vwap - stdDev * std);
+    outerUpper.push(vwap + outerStdDev * std);
+    outerLower.push(vwap - outerStdDev * std);
+  });
 
-  // Fill nulls for the warm-up period
-  for (let i = 0; i < period; i++) {
-    result.push(null);
-  }
+  return { value, upper, lower, outerUpper, outerLower };
+}
 
-  // Calculate first RSI value
-  const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-  result.push(100 - 100 / (1 + rs));
+// VWAP accumulated from `anchorIndex` onwards; null before the anchor
+export function calculateAnchoredVWAP(candles: Candle[], anchorIndex: number): (number | null)[] {
+  let cumulativeTPV = 0;
+  let cumulativeVolume = 0;
 
-  // Apply Wilder's smoothing for the rest of the data
-  for (let i = period + 1; i < data.length; i++) {
-    const change = data[i] - data[i - 1];
-    const currentGain = change > 0 ? change : 0;
-    const currentLoss = change < 0 ? Math.abs(change) : 0;
+  return candles.map((candle, i) => {
+    if (anchorIndex < 0 || i < anchorIndex) return null;
+    cumulativeTPV += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    cumulativeVolume += candle.volume;
+    return cumulativeVolume > 0 ? cumulativeTPV / cumulativeVolume : null;
+  });
+}
 
-    avgGain = (avgGain * (period - 1) + currentGain) / period;
-    avgLoss = (avgLoss * (period - 1) + currentLoss) / period;
+export function calculateOBV(candles: Candle[]): (number | null)[] {
+  let obv = 0;
 
-    if (avgLoss === 0) {
-      result.push(100);
-    } else {
-      const rs = avgGain / avgLoss;
-      result.push(100 - 100 / (1 + rs));
+  return candles.map((candle, i) => {
+    if (i > 0) {
+      const prevClose = candles[i - 1].close;
+      if (candle.close > prevClose) obv += candle.volume;
+      else if (candle.close < prevClose) obv -= candle.volume;
     }
-  }
+    return obv;
+  });
+}
 
-  return result;
+/**
+ * Ichimoku Kinko Hyo. Span A/B are shifted forward by `displacement` and the
+ * lagging span back by it, all clipped to the input range: the cloud is not
+ * projected past the last bar. The lagging span reads future closes, so it is
+ * for display only and must never feed a score.
+ */
+export function calculateIchimoku(
+  candles: Candle[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  spanBPeriod: number = 52,
+  displacement: number = 26
+): {
+  conversion: (number | null)[];
+  base: (number | null)[];
+  spanA: (number | null)[];
+  spanB: (number | null)[];
+  lagging: (number | null)[];
+} {
+  const highs = candles.map((c) => c.high);
+  const lows = candles.map((c) => c.low);
+
+  const midpoint = (period: number) => {
+    const highest = rollingMax(highs, period);
+    const lowest = rollingMin(lows, period);
+    return highest.map((high, i) => (high === null || lowest[i] === null ? null : (high + (lowest[i] as number)) / 2));
+  };
+
+  const conversion = midpoint(conversionPeriod);
+  const base = midpoint(basePeriod);
+  const rawSpanA = conversion.map((c, i) => (c === null || base[i] === null ? null : (c + (base[i] as number)) / 2));
+  const rawSpanB = midpoint(spanBPeriod);
+
+  const spanA = candles.map((_, i) => (i < displacement ? null : rawSpanA[i - displacement]));
+  const spanB = candles.map((_, i) => (i < displacement ? null : rawSpanB[i - displacement]));
+  const lagging = candles.map((_, i) => (i + displacement < candles.length ? candles[i + displacement].close : null));
+
+  return { conversion, base, spanA, spanB, lagging };
 }
 
-export function calculateMACD(
-  data: number[],
-  fastPeriod: number = 12,
-  slowPeriod: number = 26,
-  signalPeriod: number = 9
+export function calculateKeltnerChannels(
+  candles: Candle[],
+  emaPeriod: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2
 ): {
-  macd: (number | null)[];
-  signal: (number | null)[];
-  histogram: (number | null)[];
+  upper: (number | null)[];
+  middle: (number | null)[];
+  lower: (number | null)[];
 } {
-  const fastEma = calculateEMA(data, fastPeriod);
-  const slowEma = calculateEMA(data, slowPeriod);
+  const middle = calculateEMA(candles.map((c) => c.close), emaPeriod);
+  const atr = calculateATR(candles, atrPeriod);
 
-  const macd = fastEma.map((fast, i) => {
-    const slow = slowEma[i];
-    if (fast === null || slow === null) return null;
-    return fast - slow;
-  });
+  const upper = middle.map((m, i) => (m === null || atr[i] === null ? null : m + multiplier * (atr[i] as number)));
+  const lower = middle.map((m, i) => (m === null || atr[i] === null ? null : m - multiplier * (atr[i] as number)));
 
-  // Calculate signal line (EMA of MACD)
-  const macdValues = macd.filter((v) => v !== null) as number[];
-  const signalEma = calculateEMA(macdValues, signalPeriod);
+  return { upper, middle, lower };
+}
 
-  // Map signal back to original indices
-  let signalIdx = 0;
-  const signal = macd.map((m) => {
-    if (m === null) return null;
-    return signalEma[signalIdx++] ?? null;
-  });
+export function calculateDonchianChannels(candles: Candle[], period: number = 20): {
+  upper: (number | null)[];
+  middle: (number | null)[];
+  lower: (number | null)[];
+} {
+  const upper = rollingMax(candles.map((c) => c.high), period);
+  const lower = rollingMin(candles.map((c) => c.low), period);
+  const middle = upper.map((u, i) => (u === null || lower[i] === null ? null : (u + (lower[i] as number)) / 2));
 
-  const histogram = macd.map((m, i) => {
-    const s = signal[i];
-    if (m === null || s === null) return null;
-    return m - s;
-  });
+  return { upper, middle, lower };
+}
+
+/**
+ * SuperTrend line and direction (1 = uptrend, -1 = downtrend). The line is the
+ * lower band while trending up and the upper band while trending down.
+ */
+export function calculateSuperTrend(
+  candles: Candle[],
+  period: number = 10,
+  multiplier: number = 3
+): {
+  value: (number | null)[];
+  direction: (number | null)[];
+} {
+  const atr = calculateATR(candles, period);
+  const value: (number | null)[] = [];
+  const direction: (number | null)[] = [];
 
-  return { macd, signal, histogram };
+  let upperBand: number | null = null;
+  let lowerBand: number | null = null;
+  let trend = 1;
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+    if (atr[i] === null) {
+      value.push(null);
+      direction.push(null);
+      continue;
+    }
+
+    const hl2 = (candle.high + candle.low) / 2;
+    const basicUpper = hl2 + multiplier * (atr[i] as number);
+    const basicLower = hl2 - multiplier * (atr[i] as number);
+
+    if (upperBand === null || lowerBand === null) {
+      upperBand = basicUpper;
+      lowerBand = basicLower;
+      trend = candle.close >= hl2 ? 1 : -1;
+    } else {
+      const prevClose = candles[i - 1].close;
+      // Bands only tighten while price stays on the same side of them
+      upperBand = basicUpper < upperBand || prevClose > upperBand ? basicUpper : upperBand;
+      lowerBand = basicLower > lowerBand || prevClose < lowerBand ? basicLower : lowerBand;
+
+      if (trend === -1 && candle.close > upperBand) trend = 1;
+      else if (trend === 1 && candle.close < lowerBand) trend = -1;
+    }
+
+    value.push(trend === 1 ? lowerBand : upperBand);
+    direction.push(trend);
+  }
+
+  return { value, direction };
 }
 
-export function calculateVWAP(candles: Candle[]): (number | null)[] {
-  let cumulativeTPV = 0;
-  let cumulativeVolume = 0;
+export function calculateParabolicSAR(
+  candles: Candle[],
+  step: number = 0.02,
+  maxStep: number = 0.2
+): (number | null)[] {
+  if (candles.length < 2) {
+    return candles.map(() => null);
+  }
 
-  return candles.map((candle) => {
-    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
-    cumulativeTPV += typicalPrice * candle.volume;
-    cumulativeVolume += candle.volume;
+  const result: (number | null)[] = [null];
+  let isUptrend = candles[1].close >= candles[0].close;
+  let sar = isUptrend ? candles[0].low : candles[0].high;
+  let extremePoint = isUptrend ? candles[0].high : candles[0].low;
+  let acceleration = step;
 
-    return cumulativeVolume > 0 ? cumulativeTPV / cumulativeVolume : null;
-  });
+  for (let i = 1; i < candles.length; i++) {
+    const candle = candles[i];
+    const prev = candles[i - 1];
+    const prev2 = candles[Math.max(0, i - 2)];
+
+    sar += acceleration * (extremePoint - sar);
+
+    if (isUptrend) {
+      // SAR may not rise above the prior two lows
+      sar = Math.min(sar, prev.low, prev2.low);
+      if (candle.low < sar) {
+        isUptrend = false;
+        sar = extremePoint;
+        extremePoint = candle.low;
+        acceleration = step;
+      } else if (candle.high > extremePoint) {
+        extremePoint = candle.high;
+        acceleration = Math.min(acceleration + step, maxStep);
+      }
+    } else {
+      // SAR may not fall below the prior two highs
+      sar = Math.max(sar, prev.high, prev2.high);
+      if (candle.high > sar) {
+        isUptrend = true;
+        sar = extremePoint;
+        extremePoint = candle.high;
+        acceleration = step;
+      } else if (candle.low < extremePoint) {
+        extremePoint = candle.low;
+        acceleration = Math.min(acceleration + step, maxStep);
+      }
+    }
+
+    result.push(sar);
+  }
+
+  return result;
 }
+
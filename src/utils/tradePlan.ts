@@ -0,0 +1,312 @@
+/**
+ * Trade Plan Generator
+ * Turns a VerdictResult plus recent price action (ATR, support/resistance) into a
+ * deterministic entry zone, stop, targets and risk/reward. Every catalyst, risk and
+ * rationale line points back at the VerdictMetric(s) it was derived from.
+ */
+
+import type { Candle } from "@/types/market";
+import { calculateATR } from "./technicalIndicators";
+import type { VerdictMetric, VerdictResult } from "@shared/verdictEngine";
+
+export type TradeDirection = 'long' | 'short' | 'neutral';
+
+export interface TradePlanLevels {
+  support: number[];
+  resistance: number[];
+}
+
+export interface TradePlanInput {
+  verdict: VerdictResult;
+  candles: Candle[];
+  atr?: number; // defaults to 14-period ATR from candles
+  levels?: TradePlanLevels; // defaults to swing pivots from candles
+}
+
+export interface TradeTarget {
+  price: number;
+  changePercent: number; // vs current price
+  riskReward: number; // reward / risk measured from the entry midpoint
+  source: 'level' | 'r_multiple';
+}
+
+export interface TradeStop {
+  price: number;
+  changePercent: number;
+  source: 'level' | 'atr';
+}
+
+export interface TradePlanInsight {
+  metricId: string;
+  text: string;
+  signal: VerdictMetric['signal'];
+}
+
+export interface TradePlanRationale {
+  text: string;
+  metricIds: string[];
+}
+
+export interface TradePlan {
+  direction: TradeDirection;
+  signal: 'Strong Buy' | 'Buy' | 'Hold' | 'Sell' | 'Strong Sell';
+  score: number;
+  confidence: number;
+  price: number;
+  atr: number;
+  nearestSupport?: number;
+  nearestResistance?: number;
+  entryZone: { low: number; high: number } | null; // null when direction is neutral
+  stopLoss: TradeStop | null;
+  targets: TradeTarget[];
+  riskReward: number | null; // to the first target
+  riskLevel: 'Low' | 'Moderate' | 'Elevated' | 'High';
+  timeHorizon: string;
+  catalysts: TradePlanInsight[];
+  risks: TradePlanInsight[];
+  rationale: TradePlanRationale[];
+  factorCount: number;
+}
+
+const ATR_PERIOD = 14;
+const SWING_WINDOW = 5; // bars on each side that a pivot must dominate
+const SWING_LOOKBACK = 120;
+
+// Plan geometry, all expressed in ATR multiples so it scales with volatility
+const ENTRY_PULLBACK_ATR = 0.5;
+const STOP_BUFFER_ATR = 0.25;
+const MIN_STOP_ATR = 1;
+const MAX_STOP_ATR = 3;
+const DEFAULT_STOP_ATR = 1.5;
+const MIN_TARGET_R = 1.5;
+const DEFAULT_TARGET_R = 2;
+const EXTENDED_TARGET_R = 3;
+
+const SIGNAL_LABELS: Record<VerdictResult['signal'], TradePlan['signal']> = {
+  extreme_bullish: 'Strong Buy',
+  bullish: 'Buy',
+  neutral: 'Hold',
+  bearish: 'Sell',
+  extreme_bearish: 'Strong Sell',
+};
+
+const LAYER_LABELS: Record<VerdictMetric['layer'], string> = {
+  technical: 'Technical',
+  fundamental: 'Fundamental',
+  sentiment: 'Sentiment',
+  macro: 'Macro',
+};
+
+const RISK_LEVELS: TradePlan['riskLevel'][] = ['Low', 'Moderate', 'Elevated', 'High'];
+
+function getDirection(signal: VerdictResult['signal']): TradeDirection {
+  if (signal === 'bullish' || signal === 'extreme_bullish') return 'long';
+  if (signal === 'bearish' || signal === 'extreme_bearish') return 'short';
+  return 'neutral';
+}
+
+function percentFrom(price: number, level: number): number {
+  return ((level - price) / price) * 100;
+}
+
+function importance(metric: VerdictMetric): number {
+  return metric.strength * metric.weight;
+}
+
+function describeMetric(metric: VerdictMetric): TradePlanInsight {
+  return {
+    metricId: metric.id,
+    text: `${metric.name}: ${metric.description}`,
+    signal: metric.signal,
+  };
+}
+
+/**
+ * Swing-pivot support/resistance: a bar whose high (low) dominates SWING_WINDOW bars
+ * on either side. Pivots are split by the current price rather than by pivot type,
+ * so a broken resistance becomes support and vice versa.
+ */
+function findSwingLevels(candles: Candle[], price: number): TradePlanLevels {
+  const recent = candles.slice(-SWING_LOOKBACK);
+  const pivots: number[] = [];
+
+  for (let i = SWING_WINDOW; i < recent.length - SWING_WINDOW; i++) {
+    const window = recent.slice(i - SWING_WINDOW, i + SWING_WINDOW + 1);
+    if (window.every((c) => c.high <= recent[i].high)) pivots.push(recent[i].high);
+    if (window.every((c) => c.low >= recent[i].low)) pivots.push(recent[i].low);
+  }
+
+  return {
+    support: pivots.filter((level) => level < price),
+    resistance: pivots.filter((level) => level > price),
+  };
+}
+
+function getRiskLevel(atrPercent: number, confidence: number): TradePlan['riskLevel'] {
+  let index = atrPercent < 2 ? 0 : atrPercent < 3.5 ? 1 : atrPercent < 5 ? 2 : 3;
+  // Thin data makes the plan itself less reliable
+  if (confidence < 50) index = Math.min(RISK_LEVELS.length - 1, index + 1);
+  return RISK_LEVELS[index];
+}
+
+function getTimeHorizon(atrsToTarget: number): string {
+  if (atrsToTarget <= 2) return '3-7 days';
+  if (atrsToTarget <= 4) return '1-3 weeks';
+  if (atrsToTarget <= 8) return '3-6 weeks';
+  return '1-3 months';
+}
+
+function buildRationale(
+  verdict: VerdictResult,
+  plan: Pick<TradePlan, 'direction' | 'signal' | 'stopLoss' | 'targets' | 'atr' | 'nearestSupport' | 'nearestResistance'>
+): TradePlanRationale[] {
+  const rationale: TradePlanRationale[] = [{
+    text: `Composite score of ${verdict.score}/100 (${plan.signal}) across ${verdict.metrics.length} metrics at ${verdict.confidence}% confidence.`,
+    metricIds: verdict.metrics.map((m) => m.id),
+  }];
+
+  // Layers furthest from neutral explain the verdict best
+  const layers = (Object.keys(verdict.layerScores) as VerdictMetric['layer'][])
+    .map((layer) => ({
+      layer,
+      score: verdict.layerScores[layer],
+      metrics: verdict.metrics.filter((m) => m.layer === layer),
+    }))
+    .filter((entry) => entry.metrics.length > 0)
+    .sort((a, b) => Math.abs(b.score - 50) - Math.abs(a.score - 50))
+    .slice(0, 2);
+
+  for (const { layer, score, metrics } of layers) {
+    const lead = [...metrics].sort((a, b) => importance(b) - importance(a))[0];
+    rationale.push({
+      text: `${LAYER_LABELS[layer]} layer scores ${score}/100, led by ${lead.name} (${lead.description}).`,
+      metricIds: [lead.id],
+    });
+  }
+
+  if (plan.direction === 'neutral') {
+    const watch = [
+      plan.nearestResistance !== undefined && `a close above $${plan.nearestResistance.toFixed(2)}`,
+      plan.nearestSupport !== undefined && `a close below $${plan.nearestSupport.toFixed(2)}`,
+    ].filter(Boolean);
+    rationale.push({
+      text: watch.length > 0
+        ? `No edge at current levels; wait for ${watch.join(' or ')} before committing.`
+        : 'No edge at current levels; wait for a directional break before committing.',
+      metricIds: [],
+    });
+  } else if (plan.stopLoss && plan.targets.length > 0) {
+    const isLong = plan.direction === 'long';
+    const stopBasis = plan.stopLoss.source === 'level'
+      ? `${isLong ? 'below' : 'above'} the nearest ${isLong ? 'support' : 'resistance'}`
+      : `${DEFAULT_STOP_ATR}x ATR ($${plan.atr.toFixed(2)}) from entry`;
+    const target = plan.targets[0];
+    const targetBasis = target.source === 'level'
+      ? `the next ${isLong ? 'resistance' : 'support'}`
+      : `a ${DEFAULT_TARGET_R}R projection`;
+    rationale.push({
+      text: `Stop sits ${stopBasis}; first target is ${targetBasis} for ${target.riskReward.toFixed(1)}:1 reward/risk.`,
+      metricIds: [],
+    });
+  }
+
+  return rationale;
+}
+
+export function generateTradePlan({ verdict, candles, atr: atrOverride, levels: levelsOverride }: TradePlanInput): TradePlan | null {
+  if (candles.length === 0) return null;
+
+  const price = candles[candles.length - 1].close;
+  const atrValues = calculateATR(candles, ATR_PERIOD);
+  const atr = atrOverride ?? atrValues[atrValues.length - 1];
+  if (!atr || atr <= 0 || price <= 0) return null;
+
+  const levels = levelsOverride ?? findSwingLevels(candles, price);
+  const supports = levels.support.filter((l) => l < price).sort((a, b) => b - a); // nearest first
+  const resistances = levels.resistance.filter((l) => l > price).sort((a, b) => a - b);
+
+  const direction = getDirection(verdict.signal);
+  const signal = SIGNAL_LABELS[verdict.signal];
+
+  let entryZone: TradePlan['entryZone'] = null;
+  let stopLoss: TradeStop | null = null;
+  const targets: TradeTarget[] = [];
+
+  if (direction !== 'neutral') {
+    // d flips every price comparison so long and short share one code path
+    const d = direction === 'long' ? 1 : -1;
+    const protective = d === 1 ? supports : resistances;
+    const objectives = d === 1 ? resistances : supports;
+
+    // Entry: from current price back toward the nearest protective level, capped at a half-ATR pullback
+    const pullback = price - d * ENTRY_PULLBACK_ATR * atr;
+    const nearest = protective[0];
+    const entryEdge = nearest !== undefined && (price - nearest) * d < ENTRY_PULLBACK_ATR * atr ? nearest : pullback;
+    entryZone = { low: Math.min(price, entryEdge), high: Math.max(price, entryEdge) };
+    const entry = (entryZone.low + entryZone.high) / 2;
+
+    // Stop: just beyond the first protective level past the entry zone, if that is a sane distance
+    const anchor = protective.find((l) => (entryEdge - l) * d >= 0);
+    let stopPrice = entry - d * DEFAULT_STOP_ATR * atr;
+    let stopSource: TradeStop['source'] = 'atr';
+    if (anchor !== undefined) {
+      const candidate = anchor - d * STOP_BUFFER_ATR * atr;
+      const distance = (entry - candidate) * d;
+      if (distance >= MIN_STOP_ATR * atr && distance <= MAX_STOP_ATR * atr) {
+        stopPrice = candidate;
+        stopSource = 'level';
+      }
+    }
+    stopLoss = { price: stopPrice, changePercent: percentFrom(price, stopPrice), source: stopSource };
+    const risk = (entry - stopPrice) * d;
+
+    const toTarget = (level: number, source: TradeTarget['source']): TradeTarget => ({
+      price: level,
+      changePercent: percentFrom(price, level),
+      riskReward: ((level - entry) * d) / risk,
+      source,
+    });
+
+    // Targets: the first objective level worth at least MIN_TARGET_R, then the next one beyond it
+    const first = objectives.find((l) => (l - entry) * d >= MIN_TARGET_R * risk);
+    const t1 = first !== undefined
+      ? toTarget(first, 'level')
+      : toTarget(entry + d * DEFAULT_TARGET_R * risk, 'r_multiple');
+    const second = objectives.find((l) => (l - t1.price) * d >= ENTRY_PULLBACK_ATR * atr);
+    const t2 = second !== undefined
+      ? toTarget(second, 'level')
+      : toTarget(entry + d * Math.max(EXTENDED_TARGET_R * risk, (t1.price - entry) * d + risk), 'r_multiple');
+    targets.push(t1, t2);
+  }
+
+  const favored: VerdictMetric['signal'] = direction === 'short' ? 'bearish' : 'bullish';
+  const opposed: VerdictMetric['signal'] = favored === 'bullish' ? 'bearish' : 'bullish';
+  const ranked = [...verdict.metrics].sort((a, b) => importance(b) - importance(a));
+
+  const firstTarget = targets[0];
+  const entryMid = entryZone ? (entryZone.low + entryZone.high) / 2 : price;
+
+  const plan = {
+    direction,
+    signal,
+    score: verdict.score,
+    confidence: verdict.confidence,
+    price,
+    atr,
+    nearestSupport: supports[0],
+    nearestResistance: resistances[0],
+    entryZone,
+    stopLoss,
+    targets,
+    riskReward: firstTarget ? firstTarget.riskReward : null,
+    riskLevel: getRiskLevel((atr / price) * 100, verdict.confidence),
+    timeHorizon: firstTarget
+      ? getTimeHorizon(Math.abs(firstTarget.price - entryMid) / atr)
+      : 'Wait for confirmation',
+    catalysts: ranked.filter((m) => m.signal === favored).slice(0, 3).map(describeMetric),
+    risks: ranked.filter((m) => m.signal === opposed).slice(0, 2).map(describeMetric),
+    factorCount: verdict.metrics.length,
+  };
+
+  return { ...plan, rationale: buildRationale(verdict, plan) };
+}
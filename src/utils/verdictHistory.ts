@@ -0,0 +1,108 @@
+/**
+ * Verdict History
+ * Types and helpers for the daily verdict_snapshots written by the
+ * snapshot-verdicts job, including detection of metrics whose state flipped
+ * between consecutive snapshots.
+ */
+
+import type { VerdictMetric, VerdictResult } from "@shared/verdictEngine";
+
+export type SnapshotMetric = Pick<VerdictMetric, 'id' | 'name' | 'layer' | 'score' | 'signal' | 'description'>;
+
+export interface VerdictSnapshot {
+  date: string; // YYYY-MM-DD
+  score: number;
+  signal: VerdictResult['signal'];
+  confidence: number;
+  price: number | null;
+  layerScores: VerdictResult['layerScores'];
+  topMetrics: SnapshotMetric[];
+  metrics: SnapshotMetric[];
+}
+
+export interface MetricFlip {
+  date: string; // snapshot on which the new state was first seen
+  metricId: string;
+  metricName: string;
+  from: string;
+  to: string;
+  fromSignal: VerdictMetric['signal'];
+  toSignal: VerdictMetric['signal'];
+}
+
+export interface ScoreChange {
+  date: string;
+  from: number;
+  to: number;
+  fromSignal: VerdictResult['signal'];
+  toSignal: VerdictResult['signal'];
+}
+
+/**
+ * Categorical state of a metric, used to tell a real flip from a value drifting.
+ * "RSI at 72 - Overbought" -> "overbought"; descriptions that only carry numbers
+ * ("Trading 3.1% above 50-day MA") fall back to the metric's signal.
+ */
+export function getMetricState(metric: SnapshotMetric): string {
+  const label = metric.description.includes(' - ')
+    ? metric.description.slice(metric.description.lastIndexOf(' - ') + 3)
+    : metric.description;
+  const cleaned = label.replace(/\s*\([^)]*\)/g, '').trim().toLowerCase();
+  return !cleaned || /\d/.test(cleaned) ? metric.signal : cleaned;
+}
+
+/**
+ * Metrics whose state changed between consecutive snapshots, newest first.
+ * Metrics missing from either side (e.g. no data that day) are not flips.
+ */
+export function detectMetricFlips(snapshots: VerdictSnapshot[]): MetricFlip[] {
+  const flips: MetricFlip[] = [];
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = new Map(snapshots[i - 1].metrics.map((m) => [m.id, m]));
+
+    for (const metric of snapshots[i].metrics) {
+      const before = previous.get(metric.id);
+      if (!before) continue;
+
+      const from = getMetricState(before);
+      const to = getMetricState(metric);
+      if (from === to) continue;
+
+      flips.push({
+        date: snapshots[i].date,
+        metricId: metric.id,
+        metricName: metric.name,
+        from,
+        to,
+        fromSignal: before.signal,
+        toSignal: metric.signal,
+      });
+    }
+  }
+
+  return flips.reverse();
+}
+
+/**
+ * Days on which the overall verdict signal changed, newest first.
+ */
+export function detectSignalChanges(snapshots: VerdictSnapshot[]): ScoreChange[] {
+  const changes: ScoreChange[] = [];
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const before = snapshots[i - 1];
+    const after = snapshots[i];
+    if (before.signal === after.signal) continue;
+
+    changes.push({
+      date: after.date,
+      from: before.score,
+      to: after.score,
+      fromSignal: before.signal,
+      toSignal: after.signal,
+    });
+  }
+
+  return changes.reverse();
+}
@@ -0,0 +1,96 @@
+/**
+ * Strategy profiles for the Master Verdict
+ * Built-in presets plus the zod schema every stored profile is validated against.
+ */
+
+import { z } from "zod";
+import {
+  DEFAULT_THRESHOLDS,
+  DEFAULT_VERDICT_PROFILE,
+  LAYER_WEIGHTS,
+  VERDICT_METRICS,
+  type VerdictProfile,
+  type VerdictProfileConfig,
+} from "@shared/verdictEngine";
+
+const METRIC_IDS = VERDICT_METRICS.map(m => m.id) as [string, ...string[]];
+
+const weight = z.number().min(0).max(1);
+
+export const verdictProfileConfigSchema = z.object({
+  layerWeights: z.object({
+    technical: weight,
+    fundamental: weight,
+    sentiment: weight,
+    macro: weight,
+  }).refine(
+    w => Math.abs(w.technical + w.fundamental + w.sentiment + w.macro - 1) < 0.001,
+    { message: 'Layer weights must add up to 100%' }
+  ),
+  metricWeights: z.record(z.enum(METRIC_IDS), weight),
+  thresholds: z.object({
+    rsiOverbought: z.number().min(50).max(100),
+    rsiOversold: z.number().min(0).max(50),
+    rsiBullish: z.number().min(0).max(100),
+    rsiBearish: z.number().min(0).max(100),
+    ma50ExtendedPercent: z.number().gt(0).max(50),
+    volumeSpikeRatio: z.number().gt(1).max(10),
+  }).refine(
+    t => t.rsiOversold <= t.rsiBearish && t.rsiBearish <= t.rsiBullish && t.rsiBullish <= t.rsiOverbought,
+    { message: 'RSI thresholds must be ordered: oversold ≤ bearish ≤ bullish ≤ overbought' }
+  ),
+});
+
+export const verdictProfileNameSchema = z.string().trim().min(1, 'Name is required').max(50, 'Name is too long');
+
+/**
+ * Validate a stored config. Missing sections fall back to the defaults so
+ * profiles saved before a new threshold existed keep working.
+ */
+export function parseVerdictProfileConfig(raw: unknown): VerdictProfileConfig | null {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<VerdictProfileConfig>;
+  const result = verdictProfileConfigSchema.safeParse({
+    layerWeights: { ...LAYER_WEIGHTS, ...value.layerWeights },
+    metricWeights: value.metricWeights ?? {},
+    thresholds: { ...DEFAULT_THRESHOLDS, ...value.thresholds },
+  });
+  return result.success ? (result.data as VerdictProfileConfig) : null;
+}
+
+// First validation error, formatted for a toast
+export function getVerdictProfileConfigError(config: VerdictProfileConfig): string | null {
+  const result = verdictProfileConfigSchema.safeParse(config);
+  return result.success ? null : result.error.issues[0]?.message ?? 'Invalid profile';
+}
+
+export const VERDICT_PROFILE_PRESETS: VerdictProfile[] = [
+  DEFAULT_VERDICT_PROFILE,
+  {
+    id: null,
+    name: 'Momentum',
+    config: {
+      layerWeights: { technical: 0.60, fundamental: 0.10, sentiment: 0.25, macro: 0.05 },
+      metricWeights: { ema_crossover: 0.25, macd: 0.20, volume: 0.25, price_vs_ma20: 0.20 },
+      // Let trends run further before RSI reads as overbought
+      thresholds: { ...DEFAULT_THRESHOLDS, rsiOverbought: 80, rsiOversold: 20, ma50ExtendedPercent: 12 },
+    },
+  },
+  {
+    id: null,
+    name: 'Value',
+    config: {
+      layerWeights: { technical: 0.15, fundamental: 0.60, sentiment: 0.15, macro: 0.10 },
+      metricWeights: { pe_vs_sector: 0.35, fcf_yield: 0.25, debt_equity: 0.25, revenue_growth: 0.10 },
+      thresholds: { ...DEFAULT_THRESHOLDS, rsiOversold: 35, rsiOverbought: 65 },
+    },
+  },
+  {
+    id: null,
+    name: 'Macro-aware',
+    config: {
+      layerWeights: { technical: 0.30, fundamental: 0.20, sentiment: 0.15, macro: 0.35 },
+      metricWeights: { vix: 0.40, yield_curve: 0.30 },
+      thresholds: DEFAULT_THRESHOLDS,
+    },
+  },
+];
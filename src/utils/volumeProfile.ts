@@ -0,0 +1,93 @@
+/**
+ * Volume profile (VPVR)
+ * Volume traded per price row over a range of bars, with the point of control
+ * and the value area around it.
+ */
+
+type Bar = { open: number; high: number; low: number; close: number; volume: number };
+
+export interface VolumeProfileRow {
+  low: number;
+  high: number;
+  volume: number;
+  upVolume: number; // from bars that closed at or above their open
+  inValueArea: boolean;
+}
+
+export interface VolumeProfile {
+  rows: VolumeProfileRow[]; // lowest price first
+  poc: number; // middle of the row with the most volume
+  valueAreaHigh: number;
+  valueAreaLow: number;
+}
+
+/**
+ * Profile of `candles` split into `rowCount` equal price rows. Each bar's volume
+ * is spread evenly over its high-low range. The value area grows out from the
+ * point of control, one neighbouring row at a time (the heavier side first),
+ * until it holds `valueAreaShare` of the volume.
+ */
+export function calculateVolumeProfile(
+  candles: Bar[],
+  rowCount: number = 24,
+  valueAreaShare: number = 0.7
+): VolumeProfile | null {
+  if (!candles || candles.length === 0 || rowCount < 1) return null;
+
+  const min = Math.min(...candles.map((c) => c.low));
+  const max = Math.max(...candles.map((c) => c.high));
+  if (!(max > min)) return null;
+
+  const rowHeight = (max - min) / rowCount;
+  const rows: VolumeProfileRow[] = Array.from({ length: rowCount }, (_, i) => ({
+    low: min + i * rowHeight,
+    high: min + (i + 1) * rowHeight,
+    volume: 0,
+    upVolume: 0,
+    inValueArea: false,
+  }));
+
+  for (const c of candles) {
+    if (!(c.volume > 0)) continue;
+    const up = c.close >= c.open;
+    const first = Math.min(rowCount - 1, Math.floor((c.low - min) / rowHeight));
+    const last = Math.min(rowCount - 1, Math.floor((c.high - min) / rowHeight));
+    const range = c.high - c.low;
+
+    for (let i = first; i <= last; i++) {
+      // A flat bar puts everything in its one row
+      const share = range > 0
+        ? (Math.min(c.high, rows[i].high) - Math.max(c.low, rows[i].low)) / range
+        : 1;
+      const volume = c.volume * Math.max(0, share);
+      rows[i].volume += volume;
+      if (up) rows[i].upVolume += volume;
+    }
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.volume, 0);
+  if (total <= 0) return null;
+
+  let pocIndex = 0;
+  rows.forEach((row, i) => {
+    if (row.volume > rows[pocIndex].volume) pocIndex = i;
+  });
+
+  let lowIndex = pocIndex;
+  let highIndex = pocIndex;
+  let inArea = rows[pocIndex].volume;
+  while (inArea < total * valueAreaShare && (lowIndex > 0 || highIndex < rowCount - 1)) {
+    const below = lowIndex > 0 ? rows[lowIndex - 1].volume : -1;
+    const above = highIndex < rowCount - 1 ? rows[highIndex + 1].volume : -1;
+    if (above >= below) inArea += rows[++highIndex].volume;
+    else inArea += rows[--lowIndex].volume;
+  }
+  for (let i = lowIndex; i <= highIndex; i++) rows[i].inValueArea = true;
+
+  return {
+    rows,
+    poc: (rows[pocIndex].low + rows[pocIndex].high) / 2,
+    valueAreaHigh: rows[highIndex].high,
+    valueAreaLow: rows[lowIndex].low,
+  };
+}
@@ -0,0 +1,173 @@
+// Shared AI usage metering: daily per-tier quotas backed by the ai_usage table
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getTierLimit, getUserTier, type SubscriptionTier } from "./tierCheck.ts";
+
+export type AiFeature = "stock-coach" | "pulse-tutor" | "education";
+
+export interface AiTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiQuotaStatus {
+  allowed: boolean;
+  tier: SubscriptionTier;
+  requestsUsed: number;
+  tokensUsed: number;
+  /** -1 = unlimited */
+  requestLimit: number;
+  tokenLimit: number;
+  /** Denied because the ledger could not be reached, not because the quota is used up */
+  unavailable?: boolean;
+}
+
+function getAdminClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error("Missing Supabase credentials for AI usage metering");
+    return null;
+  }
+  return createClient(supabaseUrl, serviceRoleKey);
+}
+
+/**
+ * Reserve one request against the user's daily quota across all features,
+ * before the model is called. Counted even if the answer is later cancelled.
+ * Fails closed: if the ledger cannot be reached the request is denied, since
+ * allowing it would leave the quota unenforced for as long as the outage lasts.
+ */
+export async function reserveAiRequest(userId: string, feature: AiFeature): Promise<AiQuotaStatus> {
+  const tier = await getUserTier(userId);
+  const requestLimit = getTierLimit(tier, "aiRequestsPerDay");
+  const tokenLimit = getTierLimit(tier, "aiTokensPerDay");
+  const status = { allowed: true, tier, requestsUsed: 0, tokensUsed: 0, requestLimit, tokenLimit };
+
+  const supabaseAdmin = getAdminClient();
+  if (!supabaseAdmin) {
+    console.error(`Denying ${feature} request for ${userId}: AI usage metering is not configured`);
+    return { ...status, allowed: false, unavailable: true };
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("reserve_ai_request", {
+    _user_id: userId,
+    _feature: feature,
+    _request_limit: requestLimit,
+    _token_limit: tokenLimit,
+  });
+
+  const row = data?.[0];
+  if (error || !row) {
+    console.error(`Denying ${feature} request for ${userId}: error reserving AI request:`, error?.message ?? "no result");
+    return { ...status, allowed: false, unavailable: true };
+  }
+
+  return { ...status, allowed: row.allowed, requestsUsed: row.requests_used, tokensUsed: row.tokens_used };
+}
+
+/**
+ * 429 for a user who has used up today's AI quota, 503 when the quota couldn't be checked
+ */
+export function createAiQuotaResponse(status: AiQuotaStatus, corsHeaders: Record<string, string>): Response {
+  if (status.unavailable) {
+    return new Response(
+      JSON.stringify({ error: "AI usage could not be checked right now. Please try again in a moment." }),
+      { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const byRequests = status.requestLimit !== -1 && status.requestsUsed >= status.requestLimit;
+  const message = byRequests
+    ? `You've used all ${status.requestLimit} AI requests included in your plan today.`
+    : "You've used today's AI allowance for your plan.";
+
+  return new Response(
+    JSON.stringify({
+      error: `${message} ${status.tier === "elite" ? "It resets at midnight UTC." : "It resets at midnight UTC, or upgrade for more."}`,
+      quota: status,
+    }),
+    { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/**
+ * Add a reserved request's tokens to today's ledger row. Never throws; a
+ * lost record should not fail an answer the user already received.
+ */
+export async function recordAiTokens(userId: string, feature: AiFeature, usage: AiTokenUsage | null): Promise<void> {
+  if (!usage) {
+    console.warn(`No token usage reported for ${feature}; only the request is counted`);
+    return;
+  }
+
+  const supabaseAdmin = getAdminClient();
+  if (!supabaseAdmin) return;
+
+  const { error } = await supabaseAdmin.rpc("add_ai_tokens", {
+    _user_id: userId,
+    _feature: feature,
+    _prompt_tokens: usage.promptTokens,
+    _completion_tokens: usage.completionTokens,
+  });
+  if (error) console.error(`Error recording AI tokens for ${feature}:`, error.message);
+}
+
+// OpenAI-style `usage` object → AiTokenUsage
+export function parseTokenUsage(usage: unknown): AiTokenUsage | null {
+  if (!usage || typeof usage !== "object") return null;
+  const { prompt_tokens, completion_tokens } = usage as { prompt_tokens?: number; completion_tokens?: number };
+  if (typeof prompt_tokens !== "number" && typeof completion_tokens !== "number") return null;
+  return { promptTokens: prompt_tokens ?? 0, completionTokens: completion_tokens ?? 0 };
+}
+
+export function addTokenUsage(total: AiTokenUsage | null, usage: AiTokenUsage | null): AiTokenUsage | null {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+  };
+}
+
+/**
+ * Pass a streamed completion through unchanged while reading the final
+ * `usage` chunk (requires `stream_options: { include_usage: true }`).
+ * onDone also runs when the client cancels, with whatever usage was seen.
+ */
+export function meterCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onDone: (usage: AiTokenUsage | null) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let usage: AiTokenUsage | null = null;
+
+  const scan = (line: string) => {
+    if (!line.startsWith("data: ")) return;
+    const json = line.slice(6).trim();
+    if (json === "[DONE]") return;
+    try {
+      usage = parseTokenUsage(JSON.parse(json).usage) ?? usage;
+    } catch { /* partial or non-JSON line */ }
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      buffer += decoder.decode(chunk, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        scan(buffer.slice(0, newlineIndex).replace(/\r$/, ""));
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    },
+    // Awaited so the function stays alive until usage is recorded
+    async flush() {
+      if (buffer) scan(buffer);
+      await onDone(usage);
+    },
+    async cancel() {
+      await onDone(usage);
+    },
+  }));
+}
@@ -0,0 +1,218 @@
+/**
+ * Candlestick pattern recognition
+ * Classic one- to three-bar reversal and continuation patterns, judged against
+ * the average body size and the trend leading into the pattern.
+ * Used by the chart and by server-side verdicts alike.
+ */
+
+import type { Candle } from "./indicators.ts";
+
+export type CandlestickPatternId =
+  | "doji"
+  | "hammer"
+  | "hanging_man"
+  | "inverted_hammer"
+  | "shooting_star"
+  | "bullish_engulfing"
+  | "bearish_engulfing"
+  | "bullish_harami"
+  | "bearish_harami"
+  | "piercing_line"
+  | "dark_cloud_cover"
+  | "morning_star"
+  | "evening_star"
+  | "three_white_soldiers"
+  | "three_black_crows";
+
+export type PatternBias = "bullish" | "bearish" | "neutral";
+
+export interface CandlestickPatternInfo {
+  name: string;
+  shortName: string; // marker label
+  bias: PatternBias;
+  bars: 1 | 2 | 3;
+}
+
+export const CANDLESTICK_PATTERNS: Record<CandlestickPatternId, CandlestickPatternInfo> = {
+  doji: { name: "Doji", shortName: "Doji", bias: "neutral", bars: 1 },
+  hammer: { name: "Hammer", shortName: "Ham", bias: "bullish", bars: 1 },
+  hanging_man: { name: "Hanging Man", shortName: "HM", bias: "bearish", bars: 1 },
+  inverted_hammer: { name: "Inverted Hammer", shortName: "IH", bias: "bullish", bars: 1 },
+  shooting_star: { name: "Shooting Star", shortName: "SS", bias: "bearish", bars: 1 },
+  bullish_engulfing: { name: "Bullish Engulfing", shortName: "BE", bias: "bullish", bars: 2 },
+  bearish_engulfing: { name: "Bearish Engulfing", shortName: "BE", bias: "bearish", bars: 2 },
+  bullish_harami: { name: "Bullish Harami", shortName: "Har", bias: "bullish", bars: 2 },
+  bearish_harami: { name: "Bearish Harami", shortName: "Har", bias: "bearish", bars: 2 },
+  piercing_line: { name: "Piercing Line", shortName: "PL", bias: "bullish", bars: 2 },
+  dark_cloud_cover: { name: "Dark Cloud Cover", shortName: "DC", bias: "bearish", bars: 2 },
+  morning_star: { name: "Morning Star", shortName: "MS", bias: "bullish", bars: 3 },
+  evening_star: { name: "Evening Star", shortName: "ES", bias: "bearish", bars: 3 },
+  three_white_soldiers: { name: "Three White Soldiers", shortName: "3WS", bias: "bullish", bars: 3 },
+  three_black_crows: { name: "Three Black Crows", shortName: "3BC", bias: "bearish", bars: 3 },
+};
+
+export interface PatternDetection {
+  index: number; // last bar of the pattern
+  timestamp: number;
+  pattern: CandlestickPatternId;
+  bias: PatternBias;
+}
+
+type Bar = Pick<Candle, "timestamp" | "open" | "high" | "low" | "close">;
+
+const TREND_LOOKBACK = 5; // bars before the pattern that define the prior trend
+const BODY_LOOKBACK = 10; // bars averaged for a "normal" body size
+const DOJI_BODY_RATIO = 0.1; // body at most this share of the range
+const SHADOW_RATIO = 2; // hammer-family shadow vs body
+const MIN_HISTORY = TREND_LOOKBACK + 1;
+
+const body = (c: Bar) => Math.abs(c.close - c.open);
+const range = (c: Bar) => c.high - c.low;
+const upperShadow = (c: Bar) => c.high - Math.max(c.open, c.close);
+const lowerShadow = (c: Bar) => Math.min(c.open, c.close) - c.low;
+const isBullish = (c: Bar) => c.close > c.open;
+const isBearish = (c: Bar) => c.close < c.open;
+const midpoint = (c: Bar) => (c.open + c.close) / 2;
+
+function averageBody(candles: Bar[], end: number): number {
+  const start = Math.max(0, end - BODY_LOOKBACK);
+  if (end <= start) return 0;
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += body(candles[i]);
+  return sum / (end - start);
+}
+
+// Direction of closes over the bars leading into `start`
+function priorTrend(candles: Bar[], start: number): "up" | "down" | null {
+  const last = start - 1;
+  const first = last - TREND_LOOKBACK;
+  if (first < 0) return null;
+  if (candles[last].close > candles[first].close) return "up";
+  if (candles[last].close < candles[first].close) return "down";
+  return null;
+}
+
+function detectThreeBar(candles: Bar[], i: number, avg: number): CandlestickPatternId | null {
+  if (i < 2) return null;
+  const [a, b, c] = [candles[i - 2], candles[i - 1], candles[i]];
+  const trend = priorTrend(candles, i - 2);
+  const smallMiddle = body(b) <= body(a) * 0.5 && body(b) <= avg;
+
+  if (trend === "down" && isBearish(a) && body(a) >= avg && smallMiddle &&
+      Math.max(b.open, b.close) <= a.close + body(b) && isBullish(c) && c.close > midpoint(a)) {
+    return "morning_star";
+  }
+  if (trend === "up" && isBullish(a) && body(a) >= avg && smallMiddle &&
+      Math.min(b.open, b.close) >= a.close - body(b) && isBearish(c) && c.close < midpoint(a)) {
+    return "evening_star";
+  }
+
+  const bars = [a, b, c];
+  const strong = (bar: Bar) => body(bar) >= avg * 0.6;
+  if (bars.every((bar) => isBullish(bar) && strong(bar) && upperShadow(bar) <= body(bar) * 0.3) &&
+      b.close > a.close && c.close > b.close &&
+      b.open >= a.open && b.open <= a.close && c.open >= b.open && c.open <= b.close) {
+    return "three_white_soldiers";
+  }
+  if (bars.every((bar) => isBearish(bar) && strong(bar) && lowerShadow(bar) <= body(bar) * 0.3) &&
+      b.close < a.close && c.close < b.close &&
+      b.open <= a.open && b.open >= a.close && c.open <= b.open && c.open >= b.close) {
+    return "three_black_crows";
+  }
+  return null;
+}
+
+function detectTwoBar(candles: Bar[], i: number, avg: number): CandlestickPatternId | null {
+  if (i < 1) return null;
+  const [prev, cur] = [candles[i - 1], candles[i]];
+  const trend = priorTrend(candles, i - 1);
+  if (!trend) return null;
+
+  if (trend === "down" && isBearish(prev)) {
+    if (isBullish(cur) && cur.open <= prev.close && cur.close >= prev.open && body(cur) > body(prev)) {
+      return "bullish_engulfing";
+    }
+    if (isBullish(cur) && cur.open < prev.close && cur.close > midpoint(prev) && cur.close < prev.open &&
+        body(prev) >= avg) {
+      return "piercing_line";
+    }
+    if (body(prev) >= avg && body(cur) <= body(prev) * 0.5 &&
+        Math.max(cur.open, cur.close) <= prev.open && Math.min(cur.open, cur.close) >= prev.close) {
+      return "bullish_harami";
+    }
+  }
+
+  if (trend === "up" && isBullish(prev)) {
+    if (isBearish(cur) && cur.open >= prev.close && cur.close <= prev.open && body(cur) > body(prev)) {
+      return "bearish_engulfing";
+    }
+    if (isBearish(cur) && cur.open > prev.close && cur.close < midpoint(prev) && cur.close > prev.open &&
+        body(prev) >= avg) {
+      return "dark_cloud_cover";
+    }
+    if (body(prev) >= avg && body(cur) <= body(prev) * 0.5 &&
+        Math.max(cur.open, cur.close) <= prev.close && Math.min(cur.open, cur.close) >= prev.open) {
+      return "bearish_harami";
+    }
+  }
+  return null;
+}
+
+function detectOneBar(candles: Bar[], i: number): CandlestickPatternId | null {
+  const c = candles[i];
+  const r = range(c);
+  if (r <= 0) return null;
+
+  // A doji reads as indecision regardless of its shadows
+  if (body(c) <= r * DOJI_BODY_RATIO) return "doji";
+
+  const trend = priorTrend(candles, i);
+  const longLower = lowerShadow(c) >= body(c) * SHADOW_RATIO && upperShadow(c) <= body(c) * 0.5;
+  const longUpper = upperShadow(c) >= body(c) * SHADOW_RATIO && lowerShadow(c) <= body(c) * 0.5;
+
+  if (longLower && trend === "down") return "hammer";
+  if (longLower && trend === "up") return "hanging_man";
+  if (longUpper && trend === "down") return "inverted_hammer";
+  if (longUpper && trend === "up") return "shooting_star";
+  return null;
+}
+
+/**
+ * Scan `candles` (oldest first) for candlestick patterns. At most one pattern
+ * is reported per bar; longer patterns win over the single-bar shapes they
+ * contain. Bars without enough history to judge the prior trend are skipped.
+ */
+export function detectCandlestickPatterns(candles: Bar[]): PatternDetection[] {
+  const detections: PatternDetection[] = [];
+  if (!candles || candles.length <= MIN_HISTORY) return detections;
+
+  for (let i = MIN_HISTORY; i < candles.length; i++) {
+    const avg = averageBody(candles, i);
+    const pattern = detectThreeBar(candles, i, avg) ?? detectTwoBar(candles, i, avg) ?? detectOneBar(candles, i);
+    if (pattern) {
+      detections.push({
+        index: i,
+        timestamp: candles[i].timestamp,
+        pattern,
+        bias: CANDLESTICK_PATTERNS[pattern].bias,
+      });
+    }
+  }
+
+  return detections;
+}
+
+// Most recent pattern completed within the last `withinBars` bars
+export function latestCandlestickPattern(
+  candles: Bar[],
+  withinBars: number = 3
+): { id: CandlestickPatternId; name: string; bias: PatternBias; barsAgo: number } | undefined {
+  const recent = candles.slice(-(withinBars + BODY_LOOKBACK + MIN_HISTORY + 2));
+  const detections = detectCandlestickPatterns(recent);
+  const last = detections[detections.length - 1];
+  if (!last) return undefined;
+
+  const barsAgo = recent.length - 1 - last.index;
+  if (barsAgo >= withinBars) return undefined;
+  return { id: last.pattern, name: CANDLESTICK_PATTERNS[last.pattern].name, bias: last.bias, barsAgo };
+}
@@ -0,0 +1,102 @@
+/**
+ * RSI / MACD divergence detection
+ * Compares consecutive swing pivots in price with the oscillator at the same
+ * bars. Regular divergences warn of a reversal, hidden ones of a continuation.
+ * Used by the chart and by server-side verdicts alike.
+ */
+
+import { findSwingPivots, PIVOT_SPAN } from "./swingPivots.ts";
+
+export type DivergenceSource = "rsi" | "macd";
+export type DivergenceKind = "regular" | "hidden";
+
+export interface Divergence {
+  source: DivergenceSource;
+  kind: DivergenceKind;
+  bias: "bullish" | "bearish";
+  startIndex: number; // earlier price pivot
+  endIndex: number; // later price pivot
+  startPrice: number;
+  endPrice: number;
+  startValue: number; // oscillator at the pivots
+  endValue: number;
+}
+
+export interface OscillatorSeries {
+  source: DivergenceSource;
+  values: (number | null)[]; // aligned to the candles
+}
+
+const MIN_PIVOT_GAP = 5; // bars between the two pivots
+const MAX_PIVOT_GAP = 60;
+
+export const DIVERGENCE_LABELS: Record<DivergenceSource, string> = { rsi: "RSI", macd: "MACD" };
+
+/**
+ * Divergences between price and one oscillator, oldest first. Lows give the
+ * bullish cases (regular: lower price low, higher oscillator low; hidden: the
+ * reverse), highs the bearish ones. The latest pivot is only confirmed once
+ * the swing span has printed after it.
+ */
+export function detectDivergences(
+  candles: { high: number; low: number }[],
+  oscillator: OscillatorSeries
+): Divergence[] {
+  const divergences: Divergence[] = [];
+  const { source, values } = oscillator;
+
+  for (const kind of ["low", "high"] as const) {
+    const pivots = findSwingPivots(candles).filter((p) => p.kind === kind);
+
+    for (let i = 1; i < pivots.length; i++) {
+      const start = pivots[i - 1];
+      const end = pivots[i];
+      const gap = end.index - start.index;
+      const startValue = values[start.index] ?? null;
+      const endValue = values[end.index] ?? null;
+      if (gap < MIN_PIVOT_GAP || gap > MAX_PIVOT_GAP || startValue === null || endValue === null) continue;
+
+      const priceRising = end.price > start.price;
+      const oscillatorRising = endValue > startValue;
+      if (priceRising === oscillatorRising || end.price === start.price || endValue === startValue) continue;
+
+      // Lows: price down + oscillator up is regular, price up + oscillator down hidden.
+      // Highs: price up + oscillator down is regular, price down + oscillator up hidden.
+      const regular = kind === "low" ? !priceRising : priceRising;
+      divergences.push({
+        source,
+        kind: regular ? "regular" : "hidden",
+        bias: kind === "low" ? "bullish" : "bearish",
+        startIndex: start.index,
+        endIndex: end.index,
+        startPrice: start.price,
+        endPrice: end.price,
+        startValue,
+        endValue,
+      });
+    }
+  }
+
+  return divergences.sort((a, b) => a.endIndex - b.endIndex);
+}
+
+// Most recent divergence across the oscillators whose later pivot is within `withinBars` of the last bar
+export function latestDivergence(
+  candles: { high: number; low: number }[],
+  oscillators: OscillatorSeries[],
+  withinBars: number = 10
+): { source: DivergenceSource; kind: DivergenceKind; bias: Divergence["bias"]; barsAgo: number } | undefined {
+  // Older bars cannot hold either pivot of a divergence that ends within `withinBars`
+  const offset = Math.max(0, candles.length - (withinBars + MAX_PIVOT_GAP + 2 * PIVOT_SPAN));
+  const bars = candles.slice(offset);
+
+  const recent = oscillators
+    .flatMap((oscillator) => detectDivergences(bars, { ...oscillator, values: oscillator.values.slice(offset) }))
+    .filter((d) => bars.length - 1 - d.endIndex < withinBars)
+    // Latest pivot first; regular beats hidden on the same bar
+    .sort((a, b) => b.endIndex - a.endIndex || (a.kind === b.kind ? 0 : a.kind === "regular" ? -1 : 1));
+
+  const latest = recent[0];
+  if (!latest) return undefined;
+  return { source: latest.source, kind: latest.kind, bias: latest.bias, barsAgo: bars.length - 1 - latest.endIndex };
+}
@@ -0,0 +1,511 @@
+/**
+ * Technical indicator calculations shared by the app and the edge functions.
+ * Values are (number | null)[] aligned to the input, with null during the
+ * warm-up period. The app imports them through src/utils/technicalIndicators.ts.
+ */
+
+import { latestCandlestickPattern, type PatternBias } from './candlestickPatterns.ts';
+import { latestDivergence, type DivergenceKind, type DivergenceSource } from './divergence.ts';
+
+export function calculateSMA(data: number[], period: number): (number | null)[] {
+  if (data.length < period) {
+    return data.map(() => null);
+  }
+
+  return data.map((_, i) => {
+    if (i < period - 1) return null;
+    const slice = data.slice(i - period + 1, i + 1);
+    return slice.reduce((sum, val) => sum + val, 0) / period;
+  });
+}
+
+export function calculateRSI(data: number[], period: number = 14): (number | null)[] {
+  if (data.length < period + 1) {
+    return data.map(() => null);
+  }
+
+  const result: (number | null)[] = [];
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i <= period; i++) {
+    const change = data[i] - data[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss += Math.abs(change);
+  }
+
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = 0; i < period; i++) {
+    result.push(null);
+  }
+
+  const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
+  result.push(100 - 100 / (1 + rs));
+
+  // Wilder's smoothing
+  for (let i = period + 1; i < data.length; i++) {
+    const change = data[i] - data[i - 1];
+    const currentGain = change > 0 ? change : 0;
+    const currentLoss = change < 0 ? Math.abs(change) : 0;
+
+    avgGain = (avgGain * (period - 1) + currentGain) / period;
+    avgLoss = (avgLoss * (period - 1) + currentLoss) / period;
+
+    result.push(avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  }
+
+  return result;
+}
+
+/**
+ * Last non-null value of an indicator series
+ */
+export function lastValue(series: (number | null)[]): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i] !== null) return series[i];
+  }
+  return null;
+}
+
+export function calculateEMA(data: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = [];
+  const multiplier = 2 / (period + 1);
+
+  for (let i = 0; i < data.length; i++) {
+    if (i < period - 1) {
+      result.push(null);
+    } else if (i === period - 1) {
+      // First EMA is SMA
+      const sma = data.slice(0, period).reduce((sum, val) => sum + val, 0) / period;
+      result.push(sma);
+    } else {
+      const prevEma = result[i - 1] as number;
+      const ema = (data[i] - prevEma) * multiplier + prevEma;
+      result.push(ema);
+    }
+  }
+  return result;
+}
+
+export function calculateMACD(
+  data: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): {
+  macd: (number | null)[];
+  signal: (number | null)[];
+  histogram: (number | null)[];
+} {
+  const fastEma = calculateEMA(data, fastPeriod);
+  const slowEma = calculateEMA(data, slowPeriod);
+
+  const macd = fastEma.map((fast, i) => {
+    const slow = slowEma[i];
+    if (fast === null || slow === null) return null;
+    return fast - slow;
+  });
+
+  // Calculate signal line (EMA of MACD)
+  const macdValues = macd.filter((v) => v !== null) as number[];
+  const signalEma = calculateEMA(macdValues, signalPeriod);
+
+  // Map signal back to original indices
+  let signalIdx = 0;
+  const signal = macd.map((m) => {
+    if (m === null) return null;
+    return signalEma[signalIdx++] ?? null;
+  });
+
+  const histogram = macd.map((m, i) => {
+    const s = signal[i];
+    if (m === null || s === null) return null;
+    return m - s;
+  });
+
+  return { macd, signal, histogram };
+}
+
+export interface Candle {
+  timestamp: number; // seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export function calculateATR(candles: Pick<Candle, 'high' | 'low' | 'close'>[], period: number = 14): (number | null)[] {
+  // Need period + 1 candles: true range uses the previous close
+  if (candles.length < period + 1) {
+    return candles.map(() => null);
+  }
+
+  const trueRanges = candles.map((candle, i) => {
+    if (i === 0) return candle.high - candle.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - prevClose),
+      Math.abs(candle.low - prevClose)
+    );
+  });
+
+  const result: (number | null)[] = [null];
+  let atr = 0;
+
+  for (let i = 1; i < candles.length; i++) {
+    if (i < period) {
+      atr += trueRanges[i];
+      result.push(null);
+    } else if (i === period) {
+      // First ATR is the simple average of the first `period` true ranges
+      atr = (atr + trueRanges[i]) / period;
+      result.push(atr);
+    } else {
+      // Wilder's smoothing
+      atr = (atr * (period - 1) + trueRanges[i]) / period;
+      result.push(atr);
+    }
+  }
+
+  return result;
+}
+
+// Apply a calculation to the non-null tail of a series and map it back to the
+// original indices. Warm-up nulls are always leading, so positions line up.
+export function applyToDefined(
+  series: (number | null)[],
+  calculate: (values: number[]) => (number | null)[]
+): (number | null)[] {
+  const values = series.filter((v) => v !== null) as number[];
+  const calculated = calculate(values);
+  let idx = 0;
+  return series.map((v) => (v === null ? null : calculated[idx++] ?? null));
+}
+
+export function rollingMax(data: number[], period: number): (number | null)[] {
+  return data.map((_, i) => (i < period - 1 ? null : Math.max(...data.slice(i - period + 1, i + 1))));
+}
+
+export function rollingMin(data: number[], period: number): (number | null)[] {
+  return data.map((_, i) => (i < period - 1 ? null : Math.min(...data.slice(i - period + 1, i + 1))));
+}
+
+/**
+ * Slow stochastic: raw %K over `kPeriod` bars, smoothed over `smoothing` bars,
+ * with %D as the SMA of %K. A flat range reads as 50.
+ */
+export function calculateStochastic(
+  candles: Candle[],
+  kPeriod: number = 14,
+  dPeriod: number = 3,
+  smoothing: number = 3
+): {
+  k: (number | null)[];
+  d: (number | null)[];
+} {
+  const highest = rollingMax(candles.map((c) => c.high), kPeriod);
+  const lowest = rollingMin(candles.map((c) => c.low), kPeriod);
+
+  const rawK = candles.map((candle, i) => {
+    const high = highest[i];
+    const low = lowest[i];
+    if (high === null || low === null) return null;
+    return high === low ? 50 : ((candle.close - low) / (high - low)) * 100;
+  });
+
+  const k = smoothing > 1 ? applyToDefined(rawK, (values) => calculateSMA(values, smoothing)) : rawK;
+  const d = applyToDefined(k, (values) => calculateSMA(values, dPeriod));
+
+  return { k, d };
+}
+
+/**
+ * Wilder's ADX with the directional indicators. +DI/-DI start after `period`
+ * bars; ADX needs a further `period` bars of DX to seed its average.
+ */
+export function calculateADX(candles: Candle[], period: number = 14): {
+  adx: (number | null)[];
+  plusDI: (number | null)[];
+  minusDI: (number | null)[];
+} {
+  const adx: (number | null)[] = candles.map(() => null);
+  const plusDI: (number | null)[] = candles.map(() => null);
+  const minusDI: (number | null)[] = candles.map(() => null);
+
+  if (candles.length < period + 1) {
+    return { adx, plusDI, minusDI };
+  }
+
+  let smoothedTR = 0;
+  let smoothedPlusDM = 0;
+  let smoothedMinusDM = 0;
+  let dxSum = 0;
+  let prevAdx: number | null = null;
+
+  for (let i = 1; i < candles.length; i++) {
+    const candle = candles[i];
+    const prev = candles[i - 1];
+    const upMove = candle.high - prev.high;
+    const downMove = prev.low - candle.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const trueRange = Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - prev.close),
+      Math.abs(candle.low - prev.close)
+    );
+
+    if (i <= period) {
+      // First smoothed values are plain sums of the first `period` bars
+      smoothedTR += trueRange;
+      smoothedPlusDM += plusDM;
+      smoothedMinusDM += minusDM;
+      if (i < period) continue;
+    } else {
+      smoothedTR = smoothedTR - smoothedTR / period + trueRange;
+      smoothedPlusDM = smoothedPlusDM - smoothedPlusDM / period + plusDM;
+      smoothedMinusDM = smoothedMinusDM - smoothedMinusDM / period + minusDM;
+    }
+
+    const pdi = smoothedTR > 0 ? (smoothedPlusDM / smoothedTR) * 100 : 0;
+    const mdi = smoothedTR > 0 ? (smoothedMinusDM / smoothedTR) * 100 : 0;
+    const dx = pdi + mdi > 0 ? (Math.abs(pdi - mdi) / (pdi + mdi)) * 100 : 0;
+    plusDI[i] = pdi;
+    minusDI[i] = mdi;
+
+    if (i < 2 * period - 1) {
+      dxSum += dx;
+    } else if (i === 2 * period - 1) {
+      prevAdx = (dxSum + dx) / period;
+      adx[i] = prevAdx;
+    } else {
+      prevAdx = ((prevAdx as number) * (period - 1) + dx) / period;
+      adx[i] = prevAdx;
+    }
+  }
+
+  return { adx, plusDI, minusDI };
+}
+
+export interface TechnicalIndicators {
+  price?: number;
+  ma50?: number;     // Primary trend indicator (short-term strategy)
+  ma20?: number;     // Short-term trend
+  emaCrossover?: 'bullish' | 'bearish' | 'neutral'; // EMA 20/50 crossover signal
+  rsi?: number;
+  macdSignal?: 'bullish' | 'bearish' | 'neutral';
+  macdHistogramTrend?: 'increasing' | 'decreasing' | 'flat';
+  adx?: number;      // Trend strength (14)
+  plusDI?: number;
+  minusDI?: number;
+  stochK?: number;   // Slow stochastic (14, 3, 3)
+  stochD?: number;
+  volume?: number;
+  avgVolume?: number;
+  priceChange?: number;
+  candlePattern?: { name: string; bias: PatternBias; barsAgo: number }; // completed within the last 3 bars
+  divergence?: { source: DivergenceSource; kind: DivergenceKind; bias: 'bullish' | 'bearish'; barsAgo: number }; // RSI/MACD vs price, last 10 bars
+  dataQuality?: 'full' | 'partial' | 'insufficient';
+}
+
+// Last non-null value at or before `end`
+function getLastValidValue(arr: (number | null)[], end: number = arr.length - 1): number | undefined {
+  for (let i = end; i >= 0; i--) {
+    if (arr[i] !== null) return arr[i] as number;
+  }
+  return undefined;
+}
+
+function getLastNValues(arr: (number | null)[], n: number, end: number = arr.length - 1): number[] {
+  const result: number[] = [];
+  for (let i = end; i >= 0 && result.length < n; i--) {
+    if (arr[i] !== null) result.unshift(arr[i] as number);
+  }
+  return result;
+}
+
+function calculateAvgVolume(candles: Candle[], period: number = 20): number {
+  if (candles.length < period) {
+    return candles.reduce((sum, c) => sum + c.volume, 0) / candles.length;
+  }
+  const recentCandles = candles.slice(-period);
+  return recentCandles.reduce((sum, c) => sum + c.volume, 0) / period;
+}
+
+// Every series is causal: its value at a bar only depends on that bar and the ones before
+interface IndicatorSeries {
+  closes: number[];
+  sma20: (number | null)[];
+  sma50: (number | null)[];
+  ema20: (number | null)[];
+  ema50: (number | null)[];
+  rsi: (number | null)[];
+  macd: ReturnType<typeof calculateMACD>;
+  adx: ReturnType<typeof calculateADX>;
+  stochastic: ReturnType<typeof calculateStochastic>;
+}
+
+function calculateIndicatorSeries(candles: Candle[]): IndicatorSeries {
+  const closes = candles.map(c => c.close);
+  return {
+    closes,
+    sma20: calculateSMA(closes, 20),
+    sma50: calculateSMA(closes, 50),
+    ema20: calculateEMA(closes, 20),
+    ema50: calculateEMA(closes, 50),
+    rsi: calculateRSI(closes, 14),
+    macd: calculateMACD(closes),
+    adx: calculateADX(candles, 14),
+    stochastic: calculateStochastic(candles, 14, 3, 3),
+  };
+}
+
+// The snapshot as of bar `index`, as if `candles` ended there
+function snapshotAt(candles: Candle[], series: IndicatorSeries, index: number): TechnicalIndicators {
+  const candleCount = index + 1;
+  if (candleCount < 20) {
+    return { dataQuality: 'insufficient' };
+  }
+
+  const { closes } = series;
+  
+  // Data quality: 100+ days = full, 50-99 = partial, <50 = insufficient
+  let dataQuality: 'full' | 'partial' | 'insufficient' = 'full';
+  if (candleCount < 100) {
+    dataQuality = candleCount >= 50 ? 'partial' : 'insufficient';
+  }
+  
+  // Calculate moving averages (short-term strategy)
+  const ma20 = getLastValidValue(series.sma20, index);
+  const ma50 = getLastValidValue(series.sma50, index);
+  
+  // Calculate EMA 20/50 Crossover Signal
+  let emaCrossover: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+  if (candleCount >= 50) {
+    const currentEma20 = getLastValidValue(series.ema20, index);
+    const currentEma50 = getLastValidValue(series.ema50, index);
+    const ema20Last2 = getLastNValues(series.ema20, 2, index);
+    const ema50Last2 = getLastNValues(series.ema50, 2, index);
+    
+    if (currentEma20 && currentEma50 && ema20Last2.length >= 2 && ema50Last2.length >= 2) {
+      const prevEma20 = ema20Last2[0];
+      const prevEma50 = ema50Last2[0];
+      
+      if (prevEma20 <= prevEma50 && currentEma20 > currentEma50) {
+        emaCrossover = 'bullish';
+      } else if (prevEma20 >= prevEma50 && currentEma20 < currentEma50) {
+        emaCrossover = 'bearish';
+      } else if (currentEma20 > currentEma50) {
+        emaCrossover = 'bullish';
+      } else if (currentEma20 < currentEma50) {
+        emaCrossover = 'bearish';
+      }
+    }
+  }
+  
+  // Calculate RSI
+  const rsi = getLastValidValue(series.rsi, index);
+  
+  // Calculate MACD
+  let macdSignal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+  let macdHistogramTrend: 'increasing' | 'decreasing' | 'flat' = 'flat';
+  
+  if (candleCount >= 35) {
+    const lastMacd = getLastValidValue(series.macd.macd, index);
+    const lastSignal = getLastValidValue(series.macd.signal, index);
+    const histogramValues = getLastNValues(series.macd.histogram, 3, index);
+    
+    if (lastMacd !== undefined && lastSignal !== undefined) {
+      if (histogramValues.length >= 2) {
+        const lastHist = histogramValues[histogramValues.length - 1];
+        const prevHist = histogramValues[histogramValues.length - 2];
+        const diff = lastHist - prevHist;
+        
+        if (Math.abs(diff) < 0.01) macdHistogramTrend = 'flat';
+        else if (diff > 0) macdHistogramTrend = 'increasing';
+        else macdHistogramTrend = 'decreasing';
+      }
+      
+      const macdAboveSignal = lastMacd > lastSignal;
+      const histogramPositive = histogramValues.length > 0 && histogramValues[histogramValues.length - 1] > 0;
+      
+      if (macdAboveSignal && (histogramPositive || macdHistogramTrend === 'increasing')) {
+        macdSignal = 'bullish';
+      } else if (!macdAboveSignal && (!histogramPositive || macdHistogramTrend === 'decreasing')) {
+        macdSignal = 'bearish';
+      }
+    }
+  }
+  
+  // Calculate ADX / DMI
+  const adx = getLastValidValue(series.adx.adx, index);
+  const plusDI = getLastValidValue(series.adx.plusDI, index);
+  const minusDI = getLastValidValue(series.adx.minusDI, index);
+
+  // Calculate Stochastic
+  const stochK = getLastValidValue(series.stochastic.k, index);
+  const stochD = getLastValidValue(series.stochastic.d, index);
+  
+  const bars = candleCount === candles.length ? candles : candles.slice(0, candleCount);
+  const currentPrice = closes[index];
+  const currentVolume = candles[index]?.volume;
+  const avgVolume = calculateAvgVolume(bars, 20);
+  const priceChange = candleCount >= 2
+    ? ((closes[index] - closes[index - 1]) / closes[index - 1]) * 100
+    : undefined;
+
+  const pattern = latestCandlestickPattern(bars, 3);
+  const candlePattern = pattern && { name: pattern.name, bias: pattern.bias, barsAgo: pattern.barsAgo };
+
+  // RSI / MACD divergence with price swings
+  const divergence = latestDivergence(bars, [
+    { source: 'rsi', values: series.rsi.slice(0, candleCount) },
+    { source: 'macd', values: candleCount >= 35 ? series.macd.macd.slice(0, candleCount) : [] },
+  ], 10);
+  
+  return {
+    price: currentPrice,
+    ma50,
+    ma20,
+    emaCrossover,
+    rsi,
+    macdSignal,
+    macdHistogramTrend,
+    adx,
+    plusDI,
+    minusDI,
+    stochK,
+    stochD,
+    volume: currentVolume,
+    avgVolume,
+    priceChange,
+    candlePattern,
+    divergence,
+    dataQuality,
+  };
+}
+
+/**
+ * Snapshot of the indicators the verdict engine consumes, computed from the
+ * last bar of `candles`
+ */
+export function deriveTechnicalIndicators(candles: Candle[]): TechnicalIndicators {
+  if (!candles || candles.length < 20) {
+    return { dataQuality: 'insufficient' };
+  }
+  return snapshotAt(candles, calculateIndicatorSeries(candles), candles.length - 1);
+}
+
+/**
+ * deriveTechnicalIndicators(candles.slice(0, i + 1)) for every bar i, with the
+ * indicator series computed once instead of once per bar. Nothing after bar i
+ * reaches its snapshot, so replays stay free of lookahead.
+ */
+export function deriveTechnicalIndicatorHistory(candles: Candle[]): TechnicalIndicators[] {
+  const series = calculateIndicatorSeries(candles);
+  return candles.map((_, i) => snapshotAt(candles, series, i));
+}
@@ -0,0 +1,30 @@
+/**
+ * Paged reads for PostgREST, which returns at most 1000 rows per select
+ */
+
+const PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: unknown;
+}
+
+/**
+ * Call `fetchPage` with consecutive inclusive row ranges until a short page comes
+ * back. The query passed in must be ordered on a unique key so pages don't overlap.
+ */
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  pageSize = PAGE_SIZE,
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await fetchPage(from, from + pageSize - 1);
+    if (error) throw error;
+
+    const page = data || [];
+    rows.push(...page);
+    if (page.length < pageSize) return rows;
+  }
+}
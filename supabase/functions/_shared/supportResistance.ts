@@ -0,0 +1,205 @@
+/**
+ * Automatic support/resistance and trendline detection
+ * Levels cluster swing pivots and high-volume price nodes; trendlines are fitted
+ * through pivot pairs and ranked by how often price respected them.
+ * The chart and the coach both use this module, so they quote the same levels.
+ */
+
+import { calculateATR } from "./indicators.ts";
+import { findSwingPivots, type SwingPivot } from "./swingPivots.ts";
+
+type Bar = { high: number; low: number; close: number; volume: number };
+
+export interface PriceLevel {
+  price: number;
+  kind: "support" | "resistance"; // relative to the last close
+  strength: number; // 0-100
+  touches: number; // swing pivots that turned at this level
+  lastTouchIndex: number; // -1 for pure volume nodes
+  volumeNode: boolean; // heavy trading at this price
+}
+
+export interface Trendline {
+  kind: "support" | "resistance";
+  startIndex: number;
+  startPrice: number;
+  endIndex: number; // always the last bar - the line is projected to it
+  endPrice: number;
+  slope: number; // price change per bar
+  touches: number;
+  strength: number; // 0-100
+}
+
+export interface SupportResistance {
+  levels: PriceLevel[];
+  trendlines: Trendline[];
+}
+
+const MIN_BARS = 8; // enough for a confirmed pivot on either side
+const TRENDLINE_PIVOTS = 8; // most recent pivots of each kind tried as anchors
+const VOLUME_NODE_RATIO = 1.5; // bin volume vs average bin that counts as a node
+const MAX_TOUCHES_SCORED = 5;
+
+// Price distance treated as "the same level": half an ATR, at least 0.5% of price
+function levelTolerance(candles: Bar[]): number {
+  const last = candles[candles.length - 1].close;
+  const atrValues = calculateATR(candles, 14);
+  const atr = atrValues[atrValues.length - 1];
+  return Math.max(atr !== null ? atr * 0.5 : last * 0.01, last * 0.005);
+}
+
+// Volume traded per price bin (by typical price), bins `binSize` wide
+function volumeNodes(candles: Bar[], binSize: number): { price: number; share: number }[] {
+  const min = Math.min(...candles.map((c) => c.low));
+  const bins = new Map<number, number>();
+  for (const c of candles) {
+    const bin = Math.floor(((c.high + c.low + c.close) / 3 - min) / binSize);
+    bins.set(bin, (bins.get(bin) ?? 0) + c.volume);
+  }
+
+  const volumes = [...bins.values()];
+  const average = volumes.reduce((sum, v) => sum + v, 0) / volumes.length;
+  const peak = Math.max(...volumes);
+  if (peak <= 0) return [];
+
+  const nodes: { price: number; share: number }[] = [];
+  for (const [bin, volume] of bins) {
+    const isPeak = volume >= (bins.get(bin - 1) ?? 0) && volume >= (bins.get(bin + 1) ?? 0);
+    if (isPeak && volume >= average * VOLUME_NODE_RATIO) {
+      nodes.push({ price: min + (bin + 0.5) * binSize, share: volume / peak });
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Horizontal levels ranked by strength. Nearby swing pivots are merged into one
+ * level; touch count, recency and volume traded at the price raise its score.
+ */
+export function detectPriceLevels(candles: Bar[], maxLevels: number = 6): PriceLevel[] {
+  if (!candles || candles.length < MIN_BARS) return [];
+
+  const tolerance = levelTolerance(candles);
+  const last = candles[candles.length - 1].close;
+  const n = candles.length;
+
+  // Greedy clustering of pivots sorted by price
+  const pivots = findSwingPivots(candles).sort((a, b) => a.price - b.price);
+  const clusters: SwingPivot[][] = [];
+  for (const pivot of pivots) {
+    const current = clusters[clusters.length - 1];
+    const mean = current && current.reduce((sum, p) => sum + p.price, 0) / current.length;
+    if (current && pivot.price - mean <= tolerance) current.push(pivot);
+    else clusters.push([pivot]);
+  }
+
+  const nodes = volumeNodes(candles, tolerance);
+  const levels = clusters.map((cluster) => ({
+    price: cluster.reduce((sum, p) => sum + p.price, 0) / cluster.length,
+    touches: cluster.length,
+    lastTouchIndex: Math.max(...cluster.map((p) => p.index)),
+    volumeShare: 0,
+  }));
+
+  for (const node of nodes) {
+    const match = levels.find((level) => Math.abs(level.price - node.price) <= tolerance);
+    if (match) match.volumeShare = Math.max(match.volumeShare, node.share);
+    else levels.push({ price: node.price, touches: 0, lastTouchIndex: -1, volumeShare: node.share });
+  }
+
+  return levels
+    .map((level): PriceLevel => {
+      const touchScore = (Math.min(level.touches, MAX_TOUCHES_SCORED) / MAX_TOUCHES_SCORED) * 50;
+      const recencyScore = level.lastTouchIndex >= 0 ? (1 - (n - 1 - level.lastTouchIndex) / n) * 25 : 0;
+      const volumeScore = level.volumeShare * 25;
+      return {
+        price: level.price,
+        kind: level.price < last ? "support" : "resistance",
+        strength: Math.round(touchScore + recencyScore + volumeScore),
+        touches: level.touches,
+        lastTouchIndex: level.lastTouchIndex,
+        volumeNode: level.volumeShare > 0,
+      };
+    })
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, maxLevels);
+}
+
+// Best line through pairs of recent pivots that price has not closed through since
+function fitTrendline(candles: Bar[], pivots: SwingPivot[], kind: Trendline["kind"], tolerance: number): Trendline | null {
+  const n = candles.length;
+  const anchors = pivots.slice(-TRENDLINE_PIVOTS);
+  let best: Trendline | null = null;
+
+  for (let a = 0; a < anchors.length - 1; a++) {
+    for (let b = a + 1; b < anchors.length; b++) {
+      const start = anchors[a];
+      const end = anchors[b];
+      const slope = (end.price - start.price) / (end.index - start.index);
+      const lineAt = (i: number) => start.price + slope * (i - start.index);
+
+      let broken = false;
+      for (let i = start.index; i < n && !broken; i++) {
+        const distance = candles[i].close - lineAt(i);
+        broken = kind === "support" ? distance < -tolerance : distance > tolerance;
+      }
+      if (broken) continue;
+
+      const touches = pivots.filter((p) => p.index >= start.index && Math.abs(p.price - lineAt(p.index)) <= tolerance).length;
+      const span = (n - 1 - start.index) / n;
+      const recency = 1 - (n - 1 - end.index) / n;
+      const strength = Math.round(
+        (Math.min(touches, MAX_TOUCHES_SCORED) / MAX_TOUCHES_SCORED) * 50 + recency * 30 + span * 20
+      );
+
+      if (!best || strength > best.strength) {
+        best = {
+          kind,
+          startIndex: start.index,
+          startPrice: start.price,
+          endIndex: n - 1,
+          endPrice: lineAt(n - 1),
+          slope,
+          touches,
+          strength,
+        };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Support trendline through swing lows and resistance trendline through swing
+ * highs, each the best-scoring line price has respected since its first anchor.
+ */
+export function detectTrendlines(candles: Bar[]): Trendline[] {
+  if (!candles || candles.length < MIN_BARS) return [];
+
+  const tolerance = levelTolerance(candles);
+  const pivots = findSwingPivots(candles);
+  const lows = pivots.filter((p) => p.kind === "low");
+  const highs = pivots.filter((p) => p.kind === "high");
+
+  return [fitTrendline(candles, lows, "support", tolerance), fitTrendline(candles, highs, "resistance", tolerance)]
+    .filter((line): line is Trendline => line !== null)
+    .sort((a, b) => b.strength - a.strength);
+}
+
+export function detectSupportResistance(candles: Bar[], maxLevels: number = 6): SupportResistance {
+  return {
+    levels: detectPriceLevels(candles, maxLevels),
+    trendlines: detectTrendlines(candles),
+  };
+}
+
+// Closest detected support below and resistance above the last close
+export function nearestLevels(levels: PriceLevel[]): { support?: PriceLevel; resistance?: PriceLevel } {
+  let support: PriceLevel | undefined;
+  let resistance: PriceLevel | undefined;
+  for (const level of levels) {
+    if (level.kind === "support" && (!support || level.price > support.price)) support = level;
+    if (level.kind === "resistance" && (!resistance || level.price < resistance.price)) resistance = level;
+  }
+  return { support, resistance };
+}
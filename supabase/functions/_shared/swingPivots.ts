@@ -0,0 +1,32 @@
+/**
+ * Swing pivot detection shared by the support/resistance and divergence detectors
+ */
+
+export interface SwingPivot {
+  index: number;
+  price: number;
+  kind: "high" | "low";
+}
+
+export const PIVOT_SPAN = 3; // bars on each side a swing point must exceed
+
+/**
+ * Swing highs and lows: bars whose high (low) is the extreme of the
+ * `span` bars on either side. Flat tops report their first bar.
+ */
+export function findSwingPivots(candles: { high: number; low: number }[], span: number = PIVOT_SPAN): SwingPivot[] {
+  const pivots: SwingPivot[] = [];
+  for (let i = span; i < candles.length - span; i++) {
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - span; j <= i + span && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      const before = j < i;
+      if (before ? candles[j].high >= candles[i].high : candles[j].high > candles[i].high) isHigh = false;
+      if (before ? candles[j].low <= candles[i].low : candles[j].low < candles[i].low) isLow = false;
+    }
+    if (isHigh) pivots.push({ index: i, price: candles[i].high, kind: "high" });
+    if (isLow) pivots.push({ index: i, price: candles[i].low, kind: "low" });
+  }
+  return pivots;
+}
@@ -24,6 +24,36 @@ export const PREMIUM_QUOTE_FIELDS = [
   'marketCap', 'pe', 'eps', 'volume', 'avgVolume', 'yearHigh', 'yearLow',
 ] as const;
 
+// Countable per-tier limits - mirrors TIER_LIMITS in src/hooks/useSubscription.ts
+// -1 means unlimited
+export const TIER_LIMITS = {
+  free: { alerts: 0, aiRequestsPerDay: 10, aiTokensPerDay: 60_000 },
+  pro: { alerts: 10, aiRequestsPerDay: 150, aiTokensPerDay: 1_000_000 },
+  elite: { alerts: -1, aiRequestsPerDay: -1, aiTokensPerDay: 5_000_000 },
+} as const;
+
+export type TierLimitFeature = keyof typeof TIER_LIMITS.free;
+
+/**
+ * Get the numeric limit for a feature on a tier (-1 = unlimited)
+ */
+export function getTierLimit(tier: SubscriptionTier, feature: TierLimitFeature): number {
+  return TIER_LIMITS[tier]?.[feature] ?? TIER_LIMITS.free[feature];
+}
+
+/**
+ * Check whether one more item can be created given the current count
+ */
+export function isWithinTierLimit(
+  tier: SubscriptionTier,
+  feature: TierLimitFeature,
+  currentCount: number
+): boolean {
+  const limit = getTierLimit(tier, feature);
+  if (limit === -1) return true;
+  return currentCount < limit;
+}
+
 /**
  * Get user subscription tier from database
  * Uses service role to bypass RLS on user_subscriptions table
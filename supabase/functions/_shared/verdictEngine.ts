@@ -1,6 +1,8 @@
 /**
  * Master Verdict Engine
- * Calculates a composite score (0-100) from Technical, Fundamental, Sentiment, and Macro layers
+ * Calculates a composite score (0-100) from Technical, Fundamental, Sentiment, and Macro layers.
+ * The app imports this module too (`@shared/verdictEngine.ts`), so scheduled
+ * snapshots score exactly like the Analysis page.
  */
 
 export interface VerdictMetric {
@@ -26,17 +28,98 @@ export interface VerdictResult {
     macro: number;
   };
   confidence: number; // 0-100 how confident we are in this verdict
+  layerWeights: LayerWeights; // normalized weights actually applied
+  profile: { id: string | null; name: string };
+  timeframeAlignment?: TimeframeAlignment; // present when per-timeframe data was supplied
 }
 
-// Layer weights as specified
-const LAYER_WEIGHTS = {
+export type VerdictLayer = VerdictMetric['layer'];
+export type LayerWeights = Record<VerdictLayer, number>;
+
+// Default layer weights
+export const LAYER_WEIGHTS: LayerWeights = {
   technical: 0.40,
   fundamental: 0.30,
   sentiment: 0.20,
   macro: 0.10,
 };
 
-interface MarketData {
+export interface VerdictMetricInfo {
+  id: string;
+  name: string;
+  layer: VerdictLayer;
+  defaultWeight: number;
+}
+
+// Every metric the engine can emit, with its built-in weight
+export const VERDICT_METRICS: VerdictMetricInfo[] = [
+  { id: 'price_vs_ma50', name: 'Price vs 50-MA', layer: 'technical', defaultWeight: 0.25 },
+  { id: 'ema_crossover', name: '20/50 EMA Crossover', layer: 'technical', defaultWeight: 0.15 },
+  { id: 'rsi', name: 'RSI Momentum', layer: 'technical', defaultWeight: 0.20 },
+  { id: 'macd', name: 'MACD Crossover', layer: 'technical', defaultWeight: 0.15 },
+  { id: 'price_vs_ma20', name: 'Price vs 20-MA', layer: 'technical', defaultWeight: 0.10 },
+  { id: 'adx_trend', name: 'ADX Trend Strength', layer: 'technical', defaultWeight: 0.10 },
+  { id: 'stochastic', name: 'Stochastic Oscillator', layer: 'technical', defaultWeight: 0.10 },
+  { id: 'volume', name: 'Volume Pattern', layer: 'technical', defaultWeight: 0.20 },
+  { id: 'divergence', name: 'RSI/MACD Divergence', layer: 'technical', defaultWeight: 0.10 },
+  { id: 'candlestick', name: 'Candlestick Pattern', layer: 'technical', defaultWeight: 0 },
+  { id: 'pe_vs_sector', name: 'P/E vs Sector', layer: 'fundamental', defaultWeight: 0.25 },
+  { id: 'debt_equity', name: 'Debt-to-Equity', layer: 'fundamental', defaultWeight: 0.20 },
+  { id: 'eps_growth', name: 'EPS Growth', layer: 'fundamental', defaultWeight: 0.25 },
+  { id: 'revenue_growth', name: 'Revenue Growth', layer: 'fundamental', defaultWeight: 0.15 },
+  { id: 'fcf_yield', name: 'FCF Yield', layer: 'fundamental', defaultWeight: 0.15 },
+  { id: 'news_sentiment', name: 'News Sentiment', layer: 'sentiment', defaultWeight: 0.35 },
+  { id: 'analyst_rating', name: 'Analyst Consensus', layer: 'sentiment', defaultWeight: 0.30 },
+  { id: 'insider_activity', name: 'Insider Activity', layer: 'sentiment', defaultWeight: 0.20 },
+  { id: 'short_interest', name: 'Short Interest', layer: 'sentiment', defaultWeight: 0.15 },
+  { id: 'vix', name: 'VIX Level', layer: 'macro', defaultWeight: 0.35 },
+  { id: 'interest_rates', name: 'Rate Environment', layer: 'macro', defaultWeight: 0.30 },
+  { id: 'yield_curve', name: 'Yield Curve', layer: 'macro', defaultWeight: 0.20 },
+  { id: 'sector_rotation', name: 'Risk Appetite', layer: 'macro', defaultWeight: 0.15 },
+];
+
+// Technical cut-offs that strategy profiles may override
+export interface VerdictThresholds {
+  rsiOverbought: number;
+  rsiOversold: number;
+  rsiBullish: number; // above this (and not overbought) momentum is bullish
+  rsiBearish: number; // below this (and not oversold) momentum is weak
+  ma50ExtendedPercent: number; // distance from the 50-MA treated as a strong trend
+  volumeSpikeRatio: number; // volume / average volume that counts as a spike
+}
+
+export const DEFAULT_THRESHOLDS: VerdictThresholds = {
+  rsiOverbought: 70,
+  rsiOversold: 30,
+  rsiBullish: 60,
+  rsiBearish: 40,
+  ma50ExtendedPercent: 8,
+  volumeSpikeRatio: 1.5,
+};
+
+export interface VerdictProfileConfig {
+  layerWeights: LayerWeights;
+  metricWeights: Record<string, number>; // metric id -> weight override within its layer
+  thresholds: VerdictThresholds;
+}
+
+export interface VerdictProfile {
+  id: string | null; // null for built-in presets
+  name: string;
+  config: VerdictProfileConfig;
+}
+
+export const DEFAULT_VERDICT_PROFILE: VerdictProfile = {
+  id: null,
+  name: 'Balanced',
+  config: {
+    layerWeights: LAYER_WEIGHTS,
+    metricWeights: {},
+    thresholds: DEFAULT_THRESHOLDS,
+  },
+};
+
+export interface MarketData {
   price?: number;
   ma50?: number;     // Primary trend indicator (replaced ma200)
   ma20?: number;     // Short-term trend
@@ -46,9 +129,21 @@ interface MarketData {
   volume?: number;
   avgVolume?: number;
   atr?: number;
+  adx?: number;
+  plusDI?: number;
+  minusDI?: number;
+  stochK?: number;
+  stochD?: number;
   priceChange?: number;
+  candlePattern?: { name: string; bias: 'bullish' | 'bearish' | 'neutral'; barsAgo: number };
+  divergence?: { source: 'rsi' | 'macd'; kind: 'regular' | 'hidden'; bias: 'bullish' | 'bearish'; barsAgo: number };
 }
 
+// Fixed cut-offs for the trend-strength and stochastic metrics
+const ADX_TRENDING = 25;
+const STOCH_OVERBOUGHT = 80;
+const STOCH_OVERSOLD = 20;
+
 interface FundamentalData {
   peRatio?: number;
   sectorPe?: number;
@@ -76,26 +171,55 @@ interface MacroData {
   sectorRotation?: 'risk_on' | 'risk_off' | 'neutral';
 }
 
+// Technical inputs from one chart timeframe (e.g. '1H', '1W')
+export interface TimeframeMarketData {
+  timeframe: string;
+  market: MarketData;
+  dataQuality?: 'full' | 'partial' | 'insufficient';
+}
+
+export interface TimeframeVerdict {
+  timeframe: string;
+  score: number | null; // technical layer score; null without enough bars
+  signal: VerdictMetric['signal'] | null;
+  metrics: VerdictMetric[]; // technical metrics behind the score
+}
+
+export interface TimeframeAlignment {
+  timeframes: TimeframeVerdict[];
+  direction: VerdictMetric['signal']; // majority signal across scored timeframes
+  agreement: number; // 0-1 share of scored timeframes with that signal
+}
+
+// Confidence moves by up to half this in either direction with timeframe agreement
+const ALIGNMENT_CONFIDENCE_RANGE = 30;
+
 export interface VerdictInput {
   market?: MarketData;
   fundamental?: FundamentalData;
   sentiment?: SentimentData;
   macro?: MacroData;
   dataQuality?: 'full' | 'partial' | 'insufficient';
+  profile?: VerdictProfile;
+  timeframes?: TimeframeMarketData[];
 }
 
-function calculateTechnicalMetrics(data: MarketData): VerdictMetric[] {
+export function calculateTechnicalMetrics(
+  data: MarketData,
+  thresholds: VerdictThresholds = DEFAULT_THRESHOLDS
+): VerdictMetric[] {
   const metrics: VerdictMetric[] = [];
 
   // Price vs 50-day MA - Primary Trend Indicator (25% weight)
   // Short-term strategy: 50-day MA replaces 200-day for faster, more responsive signals
   if (data.price !== undefined && data.ma50 !== undefined) {
     const ratio = data.price / data.ma50;
+    const extended = thresholds.ma50ExtendedPercent / 100;
     let score = 50;
     let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
     let description = 'Price at 50-day MA';
 
-    if (ratio > 1.08) {
+    if (ratio > 1 + extended) {
       score = 85;
       signal = 'bullish';
       description = `Trading ${((ratio - 1) * 100).toFixed(1)}% above 50-day MA`;
@@ -103,7 +227,7 @@ function calculateTechnicalMetrics(data: MarketData): VerdictMetric[] {
       score = 65;
       signal = 'bullish';
       description = `Trading ${((ratio - 1) * 100).toFixed(1)}% above 50-day MA`;
-    } else if (ratio < 0.92) {
+    } else if (ratio < 1 - extended) {
       score = 15;
       signal = 'bearish';
       description = `Trading ${((1 - ratio) * 100).toFixed(1)}% below 50-day MA`;
@@ -153,22 +277,22 @@ function calculateTechnicalMetrics(data: MarketData): VerdictMetric[] {
     let description = 'RSI in neutral zone';
     let strength = 30;
 
-    if (data.rsi >= 40 && data.rsi <= 60) {
+    if (data.rsi >= thresholds.rsiBearish && data.rsi <= thresholds.rsiBullish) {
       score = 55;
       signal = 'neutral';
       description = `RSI at ${data.rsi.toFixed(0)} - Neutral momentum`;
       strength = 20;
-    } else if (data.rsi > 70) {
+    } else if (data.rsi > thresholds.rsiOverbought) {
       score = 30;
       signal = 'bearish';
       description = `RSI at ${data.rsi.toFixed(0)} - Overbought`;
-      strength = Math.min(100, (data.rsi - 70) * 3);
-    } else if (data.rsi < 30) {
+      strength = Math.min(100, (data.rsi - thresholds.rsiOverbought) * 3);
+    } else if (data.rsi < thresholds.rsiOversold) {
       score = 75;
       signal = 'bullish';
       description = `RSI at ${data.rsi.toFixed(0)} - Oversold (potential reversal)`;
-      strength = Math.min(100, (30 - data.rsi) * 3);
-    } else if (data.rsi > 60) {
+      strength = Math.min(100, (thresholds.rsiOversold - data.rsi) * 3);
+    } else if (data.rsi > thresholds.rsiBullish) {
       score = 65;
       signal = 'bullish';
       description = `RSI at ${data.rsi.toFixed(0)} - Bullish momentum`;
@@ -225,6 +349,64 @@ function calculateTechnicalMetrics(data: MarketData): VerdictMetric[] {
     });
   }
 
+  // ADX / DMI - Trend strength, direction from the dominant DI (10% weight)
+  if (data.adx !== undefined && data.plusDI !== undefined && data.minusDI !== undefined) {
+    const bullish = data.plusDI > data.minusDI;
+    let score = 50;
+    let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+    let description = `ADX at ${data.adx.toFixed(0)} - No clear trend`;
+
+    if (data.adx >= ADX_TRENDING) {
+      const boost = Math.min(25, data.adx - ADX_TRENDING + 10);
+      score = bullish ? 60 + boost : 40 - boost;
+      signal = bullish ? 'bullish' : 'bearish';
+      description = `ADX at ${data.adx.toFixed(0)} - Strong ${bullish ? 'uptrend' : 'downtrend'} (+DI ${bullish ? 'above' : 'below'} -DI)`;
+    }
+
+    metrics.push({
+      id: 'adx_trend',
+      name: 'ADX Trend Strength',
+      layer: 'technical',
+      score,
+      weight: 0.10,
+      signal,
+      description,
+      strength: data.adx >= ADX_TRENDING ? Math.min(100, data.adx * 2) : 20,
+    });
+  }
+
+  // Stochastic %K/%D - Short-term exhaustion (10% weight)
+  if (data.stochK !== undefined && data.stochD !== undefined) {
+    const turningUp = data.stochK > data.stochD;
+    let score = turningUp ? 55 : 45;
+    let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
+    let description = `Stochastic at ${data.stochK.toFixed(0)} - %K ${turningUp ? 'above' : 'below'} %D`;
+    let strength = 20;
+
+    if (data.stochK > STOCH_OVERBOUGHT) {
+      score = turningUp ? 40 : 25;
+      signal = 'bearish';
+      description = `Stochastic at ${data.stochK.toFixed(0)} - Overbought${turningUp ? '' : ', turning down'}`;
+      strength = turningUp ? 40 : 65;
+    } else if (data.stochK < STOCH_OVERSOLD) {
+      score = turningUp ? 75 : 60;
+      signal = 'bullish';
+      description = `Stochastic at ${data.stochK.toFixed(0)} - Oversold${turningUp ? ', turning up' : ''}`;
+      strength = turningUp ? 65 : 40;
+    }
+
+    metrics.push({
+      id: 'stochastic',
+      name: 'Stochastic Oscillator',
+      layer: 'technical',
+      score,
+      weight: 0.10,
+      signal,
+      description,
+      strength,
+    });
+  }
+
   // Volume Analysis
   if (data.volume !== undefined && data.avgVolume !== undefined && data.avgVolume > 0) {
     const volRatio = data.volume / data.avgVolume;
@@ -233,11 +415,13 @@ function calculateTechnicalMetrics(data: MarketData): VerdictMetric[] {
     let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
     let description = 'Normal volume';
 
-    if (volRatio > 1.5 && priceUp) {
+    const spike = volRatio > thresholds.volumeSpikeRatio;
+
+    if (spike && priceUp) {
       score = 80;
       signal = 'bullish';
       description = 'High volume accumulation';
-    } else if (volRatio > 1.5 && !priceUp) {
+    } else if (spike && !priceUp) {
       score = 25;
       signal = 'bearish';
       description = 'High volume distribution';
@@ -255,7 +439,48 @@ function calculateTechnicalMetrics(data: MarketData): VerdictMetric[] {
       weight: 0.20,
       signal,
       description,
-      strength: volRatio > 1.5 ? 70 : 30,
+      strength: spike ? 70 : 30,
+    });
+  }
+
+  // RSI/MACD divergence - Momentum disagreeing with price swings (10% weight)
+  if (data.divergence) {
+    const { source, kind, bias, barsAgo } = data.divergence;
+    const regular = kind === 'regular';
+    const edge = (regular ? 25 : 15) - Math.min(10, barsAgo); // older divergences count for less
+    const oscillator = source === 'rsi' ? 'RSI' : 'MACD';
+    const [priceSwing, oscillatorSwing] = bias === 'bullish'
+      ? (regular ? ['lower low', 'higher low'] : ['higher low', 'lower low'])
+      : (regular ? ['higher high', 'lower high'] : ['lower high', 'higher high']);
+
+    metrics.push({
+      id: 'divergence',
+      name: 'RSI/MACD Divergence',
+      layer: 'technical',
+      score: bias === 'bullish' ? 50 + edge : 50 - edge,
+      weight: 0.10,
+      signal: bias,
+      description: `${regular ? 'Regular' : 'Hidden'} ${bias} ${oscillator} divergence ${barsAgo} bars ago (price ${priceSwing}, ${oscillator} ${oscillatorSwing})`,
+      strength: (regular ? 65 : 45) - barsAgo * 2,
+    });
+  }
+
+  // Candlestick pattern - Recent reversal/continuation bar (opt-in, 0% by default)
+  if (data.candlePattern) {
+    const { name, bias, barsAgo } = data.candlePattern;
+    const fade = barsAgo * 5; // older patterns count for less
+    const score = bias === 'bullish' ? 70 - fade : bias === 'bearish' ? 30 + fade : 50;
+    const when = barsAgo === 0 ? 'on the last bar' : `${barsAgo} bar${barsAgo > 1 ? 's' : ''} ago`;
+
+    metrics.push({
+      id: 'candlestick',
+      name: 'Candlestick Pattern',
+      layer: 'technical',
+      score,
+      weight: 0,
+      signal: bias,
+      description: `${name} ${when}`,
+      strength: bias === 'neutral' ? 20 : 60 - barsAgo * 15,
     });
   }
 
@@ -569,20 +794,87 @@ function calculateMacroMetrics(data: MacroData): VerdictMetric[] {
   return metrics;
 }
 
-function getSignalFromScore(score: number): VerdictResult['signal'] {
-  if (score >= 75) return 'extreme_bullish';
-  if (score >= 60) return 'bullish';
-  if (score >= 40) return 'neutral';
-  if (score >= 25) return 'bearish';
+// Lower score bound of each signal bucket
+export const SIGNAL_THRESHOLDS = {
+  extreme_bullish: 75,
+  bullish: 60,
+  neutral: 40,
+  bearish: 25,
+} as const;
+
+export function getSignalFromScore(score: number): VerdictResult['signal'] {
+  if (score >= SIGNAL_THRESHOLDS.extreme_bullish) return 'extreme_bullish';
+  if (score >= SIGNAL_THRESHOLDS.bullish) return 'bullish';
+  if (score >= SIGNAL_THRESHOLDS.neutral) return 'neutral';
+  if (score >= SIGNAL_THRESHOLDS.bearish) return 'bearish';
   return 'extreme_bearish';
 }
 
+// Apply a profile's per-metric weight overrides
+export function applyMetricWeights(metrics: VerdictMetric[], weights: Record<string, number>): VerdictMetric[] {
+  return metrics.map(m => (weights[m.id] !== undefined ? { ...m, weight: weights[m.id] } : m));
+}
+
+// Scale layer weights so they sum to 1; falls back to the defaults if all are zero
+export function normalizeLayerWeights(weights: LayerWeights): LayerWeights {
+  const total = weights.technical + weights.fundamental + weights.sentiment + weights.macro;
+  if (total <= 0) return LAYER_WEIGHTS;
+  return {
+    technical: weights.technical / total,
+    fundamental: weights.fundamental / total,
+    sentiment: weights.sentiment / total,
+    macro: weights.macro / total,
+  };
+}
+
+// Weighted average of a layer's metric scores; 50 (neutral) when the layer has no data
+export function calculateLayerScore(metrics: VerdictMetric[]): number {
+  const totalWeight = metrics.reduce((sum, m) => sum + m.weight, 0);
+  if (totalWeight <= 0) return 50;
+  return metrics.reduce((sum, m) => sum + m.score * m.weight, 0) / totalWeight;
+}
+
+/**
+ * Score the technical layer on each timeframe and measure how far they agree.
+ * Timeframes with insufficient data are listed but not scored.
+ */
+export function calculateTimeframeAlignment(
+  timeframes: TimeframeMarketData[],
+  profile: VerdictProfile = DEFAULT_VERDICT_PROFILE
+): TimeframeAlignment {
+  const verdicts = timeframes.map(({ timeframe, market, dataQuality }): TimeframeVerdict => {
+    const metrics = dataQuality === 'insufficient'
+      ? []
+      : applyMetricWeights(calculateTechnicalMetrics(market, profile.config.thresholds), profile.config.metricWeights);
+    if (metrics.length === 0) return { timeframe, score: null, signal: null, metrics };
+
+    const score = calculateLayerScore(metrics);
+    const signal = score >= SIGNAL_THRESHOLDS.bullish ? 'bullish'
+      : score < SIGNAL_THRESHOLDS.neutral ? 'bearish' : 'neutral';
+    return { timeframe, score: Math.round(score), signal, metrics };
+  });
+
+  const scored = verdicts.filter(v => v.signal !== null);
+  const count = (signal: VerdictMetric['signal']) => scored.filter(v => v.signal === signal).length;
+  const bullish = count('bullish');
+  const bearish = count('bearish');
+  const direction = bullish > bearish ? 'bullish' : bearish > bullish ? 'bearish' : 'neutral';
+
+  return {
+    timeframes: verdicts,
+    direction,
+    agreement: scored.length > 0 ? count(direction) / scored.length : 0,
+  };
+}
+
 export function calculateVerdictScore(input: VerdictInput): VerdictResult {
-  const allMetrics: VerdictMetric[] = [];
+  const profile = input.profile ?? DEFAULT_VERDICT_PROFILE;
+  const layerWeights = normalizeLayerWeights(profile.config.layerWeights);
+  let allMetrics: VerdictMetric[] = [];
 
   // Calculate all layer metrics
   if (input.market) {
-    allMetrics.push(...calculateTechnicalMetrics(input.market));
+    allMetrics.push(...calculateTechnicalMetrics(input.market, profile.config.thresholds));
   }
   if (input.fundamental) {
     allMetrics.push(...calculateFundamentalMetrics(input.fundamental));
@@ -593,6 +885,7 @@ export function calculateVerdictScore(input: VerdictInput): VerdictResult {
   if (input.macro) {
     allMetrics.push(...calculateMacroMetrics(input.macro));
   }
+  allMetrics = applyMetricWeights(allMetrics, profile.config.metricWeights);
 
   // Calculate layer scores
   const layerScores = {
@@ -606,27 +899,39 @@ export function calculateVerdictScore(input: VerdictInput): VerdictResult {
   (['technical', 'fundamental', 'sentiment', 'macro'] as const).forEach(layer => {
     const layerMetrics = allMetrics.filter(m => m.layer === layer);
     if (layerMetrics.length > 0) {
-      const totalWeight = layerMetrics.reduce((sum, m) => sum + m.weight, 0);
-      const weightedSum = layerMetrics.reduce((sum, m) => sum + m.score * m.weight, 0);
-      layerScores[layer] = totalWeight > 0 ? weightedSum / totalWeight : 50;
+      layerScores[layer] = calculateLayerScore(layerMetrics);
     }
   });
 
   // Calculate final composite score
   const compositeScore = 
-    layerScores.technical * LAYER_WEIGHTS.technical +
-    layerScores.fundamental * LAYER_WEIGHTS.fundamental +
-    layerScores.sentiment * LAYER_WEIGHTS.sentiment +
-    layerScores.macro * LAYER_WEIGHTS.macro;
+    layerScores.technical * layerWeights.technical +
+    layerScores.fundamental * layerWeights.fundamental +
+    layerScores.sentiment * layerWeights.sentiment +
+    layerScores.macro * layerWeights.macro;
 
   // Get top 3 strongest signals (by strength * weight importance)
   const topSignals = [...allMetrics]
     .sort((a, b) => (b.strength * b.weight) - (a.strength * a.weight))
     .slice(0, 3);
 
-  // Calculate confidence based on data availability and quality
-  const expectedMetrics = 15; // Total expected metrics
-  let confidence = Math.min(100, (allMetrics.length / expectedMetrics) * 100);
+  // Calculate confidence based on data availability and quality; metrics the
+  // profile weights at zero don't move the score, so they don't count either way
+  const expectedMetrics = VERDICT_METRICS
+    .filter(m => (profile.config.metricWeights[m.id] ?? m.defaultWeight) > 0)
+    .length;
+  const weightedMetrics = allMetrics.filter(m => m.weight > 0).length;
+  let confidence = expectedMetrics > 0 ? Math.min(100, (weightedMetrics / expectedMetrics) * 100) : 0;
+
+  // Agreeing timeframes raise confidence, conflicting ones lower it
+  const timeframeAlignment = input.timeframes?.length
+    ? calculateTimeframeAlignment(input.timeframes, profile)
+    : undefined;
+  const scoredTimeframes = timeframeAlignment?.timeframes.filter(t => t.signal !== null).length ?? 0;
+  if (timeframeAlignment && scoredTimeframes >= 2) {
+    confidence += (timeframeAlignment.agreement - 0.5) * ALIGNMENT_CONFIDENCE_RANGE;
+    confidence = Math.max(0, Math.min(100, confidence));
+  }
   
   // Reduce confidence if data quality is not full
   if (input.dataQuality === 'partial') {
@@ -647,6 +952,9 @@ export function calculateVerdictScore(input: VerdictInput): VerdictResult {
       macro: Math.round(layerScores.macro),
     },
     confidence: Math.round(confidence),
+    layerWeights,
+    profile: { id: profile.id, name: profile.name },
+    timeframeAlignment,
   };
 }
 
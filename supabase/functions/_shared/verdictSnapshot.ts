@@ -0,0 +1,265 @@
+/**
+ * Server-side Master Verdict evaluation shared by snapshot-verdicts and screener
+ * Fetches candles, fundamentals and macro inputs through the other edge functions
+ * (with the service role key) and scores a symbol the same way useVerdict does
+ */
+
+import { deriveTechnicalIndicators, type Candle } from "./indicators.ts";
+import {
+  calculateVerdictScore,
+  DEFAULT_VERDICT_PROFILE,
+  type VerdictInput,
+  type VerdictMetric,
+} from "./verdictEngine.ts";
+import { fetchWithRetry, LIGHT_RETRY_CONFIG } from "./retry.ts";
+
+const CANDLE_DAYS = 120; // enough trading days for 'full' data quality
+
+export interface FundamentalsRow {
+  companyName?: string;
+  sector?: string;
+  industry?: string;
+  marketCap?: number;
+  peRatio: number | null;
+  sectorPe: number | null;
+  debtToEquity: number | null;
+  epsGrowth: number | null;
+  revenueGrowth: number | null;
+  freeCashFlowYield: number | null;
+  profitMargin: number | null;
+  analystRating: number | null;
+  _premiumLocked?: string[];
+  [field: string]: unknown;
+}
+
+export interface MacroContext {
+  vix?: number;
+  analysis: {
+    rateEnvironment?: string;
+    rateTrend?: "rising" | "falling" | "stable";
+    riskSentiment?: string;
+    recessionSignal?: boolean;
+  } | null;
+}
+
+// Raw technical values kept alongside the score so rows can be screened
+export interface SnapshotTechnicals {
+  price?: number;
+  ma20?: number;
+  ma50?: number;
+  rsi?: number;
+  macdSignal?: "bullish" | "bearish" | "neutral";
+  emaCrossover?: "bullish" | "bearish" | "neutral";
+  priceChange?: number;
+  volumeRatio?: number;
+  dataQuality?: "full" | "partial" | "insufficient";
+}
+
+export interface VerdictSnapshotRow {
+  symbol: string;
+  snapshot_date: string;
+  score: number;
+  signal: string;
+  confidence: number;
+  price: number;
+  layer_scores: Record<string, number>;
+  top_metrics: ReturnType<typeof compactMetric>[]; // without premium metrics; readable by every signed-in user
+  metrics: ReturnType<typeof compactMetric>[];
+  full_top_metrics: ReturnType<typeof compactMetric>[]; // service role only, served by get_verdict_history
+  full_metrics: ReturnType<typeof compactMetric>[];
+  technicals: SnapshotTechnicals;
+  fundamentals: FundamentalsRow | null;
+}
+
+export async function invokeFunction(name: string, body: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const response = await fetchWithRetry(
+    `${Deno.env.get("SUPABASE_URL")}/functions/v1/${name}`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    },
+    LIGHT_RETRY_CONFIG
+  );
+  return response.json();
+}
+
+export async function fetchMacroContext(): Promise<MacroContext> {
+  try {
+    const data = await invokeFunction("fred-data", {});
+    const indicators = (data?.indicators || []) as { id: string; value: number }[];
+    return {
+      vix: indicators.find((i) => i.id === "VIXCLS")?.value,
+      analysis: (data?.analysis as MacroContext["analysis"]) ?? null,
+    };
+  } catch (error) {
+    console.error("FRED fetch failed:", error);
+    return { analysis: null };
+  }
+}
+
+async function fetchCandles(symbol: string): Promise<Candle[]> {
+  try {
+    const data = await invokeFunction("market-data", {
+      symbols: [symbol],
+      type: "candles",
+      resolution: "D",
+      days: CANDLE_DAYS,
+    });
+    const candles = (data?.candles || []) as Candle[];
+    return [...candles].sort((a, b) => a.timestamp - b.timestamp);
+  } catch (error) {
+    console.error(`Candle fetch failed for ${symbol}:`, error);
+    return [];
+  }
+}
+
+async function fetchFundamentals(symbol: string): Promise<FundamentalsRow | null> {
+  try {
+    const data = await invokeFunction("fundamentals", { symbol });
+    return (data?.fundamentals as FundamentalsRow) ?? null;
+  } catch (error) {
+    console.error(`Fundamentals fetch failed for ${symbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build the verdict input the same way useVerdict does on the client.
+ * News and insider sentiment are not available server-side.
+ */
+function buildVerdictInput(
+  indicators: ReturnType<typeof deriveTechnicalIndicators>,
+  fundamentals: FundamentalsRow | null,
+  macro: MacroContext
+): VerdictInput {
+  const analysis = macro.analysis;
+
+  let interestRateTrend: "rising" | "falling" | "stable" = "stable";
+  if (analysis?.rateTrend) {
+    interestRateTrend = analysis.rateTrend;
+  } else if (analysis?.rateEnvironment) {
+    if (analysis.rateEnvironment.includes("rising") || analysis.rateEnvironment === "restrictive") {
+      interestRateTrend = "rising";
+    } else if (analysis.rateEnvironment.includes("falling") || analysis.rateEnvironment === "accommodative") {
+      interestRateTrend = "falling";
+    }
+  }
+
+  const fundamentalsLocked = (fundamentals?._premiumLocked?.length ?? 0) > 0;
+
+  return {
+    market: {
+      price: indicators.price,
+      ma50: indicators.ma50,
+      ma20: indicators.ma20,
+      rsi: indicators.rsi,
+      macdSignal: indicators.macdSignal,
+      emaCrossover: indicators.emaCrossover,
+      adx: indicators.adx,
+      plusDI: indicators.plusDI,
+      minusDI: indicators.minusDI,
+      stochK: indicators.stochK,
+      stochD: indicators.stochD,
+      volume: indicators.volume,
+      avgVolume: indicators.avgVolume,
+      priceChange: indicators.priceChange,
+      candlePattern: indicators.candlePattern,
+      divergence: indicators.divergence,
+    },
+    fundamental: fundamentals ? {
+      peRatio: fundamentals.peRatio ?? undefined,
+      sectorPe: fundamentals.sectorPe ?? undefined,
+      debtToEquity: fundamentals.debtToEquity ?? undefined,
+      epsGrowth: fundamentals.epsGrowth ?? undefined,
+      revenueGrowth: fundamentals.revenueGrowth ?? undefined,
+      freeCashFlowYield: fundamentals.freeCashFlowYield ?? undefined,
+      profitMargin: fundamentals.profitMargin ? fundamentals.profitMargin * 100 : undefined,
+    } : undefined,
+    sentiment: {
+      analystRating: fundamentals?.analystRating ?? undefined,
+    },
+    macro: {
+      vix: macro.vix,
+      interestRateTrend,
+      yieldCurve: analysis?.recessionSignal ? "inverted" : "normal",
+      sectorRotation: analysis?.riskSentiment?.includes("risk-on") ? "risk_on"
+        : analysis?.riskSentiment?.includes("risk-off") ? "risk_off" : "neutral",
+    },
+    dataQuality: fundamentalsLocked
+      ? (indicators.dataQuality === "full" ? "partial" : indicators.dataQuality)
+      : indicators.dataQuality,
+    profile: DEFAULT_VERDICT_PROFILE,
+  };
+}
+
+// Only what the timeline needs; weights and strength are derivable from the profile
+function compactMetric(m: VerdictMetric) {
+  return {
+    id: m.id,
+    name: m.name,
+    layer: m.layer,
+    score: m.score,
+    signal: m.signal,
+    description: m.description,
+  };
+}
+
+// Scored from premium fundamentals and analyst data; the description carries the
+// value and the score maps back to it, so only paid tiers may see these
+function isPremiumMetric(m: VerdictMetric): boolean {
+  return m.layer === "fundamental" || m.id === "analyst_rating";
+}
+
+// Strongest signals first, ranked like the engine's topSignals
+function strongest(metrics: VerdictMetric[], count = 3): VerdictMetric[] {
+  return [...metrics].sort((a, b) => (b.strength * b.weight) - (a.strength * a.weight)).slice(0, count);
+}
+
+/**
+ * Score `symbol` with the default profile and shape it as a verdict_snapshots row.
+ * Returns null when there is not enough price history to score.
+ */
+export async function evaluateSymbol(
+  symbol: string,
+  macro: MacroContext,
+  snapshotDate = new Date().toISOString().slice(0, 10)
+): Promise<VerdictSnapshotRow | null> {
+  const candles = await fetchCandles(symbol);
+  if (candles.length < 20) return null;
+
+  const fundamentals = await fetchFundamentals(symbol);
+  const indicators = deriveTechnicalIndicators(candles);
+  const verdict = calculateVerdictScore(buildVerdictInput(indicators, fundamentals, macro));
+
+  return {
+    symbol,
+    snapshot_date: snapshotDate,
+    score: verdict.score,
+    signal: verdict.signal,
+    confidence: verdict.confidence,
+    price: candles[candles.length - 1].close,
+    layer_scores: verdict.layerScores,
+    top_metrics: strongest(verdict.metrics.filter((m) => !isPremiumMetric(m))).map(compactMetric),
+    metrics: verdict.metrics.filter((m) => !isPremiumMetric(m)).map(compactMetric),
+    full_top_metrics: verdict.topSignals.map(compactMetric),
+    full_metrics: verdict.metrics.map(compactMetric),
+    technicals: {
+      price: indicators.price,
+      ma20: indicators.ma20,
+      ma50: indicators.ma50,
+      rsi: indicators.rsi,
+      macdSignal: indicators.macdSignal,
+      emaCrossover: indicators.emaCrossover,
+      priceChange: indicators.priceChange,
+      volumeRatio: indicators.volume && indicators.avgVolume ? indicators.volume / indicators.avgVolume : undefined,
+      dataQuality: indicators.dataQuality,
+    },
+    fundamentals,
+  };
+}
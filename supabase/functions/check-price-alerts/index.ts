@@ -0,0 +1,423 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getTierLimit, type SubscriptionTier } from "../_shared/tierCheck.ts";
+import { calculateSMA, calculateRSI, lastValue } from "../_shared/indicators.ts";
+import { fetchWithRetry, LIGHT_RETRY_CONFIG } from "../_shared/retry.ts";
+import { fetchAllRows } from "../_shared/pagination.ts";
+
+/**
+ * Scheduled price alert evaluator.
+ * Invoked by a cron job with the service role key as bearer token. Loads every
+ * active alert, fetches quotes (and daily candles for RSI/MA alerts) through the
+ * market-data function, and fires alerts whose condition has just become true.
+ */
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const QUOTE_BATCH_SIZE = 50; // market-data MAX_SYMBOLS
+const CANDLE_DAYS = 250;
+
+interface PriceAlertRow {
+  id: string;
+  user_id: string;
+  symbol: string;
+  condition: string;
+  threshold: number;
+  params: { period?: number };
+  note: string | null;
+  notify_email: boolean;
+  last_value: number | null;
+  created_at: string;
+}
+
+interface QuoteData {
+  symbol: string;
+  price: number;
+  changePercent: number;
+  timestamp?: number; // seconds
+  error?: boolean;
+}
+
+interface DailyCandle {
+  date?: string; // YYYY-MM-DD
+  timestamp: number; // seconds
+  close: number;
+}
+
+interface Evaluation {
+  value: number;
+  satisfied: boolean;
+  // Whether the previous observation satisfied the condition (null = no baseline yet)
+  wasSatisfied: boolean | null;
+  description: string;
+}
+
+// HTML escape function to prevent injection
+function escapeHtml(text: string): string {
+  const map: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;'
+  };
+  return text.replace(/[&<>"']/g, (m) => map[m]);
+}
+
+async function invokeMarketData(body: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const response = await fetchWithRetry(
+    `${Deno.env.get("SUPABASE_URL")}/functions/v1/market-data`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    },
+    LIGHT_RETRY_CONFIG
+  );
+  return response.json();
+}
+
+async function fetchQuotes(symbols: string[]): Promise<Map<string, QuoteData>> {
+  const quotes = new Map<string, QuoteData>();
+
+  for (let i = 0; i < symbols.length; i += QUOTE_BATCH_SIZE) {
+    const batch = symbols.slice(i, i + QUOTE_BATCH_SIZE);
+    try {
+      const data = await invokeMarketData({ symbols: batch, type: "quotes" });
+      for (const q of (data?.quotes || []) as QuoteData[]) {
+        if (!q.error && q.price > 0) quotes.set(q.symbol.toUpperCase(), q);
+      }
+    } catch (error) {
+      console.error(`Quote batch failed (${batch.join(",")}):`, error);
+    }
+  }
+
+  return quotes;
+}
+
+async function fetchCandles(symbol: string): Promise<DailyCandle[]> {
+  try {
+    const data = await invokeMarketData({
+      symbols: [symbol],
+      type: "candles",
+      resolution: "D",
+      days: CANDLE_DAYS,
+    });
+    const candles = (data?.candles || []) as DailyCandle[];
+    return [...candles].sort((a, b) => a.timestamp - b.timestamp);
+  } catch (error) {
+    console.error(`Candle fetch failed for ${symbol}:`, error);
+    return [];
+  }
+}
+
+// Trading session (US/Eastern calendar date) a timestamp in seconds belongs to
+function sessionDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+}
+
+/**
+ * Daily closes with the live price as the latest bar, so intraday moves count.
+ * The quote replaces the last candle's close when both are from the same session;
+ * otherwise (the day's candle isn't published yet) it is appended as a new bar.
+ */
+function closesWithQuote(candles: DailyCandle[], quote: QuoteData): number[] {
+  const last = candles[candles.length - 1];
+  if (!last) return [];
+
+  const closes = candles.map((c) => c.close);
+  const candleSession = last.date ?? new Date(last.timestamp * 1000).toISOString().slice(0, 10);
+  const quoteSession = sessionDate(quote.timestamp ?? Date.now() / 1000);
+  return candleSession === quoteSession
+    ? [...closes.slice(0, -1), quote.price]
+    : [...closes, quote.price];
+}
+
+/**
+ * Evaluate an alert against the latest data.
+ * Alerts are edge-triggered: they fire when the condition is satisfied now but was not
+ * at the previous check. The first check after creation or re-arming (no last_value)
+ * only records a baseline, so an alert whose condition already holds never fires on it.
+ */
+function evaluateAlert(
+  alert: PriceAlertRow,
+  quote: QuoteData,
+  candles: DailyCandle[] | undefined
+): Evaluation | null {
+  const threshold = Number(alert.threshold);
+  const previous = alert.last_value === null ? null : Number(alert.last_value);
+  const period = alert.params?.period;
+
+  switch (alert.condition) {
+    case "price_above":
+    case "price_below": {
+      const above = alert.condition === "price_above";
+      const test = (v: number) => (above ? v >= threshold : v <= threshold);
+      return {
+        value: quote.price,
+        satisfied: test(quote.price),
+        wasSatisfied: previous === null ? null : test(previous),
+        description: `${alert.symbol} crossed ${above ? "above" : "below"} $${threshold.toFixed(2)} (now $${quote.price.toFixed(2)})`,
+      };
+    }
+    case "percent_change": {
+      const test = (v: number) => (threshold > 0 ? v >= threshold : v <= threshold);
+      return {
+        value: quote.changePercent,
+        satisfied: test(quote.changePercent),
+        wasSatisfied: previous === null ? null : test(previous),
+        description: `${alert.symbol} moved ${quote.changePercent >= 0 ? "+" : ""}${quote.changePercent.toFixed(2)}% today (alert at ${threshold > 0 ? "+" : ""}${threshold}%)`,
+      };
+    }
+    case "rsi_above":
+    case "rsi_below": {
+      if (!candles) return null;
+      const rsi = lastValue(calculateRSI(closesWithQuote(candles, quote), period ?? 14));
+      if (rsi === null) return null;
+      const above = alert.condition === "rsi_above";
+      const test = (v: number) => (above ? v >= threshold : v <= threshold);
+      return {
+        value: rsi,
+        satisfied: test(rsi),
+        wasSatisfied: previous === null ? null : test(previous),
+        description: `${alert.symbol} RSI(${period ?? 14}) is ${rsi.toFixed(1)}, ${above ? "above" : "below"} ${threshold}`,
+      };
+    }
+    case "ma_cross_above":
+    case "ma_cross_below": {
+      if (!candles) return null;
+      const ma = lastValue(calculateSMA(closesWithQuote(candles, quote), period ?? 50));
+      if (ma === null) return null;
+      // Stored value is the distance from the MA so the sign captures which side price is on
+      const distance = quote.price - ma;
+      const above = alert.condition === "ma_cross_above";
+      const test = (v: number) => (above ? v > 0 : v < 0);
+      return {
+        value: distance,
+        satisfied: test(distance),
+        wasSatisfied: previous === null ? null : test(previous),
+        description: `${alert.symbol} crossed ${above ? "above" : "below"} its ${period ?? 50}-day SMA ($${ma.toFixed(2)})`,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function buildAlertEmail(displayName: string | null, symbol: string, description: string, note: string | null): string {
+  const safeName = displayName ? escapeHtml(displayName.slice(0, 100)) : "Trader";
+  const safeNote = note ? escapeHtml(note) : null;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #0a0a0b; color: #ffffff; padding: 40px 20px; margin: 0;">
+      <div style="max-width: 560px; margin: 0 auto; background: linear-gradient(145deg, #111113 0%, #0a0a0b 100%); border: 1px solid #222; border-radius: 16px; padding: 40px;">
+        <div style="text-align: center; margin-bottom: 32px;">
+          <h1 style="color: #10b981; font-size: 28px; margin: 0;">Keystone Analytics</h1>
+        </div>
+
+        <h2 style="font-size: 20px; margin-bottom: 16px; color: #fff;">Hi ${safeName}, your ${escapeHtml(symbol)} alert triggered</h2>
+
+        <p style="color: #a1a1aa; line-height: 1.6; margin-bottom: 24px;">
+          ${escapeHtml(description)}
+        </p>
+        ${safeNote ? `<p style="color: #71717a; font-size: 14px; line-height: 1.6; margin-bottom: 24px;">Your note: ${safeNote}</p>` : ""}
+
+        <div style="text-align: center; margin: 32px 0;">
+          <a href="https://keystoneanalytics.org/dashboard/analysis?symbol=${encodeURIComponent(symbol)}" style="display: inline-block; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: #fff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">
+            View Chart
+          </a>
+        </div>
+
+        <p style="color: #71717a; font-size: 14px; line-height: 1.6;">
+          This alert has been deactivated. You can re-enable it from your watchlist. Manage email preferences in Settings.
+        </p>
+
+        <hr style="border: none; border-top: 1px solid #222; margin: 32px 0;">
+
+        <p style="color: #52525b; font-size: 12px; text-align: center;">
+          © ${new Date().getFullYear()} Keystone Analytics. All rights reserved.
+        </p>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only the scheduler (service role) may run the evaluator
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const authHeader = req.headers.get("Authorization");
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const alerts = await fetchAllRows<PriceAlertRow>((from, to) =>
+      supabaseAdmin
+        .from("price_alerts")
+        .select("id, user_id, symbol, condition, threshold, params, note, notify_email, last_value, created_at")
+        .eq("is_active", true)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+    if (alerts.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, checked: 0, triggered: 0 }),
+        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    // Enforce tier limits: only a user's oldest N alerts are evaluated (covers downgrades)
+    const userIds = [...new Set(alerts.map((a) => a.user_id))];
+    const subscriptions = await fetchAllRows<{ user_id: string; tier: string }>((from, to) =>
+      supabaseAdmin
+        .from("user_subscriptions")
+        .select("user_id, tier")
+        .in("user_id", userIds)
+        .order("user_id")
+        .range(from, to)
+    );
+
+    const tierByUser = new Map<string, SubscriptionTier>(
+      subscriptions.map((s) => [s.user_id, s.tier as SubscriptionTier])
+    );
+    const seenPerUser = new Map<string, number>();
+    const eligible = alerts.filter((alert) => {
+      const limit = getTierLimit(tierByUser.get(alert.user_id) ?? "free", "alerts");
+      const seen = seenPerUser.get(alert.user_id) ?? 0;
+      seenPerUser.set(alert.user_id, seen + 1);
+      return limit === -1 || seen < limit;
+    });
+
+    const symbols = [...new Set(eligible.map((a) => a.symbol.toUpperCase()))];
+    const quotes = await fetchQuotes(symbols);
+
+    // Candles are only needed for indicator-based alerts
+    const indicatorSymbols = [...new Set(
+      eligible
+        .filter((a) => a.condition.startsWith("rsi") || a.condition.startsWith("ma_cross"))
+        .map((a) => a.symbol.toUpperCase())
+    )];
+    const candlesBySymbol = new Map<string, DailyCandle[]>();
+    for (const symbol of indicatorSymbols) {
+      candlesBySymbol.set(symbol, await fetchCandles(symbol));
+    }
+
+    const now = new Date().toISOString();
+    const triggered: { alert: PriceAlertRow; evaluation: Evaluation }[] = [];
+
+    for (const alert of eligible) {
+      const symbol = alert.symbol.toUpperCase();
+      const quote = quotes.get(symbol);
+      if (!quote) continue;
+
+      const evaluation = evaluateAlert(alert, quote, candlesBySymbol.get(symbol));
+      if (!evaluation) continue;
+
+      const fires = evaluation.satisfied && evaluation.wasSatisfied === false;
+
+      const { error: updateError } = await supabaseAdmin
+        .from("price_alerts")
+        .update({
+          last_value: evaluation.value,
+          last_checked_at: now,
+          ...(fires ? { is_active: false, triggered_at: now } : {}),
+        })
+        .eq("id", alert.id);
+
+      if (updateError) {
+        console.error(`Error updating alert ${alert.id}:`, updateError.message);
+        continue;
+      }
+
+      if (fires) triggered.push({ alert, evaluation });
+    }
+
+    let emailsSent = 0;
+
+    for (const { alert, evaluation } of triggered) {
+      const { error: notifyError } = await supabaseAdmin.from("notifications").insert({
+        user_id: alert.user_id,
+        type: "price_alert",
+        title: `${alert.symbol} alert triggered`,
+        body: evaluation.description,
+        data: { alertId: alert.id, symbol: alert.symbol, condition: alert.condition, value: evaluation.value },
+      });
+
+      if (notifyError) {
+        console.error(`Error creating notification for alert ${alert.id}:`, notifyError.message);
+      }
+
+      if (!alert.notify_email) continue;
+
+      const { data: profile } = await supabaseAdmin
+        .from("profiles")
+        .select("display_name, notify_price_alerts")
+        .eq("user_id", alert.user_id)
+        .maybeSingle();
+
+      if (!profile?.notify_price_alerts) continue;
+
+      const { data: userData } = await supabaseAdmin.auth.admin.getUserById(alert.user_id);
+      if (!userData?.user?.email) continue;
+
+      try {
+        await resend.emails.send({
+          from: "Keystone Analytics <noreply@keystoneanalytics.org>",
+          to: [userData.user.email],
+          subject: `Price alert: ${alert.symbol}`,
+          html: buildAlertEmail(profile.display_name, alert.symbol, evaluation.description, alert.note),
+        });
+        emailsSent++;
+      } catch (emailError) {
+        console.error(`Error sending alert email for ${alert.id}:`, emailError);
+      }
+    }
+
+    console.log(`Price alerts checked: ${eligible.length}, triggered: ${triggered.length}, emails: ${emailsSent}`);
+
+    return new Response(
+      JSON.stringify({ success: true, checked: eligible.length, triggered: triggered.length, emailsSent }),
+      { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("Error in check-price-alerts:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+};
+
+serve(handler);
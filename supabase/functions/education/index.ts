@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { rateLimitMiddleware, RATE_LIMITS } from "../_shared/rateLimit.ts";
+import { createAiQuotaResponse, parseTokenUsage, recordAiTokens, reserveAiRequest } from "../_shared/aiUsage.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -97,6 +98,12 @@ serve(async (req) => {
       return rateLimitResponse;
     }
 
+    // Count this request against the plan's daily AI quota before calling the model
+    const quota = await reserveAiRequest(userId, "education");
+    if (!quota.allowed) {
+      return createAiQuotaResponse(quota, corsHeaders);
+    }
+
     const { topic, context, level = "beginner" }: EducationRequest = await req.json();
 
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
@@ -180,6 +187,7 @@ Format your response in markdown with:
 
     const data = await response.json();
     const content = data.choices?.[0]?.message?.content || "Unable to generate explanation.";
+    await recordAiTokens(userId, "education", parseTokenUsage(data.usage));
 
     return new Response(
       JSON.stringify({ 
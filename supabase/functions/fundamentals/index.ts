@@ -29,11 +29,16 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
     const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
     
+    // Scheduled jobs call in with the service role key and need unmasked data;
+    // the screener re-applies the paywall per user
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const isInternal = !!serviceRoleKey && authHeader === `Bearer ${serviceRoleKey}`;
+
     // Get user ID and tier for paywall enforcement
-    const userId = await getUserIdFromAuth(authHeader, supabaseUrl, anonKey);
+    const userId = isInternal ? null : await getUserIdFromAuth(authHeader, supabaseUrl, anonKey);
     const tier: SubscriptionTier = userId ? await getUserTier(userId) : 'free';
     
-    console.log(`Fundamentals request - userId: ${userId}, tier: ${tier}`);
+    console.log(`Fundamentals request - userId: ${userId}, tier: ${tier}, internal: ${isInternal}`);
 
     const { symbol } = await req.json();
 
@@ -266,7 +271,7 @@ serve(async (req) => {
     console.log(`Fundamentals fetched for ${symbol}: PE=${fundamentals.peRatio}, D/E=${fundamentals.debtToEquity}, tier=${tier}`);
 
     // Apply premium field masking for free tier users
-    const maskedFundamentals = maskPremiumFields(
+    const maskedFundamentals = isInternal ? fundamentals : maskPremiumFields(
       fundamentals,
       tier,
       PREMIUM_FUNDAMENTAL_FIELDS
@@ -28,6 +28,8 @@ const corsHeaders = {
 // Validation patterns
 const SYMBOL_REGEX = /^[A-Za-z0-9.-]{1,10}$/;
 const MAX_SYMBOLS = 50;
+// Search also takes company names, e.g. "Berkshire Hathaway"
+const SEARCH_QUERY_REGEX = /^[A-Za-z0-9 .&'-]{1,50}$/;
 
 function validateSymbol(symbol: string): boolean {
   return typeof symbol === "string" && SYMBOL_REGEX.test(symbol);
@@ -206,7 +208,9 @@ serve(async (req) => {
     }
 
     // Validate symbols
-    if (!validateSymbols(symbols)) {
+    const validSearch = type === "search" && Array.isArray(symbols) && symbols.length === 1 &&
+      typeof symbols[0] === "string" && SEARCH_QUERY_REGEX.test(symbols[0]);
+    if (!validSearch && !validateSymbols(symbols)) {
       return new Response(
         JSON.stringify({ error: "Invalid symbols format. Expected array of 1-50 valid ticker symbols." }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -410,36 +414,48 @@ serve(async (req) => {
       console.log(`Fetching ${symbol} candles: resolution=${candleResolution}, days=${candleDays}`);
 
       // PRIMARY: FMP intraday for 1H and 4H resolutions using stable API
+      // 4H is built from hourly bars with aggregateCandles so both share one session grid
       if (FMP_API_KEY && (candleResolution === "60" || candleResolution === "240")) {
         try {
-          // FMP stable intraday endpoint format: /stable/historical-chart/{interval}?symbol=AAPL
-          const fmpInterval = candleResolution === "60" ? "1hour" : "4hour";
+          // FMP stable intraday endpoint format: /stable/historical-chart/{interval}?symbol=AAPL&from=&to=
+          const fromDate = new Date(from * 1000).toISOString().split('T')[0];
+          const toDate = new Date(to * 1000).toISOString().split('T')[0];
           const fmpIntradayRes = await fetch(
-            `https://financialmodelingprep.com/stable/historical-chart/${fmpInterval}?symbol=${encodedSymbol}&apikey=${FMP_API_KEY}`
+            `https://financialmodelingprep.com/stable/historical-chart/1hour?symbol=${encodedSymbol}&from=${fromDate}&to=${toDate}&apikey=${FMP_API_KEY}`
           );
           const fmpIntradayData = await fmpIntradayRes.json();
           
-          console.log(`FMP intraday ${fmpInterval} response for ${symbol}:`, 
+          console.log(`FMP intraday 1hour response for ${symbol}:`, 
             JSON.stringify(fmpIntradayData).substring(0, 300));
           
           if (Array.isArray(fmpIntradayData) && fmpIntradayData.length > 0) {
-            // Slice to requested number of candles based on days config
-            const maxCandles = candleResolution === "60" ? 48 : 60; // 2 days * 24 or 10 days * 6
-            const slicedData = fmpIntradayData.slice(0, maxCandles).reverse();
-            
-            const candles = slicedData.map((d: any) => ({
-              date: d.date.split(' ')[0], // Extract YYYY-MM-DD from "2024-01-15 09:30:00"
-              timestamp: new Date(d.date).getTime() / 1000,
-              open: d.open,
-              high: d.high,
-              low: d.low,
-              close: d.close,
-              volume: d.volume,
+            // Newest first; keep the requested window so indicator warm-up scales with `days`
+            const raw: RawCandle[] = fmpIntradayData
+              .map((d: any) => ({
+                timestamp: new Date(d.date).getTime() / 1000,
+                open: d.open,
+                high: d.high,
+                low: d.low,
+                close: d.close,
+                volume: d.volume,
+              }))
+              .filter((c: RawCandle) => c.timestamp >= from)
+              .reverse();
+            const aggregated = aggregateCandles(raw, candleResolution);
+
+            const candles = aggregated.map((c) => ({
+              date: new Date(c.timestamp * 1000).toISOString().split('T')[0], // YYYY-MM-DD
+              timestamp: c.timestamp,
+              open: c.open,
+              high: c.high,
+              low: c.low,
+              close: c.close,
+              volume: c.volume,
             }));
             
             const payload = { candles, resolution: candleResolution, source: "fmp" };
             setCache(cacheKey, payload);
-            console.log(`FMP ${fmpInterval} candles for ${symbol}: ${candles.length}`);
+            console.log(`FMP ${candleResolution} candles for ${symbol}: ${candles.length} (from 1hour)`);
             
             return new Response(JSON.stringify(payload), {
               headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -523,8 +539,10 @@ serve(async (req) => {
       }
 
       // Fallback: Finnhub for intraday resolutions or if FMP fails
+      // Finnhub has no 4-hour resolution, so fetch hourly and aggregate below
+      const finnhubResolution = candleResolution === "240" ? "60" : candleResolution;
       const finnhubResponse = await fetch(
-        `https://finnhub.io/api/v1/stock/candle?symbol=${encodedSymbol}&resolution=${candleResolution}&from=${from}&to=${to}&token=${FINNHUB_API_KEY}`
+        `https://finnhub.io/api/v1/stock/candle?symbol=${encodedSymbol}&resolution=${finnhubResolution}&from=${from}&to=${to}&token=${FINNHUB_API_KEY}`
       );
       const finnhubData = await finnhubResponse.json();
 
@@ -569,7 +587,8 @@ serve(async (req) => {
 
       // Fallback to Alpha Vantage for historical data (optimized for short-term strategy)
       const ALPHA_VANTAGE_KEY = Deno.env.get("ALPHA_VANTAGE_API_KEY");
-      if (ALPHA_VANTAGE_KEY) {
+      // TIME_SERIES_DAILY only serves daily bars; never relabel them as another resolution
+      if (ALPHA_VANTAGE_KEY && candleResolution === "D") {
         console.log(`Trying Alpha Vantage for ${symbol}`);
         try {
           // Use outputsize=compact (100 data points) for free tier compatibility
@@ -0,0 +1,175 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getUserTier,
+  getUserIdFromAuth,
+  getTierLimit,
+  isWithinTierLimit,
+} from "../_shared/tierCheck.ts";
+import { rateLimitMiddleware, RATE_LIMITS } from "../_shared/rateLimit.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Validation
+const SYMBOL_REGEX = /^[A-Za-z0-9.-]{1,10}$/;
+const CONDITIONS = [
+  "price_above",
+  "price_below",
+  "percent_change",
+  "rsi_above",
+  "rsi_below",
+  "ma_cross_above",
+  "ma_cross_below",
+] as const;
+type AlertCondition = typeof CONDITIONS[number];
+
+const MIN_PERIOD = 2;
+const MAX_PERIOD = 200;
+const MAX_NOTE_LENGTH = 200;
+
+interface CreateAlertRequest {
+  symbol: string;
+  condition: AlertCondition;
+  threshold?: number;
+  period?: number;
+  note?: string;
+  notifyEmail?: boolean;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function validateRequest(body: Partial<CreateAlertRequest>): string | null {
+  if (typeof body.symbol !== "string" || !SYMBOL_REGEX.test(body.symbol)) {
+    return "Invalid symbol";
+  }
+  if (!CONDITIONS.includes(body.condition as AlertCondition)) {
+    return "Invalid alert condition";
+  }
+
+  const needsThreshold = !body.condition!.startsWith("ma_cross");
+  if (needsThreshold && (typeof body.threshold !== "number" || !Number.isFinite(body.threshold))) {
+    return "Threshold must be a number";
+  }
+  if (body.condition!.startsWith("rsi") && (body.threshold! <= 0 || body.threshold! >= 100)) {
+    return "RSI threshold must be between 0 and 100";
+  }
+  if (body.condition!.startsWith("price") && body.threshold! <= 0) {
+    return "Price level must be positive";
+  }
+  if (body.condition === "percent_change" && body.threshold === 0) {
+    return "Percent change cannot be zero";
+  }
+
+  if (body.period !== undefined) {
+    if (!Number.isInteger(body.period) || body.period < MIN_PERIOD || body.period > MAX_PERIOD) {
+      return `Period must be an integer between ${MIN_PERIOD} and ${MAX_PERIOD}`;
+    }
+  }
+  if (body.note !== undefined && (typeof body.note !== "string" || body.note.length > MAX_NOTE_LENGTH)) {
+    return `Note must be at most ${MAX_NOTE_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+function defaultPeriod(condition: AlertCondition): number | undefined {
+  if (condition.startsWith("rsi")) return 14;
+  if (condition.startsWith("ma_cross")) return 50;
+  return undefined;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+
+    const userId = await getUserIdFromAuth(req.headers.get("Authorization"), supabaseUrl, anonKey);
+    if (!userId) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const rateLimitResponse = rateLimitMiddleware(req, RATE_LIMITS.GENERAL, corsHeaders, userId);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    const body: Partial<CreateAlertRequest> = await req.json();
+    const validationError = validateRequest(body);
+    if (validationError) {
+      return jsonResponse({ error: validationError }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    // Enforce tier limit against all of the user's alerts (active or not)
+    const tier = await getUserTier(userId);
+    const { count, error: countError } = await supabaseAdmin
+      .from("price_alerts")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    if (countError) {
+      console.error("Error counting alerts:", countError.message);
+      return jsonResponse({ error: "Failed to create alert" }, 500);
+    }
+
+    const limit = getTierLimit(tier, "alerts");
+    if (!isWithinTierLimit(tier, "alerts", count ?? 0)) {
+      return jsonResponse(
+        {
+          error: limit === 0
+            ? "Price alerts require a Pro subscription"
+            : `Alert limit reached (${limit}). Delete an alert or upgrade your plan.`,
+          code: "tier_limit",
+          limit,
+        },
+        403
+      );
+    }
+
+    const condition = body.condition as AlertCondition;
+    const period = body.period ?? defaultPeriod(condition);
+
+    const { data: alert, error: insertError } = await supabaseAdmin
+      .from("price_alerts")
+      .insert({
+        user_id: userId,
+        symbol: body.symbol!.toUpperCase(),
+        condition,
+        threshold: condition.startsWith("ma_cross") ? 0 : body.threshold,
+        params: period ? { period } : {},
+        note: body.note?.trim() || null,
+        notify_email: body.notifyEmail === true,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Error inserting alert:", insertError.message);
+      return jsonResponse({ error: "Failed to create alert" }, 500);
+    }
+
+    console.log(`Price alert created - userId: ${userId}, tier: ${tier}, symbol: ${alert.symbol}, condition: ${condition}`);
+
+    return jsonResponse({ alert, usage: { count: (count ?? 0) + 1, limit } });
+  } catch (error) {
+    console.error("Price alerts error:", error);
+    return jsonResponse({ error: "An error occurred processing your request" }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { rateLimitMiddleware, RATE_LIMITS } from "../_shared/rateLimit.ts";
+import { createAiQuotaResponse, meterCompletionStream, recordAiTokens, reserveAiRequest } from "../_shared/aiUsage.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -74,6 +75,12 @@ serve(async (req) => {
       return rateLimitResponse;
     }
 
+    // Count this request against the plan's daily AI quota before calling the model
+    const quota = await reserveAiRequest(userId, "pulse-tutor");
+    if (!quota.allowed) {
+      return createAiQuotaResponse(quota, corsHeaders);
+    }
+
     const { messages } = await req.json();
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
 
@@ -98,6 +105,7 @@ serve(async (req) => {
           ...messages,
         ],
         stream: true,
+        stream_options: { include_usage: true },
       }),
     });
 
@@ -122,7 +130,8 @@ serve(async (req) => {
       );
     }
 
-    return new Response(response.body, {
+    const metered = meterCompletionStream(response.body!, (usage) => recordAiTokens(userId, "pulse-tutor", usage));
+    return new Response(metered, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
@@ -0,0 +1,328 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getUserTier,
+  getUserIdFromAuth,
+  hasPremiumAccess,
+  PREMIUM_FUNDAMENTAL_FIELDS,
+} from "../_shared/tierCheck.ts";
+import { rateLimitMiddleware, RATE_LIMITS } from "../_shared/rateLimit.ts";
+import { INDEX_UNIVERSES, type IndexUniverse } from "../_shared/universes.ts";
+import {
+  evaluateSymbol,
+  fetchMacroContext,
+  type FundamentalsRow,
+  type SnapshotTechnicals,
+} from "../_shared/verdictSnapshot.ts";
+
+/**
+ * Stock screener.
+ * Evaluates a universe (S&P 500, Nasdaq 100 or one of the caller's watchlists)
+ * against numeric range and categorical filters. Reads the latest verdict
+ * snapshot per symbol; watchlist symbols without a recent snapshot are scored
+ * live (capped) and cached as today's snapshot. Free-tier callers get premium
+ * fundamentals masked and cannot filter on them.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const UNIVERSES = ["sp500", "nasdaq100", "watchlist"] as const;
+type Universe = typeof UNIVERSES[number];
+
+// Mirrors SCREENER_FIELDS in src/utils/screener.ts
+const NUMERIC_FIELDS = [
+  "score", "confidence", "technicalScore", "fundamentalScore", "sentimentScore", "macroScore",
+  "price", "priceChange", "rsi", "priceVsMa50", "priceVsMa20", "volumeRatio",
+  "marketCap", "peRatio", "sectorPe", "peVsSector", "priceToBook", "priceToSales", "evToEbitda",
+  "epsGrowth", "revenueGrowth", "profitMargin", "operatingMargin", "grossMargin",
+  "debtToEquity", "currentRatio", "quickRatio", "interestCoverage", "freeCashFlowYield",
+  "roe", "roa", "roic", "dividendYield", "payoutRatio",
+  "analystRating", "priceToTargetUpside", "beta",
+] as const;
+const ENUM_FIELDS = ["signal", "sector", "macdSignal", "emaCrossover"] as const;
+
+type NumericField = typeof NUMERIC_FIELDS[number];
+type EnumField = typeof ENUM_FIELDS[number];
+
+// Fundamentals stored as fractions; the screener works in percent throughout
+const FRACTION_FIELDS = ["profitMargin", "operatingMargin", "grossMargin", "roe", "roa", "roic", "payoutRatio"] as const;
+const PASSTHROUGH_FIELDS = [
+  "marketCap", "peRatio", "sectorPe", "priceToBook", "priceToSales", "evToEbitda",
+  "epsGrowth", "revenueGrowth", "debtToEquity", "currentRatio", "quickRatio", "interestCoverage",
+  "freeCashFlowYield", "dividendYield", "analystRating", "priceToTargetUpside", "beta",
+] as const;
+
+const MAX_FILTERS = 20;
+const MAX_SNAPSHOT_AGE_DAYS = 7;
+const LIVE_EVALUATION_LIMIT = 15; // watchlist symbols scored on demand per request
+
+interface NumericFilter {
+  field: NumericField;
+  min?: number;
+  max?: number;
+}
+
+interface EnumFilter {
+  field: EnumField;
+  values: string[];
+}
+
+type ScreenFilter = NumericFilter | EnumFilter;
+
+interface ScreenRequest {
+  universe: Universe;
+  watchlistId?: string;
+  filters?: ScreenFilter[];
+}
+
+type ScreenerRow = {
+  symbol: string;
+  companyName: string | null;
+  industry: string | null;
+  snapshotDate: string;
+} & Record<NumericField, number | null> & Record<EnumField, string | null>;
+
+interface SnapshotRecord {
+  symbol: string;
+  snapshot_date: string;
+  score: number;
+  signal: string;
+  confidence: number;
+  price: number | null;
+  layer_scores: Record<string, number>;
+  technicals: SnapshotTechnicals;
+  fundamentals: FundamentalsRow | null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const isNumericField = (field: unknown): field is NumericField =>
+  NUMERIC_FIELDS.includes(field as NumericField);
+const isEnumField = (field: unknown): field is EnumField =>
+  ENUM_FIELDS.includes(field as EnumField);
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+function validateRequest(body: Partial<ScreenRequest>): string | null {
+  if (!UNIVERSES.includes(body.universe as Universe)) {
+    return "Invalid universe";
+  }
+  if (body.universe === "watchlist" && typeof body.watchlistId !== "string") {
+    return "A watchlist is required for the watchlist universe";
+  }
+
+  const filters = body.filters ?? [];
+  if (!Array.isArray(filters) || filters.length > MAX_FILTERS) {
+    return `At most ${MAX_FILTERS} filters are allowed`;
+  }
+
+  for (const filter of filters) {
+    if (isNumericField(filter?.field)) {
+      const { min, max } = filter as NumericFilter;
+      if ((min !== undefined && !isFiniteNumber(min)) || (max !== undefined && !isFiniteNumber(max))) {
+        return `Invalid range for ${filter.field}`;
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        return `Minimum is above maximum for ${filter.field}`;
+      }
+    } else if (isEnumField(filter?.field)) {
+      const { values } = filter as EnumFilter;
+      if (!Array.isArray(values) || values.some((v) => typeof v !== "string")) {
+        return `Invalid values for ${filter.field}`;
+      }
+    } else {
+      return "Unknown filter field";
+    }
+  }
+
+  return null;
+}
+
+const percentFrom = (price: number | undefined, average: number | undefined) =>
+  price && average ? ((price - average) / average) * 100 : null;
+
+function toScreenerRow(snapshot: SnapshotRecord): ScreenerRow {
+  const t = snapshot.technicals ?? {};
+  const f = snapshot.fundamentals ?? ({} as Partial<FundamentalsRow>);
+  const num = (value: unknown) => (isFiniteNumber(value) ? value : null);
+
+  const row = {
+    symbol: snapshot.symbol,
+    companyName: f.companyName ?? null,
+    industry: f.industry ?? null,
+    snapshotDate: snapshot.snapshot_date,
+    score: snapshot.score,
+    signal: snapshot.signal,
+    confidence: snapshot.confidence,
+    technicalScore: num(snapshot.layer_scores?.technical),
+    fundamentalScore: num(snapshot.layer_scores?.fundamental),
+    sentimentScore: num(snapshot.layer_scores?.sentiment),
+    macroScore: num(snapshot.layer_scores?.macro),
+    price: num(snapshot.price),
+    priceChange: num(t.priceChange),
+    rsi: num(t.rsi),
+    priceVsMa50: percentFrom(t.price, t.ma50),
+    priceVsMa20: percentFrom(t.price, t.ma20),
+    volumeRatio: num(t.volumeRatio),
+    macdSignal: t.macdSignal ?? null,
+    emaCrossover: t.emaCrossover ?? null,
+    sector: f.sector || null,
+    peVsSector: isFiniteNumber(f.peRatio) && isFiniteNumber(f.sectorPe) && f.sectorPe > 0
+      ? (f.peRatio / f.sectorPe - 1) * 100
+      : null,
+  } as ScreenerRow;
+
+  for (const field of PASSTHROUGH_FIELDS) row[field] = num(f[field]);
+  for (const field of FRACTION_FIELDS) {
+    const value = num(f[field]);
+    row[field] = value === null ? null : value * 100;
+  }
+
+  return row;
+}
+
+function matchesFilter(row: ScreenerRow, filter: ScreenFilter): boolean {
+  if (isEnumField(filter.field)) {
+    const { values } = filter as EnumFilter;
+    return values.length === 0 || values.includes(row[filter.field] as string);
+  }
+
+  const { min, max } = filter as NumericFilter;
+  const value = row[filter.field as NumericField];
+  // A row without the value cannot satisfy a range
+  if (value === null) return min === undefined && max === undefined;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
+    const authHeader = req.headers.get("Authorization");
+
+    const userId = await getUserIdFromAuth(authHeader, supabaseUrl, anonKey);
+    if (!userId) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const rateLimitResponse = rateLimitMiddleware(req, RATE_LIMITS.SEARCH, corsHeaders, userId);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    const body: Partial<ScreenRequest> = await req.json();
+    const validationError = validateRequest(body);
+    if (validationError) {
+      return jsonResponse({ error: validationError }, 400);
+    }
+
+    const filters = body.filters ?? [];
+    const tier = await getUserTier(userId);
+    const premium = hasPremiumAccess(tier);
+    const premiumFields = PREMIUM_FUNDAMENTAL_FIELDS as readonly string[];
+
+    const lockedFilters = filters.filter((f) => premiumFields.includes(f.field));
+    if (!premium && lockedFilters.length > 0) {
+      return jsonResponse(
+        {
+          error: "premium_required",
+          message: `Filtering on ${lockedFilters.map((f) => f.field).join(", ")} is a Pro feature.`,
+          requiredTier: "pro",
+        },
+        403
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    let symbols: string[];
+    if (body.universe === "watchlist") {
+      const { data: items, error: itemsError } = await supabaseAdmin
+        .from("watchlist")
+        .select("symbol")
+        .eq("watchlist_id", body.watchlistId)
+        .eq("user_id", userId);
+
+      if (itemsError) {
+        console.error("Error loading watchlist:", itemsError.message);
+        return jsonResponse({ error: "Failed to load watchlist" }, 500);
+      }
+      symbols = [...new Set((items || []).map((item) => item.symbol.toUpperCase()))];
+    } else {
+      symbols = INDEX_UNIVERSES[body.universe as IndexUniverse];
+    }
+
+    const { data: snapshotRows, error: snapshotsError } = await supabaseAdmin
+      .rpc("get_latest_verdict_snapshots", { _symbols: symbols, _max_age_days: MAX_SNAPSHOT_AGE_DAYS });
+
+    if (snapshotsError) {
+      console.error("Error loading snapshots:", snapshotsError.message);
+      return jsonResponse({ error: "Failed to load screener data" }, 500);
+    }
+
+    const snapshots = (snapshotRows || []) as SnapshotRecord[];
+
+    // Index universes are kept fresh by snapshot-verdicts; watchlists may hold symbols it hasn't reached yet
+    const covered = new Set(snapshots.map((s) => s.symbol));
+    const missing = symbols.filter((s) => !covered.has(s));
+    if (body.universe === "watchlist" && missing.length > 0) {
+      const macro = await fetchMacroContext();
+      for (const symbol of missing.slice(0, LIVE_EVALUATION_LIMIT)) {
+        const row = await evaluateSymbol(symbol, macro);
+        if (!row) continue;
+
+        const { error: upsertError } = await supabaseAdmin
+          .from("verdict_snapshots")
+          .upsert(row, { onConflict: "symbol,snapshot_date" });
+        if (upsertError) console.error(`Error caching snapshot for ${symbol}:`, upsertError.message);
+
+        snapshots.push(row as SnapshotRecord);
+        covered.add(symbol);
+      }
+    }
+
+    let rows = snapshots.map(toScreenerRow);
+    if (!premium) {
+      rows = rows.map((row) => {
+        const masked = { ...row };
+        for (const field of premiumFields) {
+          if (field in masked) (masked as Record<string, unknown>)[field] = null;
+        }
+        return masked;
+      });
+    }
+
+    const results = rows
+      .filter((row) => filters.every((filter) => matchesFilter(row, filter)))
+      .sort((a, b) => b.score - a.score);
+
+    console.log(`Screener run - userId: ${userId}, tier: ${tier}, universe: ${body.universe}, matches: ${results.length}/${rows.length}`);
+
+    return jsonResponse({
+      results,
+      universeSize: symbols.length,
+      evaluated: rows.length,
+      unavailable: symbols.filter((s) => !covered.has(s)),
+      premiumLocked: premium ? [] : premiumFields.filter((f) => (NUMERIC_FIELDS as readonly string[]).includes(f)),
+    });
+  } catch (error) {
+    console.error("Screener error:", error);
+    return jsonResponse({ error: "An error occurred processing your request" }, 500);
+  }
+});
@@ -0,0 +1,148 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { evaluateSymbol, fetchMacroContext } from "../_shared/verdictSnapshot.ts";
+import { NASDAQ_100, SP_500 } from "../_shared/universes.ts";
+import { fetchAllRows } from "../_shared/pagination.ts";
+
+/**
+ * Scheduled Master Verdict snapshotter.
+ * Invoked by a cron job with the service role key as bearer token. Scores every
+ * watchlisted symbol plus the S&P 500 and Nasdaq 100 with the default profile and
+ * upserts one row per symbol per day into verdict_snapshots, which feeds the score
+ * timeline on the Analysis page and the screener.
+ *
+ * Each run handles at most MAX_SYMBOLS_PER_RUN symbols that have no snapshot for
+ * today yet, watchlisted symbols first, so the cron can call it repeatedly until
+ * it reports nothing remaining. Symbols that fail MAX_ATTEMPTS times in a day
+ * (no price history, delisted tickers) are recorded in verdict_snapshot_failures
+ * and skipped until the next day.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_SYMBOLS_PER_RUN = 60; // ~2 upstream calls each; keeps a run inside the function time limit
+const MAX_ATTEMPTS = 3; // per symbol per day, so one bad ticker can't keep the cron busy
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only the scheduler (service role) may write snapshots
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const authHeader = req.headers.get("Authorization");
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    const watchlistRows = await fetchAllRows<{ symbol: string }>((from, to) =>
+      supabaseAdmin.from("watchlist").select("symbol").order("id").range(from, to)
+    );
+
+    const snapshotDate = new Date().toISOString().slice(0, 10);
+    const doneRows = await fetchAllRows<{ symbol: string }>((from, to) =>
+      supabaseAdmin
+        .from("verdict_snapshots")
+        .select("symbol")
+        .eq("snapshot_date", snapshotDate)
+        .order("symbol")
+        .range(from, to)
+    );
+
+    const failureRows = await fetchAllRows<{ symbol: string; attempts: number }>((from, to) =>
+      supabaseAdmin
+        .from("verdict_snapshot_failures")
+        .select("symbol, attempts")
+        .eq("snapshot_date", snapshotDate)
+        .order("symbol")
+        .range(from, to)
+    );
+
+    const done = new Set(doneRows.map((row) => row.symbol));
+    const attempts = new Map(failureRows.map((row) => [row.symbol, row.attempts]));
+    const pending = [...new Set([
+      ...watchlistRows.map((row) => row.symbol.toUpperCase()),
+      ...SP_500,
+      ...NASDAQ_100,
+    ])].filter((symbol) => !done.has(symbol) && (attempts.get(symbol) ?? 0) < MAX_ATTEMPTS);
+
+    if (pending.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, snapshots: 0, remaining: 0 }),
+        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    // Macro inputs are the same for every symbol
+    const macro = await fetchMacroContext();
+    const batch = pending.slice(0, MAX_SYMBOLS_PER_RUN);
+    let written = 0;
+    let exhausted = 0;
+    const failed: string[] = [];
+
+    // Count the attempt; once a symbol reaches MAX_ATTEMPTS it drops out of `pending`
+    const recordFailure = async (symbol: string, reason: string) => {
+      failed.push(symbol);
+      const count = (attempts.get(symbol) ?? 0) + 1;
+      if (count >= MAX_ATTEMPTS) exhausted++;
+
+      const { error } = await supabaseAdmin
+        .from("verdict_snapshot_failures")
+        .upsert(
+          { symbol, snapshot_date: snapshotDate, attempts: count, last_error: reason, updated_at: new Date().toISOString() },
+          { onConflict: "symbol,snapshot_date" }
+        );
+      if (error) console.error(`Error recording snapshot failure for ${symbol}:`, error.message);
+    };
+
+    for (const symbol of batch) {
+      const row = await evaluateSymbol(symbol, macro, snapshotDate);
+      if (!row) {
+        await recordFailure(symbol, "Not enough price history to score");
+        continue;
+      }
+
+      const { error: upsertError } = await supabaseAdmin
+        .from("verdict_snapshots")
+        .upsert(row, { onConflict: "symbol,snapshot_date" });
+
+      if (upsertError) {
+        console.error(`Error writing snapshot for ${symbol}:`, upsertError.message);
+        await recordFailure(symbol, upsertError.message);
+        continue;
+      }
+
+      written++;
+    }
+
+    // Failed symbols are retried on later runs until they run out of attempts
+    const remaining = pending.length - written - exhausted;
+    console.log(`Verdict snapshots written: ${written}/${batch.length}, remaining: ${remaining}${failed.length ? `, failed: ${failed.join(",")}` : ""}`);
+
+    return new Response(
+      JSON.stringify({ success: true, snapshots: written, remaining, failed }),
+      { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("Error in snapshot-verdicts:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,140 @@
+/**
+ * Citations for Stock Coach answers
+ * Every data block a tool returns gets a short ID (Q1, T2, N3...) that the
+ * model cites inline; the client shows the cited data point or article.
+ */
+
+export type CitationKind = "quote" | "technicals" | "fundamentals" | "verdict" | "economic" | "news" | "comparison";
+
+export interface Citation {
+  id: string;
+  kind: CitationKind;
+  label: string;
+  symbol?: string;
+  url?: string;
+  publishedAt?: string;
+  data: Record<string, unknown>;
+}
+
+const PREFIXES: Record<CitationKind, string> = {
+  quote: "Q",
+  technicals: "T",
+  fundamentals: "D",
+  verdict: "V",
+  economic: "E",
+  news: "N",
+  comparison: "C",
+};
+
+// Fields shown for technicals; levels and trendlines stay in the tool result only
+const TECHNICAL_FIELDS = ["trend", "rsi", "sma20", "sma50", "macd", "bollingerBands", "atr", "support", "resistance"];
+
+export type CitationCounters = Partial<Record<CitationKind, number>>;
+
+function nextId(kind: CitationKind, counters: CitationCounters): string {
+  counters[kind] = (counters[kind] ?? 0) + 1;
+  return `${PREFIXES[kind]}${counters[kind]}`;
+}
+
+function withoutEmpty(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null && value !== undefined));
+}
+
+/**
+ * Tag a tool result with citation IDs. Returns the result the model sees
+ * (with `citation` fields) and the citations the client receives.
+ * Failed lookups are not citable.
+ */
+export function citeToolResult(
+  name: string,
+  result: Record<string, unknown>,
+  counters: CitationCounters
+): { result: Record<string, unknown>; citations: Citation[] } {
+  if ("error" in result) return { result, citations: [] };
+  const symbol = typeof result.symbol === "string" ? result.symbol : undefined;
+
+  switch (name) {
+    case "get_quote": {
+      const { symbol: _symbol, ...quote } = result;
+      const id = nextId("quote", counters);
+      return { result: { ...result, citation: id }, citations: [{ id, kind: "quote", label: `${symbol} quote`, symbol, data: quote }] };
+    }
+    case "get_candles": {
+      const technicals = (result.technicals ?? {}) as Record<string, unknown>;
+      const id = nextId("technicals", counters);
+      const data = withoutEmpty({
+        period: `${result.from} → ${result.to}`,
+        periodChangePercent: result.periodChangePercent,
+        ...Object.fromEntries(TECHNICAL_FIELDS.map((field) => [field, technicals[field]])),
+      });
+      return {
+        result: { ...result, citation: id },
+        citations: [{ id, kind: "technicals", label: `${symbol} price history & technicals`, symbol, data }],
+      };
+    }
+    case "get_fundamentals": {
+      const { symbol: _symbol, _premiumLocked, lastUpdated: _lastUpdated, dataSource: _dataSource, ...fundamentals } = result;
+      const id = nextId("fundamentals", counters);
+      return {
+        result: { ...result, citation: id },
+        citations: [{ id, kind: "fundamentals", label: `${symbol} fundamentals`, symbol, data: withoutEmpty(fundamentals) }],
+      };
+    }
+    case "get_verdict": {
+      const id = nextId("verdict", counters);
+      const data = withoutEmpty({
+        score: result.score,
+        signal: result.signal,
+        confidence: result.confidence,
+        price: result.price,
+        ...(result.layerScores as Record<string, unknown> | undefined),
+      });
+      return { result: { ...result, citation: id }, citations: [{ id, kind: "verdict", label: `${symbol} Master Verdict`, symbol, data }] };
+    }
+    case "get_fred_series": {
+      const seriesId = String(result.seriesId);
+      const observations = (result.observations ?? []) as { date: string; value: number }[];
+      const id = nextId("economic", counters);
+      return {
+        result: { ...result, citation: id },
+        citations: [{
+          id,
+          kind: "economic",
+          label: `FRED ${seriesId}`,
+          url: `https://fred.stlouisfed.org/series/${encodeURIComponent(seriesId)}`,
+          data: Object.fromEntries(observations.slice(0, 6).map((o) => [o.date, o.value])),
+        }],
+      };
+    }
+    case "search_news": {
+      const citations: Citation[] = [];
+      const articles = ((result.articles ?? []) as Record<string, unknown>[]).map((article) => {
+        const id = nextId("news", counters);
+        citations.push({
+          id,
+          kind: "news",
+          label: String(article.title ?? "News article"),
+          url: typeof article.url === "string" ? article.url : undefined,
+          publishedAt: typeof article.publishedAt === "string" ? article.publishedAt : undefined,
+          data: withoutEmpty({ source: article.source, description: article.description }),
+        });
+        return { ...article, citation: id };
+      });
+      return { result: { ...result, articles }, citations };
+    }
+    case "compare_symbols": {
+      const rows = (result.symbols ?? []) as Record<string, unknown>[];
+      const id = nextId("comparison", counters);
+      const data = Object.fromEntries(rows.map((row) => [
+        String(row.symbol),
+        "error" in row ? "no data" : `${row.periodChangePercent}% over ${result.days}d, RSI ${row.rsi}, ${row.trend}`,
+      ]));
+      return {
+        result: { ...result, citation: id },
+        citations: [{ id, kind: "comparison", label: `Comparison of ${Object.keys(data).join(", ")}`, data }],
+      };
+    }
+    default:
+      return { result, citations: [] };
+  }
+}
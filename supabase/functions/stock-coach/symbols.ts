@@ -0,0 +1,245 @@
+/**
+ * Ticker extraction for the Stock Coach
+ * Turns a question into the symbols it is about: cashtags, known tickers,
+ * company names and aliases, and - for names we do not know - a market-data search.
+ * Every match says how it was found so the user can confirm or correct it.
+ */
+
+import { NASDAQ_100, SP_500 } from "../_shared/universes.ts";
+
+export interface SymbolCandidate {
+  symbol: string;
+  name?: string;
+}
+
+export interface SymbolResolution {
+  /** The text in the message that was resolved */
+  query: string;
+  symbol: string;
+  name?: string;
+  source: "cashtag" | "ticker" | "alias" | "search";
+  confidence: "high" | "medium" | "low";
+  /** Other plausible matches, best first */
+  alternatives: SymbolCandidate[];
+}
+
+export interface ResolveContext {
+  authHeader: string;
+}
+
+const MAX_RESOLUTIONS = 5;
+const MAX_SEARCHES = 2;
+
+// Popular symbols outside the index lists: broad ETFs, sector ETFs and widely traded names
+const POPULAR_SYMBOLS = [
+  "SPY", "VOO", "IVV", "VTI", "QQQ", "DIA", "IWM", "GLD", "SLV", "TLT", "HYG", "ARKK",
+  "XLK", "XLF", "XLE", "XLV", "XLI", "XLY", "XLP", "XLU", "SMH", "SOXX",
+  "TSM", "BABA", "NIO", "RIVN", "LCID", "SOFI", "HOOD", "GME", "AMC", "SNOW", "NET", "U", "RBLX", "SPOT",
+];
+
+const ALLOWLIST = new Set([...SP_500, ...NASDAQ_100, ...POPULAR_SYMBOLS]);
+
+// Real tickers that are also everyday words; they only resolve as cashtags ($ON)
+const WORD_TICKERS = new Set([
+  "A", "ALL", "AN", "ARE", "BE", "BIG", "C", "CAN", "D", "DAY", "F", "FAST", "HAS", "HD", "IT", "J", "K",
+  "KEY", "L", "LOW", "MA", "MO", "NOW", "O", "ON", "ONE", "PM", "SO", "T", "TECH", "U", "V", "WELL", "WM",
+]);
+
+// Capitalized words that are never company names; keeps them out of the search fallback
+const COMMON_WORDS = new Set([
+  "i", "a", "an", "the", "and", "or", "but", "is", "are", "was", "were", "be", "it", "its", "to", "in", "on",
+  "of", "for", "at", "by", "as", "if", "so", "up", "my", "me", "we", "you", "your", "do", "does", "did",
+  "what", "whats", "which", "who", "when", "where", "why", "how", "about", "should", "would", "could",
+  "can", "will", "now", "today", "tomorrow", "yesterday", "this", "that", "these", "those", "there",
+  "buy", "sell", "hold", "short", "long", "stock", "stocks", "share", "shares", "price", "market",
+  "analyze", "analysis", "compare", "versus", "vs", "tell", "give", "show", "explain", "please", "thanks",
+  "good", "bad", "best", "worst", "risk", "risks", "trend", "earnings", "news", "set", "stop", "loss",
+  "rsi", "macd", "ema", "sma", "atr", "pe", "eps", "ceo", "cfo", "ipo", "etf", "gdp", "cpi", "fed", "sec",
+  "nyse", "usd", "eur", "ai", "am", "pm", "ok", "hi", "hey", "also", "any", "some", "more", "most",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "january", "february", "march", "april",
+  "may", "june", "july", "august", "september", "october", "november", "december",
+]);
+
+// Company names and common nicknames; longest phrases are matched first
+const COMPANY_ALIASES: Record<string, string> = {
+  "apple": "AAPL",
+  "microsoft": "MSFT",
+  "google": "GOOGL",
+  "alphabet": "GOOGL",
+  "amazon": "AMZN",
+  "nvidia": "NVDA",
+  "tesla": "TSLA",
+  "meta": "META",
+  "facebook": "META",
+  "netflix": "NFLX",
+  "berkshire": "BRK.B",
+  "berkshire hathaway": "BRK.B",
+  "jpmorgan": "JPM",
+  "jp morgan": "JPM",
+  "visa": "V",
+  "mastercard": "MA",
+  "walmart": "WMT",
+  "costco": "COST",
+  "disney": "DIS",
+  "coca-cola": "KO",
+  "coca cola": "KO",
+  "coke": "KO",
+  "pepsi": "PEP",
+  "pepsico": "PEP",
+  "intel": "INTC",
+  "amd": "AMD",
+  "broadcom": "AVGO",
+  "oracle": "ORCL",
+  "salesforce": "CRM",
+  "adobe": "ADBE",
+  "palantir": "PLTR",
+  "coinbase": "COIN",
+  "boeing": "BA",
+  "exxon": "XOM",
+  "exxonmobil": "XOM",
+  "chevron": "CVX",
+  "johnson & johnson": "JNJ",
+  "pfizer": "PFE",
+  "eli lilly": "LLY",
+  "lilly": "LLY",
+  "nike": "NKE",
+  "starbucks": "SBUX",
+  "mcdonald's": "MCD",
+  "mcdonalds": "MCD",
+  "uber": "UBER",
+  "airbnb": "ABNB",
+  "paypal": "PYPL",
+  "shopify": "SHOP",
+  "spotify": "SPOT",
+  "home depot": "HD",
+  "goldman sachs": "GS",
+  "bank of america": "BAC",
+  "at&t": "T",
+  "verizon": "VZ",
+  "ford": "F",
+  "general motors": "GM",
+  "s&p 500": "SPY",
+  "s&p": "SPY",
+  "nasdaq": "QQQ",
+  "dow jones": "DIA",
+  "russell 2000": "IWM",
+};
+
+// Aliases that are also ordinary words; resolved, but flagged for confirmation
+const AMBIGUOUS_ALIASES = new Set(["apple", "meta", "visa", "ford", "coke", "lilly", "nasdaq", "s&p"]);
+
+const ALIAS_PATTERNS = Object.keys(COMPANY_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .map((alias) => ({
+    alias,
+    pattern: new RegExp(`(?<![\\w&])${alias.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w&])`, "i"),
+  }));
+
+const CASHTAG_PATTERN = /\$([A-Za-z]{1,5}(?:[./-][A-Za-z]{1,2})?)\b/g;
+// Upper-case tokens, including class shares written BRK.B, BRK-B or BRK/B
+const TICKER_PATTERN = /\b([A-Z]{1,5}(?:[./-][A-Z])?)\b/g;
+const SEARCHABLE_WORD_PATTERN = /\b([A-Z][a-zA-Z&'-]{2,}(?:\s+[A-Z][a-zA-Z&'-]+){0,2})\b/g;
+const FOREIGN_LISTING = /\.[A-Z]{2,}$/;
+
+// BRK/B, brk-b and BRK.B are all BRK.B
+export function normalizeSymbol(raw: string): string {
+  return raw.toUpperCase().replace(/[/-]/g, ".");
+}
+
+// "Compare Super Micro" searches for "Super Micro"
+function trimCommonWords(phrase: string): string {
+  const words = phrase.split(/\s+/);
+  while (words.length > 0 && COMMON_WORDS.has(words[0].toLowerCase())) words.shift();
+  while (words.length > 0 && COMMON_WORDS.has(words[words.length - 1].toLowerCase())) words.pop();
+  return words.join(" ");
+}
+
+async function searchSymbols(query: string, context: ResolveContext): Promise<SymbolCandidate[]> {
+  try {
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/market-data`, {
+      method: "POST",
+      headers: {
+        Authorization: context.authHeader,
+        apikey: Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ symbols: [query], type: "search" }),
+    });
+    if (!response.ok) return [];
+    const data = await response.json();
+    return ((data?.results ?? []) as { symbol: string; name?: string; type?: string }[])
+      .filter((r) => r.symbol && !FOREIGN_LISTING.test(r.symbol) && (!r.type || r.type === "Common Stock" || r.type === "ETP"))
+      .map((r) => ({ symbol: normalizeSymbol(r.symbol), name: r.name }));
+  } catch (error) {
+    console.error(`Symbol search failed for "${query}":`, error);
+    return [];
+  }
+}
+
+/**
+ * Find the symbols a message is about. Explicit cashtags win, then known
+ * tickers and company names, then a search for unfamiliar capitalized names.
+ */
+export async function resolveSymbols(message: string, context: ResolveContext): Promise<SymbolResolution[]> {
+  const resolutions: SymbolResolution[] = [];
+  const has = (symbol: string) => resolutions.some((r) => r.symbol === symbol);
+  const add = (resolution: SymbolResolution) => {
+    if (!has(resolution.symbol)) resolutions.push(resolution);
+  };
+
+  // A message in all caps makes every word look like a ticker
+  const letters = message.replace(/[^A-Za-z]/g, "");
+  const shouting = letters.length > 8 && letters === letters.toUpperCase();
+  let remaining = message;
+
+  for (const match of message.matchAll(CASHTAG_PATTERN)) {
+    add({ query: match[0], symbol: normalizeSymbol(match[1]), source: "cashtag", confidence: "high", alternatives: [] });
+    remaining = remaining.replace(match[0], " ");
+  }
+
+  for (const { alias, pattern } of ALIAS_PATTERNS) {
+    const match = remaining.match(pattern);
+    if (!match) continue;
+    add({
+      query: match[0],
+      symbol: COMPANY_ALIASES[alias],
+      source: "alias",
+      confidence: AMBIGUOUS_ALIASES.has(alias) && (shouting || match[0] === match[0].toLowerCase()) ? "medium" : "high",
+      alternatives: [],
+    });
+    remaining = remaining.replace(match[0], " ");
+  }
+
+  for (const match of remaining.matchAll(TICKER_PATTERN)) {
+    const symbol = normalizeSymbol(match[1]);
+    if (!ALLOWLIST.has(symbol) || WORD_TICKERS.has(symbol) || COMMON_WORDS.has(symbol.toLowerCase())) continue;
+    add({ query: match[1], symbol, source: "ticker", confidence: shouting ? "medium" : "high", alternatives: [] });
+    remaining = remaining.replace(match[1], " ");
+  }
+
+  // Names we do not know, e.g. "Rivian" or "Super Micro"
+  const searches = [...remaining.matchAll(SEARCHABLE_WORD_PATTERN)]
+    .map((m) => trimCommonWords(m[1]))
+    .filter((phrase) => phrase.length >= 3)
+    .slice(0, MAX_SEARCHES);
+
+  const searched = await Promise.all(searches.map((query) => searchSymbols(query, context)));
+  searches.forEach((query, i) => {
+    const [best, ...rest] = searched[i];
+    if (!best) return;
+    const exactSymbol = best.symbol === normalizeSymbol(query);
+    const nameMatches = best.name?.toLowerCase().startsWith(query.toLowerCase()) ?? false;
+    add({
+      query,
+      symbol: best.symbol,
+      name: best.name,
+      source: "search",
+      confidence: exactSymbol || (nameMatches && ALLOWLIST.has(best.symbol)) ? "high" : nameMatches ? "medium" : "low",
+      alternatives: rest.slice(0, 3),
+    });
+  });
+
+  // In the order the user wrote them
+  const position = (r: SymbolResolution) => message.indexOf(r.query);
+  return resolutions.sort((a, b) => position(a) - position(b)).slice(0, MAX_RESOLUTIONS);
+}
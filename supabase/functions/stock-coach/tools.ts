@@ -0,0 +1,641 @@
+/**
+ * Stock Coach tools
+ * What the model can look up while answering, and how each lookup runs.
+ * Results are compact JSON; the model turns them into prose.
+ */
+
+import { calculateATR, lastValue } from "../_shared/indicators.ts";
+import { detectSupportResistance, nearestLevels } from "../_shared/supportResistance.ts";
+import { evaluateSymbol, fetchMacroContext } from "../_shared/verdictSnapshot.ts";
+
+// Daily bars fetched per symbol by default - enough swings for level and trendline detection
+const HISTORY_DAYS = 90;
+const MAX_HISTORY_DAYS = 365;
+// Bars returned to the model; technicals still use the whole history
+const MAX_CANDLES_RETURNED = 30;
+
+const SYMBOL_REGEX = /^[A-Za-z0-9.-]{1,10}$/;
+const SERIES_ID_REGEX = /^[A-Z0-9_]{1,50}$/;
+
+export type ToolName =
+  | "get_quote"
+  | "get_candles"
+  | "get_fundamentals"
+  | "get_verdict"
+  | "get_fred_series"
+  | "search_news"
+  | "compare_symbols";
+
+export interface ToolContext {
+  /** The caller's Authorization header, so paywalled data stays masked for free users */
+  authHeader: string;
+}
+
+interface MarketData {
+  symbol: string;
+  quote?: {
+    price: number;
+    change: number;
+    changePercent: number;
+    high: number;
+    low: number;
+    open: number;
+    previousClose: number;
+  };
+  candles?: Array<{
+    date: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+  }>;
+  technicals?: {
+    sma20: number;
+    sma50: number;
+    rsi: number;
+    macd: { macd: number; signal: number; histogram: number };
+    bollingerBands: { upper: number; middle: number; lower: number };
+    atr: number;
+    trend: string;
+    support: number;
+    resistance: number;
+    levels: Array<{ price: number; kind: "support" | "resistance"; strength: number; touches: number; volumeNode: boolean }>;
+    trendlines: Array<{ kind: "support" | "resistance"; price: number; slopePerDay: number; touches: number; strength: number }>;
+  };
+}
+
+// Upstream response shapes, limited to the fields read here
+interface FmpHistoricalResponse {
+  historical?: Array<{ date: string; open: number; high: number; low: number; close: number; volume: number }>;
+}
+
+interface FredObservationsResponse {
+  observations?: Array<{ date: string; value: string }>; // "." marks a missing value
+  error_message?: string;
+}
+
+interface NewsApiResponse {
+  status?: string;
+  message?: string;
+  articles?: Array<{
+    title: string;
+    source?: { name?: string };
+    publishedAt: string;
+    url: string;
+    description?: string | null;
+  }>;
+}
+
+// Calculate technical indicators from candle data
+function calculateTechnicals(candles: MarketData["candles"]): MarketData["technicals"] | null {
+  if (!candles || candles.length < 20) return null;
+
+  const closes = candles.map(c => c.close);
+  
+  // SMA calculations
+  const sma20 = closes.slice(-20).reduce((a, b) => a + b, 0) / 20;
+  const sma50 = closes.length >= 50 
+    ? closes.slice(-50).reduce((a, b) => a + b, 0) / 50 
+    : closes.reduce((a, b) => a + b, 0) / closes.length;
+
+  // RSI calculation (14-period)
+  const rsiPeriod = 14;
+  let gains = 0, losses = 0;
+  for (let i = closes.length - rsiPeriod; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) gains += change;
+    else losses -= change;
+  }
+  const avgGain = gains / rsiPeriod;
+  const avgLoss = losses / rsiPeriod;
+  const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
+  const rsi = 100 - (100 / (1 + rs));
+
+  // MACD calculation (12, 26, 9)
+  const ema12 = calculateEMA(closes, 12);
+  const ema26 = calculateEMA(closes, 26);
+  const macdLine = ema12 - ema26;
+  const signal = calculateEMA([...Array(closes.length - 1).fill(0), macdLine], 9);
+  const histogram = macdLine - signal;
+
+  // Bollinger Bands (20-period, 2 std dev)
+  const stdDev = Math.sqrt(
+    closes.slice(-20).reduce((sum, val) => sum + Math.pow(val - sma20, 2), 0) / 20
+  );
+  const bollingerBands = {
+    upper: sma20 + 2 * stdDev,
+    middle: sma20,
+    lower: sma20 - 2 * stdDev,
+  };
+
+  // ATR (Average True Range, 14-period, Wilder's smoothing)
+  const atr = lastValue(calculateATR(candles, 14)) ?? 0;
+
+  // Support and Resistance: ranked levels from pivot clusters and volume nodes,
+  // falling back to the recent range when no level sits on that side of price
+  const { levels, trendlines } = detectSupportResistance(candles);
+  const nearest = nearestLevels(levels);
+  const support = nearest.support?.price ?? Math.min(...candles.slice(-10).map(c => c.low));
+  const resistance = nearest.resistance?.price ?? Math.max(...candles.slice(-10).map(c => c.high));
+
+  // Trend determination
+  const currentPrice = closes[closes.length - 1];
+  let trend = "Neutral";
+  if (currentPrice > sma20 && sma20 > sma50) trend = "Strong Uptrend";
+  else if (currentPrice > sma20) trend = "Uptrend";
+  else if (currentPrice < sma20 && sma20 < sma50) trend = "Strong Downtrend";
+  else if (currentPrice < sma20) trend = "Downtrend";
+
+  return {
+    sma20: parseFloat(sma20.toFixed(2)),
+    sma50: parseFloat(sma50.toFixed(2)),
+    rsi: parseFloat(rsi.toFixed(2)),
+    macd: {
+      macd: parseFloat(macdLine.toFixed(4)),
+      signal: parseFloat(signal.toFixed(4)),
+      histogram: parseFloat(histogram.toFixed(4)),
+    },
+    bollingerBands: {
+      upper: parseFloat(bollingerBands.upper.toFixed(2)),
+      middle: parseFloat(bollingerBands.middle.toFixed(2)),
+      lower: parseFloat(bollingerBands.lower.toFixed(2)),
+    },
+    atr: parseFloat(atr.toFixed(2)),
+    trend,
+    support: parseFloat(support.toFixed(2)),
+    resistance: parseFloat(resistance.toFixed(2)),
+    levels: levels.map(l => ({
+      price: parseFloat(l.price.toFixed(2)),
+      kind: l.kind,
+      strength: l.strength,
+      touches: l.touches,
+      volumeNode: l.volumeNode,
+    })),
+    trendlines: trendlines.map(t => ({
+      kind: t.kind,
+      price: parseFloat(t.endPrice.toFixed(2)),
+      slopePerDay: parseFloat(t.slope.toFixed(3)),
+      touches: t.touches,
+      strength: t.strength,
+    })),
+  };
+}
+
+function calculateEMA(data: number[], period: number): number {
+  const multiplier = 2 / (period + 1);
+  let ema = data.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  for (let i = period; i < data.length; i++) {
+    ema = (data[i] - ema) * multiplier + ema;
+  }
+  return ema;
+}
+
+type Quote = NonNullable<MarketData["quote"]>;
+type Candles = NonNullable<MarketData["candles"]>;
+
+// Real-time quote from Financial Modeling Prep, falling back to Finnhub
+async function fetchQuote(symbol: string): Promise<Quote | null> {
+  const FMP_API_KEY = Deno.env.get("FMP_API_KEY");
+  // Support both secret names for backward compatibility
+  const FINNHUB_API_KEY = Deno.env.get("FINNHUB_API_KEY") || Deno.env.get("FINHUB_API_KEY");
+  const encodedSymbol = encodeURIComponent(symbol);
+
+  if (FMP_API_KEY) {
+    try {
+      const fmpQuoteRes = await fetch(
+        `https://financialmodelingprep.com/api/v3/quote/${encodedSymbol}?apikey=${FMP_API_KEY}`
+      );
+      const fmpQuoteData = await fmpQuoteRes.json();
+
+      if (Array.isArray(fmpQuoteData) && fmpQuoteData.length > 0) {
+        const q = fmpQuoteData[0];
+        return {
+          price: q.price || 0,
+          change: q.change || 0,
+          changePercent: q.changesPercentage || 0,
+          high: q.dayHigh || 0,
+          low: q.dayLow || 0,
+          open: q.open || 0,
+          previousClose: q.previousClose || 0,
+        };
+      }
+    } catch (fmpError) {
+      console.error(`FMP quote error for ${symbol}:`, fmpError);
+    }
+  }
+
+  if (FINNHUB_API_KEY) {
+    try {
+      const quoteRes = await fetch(
+        `https://finnhub.io/api/v1/quote?symbol=${encodedSymbol}&token=${FINNHUB_API_KEY}`
+      );
+      const quoteData = await quoteRes.json();
+
+      if (quoteData.c && quoteData.c > 0) {
+        return {
+          price: quoteData.c,
+          change: quoteData.d || 0,
+          changePercent: quoteData.dp || 0,
+          high: quoteData.h || 0,
+          low: quoteData.l || 0,
+          open: quoteData.o || 0,
+          previousClose: quoteData.pc || 0,
+        };
+      }
+    } catch (finnhubError) {
+      console.error(`Finnhub quote error for ${symbol}:`, finnhubError);
+    }
+  }
+
+  return null;
+}
+
+// Daily bars, oldest first, from FMP with Alpha Vantage as fallback
+async function fetchCandles(symbol: string, days: number): Promise<Candles> {
+  const FMP_API_KEY = Deno.env.get("FMP_API_KEY");
+  const ALPHA_VANTAGE_KEY = Deno.env.get("ALPHA_VANTAGE_API_KEY");
+  const encodedSymbol = encodeURIComponent(symbol);
+
+  if (FMP_API_KEY) {
+    try {
+      const fmpHistRes = await fetch(
+        `https://financialmodelingprep.com/api/v3/historical-price-full/${encodedSymbol}?timeseries=${days}&apikey=${FMP_API_KEY}`
+      );
+      const fmpHistData: FmpHistoricalResponse = await fmpHistRes.json();
+
+      if (fmpHistData.historical && fmpHistData.historical.length > 0) {
+        return fmpHistData.historical.slice(0, days).reverse().map((d) => ({
+          date: d.date,
+          open: d.open,
+          high: d.high,
+          low: d.low,
+          close: d.close,
+          volume: d.volume,
+        }));
+      }
+    } catch (fmpHistError) {
+      console.error(`FMP historical error for ${symbol}:`, fmpHistError);
+    }
+  }
+
+  if (ALPHA_VANTAGE_KEY) {
+    try {
+      const avRes = await fetch(
+        `https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=${encodedSymbol}&outputsize=${days > 100 ? "full" : "compact"}&apikey=${ALPHA_VANTAGE_KEY}`
+      );
+      const avData = await avRes.json();
+      const timeSeries = avData["Time Series (Daily)"];
+
+      if (timeSeries) {
+        return Object.keys(timeSeries).sort().slice(-days).map((dateStr) => {
+          const d = timeSeries[dateStr];
+          return {
+            date: dateStr,
+            open: parseFloat(d["1. open"]),
+            high: parseFloat(d["2. high"]),
+            low: parseFloat(d["3. low"]),
+            close: parseFloat(d["4. close"]),
+            volume: parseInt(d["5. volume"]),
+          };
+        });
+      }
+    } catch (avError) {
+      console.error(`Alpha Vantage historical error for ${symbol}:`, avError);
+    }
+  }
+
+  return [];
+}
+
+// Another edge function, called as the user so tier limits apply
+async function invokeAsUser(name: string, body: Record<string, unknown>, context: ToolContext) {
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      Authorization: context.authHeader,
+      apikey: Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data?.error || `${name} failed with status ${response.status}`);
+  return data;
+}
+
+function toSymbol(value: unknown): string {
+  if (typeof value !== "string" || !SYMBOL_REGEX.test(value)) {
+    throw new Error(`Invalid symbol: ${String(value)}`);
+  }
+  return value.toUpperCase();
+}
+
+function toDays(value: unknown, fallback: number): number {
+  const days = typeof value === "number" && Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.min(Math.max(days, 20), MAX_HISTORY_DAYS);
+}
+
+function round(value: number, digits: number = 2): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+async function getQuote(args: Record<string, unknown>) {
+  const symbol = toSymbol(args.symbol);
+  const quote = await fetchQuote(symbol);
+  if (!quote) return { symbol, error: "No quote available" };
+  return { symbol, ...quote };
+}
+
+async function getCandles(args: Record<string, unknown>) {
+  const symbol = toSymbol(args.symbol);
+  const candles = await fetchCandles(symbol, toDays(args.days, HISTORY_DAYS));
+  if (candles.length === 0) return { symbol, error: "No price history available" };
+
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  return {
+    symbol,
+    from: first.date,
+    to: last.date,
+    periodChangePercent: round(((last.close - first.close) / first.close) * 100),
+    technicals: calculateTechnicals(candles),
+    recentCandles: candles.slice(-MAX_CANDLES_RETURNED),
+  };
+}
+
+async function getFundamentals(args: Record<string, unknown>, context: ToolContext) {
+  const symbol = toSymbol(args.symbol);
+  const data = await invokeAsUser("fundamentals", { symbol }, context);
+  return { symbol, ...(data?.fundamentals ?? { error: "No fundamentals available" }) };
+}
+
+// The daily verdict snapshot scoring, with the default profile
+async function getVerdict(args: Record<string, unknown>) {
+  const symbol = toSymbol(args.symbol);
+  const row = await evaluateSymbol(symbol, await fetchMacroContext());
+  if (!row) return { symbol, error: "Not enough price history to score" };
+  return {
+    symbol,
+    score: row.score,
+    signal: row.signal,
+    confidence: row.confidence,
+    price: row.price,
+    layerScores: row.layer_scores,
+    topSignals: row.top_metrics,
+  };
+}
+
+async function getFredSeries(args: Record<string, unknown>) {
+  const FRED_API_KEY = Deno.env.get("FRED_API_KEY");
+  if (!FRED_API_KEY) return { error: "Economic data is not configured" };
+
+  const seriesId = String(args.series_id ?? "").toUpperCase();
+  if (!SERIES_ID_REGEX.test(seriesId)) throw new Error(`Invalid series ID: ${seriesId}`);
+  const limit = Math.min(Math.max(Number(args.limit) || 12, 1), 60);
+
+  const res = await fetch(
+    `https://api.stlouisfed.org/fred/series/observations?series_id=${seriesId}&api_key=${FRED_API_KEY}&file_type=json&sort_order=desc&limit=${limit}`
+  );
+  const data: FredObservationsResponse = await res.json();
+  if (!data.observations) return { seriesId, error: data.error_message || "Series not found" };
+
+  return {
+    seriesId,
+    observations: data.observations
+      .filter((o) => o.value !== ".")
+      .map((o) => ({ date: o.date, value: parseFloat(o.value) })),
+  };
+}
+
+async function searchNews(args: Record<string, unknown>) {
+  const NEWSAPI_KEY = Deno.env.get("NEWSAPI_KEY");
+  if (!NEWSAPI_KEY) return { error: "News is not configured" };
+
+  const query = String(args.query ?? "").trim().slice(0, 100);
+  if (!query) throw new Error("Empty news query");
+  const limit = Math.min(Math.max(Number(args.limit) || 5, 1), 10);
+
+  const url = `https://newsapi.org/v2/everything?q=${encodeURIComponent(query)}&sortBy=publishedAt&pageSize=${limit}&language=en&apiKey=${NEWSAPI_KEY}`;
+  const res = await fetch(url);
+  const data: NewsApiResponse = await res.json();
+  if (data.status !== "ok" || !data.articles) return { query, error: data.message || "News search failed" };
+
+  return {
+    query,
+    articles: data.articles.slice(0, limit).map((a) => ({
+      title: a.title,
+      source: a.source?.name,
+      publishedAt: a.publishedAt,
+      url: a.url,
+      description: a.description?.substring(0, 200),
+    })),
+  };
+}
+
+// Daily returns of two aligned series, by date
+function returnCorrelation(a: Candles, b: Candles): number | null {
+  const closesB = new Map(b.map((c) => [c.date, c.close]));
+  const pairs: [number, number][] = [];
+  for (let i = 1; i < a.length; i++) {
+    const prevB = closesB.get(a[i - 1].date);
+    const currB = closesB.get(a[i].date);
+    if (prevB === undefined || currB === undefined) continue;
+    pairs.push([a[i].close / a[i - 1].close - 1, currB / prevB - 1]);
+  }
+  if (pairs.length < 10) return null;
+
+  const meanA = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanB = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+  let cov = 0, varA = 0, varB = 0;
+  for (const [x, y] of pairs) {
+    cov += (x - meanA) * (y - meanB);
+    varA += (x - meanA) ** 2;
+    varB += (y - meanB) ** 2;
+  }
+  return varA && varB ? round(cov / Math.sqrt(varA * varB)) : null;
+}
+
+async function compareSymbols(args: Record<string, unknown>) {
+  const raw = Array.isArray(args.symbols) ? args.symbols : [];
+  const symbols = [...new Set(raw.map(toSymbol))].slice(0, 5);
+  if (symbols.length < 2) throw new Error("Compare needs at least two symbols");
+  const days = toDays(args.days, HISTORY_DAYS);
+
+  const histories = await Promise.all(symbols.map((symbol) => fetchCandles(symbol, days)));
+  const base = histories[0];
+
+  return {
+    days,
+    symbols: symbols.map((symbol, i) => {
+      const candles = histories[i];
+      if (candles.length === 0) return { symbol, error: "No price history available" };
+      const first = candles[0];
+      const last = candles[candles.length - 1];
+      const technicals = calculateTechnicals(candles);
+      return {
+        symbol,
+        price: last.close,
+        periodChangePercent: round(((last.close - first.close) / first.close) * 100),
+        trend: technicals?.trend,
+        rsi: technicals?.rsi,
+        atrPercent: technicals ? round((technicals.atr / last.close) * 100) : undefined,
+        correlationToFirst: i === 0 ? 1 : returnCorrelation(base, candles),
+      };
+    }),
+  };
+}
+
+const symbolParam = { type: "string", description: "Ticker symbol, e.g. AAPL" };
+
+// OpenAI-style function definitions sent with every request
+export const COACH_TOOLS = [
+  {
+    type: "function",
+    function: {
+      name: "get_quote",
+      description: "Real-time quote: price, change, day range, open and previous close.",
+      parameters: { type: "object", properties: { symbol: symbolParam }, required: ["symbol"] },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_candles",
+      description:
+        "Daily price history with technicals computed from it: SMA 20/50, RSI, MACD, Bollinger Bands, ATR, trend, ranked support/resistance levels and trendlines. Returns the most recent 30 bars.",
+      parameters: {
+        type: "object",
+        properties: {
+          symbol: symbolParam,
+          days: { type: "number", description: `Trading days of history, 20-${MAX_HISTORY_DAYS} (default ${HISTORY_DAYS})` },
+        },
+        required: ["symbol"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_fundamentals",
+      description:
+        "Company fundamentals: valuation (P/E vs sector), growth, margins, debt, free cash flow, analyst rating and price target. Premium fields may be locked for the user's plan.",
+      parameters: { type: "object", properties: { symbol: symbolParam }, required: ["symbol"] },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_verdict",
+      description:
+        "The app's Master Verdict for a symbol: 0-100 score, signal, confidence, per-layer scores (technical, fundamental, sentiment, macro) and the strongest contributing signals.",
+      parameters: { type: "object", properties: { symbol: symbolParam }, required: ["symbol"] },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_fred_series",
+      description:
+        "Recent observations of a FRED economic series, newest first. Common IDs: FEDFUNDS, DGS10, DGS2, T10Y2Y, VIXCLS, UNRATE, CPIAUCSL, PCEPI, PAYEMS, ICSA, GDPC1.",
+      parameters: {
+        type: "object",
+        properties: {
+          series_id: { type: "string", description: "FRED series ID" },
+          limit: { type: "number", description: "Observations to return, 1-60 (default 12)" },
+        },
+        required: ["series_id"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "search_news",
+      description: "Latest English news articles matching a query, such as a ticker, company or topic.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Search terms" },
+          limit: { type: "number", description: "Articles to return, 1-10 (default 5)" },
+        },
+        required: ["query"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "compare_symbols",
+      description:
+        "Compare 2-5 symbols over the same period: return, trend, RSI, ATR as % of price and correlation of daily returns to the first symbol.",
+      parameters: {
+        type: "object",
+        properties: {
+          symbols: { type: "array", items: { type: "string" }, description: "Ticker symbols; the first is the reference" },
+          days: { type: "number", description: `Trading days to compare, 20-${MAX_HISTORY_DAYS} (default ${HISTORY_DAYS})` },
+        },
+        required: ["symbols"],
+      },
+    },
+  },
+];
+
+/**
+ * What the chat shows while a tool runs, e.g. "Looking up AAPL quote"
+ */
+export function describeToolCall(name: string, args: Record<string, unknown>): string {
+  const symbol = typeof args.symbol === "string" ? args.symbol.toUpperCase() : "";
+  switch (name as ToolName) {
+    case "get_quote":
+      return `Looking up ${symbol} quote`;
+    case "get_candles":
+      return `Looking up ${symbol} price history`;
+    case "get_fundamentals":
+      return `Looking up ${symbol} fundamentals`;
+    case "get_verdict":
+      return `Scoring ${symbol} verdict`;
+    case "get_fred_series":
+      return `Looking up ${String(args.series_id ?? "").toUpperCase()} economic data`;
+    case "search_news":
+      return `Searching news for "${String(args.query ?? "")}"`;
+    case "compare_symbols":
+      return `Comparing ${Array.isArray(args.symbols) ? args.symbols.join(", ").toUpperCase() : "symbols"}`;
+    default:
+      return `Running ${name}`;
+  }
+}
+
+/**
+ * Run one tool call. Failures come back as { error } so the model can
+ * explain what it could not look up instead of the whole answer failing.
+ */
+export async function executeTool(
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<Record<string, unknown>> {
+  try {
+    switch (name as ToolName) {
+      case "get_quote":
+        return await getQuote(args);
+      case "get_candles":
+        return await getCandles(args);
+      case "get_fundamentals":
+        return await getFundamentals(args, context);
+      case "get_verdict":
+        return await getVerdict(args);
+      case "get_fred_series":
+        return await getFredSeries(args);
+      case "search_news":
+        return await searchNews(args);
+      case "compare_symbols":
+        return await compareSymbols(args);
+      default:
+        return { error: `Unknown tool: ${name}` };
+    }
+  } catch (error) {
+    console.error(`Stock Coach tool ${name} failed:`, error);
+    return { error: error instanceof Error ? error.message : "Lookup failed" };
+  }
+}
@@ -0,0 +1,82 @@
+-- Create price_alerts table backing TIER_LIMITS.alerts
+CREATE TABLE public.price_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  symbol TEXT NOT NULL,
+  condition TEXT NOT NULL CHECK (condition IN (
+    'price_above', 'price_below', 'percent_change',
+    'rsi_above', 'rsi_below', 'ma_cross_above', 'ma_cross_below'
+  )),
+  threshold NUMERIC NOT NULL DEFAULT 0,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  note TEXT,
+  notify_email BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_value NUMERIC,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  triggered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.price_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own alerts"
+ON public.price_alerts FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Inserts go through the price-alerts edge function so tier limits are enforced server-side
+CREATE POLICY "Only service role can create alerts"
+ON public.price_alerts FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Users can update their own alerts"
+ON public.price_alerts FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own alerts"
+ON public.price_alerts FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Optimize evaluator scans and per-user listings
+CREATE INDEX idx_price_alerts_active_symbol ON public.price_alerts (is_active, symbol);
+CREATE INDEX idx_price_alerts_user_created ON public.price_alerts (user_id, created_at DESC);
+
+CREATE TRIGGER update_price_alerts_updated_at
+BEFORE UPDATE ON public.price_alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create notifications table for in-app notifications
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('price_alert', 'system')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Notifications are written by edge functions using service_role
+CREATE POLICY "Only service role can create notifications"
+ON public.notifications FOR INSERT
+WITH CHECK (false);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_notifications_user_created ON public.notifications (user_id, created_at DESC);
@@ -0,0 +1,156 @@
+-- Create watchlists table so each user can keep several named lists
+CREATE TABLE public.watchlists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+ALTER TABLE public.watchlists ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_watchlists_user_position ON public.watchlists (user_id, position);
+
+CREATE TRIGGER update_watchlists_updated_at
+BEFORE UPDATE ON public.watchlists
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Give every existing user a default list and attach their current items to it
+INSERT INTO public.watchlists (user_id, name)
+SELECT id, 'My Watchlist' FROM auth.users
+ON CONFLICT (user_id, name) DO NOTHING;
+
+ALTER TABLE public.watchlist
+  ADD COLUMN watchlist_id UUID REFERENCES public.watchlists(id) ON DELETE CASCADE,
+  ADD COLUMN position INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN notes TEXT CHECK (char_length(notes) <= 500),
+  ADD COLUMN target_price NUMERIC CHECK (target_price > 0),
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.watchlist w
+SET watchlist_id = l.id
+FROM public.watchlists l
+WHERE l.user_id = w.user_id AND l.name = 'My Watchlist';
+
+-- Preserve the previous newest-first ordering
+UPDATE public.watchlist w
+SET position = ranked.rn
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY watchlist_id ORDER BY created_at DESC) - 1 AS rn
+  FROM public.watchlist
+) ranked
+WHERE ranked.id = w.id;
+
+ALTER TABLE public.watchlist ALTER COLUMN watchlist_id SET NOT NULL;
+
+-- A symbol may now appear in several lists, but only once per list
+ALTER TABLE public.watchlist DROP CONSTRAINT IF EXISTS watchlist_user_id_symbol_key;
+ALTER TABLE public.watchlist ADD CONSTRAINT watchlist_watchlist_id_symbol_key UNIQUE (watchlist_id, symbol);
+
+CREATE INDEX idx_watchlist_list_position ON public.watchlist (watchlist_id, position);
+
+CREATE TRIGGER update_watchlist_updated_at
+BEFORE UPDATE ON public.watchlist
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tier limits mirror TIER_LIMITS.watchlists / TIER_LIMITS.watchlistItems (-1 = unlimited)
+CREATE OR REPLACE FUNCTION public.get_watchlist_limit(_user_id uuid, _feature text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE COALESCE((SELECT tier FROM public.user_subscriptions WHERE user_id = _user_id), 'free')
+    WHEN 'elite' THEN -1
+    WHEN 'pro' THEN CASE _feature WHEN 'watchlists' THEN 5 ELSE 50 END
+    ELSE CASE _feature WHEN 'watchlists' THEN 1 ELSE 10 END
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_create_watchlist(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() = _user_id AND (
+    public.get_watchlist_limit(_user_id, 'watchlists') = -1
+    OR (SELECT count(*) FROM public.watchlists WHERE user_id = _user_id)
+       < public.get_watchlist_limit(_user_id, 'watchlists')
+  )
+$$;
+
+-- _item_id is excluded from the count so reordering inside a full list is still allowed
+CREATE OR REPLACE FUNCTION public.can_place_watchlist_item(_watchlist_id uuid, _item_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.watchlists l
+    WHERE l.id = _watchlist_id
+      AND l.user_id = auth.uid()
+      AND (
+        public.get_watchlist_limit(l.user_id, 'watchlistItems') = -1
+        OR (SELECT count(*) FROM public.watchlist i WHERE i.watchlist_id = l.id AND i.id <> _item_id)
+           < public.get_watchlist_limit(l.user_id, 'watchlistItems')
+      )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_watchlist_limit(uuid, text) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.can_create_watchlist(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.can_place_watchlist_item(uuid, uuid) FROM anon;
+
+-- Watchlists policies
+CREATE POLICY "Users can view their own watchlists"
+  ON public.watchlists FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create watchlists within their tier limit"
+  ON public.watchlists FOR INSERT
+  WITH CHECK (public.can_create_watchlist(user_id));
+
+CREATE POLICY "Users can update their own watchlists"
+  ON public.watchlists FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own watchlists"
+  ON public.watchlists FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Watchlist items: inserts and moves must land in a list the user owns that still has room
+DROP POLICY IF EXISTS "Users can add to their own watchlist" ON public.watchlist;
+
+CREATE POLICY "Users can add to their own watchlist within their tier limit"
+  ON public.watchlist FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_place_watchlist_item(watchlist_id, id));
+
+CREATE POLICY "Users can update their own watchlist"
+  ON public.watchlist FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND public.can_place_watchlist_item(watchlist_id, id));
+
+-- Create a default list for new users
+CREATE OR REPLACE FUNCTION public.handle_new_user_watchlist()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.watchlists (user_id, name)
+  VALUES (NEW.id, 'My Watchlist');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_watchlist
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user_watchlist();
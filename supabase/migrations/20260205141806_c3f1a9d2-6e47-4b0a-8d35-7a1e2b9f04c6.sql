@@ -0,0 +1,92 @@
+-- Create portfolios table
+CREATE TABLE public.portfolios (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  cost_basis_method TEXT NOT NULL DEFAULT 'fifo' CHECK (cost_basis_method IN ('fifo', 'average')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+ALTER TABLE public.portfolios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own portfolios"
+  ON public.portfolios FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own portfolios"
+  ON public.portfolios FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own portfolios"
+  ON public.portfolios FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own portfolios"
+  ON public.portfolios FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_portfolios_updated_at
+BEFORE UPDATE ON public.portfolios
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create transactions ledger
+-- buy/sell: symbol, quantity, price, fees
+-- dividend: symbol, amount (cash received)
+-- split: symbol, split_ratio (new shares per old share, e.g. 4 for 4:1, 0.1 for 1:10)
+-- deposit/withdrawal: amount
+CREATE TABLE public.transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  portfolio_id UUID NOT NULL REFERENCES public.portfolios(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('buy', 'sell', 'dividend', 'split', 'deposit', 'withdrawal')),
+  symbol TEXT,
+  quantity NUMERIC CHECK (quantity > 0),
+  price NUMERIC CHECK (price >= 0),
+  amount NUMERIC CHECK (amount > 0),
+  fees NUMERIC NOT NULL DEFAULT 0 CHECK (fees >= 0),
+  split_ratio NUMERIC CHECK (split_ratio > 0),
+  notes TEXT CHECK (char_length(notes) <= 500),
+  executed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT transactions_fields_match_type CHECK (
+    CASE type
+      WHEN 'buy' THEN symbol IS NOT NULL AND quantity IS NOT NULL AND price IS NOT NULL
+      WHEN 'sell' THEN symbol IS NOT NULL AND quantity IS NOT NULL AND price IS NOT NULL
+      WHEN 'dividend' THEN symbol IS NOT NULL AND amount IS NOT NULL
+      WHEN 'split' THEN symbol IS NOT NULL AND split_ratio IS NOT NULL
+      ELSE amount IS NOT NULL
+    END
+  )
+);
+
+ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transactions"
+  ON public.transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add transactions to their own portfolios"
+  ON public.transactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.portfolios p WHERE p.id = portfolio_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own transactions"
+  ON public.transactions FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.portfolios p WHERE p.id = portfolio_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own transactions"
+  ON public.transactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Ledger is always replayed in execution order per portfolio
+CREATE INDEX idx_transactions_portfolio_executed ON public.transactions (portfolio_id, executed_at);
@@ -0,0 +1,55 @@
+-- Saved verdict strategy profiles (layer weights, metric weights, thresholds)
+-- config is validated client-side with zod; the database only checks its shape
+CREATE TABLE public.verdict_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  config JSONB NOT NULL CHECK (jsonb_typeof(config) = 'object'),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+-- At most one active profile per user; none active means the built-in Balanced profile
+CREATE UNIQUE INDEX verdict_profiles_one_active_per_user
+  ON public.verdict_profiles (user_id)
+  WHERE is_active;
+
+ALTER TABLE public.verdict_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own verdict profiles"
+  ON public.verdict_profiles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own verdict profiles"
+  ON public.verdict_profiles FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own verdict profiles"
+  ON public.verdict_profiles FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own verdict profiles"
+  ON public.verdict_profiles FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_verdict_profiles_updated_at
+BEFORE UPDATE ON public.verdict_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Switch the active profile in one statement so the partial unique index never sees two
+-- Pass NULL to fall back to the built-in default
+CREATE OR REPLACE FUNCTION public.set_active_verdict_profile(_profile_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.verdict_profiles
+  SET is_active = (id = _profile_id)
+  WHERE user_id = auth.uid()
+    AND (is_active OR id = _profile_id);
+$$;
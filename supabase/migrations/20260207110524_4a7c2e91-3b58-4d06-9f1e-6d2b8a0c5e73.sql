@@ -0,0 +1,28 @@
+-- Daily Master Verdict snapshots for every watchlisted symbol
+-- Written by the snapshot-verdicts scheduled function (service role) with the default profile
+CREATE TABLE public.verdict_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  symbol TEXT NOT NULL,
+  snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  score INTEGER NOT NULL CHECK (score BETWEEN 0 AND 100),
+  signal TEXT NOT NULL CHECK (signal IN ('extreme_bearish', 'bearish', 'neutral', 'bullish', 'extreme_bullish')),
+  confidence INTEGER NOT NULL CHECK (confidence BETWEEN 0 AND 100),
+  price NUMERIC,
+  layer_scores JSONB NOT NULL CHECK (jsonb_typeof(layer_scores) = 'object'),
+  top_metrics JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(top_metrics) = 'array'),
+  metrics JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(metrics) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(symbol, snapshot_date)
+);
+
+CREATE INDEX idx_verdict_snapshots_symbol_date
+  ON public.verdict_snapshots (symbol, snapshot_date DESC);
+
+ALTER TABLE public.verdict_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots are market data, not user data: any signed-in user can read them.
+-- There are no write policies; only the service role inserts.
+CREATE POLICY "Authenticated users can view verdict snapshots"
+  ON public.verdict_snapshots FOR SELECT
+  TO authenticated
+  USING (true);
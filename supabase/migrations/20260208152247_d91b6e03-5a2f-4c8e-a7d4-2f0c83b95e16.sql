@@ -0,0 +1,59 @@
+-- Raw technical and fundamental values on each verdict snapshot so the screener
+-- can filter on them without re-fetching every symbol
+ALTER TABLE public.verdict_snapshots
+  ADD COLUMN technicals JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(technicals) = 'object'),
+  ADD COLUMN fundamentals JSONB CHECK (fundamentals IS NULL OR jsonb_typeof(fundamentals) = 'object');
+
+-- Most recent snapshot per symbol, ignoring anything older than _max_age_days
+CREATE OR REPLACE FUNCTION public.get_latest_verdict_snapshots(_symbols TEXT[], _max_age_days INTEGER DEFAULT 7)
+RETURNS SETOF public.verdict_snapshots
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (symbol) *
+  FROM public.verdict_snapshots
+  WHERE symbol = ANY(_symbols)
+    AND snapshot_date >= CURRENT_DATE - _max_age_days
+  ORDER BY symbol, snapshot_date DESC;
+$$;
+
+-- Saved screener configurations
+-- filters/sort are validated client-side with zod; the database only checks their shape
+CREATE TABLE public.saved_screens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  universe TEXT NOT NULL CHECK (universe IN ('sp500', 'nasdaq100', 'watchlist')),
+  watchlist_id UUID REFERENCES public.watchlists(id) ON DELETE SET NULL,
+  filters JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(filters) = 'array'),
+  sort JSONB CHECK (sort IS NULL OR jsonb_typeof(sort) = 'object'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+ALTER TABLE public.saved_screens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved screens"
+  ON public.saved_screens FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved screens"
+  ON public.saved_screens FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved screens"
+  ON public.saved_screens FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved screens"
+  ON public.saved_screens FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_screens_updated_at
+BEFORE UPDATE ON public.saved_screens
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,55 @@
+-- Saved chart indicator layouts (instances with kind, params, source, style)
+-- indicators is validated client-side with zod; the database only checks its shape
+CREATE TABLE public.chart_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  indicators JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(indicators) = 'array'),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+-- At most one default template per user; none means the built-in indicator set
+CREATE UNIQUE INDEX chart_templates_one_default_per_user
+  ON public.chart_templates (user_id)
+  WHERE is_default;
+
+ALTER TABLE public.chart_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chart templates"
+  ON public.chart_templates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chart templates"
+  ON public.chart_templates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chart templates"
+  ON public.chart_templates FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chart templates"
+  ON public.chart_templates FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_chart_templates_updated_at
+BEFORE UPDATE ON public.chart_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Switch the default template in one statement so the partial unique index never sees two
+-- Pass NULL to fall back to the built-in indicators
+CREATE OR REPLACE FUNCTION public.set_default_chart_template(_template_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.chart_templates
+  SET is_default = (id = _template_id)
+  WHERE user_id = auth.uid()
+    AND (is_default OR id = _template_id);
+$$;
@@ -0,0 +1,36 @@
+-- Saved custom indicator formulas, reusable on any symbol's chart
+-- expression is parsed and validated client-side; the database only bounds its size
+CREATE TABLE public.indicator_formulas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  expression TEXT NOT NULL CHECK (char_length(expression) BETWEEN 1 AND 500),
+  plot TEXT NOT NULL DEFAULT 'oscillator' CHECK (plot IN ('overlay', 'oscillator')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+ALTER TABLE public.indicator_formulas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own indicator formulas"
+  ON public.indicator_formulas FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own indicator formulas"
+  ON public.indicator_formulas FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own indicator formulas"
+  ON public.indicator_formulas FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own indicator formulas"
+  ON public.indicator_formulas FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_indicator_formulas_updated_at
+BEFORE UPDATE ON public.indicator_formulas
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
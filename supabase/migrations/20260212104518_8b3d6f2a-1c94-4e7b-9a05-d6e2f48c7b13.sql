@@ -0,0 +1,4 @@
+-- Anchored VWAP lines are saved alongside the other chart drawings
+ALTER TABLE public.chart_drawings DROP CONSTRAINT IF EXISTS chart_drawings_type_check;
+ALTER TABLE public.chart_drawings ADD CONSTRAINT chart_drawings_type_check
+  CHECK (type IN ('trendline', 'fibonacci', 'horizontal', 'annotation', 'anchored_vwap'));
@@ -0,0 +1,7 @@
+-- New drawing tools: rays, parallel channels, vertical lines, rectangles, Fib extensions and measures
+ALTER TABLE public.chart_drawings DROP CONSTRAINT IF EXISTS chart_drawings_type_check;
+ALTER TABLE public.chart_drawings ADD CONSTRAINT chart_drawings_type_check
+  CHECK (type IN (
+    'trendline', 'ray', 'channel', 'horizontal', 'vertical', 'rectangle',
+    'fibonacci', 'fib_extension', 'measure', 'annotation', 'anchored_vwap'
+  ));
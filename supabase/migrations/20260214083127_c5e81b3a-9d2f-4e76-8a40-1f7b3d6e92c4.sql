@@ -0,0 +1,13 @@
+-- Drawings belong to the symbol and show on every timeframe unless limited to some.
+-- `timeframe` keeps the timeframe a drawing was made on.
+ALTER TABLE public.chart_drawings ADD COLUMN timeframes TEXT[];
+
+COMMENT ON COLUMN public.chart_drawings.timeframes IS
+  'Timeframes the drawing is shown on; NULL shows it on all timeframes';
+
+-- Existing drawings are left at NULL: they were only visible on the timeframe
+-- they were drawn on, but their dates now map onto any resolution, so they
+-- become symbol-wide like new drawings.
+
+DROP INDEX IF EXISTS idx_chart_drawings_user_symbol;
+CREATE INDEX idx_chart_drawings_user_symbol ON public.chart_drawings (user_id, symbol);
@@ -0,0 +1,60 @@
+-- Read-only chart snapshots shared by link (/s/:id)
+-- snapshot is validated client-side with zod; the database only checks its shape and size
+CREATE TABLE public.shared_charts (
+  id TEXT NOT NULL DEFAULT substr(replace(gen_random_uuid()::text, '-', ''), 1, 12) PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  symbol TEXT NOT NULL CHECK (char_length(symbol) BETWEEN 1 AND 20),
+  timeframe TEXT NOT NULL,
+  snapshot JSONB NOT NULL CHECK (jsonb_typeof(snapshot) = 'object' AND octet_length(snapshot::text) <= 200000),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shared_charts_user ON public.shared_charts (user_id, created_at DESC);
+
+ALTER TABLE public.shared_charts ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage their links; visitors only go through view_shared_chart below
+CREATE POLICY "Users can view their own shared charts"
+  ON public.shared_charts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own shared charts"
+  ON public.shared_charts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own shared charts"
+  ON public.shared_charts FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own shared charts"
+  ON public.shared_charts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Public read of one link by id: counts the view and returns nothing once the
+-- link is revoked or expired. Links cannot be listed without their id.
+CREATE OR REPLACE FUNCTION public.view_shared_chart(_share_id TEXT)
+RETURNS TABLE (
+  symbol TEXT,
+  timeframe TEXT,
+  snapshot JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  view_count INTEGER
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.shared_charts AS s
+  SET view_count = s.view_count + 1
+  WHERE s.id = _share_id
+    AND s.revoked_at IS NULL
+    AND (s.expires_at IS NULL OR s.expires_at > now())
+  RETURNING s.symbol, s.timeframe, s.snapshot, s.created_at, s.expires_at, s.view_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.view_shared_chart(TEXT) TO anon, authenticated;
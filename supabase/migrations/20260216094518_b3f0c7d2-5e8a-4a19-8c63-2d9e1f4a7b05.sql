@@ -0,0 +1,89 @@
+-- Stock Coach threads, so conversations survive reloads and can be resumed
+CREATE TABLE public.coach_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  active_symbols TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.coach_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.coach_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_coach_conversations_user ON public.coach_conversations (user_id, updated_at DESC);
+CREATE INDEX idx_coach_messages_conversation ON public.coach_messages (conversation_id, created_at);
+
+ALTER TABLE public.coach_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coach_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own coach conversations"
+  ON public.coach_conversations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own coach conversations"
+  ON public.coach_conversations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own coach conversations"
+  ON public.coach_conversations FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own coach conversations"
+  ON public.coach_conversations FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own coach messages"
+  ON public.coach_messages FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Messages can only be added to the user's own threads
+CREATE POLICY "Users can add messages to their own coach conversations"
+  ON public.coach_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.coach_conversations c
+      WHERE c.id = conversation_id AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own coach messages"
+  ON public.coach_messages FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_coach_conversations_updated_at
+BEFORE UPDATE ON public.coach_conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Threads whose title or any message contains the query, newest first
+-- Plain substring match so % and _ in the query need no escaping
+CREATE OR REPLACE FUNCTION public.search_coach_conversations(_query TEXT)
+RETURNS SETOF public.coach_conversations
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT c.*
+  FROM public.coach_conversations c
+  WHERE c.user_id = auth.uid()
+    AND (
+      strpos(lower(c.title), lower(_query)) > 0
+      OR EXISTS (
+        SELECT 1 FROM public.coach_messages m
+        WHERE m.conversation_id = c.id
+          AND strpos(lower(m.content), lower(_query)) > 0
+      )
+    )
+  ORDER BY c.updated_at DESC
+  LIMIT 50;
+$$;
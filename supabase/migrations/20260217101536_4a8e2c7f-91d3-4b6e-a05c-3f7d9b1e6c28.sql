@@ -0,0 +1,3 @@
+-- Data blocks a Stock Coach answer cited ([Q1], [N2]...), so resumed threads keep their sources
+ALTER TABLE public.coach_messages
+  ADD COLUMN citations JSONB;
@@ -0,0 +1,54 @@
+-- Daily AI usage per user and feature, so quotas survive edge function cold starts
+CREATE TABLE public.ai_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature TEXT NOT NULL CHECK (feature IN ('stock-coach', 'pulse-tutor', 'education')),
+  usage_date DATE NOT NULL DEFAULT (now() AT TIME ZONE 'utc')::date,
+  requests INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, feature, usage_date)
+);
+
+CREATE INDEX idx_ai_usage_user_date ON public.ai_usage(user_id, usage_date DESC);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage"
+ON public.ai_usage FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Usage is written by edge functions using service_role
+CREATE POLICY "Only service role can record AI usage"
+ON public.ai_usage FOR INSERT
+WITH CHECK (false);
+
+CREATE TRIGGER update_ai_usage_updated_at
+BEFORE UPDATE ON public.ai_usage
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Adds one request and its tokens to today's row in a single statement,
+-- so concurrent answers cannot lose each other's counts
+CREATE OR REPLACE FUNCTION public.record_ai_usage(
+  _user_id uuid,
+  _feature text,
+  _prompt_tokens integer,
+  _completion_tokens integer
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.ai_usage (user_id, feature, requests, prompt_tokens, completion_tokens)
+  VALUES (_user_id, _feature, 1, GREATEST(_prompt_tokens, 0), GREATEST(_completion_tokens, 0))
+  ON CONFLICT (user_id, feature, usage_date) DO UPDATE
+  SET requests = ai_usage.requests + 1,
+      prompt_tokens = ai_usage.prompt_tokens + EXCLUDED.prompt_tokens,
+      completion_tokens = ai_usage.completion_tokens + EXCLUDED.completion_tokens
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_ai_usage(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,12 @@
+-- verdict_snapshots.fundamentals holds unmasked premium fields (P/B, margins, ROIC,
+-- analyst targets...). Signed-in users may read every other column; the fundamentals
+-- are only served through the screener function, which masks them by tier.
+REVOKE SELECT ON public.verdict_snapshots FROM anon, authenticated;
+
+GRANT SELECT (
+  id, symbol, snapshot_date, score, signal, confidence, price,
+  layer_scores, top_metrics, metrics, technicals, created_at
+) ON public.verdict_snapshots TO authenticated;
+
+-- Returns whole rows, fundamentals included; only the screener (service role) calls it
+REVOKE EXECUTE ON FUNCTION public.get_latest_verdict_snapshots(TEXT[], INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,20 @@
+-- Deactivate first, then activate: unique indexes are checked row by row, so a single
+-- UPDATE could briefly hold two active profiles. NULL falls back to the built-in default.
+CREATE OR REPLACE FUNCTION public.set_active_verdict_profile(_profile_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.verdict_profiles
+  SET is_active = false
+  WHERE user_id = auth.uid()
+    AND is_active
+    AND id IS DISTINCT FROM _profile_id;
+
+  UPDATE public.verdict_profiles
+  SET is_active = true
+  WHERE user_id = auth.uid()
+    AND id = _profile_id
+    AND NOT is_active;
+$$;
@@ -0,0 +1,20 @@
+-- Same two-step switch as set_active_verdict_profile: clear the old default before
+-- setting the new one. NULL falls back to the built-in indicators.
+CREATE OR REPLACE FUNCTION public.set_default_chart_template(_template_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.chart_templates
+  SET is_default = false
+  WHERE user_id = auth.uid()
+    AND is_default
+    AND id IS DISTINCT FROM _template_id;
+
+  UPDATE public.chart_templates
+  SET is_default = true
+  WHERE user_id = auth.uid()
+    AND id = _template_id
+    AND NOT is_default;
+$$;
@@ -0,0 +1,64 @@
+-- Reserve each AI request before the model is called, so concurrent or
+-- cancelled answers cannot slip past the daily quota. Tokens are added once
+-- the answer is done.
+CREATE OR REPLACE FUNCTION public.reserve_ai_request(
+  _user_id uuid,
+  _feature text,
+  _request_limit integer,
+  _token_limit integer
+)
+RETURNS TABLE (allowed boolean, requests_used integer, tokens_used integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today date := (now() AT TIME ZONE 'utc')::date;
+BEGIN
+  -- The quota spans every feature, so one user's reservations take turns
+  PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || _user_id::text));
+
+  SELECT COALESCE(SUM(u.requests), 0), COALESCE(SUM(u.prompt_tokens + u.completion_tokens), 0)
+  INTO requests_used, tokens_used
+  FROM public.ai_usage u
+  WHERE u.user_id = _user_id AND u.usage_date = _today;
+
+  allowed := (_request_limit = -1 OR requests_used < _request_limit)
+    AND (_token_limit = -1 OR tokens_used < _token_limit);
+
+  IF allowed THEN
+    INSERT INTO public.ai_usage (user_id, feature, usage_date, requests)
+    VALUES (_user_id, _feature, _today, 1)
+    ON CONFLICT (user_id, feature, usage_date) DO UPDATE
+    SET requests = ai_usage.requests + 1;
+    requests_used := requests_used + 1;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Adds a reserved request's tokens to today's row
+CREATE OR REPLACE FUNCTION public.add_ai_tokens(
+  _user_id uuid,
+  _feature text,
+  _prompt_tokens integer,
+  _completion_tokens integer
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.ai_usage (user_id, feature, prompt_tokens, completion_tokens)
+  VALUES (_user_id, _feature, GREATEST(_prompt_tokens, 0), GREATEST(_completion_tokens, 0))
+  ON CONFLICT (user_id, feature, usage_date) DO UPDATE
+  SET prompt_tokens = ai_usage.prompt_tokens + EXCLUDED.prompt_tokens,
+      completion_tokens = ai_usage.completion_tokens + EXCLUDED.completion_tokens
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_ai_request(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.add_ai_tokens(uuid, text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Requests are now counted by reserve_ai_request
+DROP FUNCTION IF EXISTS public.record_ai_usage(uuid, text, integer, integer);
@@ -0,0 +1,3 @@
+-- Policies are OR'd, so this let any signed-in user read every drawing;
+-- "Users can view their own drawings" already keeps out anonymous reads
+DROP POLICY IF EXISTS "Block anonymous reads on chart_drawings" ON public.chart_drawings;
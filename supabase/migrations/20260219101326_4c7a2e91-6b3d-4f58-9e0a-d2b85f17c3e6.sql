@@ -0,0 +1,72 @@
+-- metrics/top_metrics are built from unmasked fundamentals and analyst ratings, and
+-- their descriptions and scores give the underlying values away. The client-readable
+-- columns now hold only the non-premium metrics; the full sets live in service-only
+-- columns and are served through get_verdict_history, which checks the caller's tier.
+ALTER TABLE public.verdict_snapshots
+  ADD COLUMN full_metrics JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN full_top_metrics JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE public.verdict_snapshots
+SET full_metrics = metrics,
+    full_top_metrics = top_metrics,
+    metrics = COALESCE((
+      SELECT jsonb_agg(m ORDER BY ord)
+      FROM jsonb_array_elements(metrics) WITH ORDINALITY AS e(m, ord)
+      WHERE m->>'layer' <> 'fundamental' AND m->>'id' <> 'analyst_rating'
+    ), '[]'::jsonb),
+    top_metrics = COALESCE((
+      SELECT jsonb_agg(m ORDER BY ord)
+      FROM jsonb_array_elements(top_metrics) WITH ORDINALITY AS e(m, ord)
+      WHERE m->>'layer' <> 'fundamental' AND m->>'id' <> 'analyst_rating'
+    ), '[]'::jsonb);
+
+-- Column grants are explicit, so the new columns stay unreadable; restated here for clarity
+REVOKE SELECT ON public.verdict_snapshots FROM anon, authenticated;
+
+GRANT SELECT (
+  id, symbol, snapshot_date, score, signal, confidence, price,
+  layer_scores, top_metrics, metrics, technicals, created_at
+) ON public.verdict_snapshots TO authenticated;
+
+-- Snapshot history for one symbol, oldest first; pro and elite callers get the full
+-- metric sets, everyone else the stripped ones
+CREATE OR REPLACE FUNCTION public.get_verdict_history(_symbol TEXT, _since DATE)
+RETURNS TABLE (
+  snapshot_date DATE,
+  score INTEGER,
+  signal TEXT,
+  confidence INTEGER,
+  price NUMERIC,
+  layer_scores JSONB,
+  top_metrics JSONB,
+  metrics JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH caller AS (
+    SELECT COALESCE(
+      (SELECT tier FROM public.user_subscriptions WHERE user_id = auth.uid()),
+      'free'
+    ) IN ('pro', 'elite') AS premium
+  )
+  SELECT
+    v.snapshot_date,
+    v.score,
+    v.signal,
+    v.confidence,
+    v.price,
+    v.layer_scores,
+    CASE WHEN caller.premium THEN v.full_top_metrics ELSE v.top_metrics END,
+    CASE WHEN caller.premium THEN v.full_metrics ELSE v.metrics END
+  FROM public.verdict_snapshots v, caller
+  WHERE auth.uid() IS NOT NULL
+    AND v.symbol = upper(_symbol)
+    AND v.snapshot_date >= _since
+  ORDER BY v.snapshot_date;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_verdict_history(TEXT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_verdict_history(TEXT, DATE) TO authenticated;
@@ -0,0 +1,13 @@
+-- Per-day failure counts for snapshot-verdicts, so symbols that can't be scored
+-- (no price history, delisted tickers) stop being retried after a few attempts
+CREATE TABLE public.verdict_snapshot_failures (
+  symbol TEXT NOT NULL,
+  snapshot_date DATE NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 1 CHECK (attempts > 0),
+  last_error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (symbol, snapshot_date)
+);
+
+-- Service role only: RLS on with no policies
+ALTER TABLE public.verdict_snapshot_failures ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,24 @@
+-- Daily verdict snapshots. snapshot-verdicts scores at most 60 symbols per call and
+-- returns immediately once nothing is pending, so it is called every 5 minutes
+-- through a two-hour window after the US close on weekdays.
+-- Expects the service role key in Vault under the name 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'snapshot-verdicts-daily',
+  '*/5 22-23 * * 1-5',
+  $$
+  SELECT net.http_post(
+    url := 'https://qtmqkggfnpksdqsfkncx.supabase.co/functions/v1/snapshot-verdicts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 150000
+  );
+  $$
+);
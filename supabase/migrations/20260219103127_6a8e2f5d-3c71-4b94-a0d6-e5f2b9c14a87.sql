@@ -0,0 +1,31 @@
+-- The update policy checked the item limit on every update, so once a downgrade left a
+-- list over its limit, renaming notes or reordering failed too. The limit now applies
+-- only when an item moves to another list; plain updates just need an owned list.
+DROP POLICY IF EXISTS "Users can update their own watchlist" ON public.watchlist;
+
+CREATE POLICY "Users can update their own watchlist"
+  ON public.watchlist FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.watchlists l WHERE l.id = watchlist_id AND l.user_id = auth.uid())
+  );
+
+-- Raises the same error code as an RLS violation so the client shows the limit message.
+-- Service role writes (no auth.uid()) bypass RLS and are not limited here either.
+CREATE OR REPLACE FUNCTION public.check_watchlist_item_move()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.can_place_watchlist_item(NEW.watchlist_id, NEW.id) THEN
+    RAISE EXCEPTION 'Watchlist item limit reached for this list'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_watchlist_item_move
+BEFORE UPDATE OF watchlist_id ON public.watchlist
+FOR EACH ROW
+WHEN (OLD.watchlist_id IS DISTINCT FROM NEW.watchlist_id)
+EXECUTE FUNCTION public.check_watchlist_item_move();
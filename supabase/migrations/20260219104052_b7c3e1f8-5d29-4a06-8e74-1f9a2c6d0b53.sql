@@ -0,0 +1,5 @@
+-- Owners may only revoke a link or change its expiry; the snapshot and view_count
+-- are fixed once created. view_shared_chart still counts views as the table owner.
+REVOKE UPDATE ON public.shared_charts FROM anon, authenticated;
+
+GRANT UPDATE (revoked_at, expires_at) ON public.shared_charts TO authenticated;